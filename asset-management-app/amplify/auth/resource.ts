@@ -14,4 +14,6 @@ export const auth = defineAuth({
       mutable: true,
     },
   },
+  // Members may query the audit trail (GET /admin/audit-events); matches ADMIN_GROUP in the Lambdas
+  groups: ['admins'],
 });
\ No newline at end of file
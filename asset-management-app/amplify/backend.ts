@@ -8,6 +8,8 @@ import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager'
 import * as lambda from 'aws-cdk-lib/aws-lambda'
 import * as apigateway from 'aws-cdk-lib/aws-apigateway'
 import * as iam from 'aws-cdk-lib/aws-iam'
+import * as events from 'aws-cdk-lib/aws-events'
+import * as targets from 'aws-cdk-lib/aws-events-targets'
 import { RemovalPolicy, Duration } from 'aws-cdk-lib'
 
 const backend = defineBackend({
@@ -44,6 +46,12 @@ vpc.addInterfaceEndpoint('SecretsManagerEndpoint', {
   subnets: { subnetType: ec2.SubnetType.PRIVATE_ISOLATED },
 })
 
+// S3 gateway endpoint - allows the trash purge job to delete asset objects
+vpc.addGatewayEndpoint('S3Endpoint', {
+  service: ec2.GatewayVpcEndpointAwsService.S3,
+  subnets: [{ subnetType: ec2.SubnetType.PRIVATE_ISOLATED }],
+})
+
 // Create security group for RDS
 const dbSecurityGroup = new ec2.SecurityGroup(stack, 'DBSecurityGroup', {
   vpc,
@@ -115,6 +123,13 @@ const lambdaRole = new iam.Role(stack, 'LambdaExecutionRole', {
 // Grant Lambda access to Secrets Manager
 dbSecret.grantRead(lambdaRole)
 
+// Grant Lambda access to the asset bucket
+// Presigned upload / download URLs are signed with the Lambda role, so it needs put and get;
+// the purge job and upload confirmation delete objects
+const assetBucket = backend.storage.resources.bucket
+assetBucket.grantReadWrite(lambdaRole, 'assets/*')
+assetBucket.grantDelete(lambdaRole, 'assets/*')
+
 // Common Lambda environment variables
 const lambdaEnvironment = {
   DB_HOST: dbInstance.dbInstanceEndpointAddress,
@@ -122,7 +137,11 @@ const lambdaEnvironment = {
   DB_NAME: 'HeraTraining',
   DB_USER: 'admin',
   DB_SECRET_NAME: dbSecret.secretName,
+  ASSET_BUCKET_NAME: assetBucket.bucketName,
+  TRASH_RETENTION_DAYS: '30',
   NODE_ENV: 'production',
+  // Reported by GET /health; AWS_COMMIT_ID is set in Amplify CI builds
+  BUILD_VERSION: process.env.AWS_COMMIT_ID || 'local',
 }
 
 // Common Lambda configuration
@@ -138,46 +157,34 @@ const lambdaConfig = {
 }
 
 // Create Lambda functions
-const createAssetFn = new lambda.Function(stack, 'CreateAssetFunction', {
-  ...lambdaConfig,
-  functionName: 'asset-management-createAsset',
-  code: lambda.Code.fromAsset('lambdas/functions/createAsset'),
-  handler: 'dist/index.handler',
-})
-
-const getAssetFn = new lambda.Function(stack, 'GetAssetFunction', {
-  ...lambdaConfig,
-  functionName: 'asset-management-getAsset',
-  code: lambda.Code.fromAsset('lambdas/functions/getAsset'),
-  handler: 'dist/index.handler',
-})
-
-const listAssetsFn = new lambda.Function(stack, 'ListAssetsFunction', {
+// dist/index.js is the esbuild bundle from lambdas/build-lambdas-bundle.sh; build before deploying
+// All asset endpoints are served by one routed Lambda (lambdas/shared/src/routes/assets.ts)
+const assetApiFn = new lambda.Function(stack, 'AssetApiFunction', {
   ...lambdaConfig,
-  functionName: 'asset-management-listAssets',
-  code: lambda.Code.fromAsset('lambdas/functions/listAssets'),
+  functionName: 'asset-management-api',
+  code: lambda.Code.fromAsset('lambdas/functions/api'),
   handler: 'dist/index.handler',
 })
 
-const updateAssetFn = new lambda.Function(stack, 'UpdateAssetFunction', {
+const syncSchemaFn = new lambda.Function(stack, 'SyncSchemaFunction', {
   ...lambdaConfig,
-  functionName: 'asset-management-updateAsset',
-  code: lambda.Code.fromAsset('lambdas/functions/updateAsset'),
+  functionName: 'asset-management-syncSchema',
+  code: lambda.Code.fromAsset('lambdas/functions/syncSchema'),
   handler: 'dist/index.handler',
 })
 
-const deleteAssetFn = new lambda.Function(stack, 'DeleteAssetFunction', {
+const purgeTrashFn = new lambda.Function(stack, 'PurgeTrashFunction', {
   ...lambdaConfig,
-  functionName: 'asset-management-deleteAsset',
-  code: lambda.Code.fromAsset('lambdas/functions/deleteAsset'),
+  functionName: 'asset-management-purgeTrash',
+  code: lambda.Code.fromAsset('lambdas/functions/purgeTrash'),
   handler: 'dist/index.handler',
 })
 
-const syncSchemaFn = new lambda.Function(stack, 'SyncSchemaFunction', {
-  ...lambdaConfig,
-  functionName: 'asset-management-syncSchema',
-  code: lambda.Code.fromAsset('lambdas/functions/syncSchema'),
-  handler: 'dist/index.handler',
+// Purge assets that have been in the trash longer than TRASH_RETENTION_DAYS, once a day
+new events.Rule(stack, 'PurgeTrashSchedule', {
+  description: 'Permanently remove expired trashed assets',
+  schedule: events.Schedule.rate(Duration.days(1)),
+  targets: [new targets.LambdaFunction(purgeTrashFn)],
 })
 
 // Create API Gateway
@@ -188,6 +195,35 @@ const api = new apigateway.RestApi(stack, 'AssetManagementApi', {
     stageName: 'prod',
     loggingLevel: apigateway.MethodLoggingLevel.INFO,
     dataTraceEnabled: true,
+    methodOptions: {
+      // Public share links need no token; throttle them before they reach the Lambda, which also
+      // limits each IP address and locks links after too many incorrect passwords
+      '/shared/{token}/GET': {
+        throttlingRateLimit: 20,
+        throttlingBurstLimit: 40,
+      },
+    },
+  },
+})
+
+// Cognito user-pool authorizer wired to the Amplify auth resource
+// Handlers read the caller from requestContext.authorizer.claims (sub = ownerId)
+const apiAuthorizer = new apigateway.CognitoUserPoolsAuthorizer(stack, 'AssetApiAuthorizer', {
+  cognitoUserPools: [backend.auth.resources.userPool],
+  identitySource: apigateway.IdentitySource.header('Authorization'),
+})
+
+const authorizedMethodOptions: apigateway.MethodOptions = {
+  authorizer: apiAuthorizer,
+  authorizationType: apigateway.AuthorizationType.COGNITO,
+}
+
+// Return CORS headers on authorizer rejections so the browser can read the 401/403
+api.addGatewayResponse('Default4xxResponse', {
+  type: apigateway.ResponseType.DEFAULT_4XX,
+  responseHeaders: {
+    'Access-Control-Allow-Origin': "'*'",
+    'Access-Control-Allow-Headers': "'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token,X-Request-Id,If-Match'",
   },
 })
 
@@ -198,36 +234,347 @@ const assets = api.root.addResource('assets')
 assets.addCorsPreflight({
   allowOrigins: ['*'],
   allowMethods: ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
 })
 
+// Proxy integration to the routed asset Lambda
+const assetApiIntegration = new apigateway.LambdaIntegration(assetApiFn)
+
 // POST /assets - Create asset
-assets.addMethod('POST', new apigateway.LambdaIntegration(createAssetFn))
+assets.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
 
 // GET /assets - List assets
-assets.addMethod('GET', new apigateway.LambdaIntegration(listAssetsFn))
+assets.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// POST /assets/bulk - Create, patch and delete several assets in one transaction
+const bulk = assets.addResource('bulk')
+
+bulk.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+bulk.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/export - Export assets as CSV or NDJSON
+const assetExport = assets.addResource('export')
+
+assetExport.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetExport.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// POST /assets/import - Create or update assets from CSV or NDJSON
+const assetImport = assets.addResource('import')
+
+assetImport.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetImport.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
 
 // GET /assets/{id} - Get asset by ID
 const asset = assets.addResource('{id}')
 
-// Add CORS support for the {id} resource
+// Add CORS support for the {id} resource (If-Match for optimistic concurrency on PATCH / DELETE)
 asset.addCorsPreflight({
   allowOrigins: ['*'],
   allowMethods: ['GET', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id', 'If-Match'],
 })
 
-asset.addMethod('GET', new apigateway.LambdaIntegration(getAssetFn))
+asset.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
 
 // PATCH /assets/{id} - Update asset
-asset.addMethod('PATCH', new apigateway.LambdaIntegration(updateAssetFn))
+asset.addMethod('PATCH', assetApiIntegration, authorizedMethodOptions)
+
+// DELETE /assets/{id} - Move asset to trash
+asset.addMethod('DELETE', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/trash - List trashed assets
+const trash = assets.addResource('trash')
+
+trash.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+trash.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// POST /assets/{id}/restore - Restore asset from trash
+const restore = asset.addResource('restore')
+
+restore.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+restore.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/{id}/revisions - List an asset's revisions
+const revisions = asset.addResource('revisions')
+
+revisions.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+revisions.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// POST /assets/{id}/revisions/{revision}/restore - Restore the values of an earlier revision
+const revisionRestore = revisions.addResource('{revision}').addResource('restore')
+
+revisionRestore.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id', 'If-Match'],
+})
+
+revisionRestore.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/{id}/tags, POST /assets/{id}/tags - List and add an asset's tags
+const assetTags = asset.addResource('tags')
+
+assetTags.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetTags.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+assetTags.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// DELETE /assets/{id}/tags/{tagId} - Remove a tag from an asset
+const assetTag = assetTags.addResource('{tagId}')
+
+assetTag.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetTag.addMethod('DELETE', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/{id}/shares, POST /assets/{id}/shares - List and add an asset's shares (owner only)
+const assetShares = asset.addResource('shares')
+
+assetShares.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetShares.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+assetShares.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// DELETE /assets/{id}/shares/{shareId} - Stop sharing an asset
+const assetShare = assetShares.addResource('{shareId}')
+
+assetShare.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetShare.addMethod('DELETE', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/{id}/links, POST /assets/{id}/links - List and create an asset's public links (owner only)
+const assetLinks = asset.addResource('links')
 
-// DELETE /assets/{id} - Delete asset
-asset.addMethod('DELETE', new apigateway.LambdaIntegration(deleteAssetFn))
+assetLinks.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetLinks.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+assetLinks.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// DELETE /assets/{id}/links/{linkId} - Revoke a public link
+const assetLink = assetLinks.addResource('{linkId}')
+
+assetLink.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+assetLink.addMethod('DELETE', assetApiIntegration, authorizedMethodOptions)
+
+// POST /assets/{id}/upload-url - Presigned upload URL
+const uploadUrl = asset.addResource('upload-url')
+
+uploadUrl.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+uploadUrl.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// POST /assets/{id}/upload-complete - Attach the uploaded object to the asset
+const uploadComplete = asset.addResource('upload-complete')
+
+uploadComplete.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+uploadComplete.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/{id}/download-url - Presigned download URL
+const downloadUrl = asset.addResource('download-url')
+
+downloadUrl.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+downloadUrl.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/{id}/files - List files
+// POST /assets/{id}/files - Attach an uploaded file
+const files = asset.addResource('files')
+
+files.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'POST', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+files.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+files.addMethod('POST', assetApiIntegration, authorizedMethodOptions)
+
+// GET / PATCH / DELETE /assets/{id}/files/{fileId} - Get, update or delete a file
+const file = files.addResource('{fileId}')
+
+file.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+file.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+file.addMethod('PATCH', assetApiIntegration, authorizedMethodOptions)
+file.addMethod('DELETE', assetApiIntegration, authorizedMethodOptions)
+
+// GET /assets/{id}/files/{fileId}/download-url - Presigned download URL for a file
+const fileDownloadUrl = file.addResource('download-url')
+
+fileDownloadUrl.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+fileDownloadUrl.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// GET /tags - List the caller's tags
+const tags = api.root.addResource('tags')
+
+tags.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
 
-// Add sync-schema endpoint (for one-time use)
-// Note: Lambda invoked asynchronously to avoid API Gateway 29-second timeout
+tags.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// GET /usage - The caller's rate limit, quotas and current usage
+const usage = api.root.addResource('usage')
+
+usage.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+usage.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// GET /openapi.json - OpenAPI document generated from the route schemas (no authentication)
+const openApi = api.root.addResource('openapi.json')
+
+openApi.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'X-Request-Id'],
+})
+
+openApi.addMethod('GET', assetApiIntegration)
+
+// GET /shared/{token} - Open a public share link (no authentication; the token and password are checked by the Lambda)
+const sharedLink = api.root.addResource('shared').addResource('{token}')
+
+sharedLink.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'X-Request-Id', 'X-Link-Password'],
+})
+
+sharedLink.addMethod('GET', assetApiIntegration)
+
+// GET /health - Liveness check (no authentication, used by uptime monitoring)
+const health = api.root.addResource('health')
+
+health.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'X-Request-Id'],
+})
+
+health.addMethod('GET', assetApiIntegration)
+
+// GET /health/ready - Readiness check of the database and Secrets Manager (no authentication)
+const healthReady = health.addResource('ready')
+
+healthReady.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'X-Request-Id'],
+})
+
+healthReady.addMethod('GET', assetApiIntegration)
+
+// /admin - Administrator endpoints (Cognito token required; the admins group is checked by the Lambdas)
 const admin = api.root.addResource('admin')
+
+// GET /admin/audit-events - Query the audit trail (admins group only, checked by the Lambda)
+const auditEvents = admin.addResource('audit-events')
+
+auditEvents.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+auditEvents.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+
+// GET / PUT /admin/limits/{ownerId} - Read or override a user's rate limit and quotas (admins group only)
+const ownerLimits = admin.addResource('limits').addResource('{ownerId}')
+
+ownerLimits.addCorsPreflight({
+  allowOrigins: ['*'],
+  allowMethods: ['GET', 'PUT', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'X-Amz-Date', 'X-Api-Key', 'X-Amz-Security-Token', 'X-Request-Id'],
+})
+
+ownerLimits.addMethod('GET', assetApiIntegration, authorizedMethodOptions)
+ownerLimits.addMethod('PUT', assetApiIntegration, authorizedMethodOptions)
+
+// POST /admin/sync-schema - Run pending migrations (admins group only)
+// The authorizer verifies the token; the template passes the caller's groups to the Lambda, which
+// throws "Forbidden: ..." for non-admins, mapped to 403 below
 const syncSchema = admin.addResource('sync-schema')
 syncSchema.addMethod(
   'POST',
@@ -243,17 +590,34 @@ syncSchema.addMethod(
           }`,
         },
       },
+      {
+        statusCode: '403',
+        selectionPattern: 'Forbidden.*',
+        responseTemplates: {
+          'application/json': '{"success": false, "error": "Administrator access required"}',
+        },
+      },
     ],
     requestTemplates: {
-      'application/json': '{"statusCode": 200}',
+      'application/json': `{
+        "command": "up",
+        "caller": {
+          "sub": "$util.escapeJavaScript($context.authorizer.claims.sub)",
+          "groups": "$util.escapeJavaScript($context.authorizer.claims['cognito:groups'])"
+        }
+      }`,
     },
     passthroughBehavior: apigateway.PassthroughBehavior.WHEN_NO_TEMPLATES,
   }),
   {
+    ...authorizedMethodOptions,
     methodResponses: [
       {
         statusCode: '202',
       },
+      {
+        statusCode: '403',
+      },
     ],
   }
 )
@@ -1,7 +1,8 @@
 import { type ClientSchema, a, defineData } from '@aws-amplify/backend'
 
 const schema = a.schema({
-  // Asset Tags - flexible tagging system
+  // Asset Tags - DEPRECATED: tags live in MySQL (Tags / AssetTags, /assets/{id}/tags).
+  // Kept until existing records are copied with `npm run copy:appsync-tags` in lambdas/shared.
   AssetTag: a
     .model({
       assetId: a.string().required(),
@@ -12,7 +13,8 @@ const schema = a.schema({
     })
     .authorization((allow) => [allow.authenticated()]),
 
-  // Asset Status - track asset lifecycle
+  // Asset Status - DEPRECATED: status is an Assets column in MySQL (PATCH /assets/{id}).
+  // Kept until existing records are copied with `npm run copy:appsync-tags` in lambdas/shared.
   AssetStatus: a
     .model({
       assetId: a.string().required(),
@@ -23,7 +25,8 @@ const schema = a.schema({
     })
     .authorization((allow) => [allow.authenticated()]),
 
-  // Activity Log - audit trail
+  // Activity Log - DEPRECATED: the API writes the audit trail to MySQL (AuditEvents,
+  // GET /admin/audit-events). Read-only for admins so clients can no longer forge entries.
   ActivityLog: a
     .model({
       assetId: a.string().required(),
@@ -32,7 +35,7 @@ const schema = a.schema({
       details: a.string(),
       timestamp: a.datetime(),
     })
-    .authorization((allow) => [allow.authenticated()]),
+    .authorization((allow) => [allow.group('admins').to(['read'])]),
 })
 
 export type Schema = ClientSchema<typeof schema>
@@ -0,0 +1,1219 @@
+/* eslint-disable */
+// Generated from the API's OpenAPI document by lambdas/shared/scripts/generateClient.ts - do not edit.
+// Regenerate with: cd lambdas/shared && npm run generate:client
+
+export const API_VERSION = '1.0.0'
+
+export type ApiErrorBody = {
+  success: boolean
+  error: string
+  field?: string
+  errors?: Array<{
+    field?: string
+    message: string
+  }>
+}
+
+export type ListAssetsQuery = {
+  scope?: 'owned' | 'shared' | 'all'
+  ownerId?: string
+  category?: 'image' | 'document' | 'video' | 'other'
+  status?: 'active' | 'archived' | 'maintenance'
+  tag?: string
+  q?: string
+  sort?: string
+  limit?: number
+  cursor?: string
+  offset?: number
+  count?: boolean
+}
+
+export type ListAssetsResponse = {
+  assets: Array<{
+    id: string
+    ownerId: string
+    externalKey: string | null
+    name: string
+    description: string | null
+    category: 'image' | 'document' | 'video' | 'other'
+    imageKey: string | null
+    status: 'active' | 'archived' | 'maintenance'
+    statusNote: string | null
+    createdAt: string
+    updatedAt: string
+    version: number
+    etag: string
+    access: 'owner' | 'viewer' | 'editor'
+    relevance?: number | null
+    highlights?: {
+      name: string
+      description: string | null
+    }
+  }>
+  pagination: {
+    total: number | null
+    limit: number
+    offset: number | null
+    currentPage: number | null
+    totalPages: number | null
+    hasMore: boolean
+    nextCursor: string | null
+    prevCursor: string | null
+  }
+}
+
+export type CreateAssetBody = {
+  ownerId?: string
+  name: string
+  description?: string | null
+  category: 'image' | 'document' | 'video' | 'other'
+  status?: 'active' | 'archived' | 'maintenance'
+  statusNote?: string | null
+  imageKey?: null
+}
+
+export type CreateAssetResponse = {
+  id: string
+  ownerId: string
+  externalKey: string | null
+  name: string
+  description: string | null
+  category: 'image' | 'document' | 'video' | 'other'
+  imageKey: string | null
+  status: 'active' | 'archived' | 'maintenance'
+  statusNote: string | null
+  createdAt: string
+  updatedAt: string
+  version: number
+  etag: string
+}
+
+export type ListTrashQuery = {
+  limit?: number
+  offset?: number
+}
+
+export type ListTrashResponse = {
+  assets: Array<{
+    id: string
+    ownerId: string
+    externalKey: string | null
+    name: string
+    description: string | null
+    category: 'image' | 'document' | 'video' | 'other'
+    imageKey: string | null
+    status: 'active' | 'archived' | 'maintenance'
+    statusNote: string | null
+    createdAt: string
+    updatedAt: string
+    version: number
+    etag: string
+    deletedAt: string
+  }>
+  pagination: {
+    total: number
+    limit: number
+    offset: number
+    currentPage: number
+    totalPages: number
+    hasMore: boolean
+  }
+}
+
+export type GetAssetParams = {
+  id: string
+}
+
+export type GetAssetResponse = {
+  id: string
+  ownerId: string
+  externalKey: string | null
+  name: string
+  description: string | null
+  category: 'image' | 'document' | 'video' | 'other'
+  imageKey: string | null
+  status: 'active' | 'archived' | 'maintenance'
+  statusNote: string | null
+  createdAt: string
+  updatedAt: string
+  version: number
+  etag: string
+  access: 'owner' | 'viewer' | 'editor'
+  files: Array<{
+    id: string
+    assetId: string
+    key: string
+    mimeType: string
+    size: number
+    checksum: string | null
+    role: 'primary' | 'thumbnail' | 'attachment'
+    createdAt: string
+    updatedAt: string
+  }>
+  tags: Array<{
+    id: string
+    name: string
+    value: string | null
+    createdAt: string
+  }>
+}
+
+export type UpdateAssetParams = {
+  id: string
+}
+
+export type UpdateAssetHeaders = {
+  'If-Match'?: string
+}
+
+export type UpdateAssetBody = {
+  name?: string
+  description?: string | null
+  category?: 'image' | 'document' | 'video' | 'other'
+  status?: 'active' | 'archived' | 'maintenance'
+  statusNote?: string | null
+  imageKey?: null
+}
+
+export type UpdateAssetResponse = {
+  id: string
+  ownerId: string
+  externalKey: string | null
+  name: string
+  description: string | null
+  category: 'image' | 'document' | 'video' | 'other'
+  imageKey: string | null
+  status: 'active' | 'archived' | 'maintenance'
+  statusNote: string | null
+  createdAt: string
+  updatedAt: string
+  version: number
+  etag: string
+}
+
+export type DeleteAssetParams = {
+  id: string
+}
+
+export type DeleteAssetHeaders = {
+  'If-Match'?: string
+}
+
+export type RestoreAssetParams = {
+  id: string
+}
+
+export type RestoreAssetResponse = {
+  id: string
+  ownerId: string
+  externalKey: string | null
+  name: string
+  description: string | null
+  category: 'image' | 'document' | 'video' | 'other'
+  imageKey: string | null
+  status: 'active' | 'archived' | 'maintenance'
+  statusNote: string | null
+  createdAt: string
+  updatedAt: string
+  version: number
+  etag: string
+}
+
+export type BulkAssetsBody = {
+  mode?: 'all-or-nothing' | 'best-effort'
+  operations: Array<{
+    op: 'create' | 'patch' | 'delete'
+    id?: string
+    data?: {
+      name?: string
+      description?: string | null
+      category?: 'image' | 'document' | 'video' | 'other'
+      status?: 'active' | 'archived' | 'maintenance'
+      statusNote?: string | null
+      imageKey?: null
+      ownerId?: string
+    }
+  }>
+}
+
+export type BulkAssetsResponse = {
+  mode: 'all-or-nothing' | 'best-effort'
+  committed: boolean
+  succeeded: number
+  failed: number
+  results: Array<{
+    index: number
+    op: 'create' | 'patch' | 'delete'
+    id: string | null
+    status: 'succeeded' | 'failed' | 'rolledBack'
+    statusCode: number
+    asset?: {
+      id: string
+      ownerId: string
+      externalKey: string | null
+      name: string
+      description: string | null
+      category: 'image' | 'document' | 'video' | 'other'
+      imageKey: string | null
+      status: 'active' | 'archived' | 'maintenance'
+      statusNote: string | null
+      createdAt: string
+      updatedAt: string
+      version: number
+      etag: string
+    } | null
+    error?: string
+    errors?: Array<{
+      field: string
+      message: string
+    }>
+  }>
+}
+
+export type ExportAssetsQuery = {
+  format?: 'csv' | 'ndjson'
+  category?: 'image' | 'document' | 'video' | 'other'
+  status?: 'active' | 'archived' | 'maintenance'
+  tag?: string
+  q?: string
+  sort?: string
+}
+
+export type ImportAssetsBody = {
+  format: 'csv' | 'ndjson'
+  content: string
+  dryRun?: boolean
+}
+
+export type ImportAssetsResponse = {
+  dryRun: boolean
+  total: number
+  created: number
+  updated: number
+  unchanged: number
+  failed: number
+  rows: Array<{
+    line: number
+    externalKey: string | null
+    action: 'create' | 'update' | 'unchanged' | 'error'
+    id: string | null
+    errors?: Array<{
+      field: string
+      message: string
+    }>
+  }>
+}
+
+export type CreateUploadUrlParams = {
+  id: string
+}
+
+export type CreateUploadUrlBody = {
+  contentType: string
+  size: number
+  role?: 'primary' | 'thumbnail' | 'attachment'
+}
+
+export type CreateUploadUrlResponse = {
+  uploadUrl: string
+  method: 'PUT'
+  headers: {
+    'Content-Type': string
+  }
+  key: string
+  expiresAt: string
+}
+
+export type CompleteUploadParams = {
+  id: string
+}
+
+export type CompleteUploadBody = {
+  key: string
+  checksum?: string | null
+}
+
+export type CompleteUploadResponse = {
+  id: string
+  ownerId: string
+  externalKey: string | null
+  name: string
+  description: string | null
+  category: 'image' | 'document' | 'video' | 'other'
+  imageKey: string | null
+  status: 'active' | 'archived' | 'maintenance'
+  statusNote: string | null
+  createdAt: string
+  updatedAt: string
+  version: number
+  etag: string
+}
+
+export type CreateDownloadUrlParams = {
+  id: string
+}
+
+export type CreateDownloadUrlQuery = {
+  attachment?: boolean
+}
+
+export type CreateDownloadUrlResponse = {
+  downloadUrl: string
+  key: string
+  expiresAt: string
+}
+
+export type ListFilesParams = {
+  id: string
+}
+
+export type ListFilesResponse = {
+  files: Array<{
+    id: string
+    assetId: string
+    key: string
+    mimeType: string
+    size: number
+    checksum: string | null
+    role: 'primary' | 'thumbnail' | 'attachment'
+    createdAt: string
+    updatedAt: string
+  }>
+}
+
+export type CreateFileParams = {
+  id: string
+}
+
+export type CreateFileBody = {
+  key: string
+  role?: 'primary' | 'thumbnail' | 'attachment'
+  checksum?: string | null
+}
+
+export type CreateFileResponse = {
+  id: string
+  assetId: string
+  key: string
+  mimeType: string
+  size: number
+  checksum: string | null
+  role: 'primary' | 'thumbnail' | 'attachment'
+  createdAt: string
+  updatedAt: string
+}
+
+export type GetFileParams = {
+  id: string
+  fileId: string
+}
+
+export type GetFileResponse = {
+  id: string
+  assetId: string
+  key: string
+  mimeType: string
+  size: number
+  checksum: string | null
+  role: 'primary' | 'thumbnail' | 'attachment'
+  createdAt: string
+  updatedAt: string
+}
+
+export type UpdateFileParams = {
+  id: string
+  fileId: string
+}
+
+export type UpdateFileBody = {
+  role?: 'primary' | 'thumbnail' | 'attachment'
+  checksum?: string | null
+}
+
+export type UpdateFileResponse = {
+  id: string
+  assetId: string
+  key: string
+  mimeType: string
+  size: number
+  checksum: string | null
+  role: 'primary' | 'thumbnail' | 'attachment'
+  createdAt: string
+  updatedAt: string
+}
+
+export type DeleteFileParams = {
+  id: string
+  fileId: string
+}
+
+export type CreateFileDownloadUrlParams = {
+  id: string
+  fileId: string
+}
+
+export type CreateFileDownloadUrlQuery = {
+  attachment?: boolean
+}
+
+export type CreateFileDownloadUrlResponse = {
+  downloadUrl: string
+  key: string
+  expiresAt: string
+}
+
+export type ListAssetRevisionsParams = {
+  id: string
+}
+
+export type ListAssetRevisionsQuery = {
+  limit?: number
+  offset?: number
+}
+
+export type ListAssetRevisionsResponse = {
+  revisions: Array<{
+    id: string
+    assetId: string
+    revision: number
+    action: 'created' | 'updated' | 'deleted' | 'restored' | 'reverted'
+    actorId: string
+    changes: Array<{
+      field: 'name' | 'description' | 'category' | 'status' | 'statusNote' | 'imageKey' | 'externalKey'
+      from: string | null
+      to: string | null
+    }>
+    revertedTo: number | null
+    createdAt: string
+  }>
+  pagination: {
+    total: number
+    limit: number
+    offset: number
+    currentPage: number
+    totalPages: number
+    hasMore: boolean
+  }
+}
+
+export type RestoreAssetRevisionParams = {
+  id: string
+  revision: number
+}
+
+export type RestoreAssetRevisionHeaders = {
+  'If-Match'?: string
+}
+
+export type RestoreAssetRevisionResponse = {
+  id: string
+  ownerId: string
+  externalKey: string | null
+  name: string
+  description: string | null
+  category: 'image' | 'document' | 'video' | 'other'
+  imageKey: string | null
+  status: 'active' | 'archived' | 'maintenance'
+  statusNote: string | null
+  createdAt: string
+  updatedAt: string
+  version: number
+  etag: string
+}
+
+export type ListTagsResponse = {
+  tags: Array<{
+    id: string
+    name: string
+    value: string | null
+    createdAt: string
+    assetCount: number
+  }>
+}
+
+export type ListAssetTagsParams = {
+  id: string
+}
+
+export type ListAssetTagsResponse = {
+  tags: Array<{
+    id: string
+    name: string
+    value: string | null
+    createdAt: string
+  }>
+}
+
+export type AddAssetTagParams = {
+  id: string
+}
+
+export type AddAssetTagBody = {
+  name: string
+  value?: string | null
+}
+
+export type AddAssetTagResponse = {
+  id: string
+  name: string
+  value: string | null
+  createdAt: string
+}
+
+export type RemoveAssetTagParams = {
+  id: string
+  tagId: string
+}
+
+export type ListAssetSharesParams = {
+  id: string
+}
+
+export type ListAssetSharesResponse = {
+  shares: Array<{
+    id: string
+    assetId: string
+    granteeType: 'user' | 'group'
+    granteeId: string
+    role: 'viewer' | 'editor'
+    createdBy: string
+    createdAt: string
+    updatedAt: string
+  }>
+}
+
+export type ShareAssetParams = {
+  id: string
+}
+
+export type ShareAssetBody = {
+  granteeType?: 'user' | 'group'
+  granteeId: string
+  role: 'viewer' | 'editor'
+}
+
+export type ShareAssetResponse = {
+  id: string
+  assetId: string
+  granteeType: 'user' | 'group'
+  granteeId: string
+  role: 'viewer' | 'editor'
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type UnshareAssetParams = {
+  id: string
+  shareId: string
+}
+
+export type ListShareLinksParams = {
+  id: string
+}
+
+export type ListShareLinksResponse = {
+  links: Array<{
+    id: string
+    assetId: string
+    status: 'active' | 'expired' | 'revoked' | 'exhausted'
+    hasPassword: boolean
+    expiresAt: string
+    maxDownloads: number | null
+    downloadCount: number
+    accessCount: number
+    lastAccessedAt: string | null
+    revokedAt: string | null
+    createdBy: string
+    createdAt: string
+  }>
+}
+
+export type CreateShareLinkParams = {
+  id: string
+}
+
+export type CreateShareLinkBody = {
+  expiresAt?: string
+  maxDownloads?: number | null
+  password?: string
+}
+
+export type CreateShareLinkResponse = {
+  id: string
+  assetId: string
+  status: 'active' | 'expired' | 'revoked' | 'exhausted'
+  hasPassword: boolean
+  expiresAt: string
+  maxDownloads: number | null
+  downloadCount: number
+  accessCount: number
+  lastAccessedAt: string | null
+  revokedAt: string | null
+  createdBy: string
+  createdAt: string
+  token: string
+}
+
+export type RevokeShareLinkParams = {
+  id: string
+  linkId: string
+}
+
+export type GetSharedAssetParams = {
+  token: string
+}
+
+export type GetSharedAssetHeaders = {
+  'X-Link-Password'?: string
+}
+
+export type GetSharedAssetResponse = {
+  asset: {
+    name: string
+    description: string | null
+    category: 'image' | 'document' | 'video' | 'other'
+    updatedAt: string
+  }
+  file: {
+    mimeType: string
+    size: number
+    downloadUrl: string
+    downloadUrlExpiresAt: string
+  } | null
+  link: {
+    expiresAt: string
+    downloadsRemaining: number | null
+  }
+}
+
+export type GetUsageResponse = {
+  ownerId: string
+  limits: {
+    requestsPerMinute: number
+    maxAssets: number
+    maxBytesPerCategory: {
+      image: number
+      document: number
+      video: number
+      other: number
+    }
+  }
+  overrides: {
+    requestsPerMinute: number | null
+    maxAssets: number | null
+    maxBytesPerCategory: {
+      image: number | null
+      document: number | null
+      video: number | null
+      other: number | null
+    }
+  }
+  usage: {
+    assets: number
+    bytesByCategory: {
+      image: number
+      document: number
+      video: number
+      other: number
+    }
+    requestsThisMinute: number
+  }
+}
+
+export type GetOwnerLimitsParams = {
+  ownerId: string
+}
+
+export type GetOwnerLimitsResponse = {
+  ownerId: string
+  limits: {
+    requestsPerMinute: number
+    maxAssets: number
+    maxBytesPerCategory: {
+      image: number
+      document: number
+      video: number
+      other: number
+    }
+  }
+  overrides: {
+    requestsPerMinute: number | null
+    maxAssets: number | null
+    maxBytesPerCategory: {
+      image: number | null
+      document: number | null
+      video: number | null
+      other: number | null
+    }
+  }
+  usage: {
+    assets: number
+    bytesByCategory: {
+      image: number
+      document: number
+      video: number
+      other: number
+    }
+    requestsThisMinute: number
+  }
+}
+
+export type UpdateOwnerLimitsParams = {
+  ownerId: string
+}
+
+export type UpdateOwnerLimitsBody = {
+  requestsPerMinute?: number | null
+  maxAssets?: number | null
+  maxBytesPerCategory?: {
+    image?: number | null
+    document?: number | null
+    video?: number | null
+    other?: number | null
+  }
+}
+
+export type UpdateOwnerLimitsResponse = {
+  ownerId: string
+  limits: {
+    requestsPerMinute: number
+    maxAssets: number
+    maxBytesPerCategory: {
+      image: number
+      document: number
+      video: number
+      other: number
+    }
+  }
+  overrides: {
+    requestsPerMinute: number | null
+    maxAssets: number | null
+    maxBytesPerCategory: {
+      image: number | null
+      document: number | null
+      video: number | null
+      other: number | null
+    }
+  }
+  usage: {
+    assets: number
+    bytesByCategory: {
+      image: number
+      document: number
+      video: number
+      other: number
+    }
+    requestsThisMinute: number
+  }
+}
+
+export type ListAuditEventsQuery = {
+  from?: string
+  to?: string
+  actorId?: string
+  assetId?: string
+  ownerId?: string
+  action?: 'created' | 'viewed' | 'updated' | 'deleted' | 'restored' | 'reverted' | 'purged'
+  limit?: number
+  offset?: number
+}
+
+export type ListAuditEventsResponse = {
+  events: Array<{
+    id: string
+    assetId: string
+    ownerId: string
+    actorId: string
+    action: 'created' | 'viewed' | 'updated' | 'deleted' | 'restored' | 'reverted' | 'purged'
+    beforeHash: string | null
+    afterHash: string | null
+    sourceIp: string | null
+    userAgent: string | null
+    requestId: string | null
+    createdAt: string
+  }>
+  pagination: {
+    total: number
+    limit: number
+    offset: number
+    currentPage: number
+    totalPages: number
+    hasMore: boolean
+  }
+}
+
+export type GetHealthResponse = {
+  status: 'ok'
+  version: string
+  uptimeSeconds: number
+  timestamp: string
+}
+
+export type GetReadinessResponse = {
+  status: 'ok' | 'degraded'
+  version: string
+  timestamp: string
+  checks: {
+    database: {
+      status: 'ok' | 'fail' | 'skipped'
+      durationMs: number
+      message?: string
+    }
+    secretsManager: {
+      status: 'ok' | 'fail' | 'skipped'
+      durationMs: number | null
+      cacheAgeSeconds: number | null
+      message?: string
+    }
+  }
+  pool: {
+    size: number
+    available: number
+    using: number
+    waiting: number
+    max: number
+    min: number
+  } | null
+}
+
+export interface ApiClientOptions {
+  // API Gateway stage URL, e.g. https://abc123.execute-api.us-east-1.amazonaws.com/prod
+  baseUrl: string
+  // Cognito ID token sent as the Bearer token on authenticated operations
+  getToken?: () => Promise<string | undefined> | string | undefined
+  fetch?: typeof fetch
+}
+
+export interface ApiFieldError {
+  field?: string
+  message: string
+}
+
+/**
+ * Error response from the API
+ * `errors` lists every invalid field on 400 responses
+ */
+export class ApiError extends Error {
+  status: number
+  field?: string
+  errors: ApiFieldError[]
+  requestId?: string
+
+  constructor(status: number, body: ApiErrorBody | null, requestId?: string) {
+    super(body?.error || `Request failed with status ${status}`)
+    this.name = 'ApiError'
+    this.status = status
+    this.field = body?.field
+    this.errors = body?.errors ?? []
+    this.requestId = requestId
+  }
+}
+
+interface RequestParts {
+  params?: object
+  query?: object
+  headers?: object
+  body?: unknown
+}
+
+function buildPath(template: string, params: object = {}): string {
+  return template.replace(/\{(\w+)\}/g, (_, name) => encodeURIComponent(String((params as any)[name])))
+}
+
+function buildQuery(query: object = {}): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value))
+    }
+  }
+  const text = search.toString()
+  return text ? `?${text}` : ''
+}
+
+/**
+ * Create a client for the asset API
+ */
+export function createApiClient(options: ApiClientOptions) {
+  const fetchImpl = options.fetch ?? fetch
+
+  async function send(
+    method: string,
+    path: string,
+    parts: RequestParts,
+    authenticated: boolean,
+    responseType: 'envelope' | 'json' | 'text'
+  ): Promise<any> {
+    const headers: Record<string, string> = {}
+    for (const [name, value] of Object.entries(parts.headers ?? {})) {
+      if (value !== undefined && value !== null) {
+        headers[name] = String(value)
+      }
+    }
+    if (parts.body !== undefined) {
+      headers['Content-Type'] = 'application/json'
+    }
+    if (authenticated && options.getToken) {
+      const token = await options.getToken()
+      if (token) {
+        headers.Authorization = `Bearer ${token}`
+      }
+    }
+
+    const url = options.baseUrl.replace(/\/$/, '') + buildPath(path, parts.params) + buildQuery(parts.query)
+    const response = await fetchImpl(url, {
+      method,
+      headers,
+      body: parts.body === undefined ? undefined : JSON.stringify(parts.body),
+    })
+
+    const text = await response.text()
+    if (response.ok && responseType === 'text') {
+      return text
+    }
+    const payload = text ? JSON.parse(text) : null
+    if (!response.ok) {
+      throw new ApiError(response.status, payload, response.headers.get('X-Request-Id') ?? undefined)
+    }
+    return responseType === 'envelope' ? payload?.data : payload
+  }
+
+  return {
+    /**
+     * GET /assets - List the caller's assets and the assets shared with them
+     */
+    listAssets: (request: { query?: ListAssetsQuery } = {}): Promise<ListAssetsResponse> =>
+      send('GET', '/assets', request, true, 'envelope'),
+
+    /**
+     * POST /assets - Create an asset
+     */
+    createAsset: (request: { body: CreateAssetBody }): Promise<CreateAssetResponse> =>
+      send('POST', '/assets', request, true, 'envelope'),
+
+    /**
+     * GET /assets/trash - List the caller's trashed assets
+     */
+    listTrash: (request: { query?: ListTrashQuery } = {}): Promise<ListTrashResponse> =>
+      send('GET', '/assets/trash', request, true, 'envelope'),
+
+    /**
+     * GET /assets/{id} - Get an asset with its files
+     */
+    getAsset: (request: { params: GetAssetParams }): Promise<GetAssetResponse> =>
+      send('GET', '/assets/{id}', request, true, 'envelope'),
+
+    /**
+     * PATCH /assets/{id} - Update an asset
+     */
+    updateAsset: (request: { params: UpdateAssetParams; headers?: UpdateAssetHeaders; body: UpdateAssetBody }): Promise<UpdateAssetResponse> =>
+      send('PATCH', '/assets/{id}', request, true, 'envelope'),
+
+    /**
+     * DELETE /assets/{id} - Move an asset to the trash
+     */
+    deleteAsset: (request: { params: DeleteAssetParams; headers?: DeleteAssetHeaders }): Promise<void> =>
+      send('DELETE', '/assets/{id}', request, true, 'json'),
+
+    /**
+     * POST /assets/{id}/restore - Restore a trashed asset
+     */
+    restoreAsset: (request: { params: RestoreAssetParams }): Promise<RestoreAssetResponse> =>
+      send('POST', '/assets/{id}/restore', request, true, 'envelope'),
+
+    /**
+     * POST /assets/bulk - Create, patch and delete several assets in one transaction
+     */
+    bulkAssets: (request: { body: BulkAssetsBody }): Promise<BulkAssetsResponse> =>
+      send('POST', '/assets/bulk', request, true, 'envelope'),
+
+    /**
+     * GET /assets/export - Export the caller's assets as CSV or NDJSON
+     */
+    exportAssets: (request: { query?: ExportAssetsQuery } = {}): Promise<string> =>
+      send('GET', '/assets/export', request, true, 'text'),
+
+    /**
+     * POST /assets/import - Create or update assets from CSV or NDJSON, upserting by externalKey
+     */
+    importAssets: (request: { body: ImportAssetsBody }): Promise<ImportAssetsResponse> =>
+      send('POST', '/assets/import', request, true, 'envelope'),
+
+    /**
+     * POST /assets/{id}/upload-url - Presigned URL for uploading one of the asset's files
+     */
+    createUploadUrl: (request: { params: CreateUploadUrlParams; body: CreateUploadUrlBody }): Promise<CreateUploadUrlResponse> =>
+      send('POST', '/assets/{id}/upload-url', request, true, 'envelope'),
+
+    /**
+     * POST /assets/{id}/upload-complete - Confirm an upload as the asset's primary file
+     */
+    completeUpload: (request: { params: CompleteUploadParams; body: CompleteUploadBody }): Promise<CompleteUploadResponse> =>
+      send('POST', '/assets/{id}/upload-complete', request, true, 'envelope'),
+
+    /**
+     * GET /assets/{id}/download-url - Presigned URL for downloading the asset's primary file
+     */
+    createDownloadUrl: (request: { params: CreateDownloadUrlParams; query?: CreateDownloadUrlQuery }): Promise<CreateDownloadUrlResponse> =>
+      send('GET', '/assets/{id}/download-url', request, true, 'envelope'),
+
+    /**
+     * GET /assets/{id}/files - List an asset's files
+     */
+    listFiles: (request: { params: ListFilesParams }): Promise<ListFilesResponse> =>
+      send('GET', '/assets/{id}/files', request, true, 'envelope'),
+
+    /**
+     * POST /assets/{id}/files - Attach an uploaded file
+     */
+    createFile: (request: { params: CreateFileParams; body: CreateFileBody }): Promise<CreateFileResponse> =>
+      send('POST', '/assets/{id}/files', request, true, 'envelope'),
+
+    /**
+     * GET /assets/{id}/files/{fileId} - Get file metadata
+     */
+    getFile: (request: { params: GetFileParams }): Promise<GetFileResponse> =>
+      send('GET', '/assets/{id}/files/{fileId}', request, true, 'envelope'),
+
+    /**
+     * PATCH /assets/{id}/files/{fileId} - Change a file's role or checksum
+     */
+    updateFile: (request: { params: UpdateFileParams; body: UpdateFileBody }): Promise<UpdateFileResponse> =>
+      send('PATCH', '/assets/{id}/files/{fileId}', request, true, 'envelope'),
+
+    /**
+     * DELETE /assets/{id}/files/{fileId} - Delete a file and its S3 object
+     */
+    deleteFile: (request: { params: DeleteFileParams }): Promise<void> =>
+      send('DELETE', '/assets/{id}/files/{fileId}', request, true, 'json'),
+
+    /**
+     * GET /assets/{id}/files/{fileId}/download-url - Presigned URL for downloading a file
+     */
+    createFileDownloadUrl: (request: { params: CreateFileDownloadUrlParams; query?: CreateFileDownloadUrlQuery }): Promise<CreateFileDownloadUrlResponse> =>
+      send('GET', '/assets/{id}/files/{fileId}/download-url', request, true, 'envelope'),
+
+    /**
+     * GET /assets/{id}/revisions - List an asset's revisions
+     */
+    listAssetRevisions: (request: { params: ListAssetRevisionsParams; query?: ListAssetRevisionsQuery }): Promise<ListAssetRevisionsResponse> =>
+      send('GET', '/assets/{id}/revisions', request, true, 'envelope'),
+
+    /**
+     * POST /assets/{id}/revisions/{revision}/restore - Restore the values of an earlier revision
+     */
+    restoreAssetRevision: (request: { params: RestoreAssetRevisionParams; headers?: RestoreAssetRevisionHeaders }): Promise<RestoreAssetRevisionResponse> =>
+      send('POST', '/assets/{id}/revisions/{revision}/restore', request, true, 'envelope'),
+
+    /**
+     * GET /tags - List the caller's tags with usage counts
+     */
+    listTags: (): Promise<ListTagsResponse> =>
+      send('GET', '/tags', {}, true, 'envelope'),
+
+    /**
+     * GET /assets/{id}/tags - List an asset's tags
+     */
+    listAssetTags: (request: { params: ListAssetTagsParams }): Promise<ListAssetTagsResponse> =>
+      send('GET', '/assets/{id}/tags', request, true, 'envelope'),
+
+    /**
+     * POST /assets/{id}/tags - Add a tag to an asset
+     */
+    addAssetTag: (request: { params: AddAssetTagParams; body: AddAssetTagBody }): Promise<AddAssetTagResponse> =>
+      send('POST', '/assets/{id}/tags', request, true, 'envelope'),
+
+    /**
+     * DELETE /assets/{id}/tags/{tagId} - Remove a tag from an asset
+     */
+    removeAssetTag: (request: { params: RemoveAssetTagParams }): Promise<void> =>
+      send('DELETE', '/assets/{id}/tags/{tagId}', request, true, 'json'),
+
+    /**
+     * GET /assets/{id}/shares - List the users and groups an asset is shared with
+     */
+    listAssetShares: (request: { params: ListAssetSharesParams }): Promise<ListAssetSharesResponse> =>
+      send('GET', '/assets/{id}/shares', request, true, 'envelope'),
+
+    /**
+     * POST /assets/{id}/shares - Share an asset with a user or group, or change their role
+     */
+    shareAsset: (request: { params: ShareAssetParams; body: ShareAssetBody }): Promise<ShareAssetResponse> =>
+      send('POST', '/assets/{id}/shares', request, true, 'envelope'),
+
+    /**
+     * DELETE /assets/{id}/shares/{shareId} - Stop sharing an asset with a user or group
+     */
+    unshareAsset: (request: { params: UnshareAssetParams }): Promise<void> =>
+      send('DELETE', '/assets/{id}/shares/{shareId}', request, true, 'json'),
+
+    /**
+     * GET /assets/{id}/links - List an asset's public share links
+     */
+    listShareLinks: (request: { params: ListShareLinksParams }): Promise<ListShareLinksResponse> =>
+      send('GET', '/assets/{id}/links', request, true, 'envelope'),
+
+    /**
+     * POST /assets/{id}/links - Create a public link to an asset
+     */
+    createShareLink: (request: { params: CreateShareLinkParams; body: CreateShareLinkBody }): Promise<CreateShareLinkResponse> =>
+      send('POST', '/assets/{id}/links', request, true, 'envelope'),
+
+    /**
+     * DELETE /assets/{id}/links/{linkId} - Revoke a public share link
+     */
+    revokeShareLink: (request: { params: RevokeShareLinkParams }): Promise<void> =>
+      send('DELETE', '/assets/{id}/links/{linkId}', request, true, 'json'),
+
+    /**
+     * GET /shared/{token} - Open a public share link
+     */
+    getSharedAsset: (request: { params: GetSharedAssetParams; headers?: GetSharedAssetHeaders }): Promise<GetSharedAssetResponse> =>
+      send('GET', '/shared/{token}', request, false, 'envelope'),
+
+    /**
+     * GET /usage - The caller's rate limit, quotas and current usage
+     */
+    getUsage: (): Promise<GetUsageResponse> =>
+      send('GET', '/usage', {}, true, 'envelope'),
+
+    /**
+     * GET /admin/limits/{ownerId} - A user's limits and usage (administrators only)
+     */
+    getOwnerLimits: (request: { params: GetOwnerLimitsParams }): Promise<GetOwnerLimitsResponse> =>
+      send('GET', '/admin/limits/{ownerId}', request, true, 'envelope'),
+
+    /**
+     * PUT /admin/limits/{ownerId} - Set a user's limit overrides (administrators only)
+     */
+    updateOwnerLimits: (request: { params: UpdateOwnerLimitsParams; body: UpdateOwnerLimitsBody }): Promise<UpdateOwnerLimitsResponse> =>
+      send('PUT', '/admin/limits/{ownerId}', request, true, 'envelope'),
+
+    /**
+     * GET /admin/audit-events - Query the audit trail (administrators only)
+     */
+    listAuditEvents: (request: { query?: ListAuditEventsQuery } = {}): Promise<ListAuditEventsResponse> =>
+      send('GET', '/admin/audit-events', request, true, 'envelope'),
+
+    /**
+     * GET /health - Liveness check
+     */
+    getHealth: (): Promise<GetHealthResponse> =>
+      send('GET', '/health', {}, false, 'envelope'),
+
+    /**
+     * GET /health/ready - Readiness check of the database and Secrets Manager
+     */
+    getReadiness: (): Promise<GetReadinessResponse> =>
+      send('GET', '/health/ready', {}, false, 'envelope'),
+
+    /**
+     * GET /openapi.json - OpenAPI document for this API (plain JSON, not wrapped in the success envelope)
+     */
+    getOpenApiDocument: (): Promise<unknown> =>
+      send('GET', '/openapi.json', {}, false, 'json'),
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
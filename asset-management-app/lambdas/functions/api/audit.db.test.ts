@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { env } from '../../shared/src/config/env'
+import { AuditEvent } from '../../shared/src/models'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Events written by asset requests and the admin query endpoint
+ */
+
+const owner = 'audit-test-owner'
+const admin = 'audit-test-admin'
+const api = createTestClient(handler, { sub: owner, headers: { 'User-Agent': 'audit-test/1.0' } })
+
+let params: { id: string }
+
+const queryEvents = (query: Record<string, string>) =>
+  api.get('/admin/audit-events', { query, as: admin, groups: env.ADMIN_GROUP })
+
+beforeEach(async () => {
+  const created = await api.post('/assets', { body: { name: 'Audit Test Asset', category: 'document' } })
+  params = { id: created.body.data.id }
+  await api.get('/assets/{id}', { params })
+  await api.patch('/assets/{id}', { params, body: { description: 'Edited' } })
+  await api.patch('/assets/{id}', { params, body: { description: 'Edited' } })
+  await api.delete('/assets/{id}', { params })
+})
+
+describe('audit trail', () => {
+  it('records each action once, with the request source', async () => {
+    const trail = await queryEvents({ actorId: owner })
+    const events = [...trail.body.data.events].reverse()
+
+    expect(trail.statusCode).toBe(200)
+    expect(events.map((event) => event.action)).toEqual(['created', 'viewed', 'updated', 'deleted'])
+    for (const event of events) {
+      expect(event).toMatchObject({
+        assetId: params.id,
+        ownerId: owner,
+        sourceIp: '127.0.0.1',
+        userAgent: 'audit-test/1.0',
+        requestId: expect.any(String),
+      })
+    }
+  })
+
+  it('chains hashes from one event to the next', async () => {
+    const [create, view, update, remove] = [...(await queryEvents({ actorId: owner })).body.data.events].reverse()
+
+    expect(create.beforeHash).toBeNull()
+    expect(create.afterHash).toMatch(/^[0-9a-f]{64}$/)
+    expect(view).toMatchObject({ beforeHash: create.afterHash, afterHash: create.afterHash })
+    expect(update.beforeHash).toBe(view.afterHash)
+    expect(update.afterHash).not.toBe(update.beforeHash)
+    expect(remove.beforeHash).toBe(update.afterHash)
+  })
+
+  it('filters by asset, action and date', async () => {
+    const byAction = await queryEvents({ assetId: params.id, action: 'updated' })
+    const future = await queryEvents({ assetId: params.id, from: new Date(Date.now() + 60_000).toISOString() })
+
+    expect(byAction.body.data.pagination.total).toBe(1)
+    expect(future.body.data.events).toEqual([])
+    expect((await queryEvents({ from: 'yesterday' })).statusCode).toBe(400)
+  })
+
+  it('is only available to administrators', async () => {
+    const asOwner = await api.get('/admin/audit-events', { query: { actorId: owner } })
+    const otherGroup = await api.get('/admin/audit-events', { as: admin, groups: 'editors' })
+
+    expect(asOwner.statusCode).toBe(403)
+    expect(otherGroup.statusCode).toBe(403)
+  })
+
+  it('rejects changes to and deletes of audit events', async () => {
+    const event = await AuditEvent.findOne({ where: { assetId: params.id } })
+
+    await expect(event!.update({ actorId: 'someone-else' })).rejects.toThrow(/append-only/)
+    await expect(event!.destroy()).rejects.toThrow(/append-only/)
+    await expect(AuditEvent.destroy({ where: { assetId: params.id } })).rejects.toThrow(/append-only/)
+  })
+})
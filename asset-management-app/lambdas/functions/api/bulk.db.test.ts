@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { AssetCategory, type AssetInstance } from '../../shared/src/types'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * POST /assets/bulk in both modes
+ */
+
+const owner = 'bulk-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+const bulk = async (body: unknown, as?: string) => (await api.post('/assets/bulk', { body, as })).body.data
+
+const statusCodes = (data: { results: { statusCode: number }[] }) => data.results.map((result) => result.statusCode)
+
+let assetA: AssetInstance
+let assetB: AssetInstance
+
+beforeEach(async () => {
+  assetA = await Asset.create({ ownerId: owner, name: 'Bulk A', category: AssetCategory.IMAGE })
+  assetB = await Asset.create({ ownerId: owner, name: 'Bulk B', category: AssetCategory.DOCUMENT })
+})
+
+describe('bulk operations', () => {
+  it('creates, patches and deletes in one batch', async () => {
+    const data = await bulk({
+      operations: [
+        { op: 'patch', id: assetA.id, data: { category: 'video' } },
+        { op: 'delete', id: assetB.id },
+        { op: 'create', data: { name: 'Bulk C', category: 'other' } },
+      ],
+    })
+
+    expect(data).toMatchObject({ committed: true, succeeded: 3 })
+    expect(statusCodes(data)).toEqual([200, 204, 201])
+    expect((await assetA.reload()).category).toBe('video')
+    expect(await Asset.findByPk(assetB.id)).toBeNull()
+    expect(await Asset.count({ where: { ownerId: owner, name: 'Bulk C' } })).toBe(1)
+  })
+
+  it('rolls back every operation when one fails in all-or-nothing mode', async () => {
+    const data = await bulk({
+      operations: [
+        { op: 'patch', id: assetA.id, data: { name: 'Renamed' } },
+        { op: 'create', data: { name: 'Bulk D' } },
+        { op: 'patch', id: 'missing-asset-id', data: { name: 'Missing' } },
+      ],
+    })
+
+    expect(data).toMatchObject({ committed: false, failed: 2 })
+    expect(data.results.map((result: any) => `${result.status}:${result.statusCode}`)).toEqual([
+      'rolledBack:200',
+      'failed:400',
+      'failed:404',
+    ])
+    expect(data.results[1].errors[0].field).toBe('category')
+    expect((await assetA.reload()).name).toBe('Bulk A')
+  })
+
+  it('commits the operations that succeed in best-effort mode', async () => {
+    const data = await bulk({
+      mode: 'best-effort',
+      operations: [{ op: 'patch', id: assetA.id, data: { name: 'Renamed' } }, { op: 'delete' }],
+    })
+
+    expect(data).toMatchObject({ committed: true, succeeded: 1 })
+    expect(statusCodes(data)).toEqual([200, 400])
+    expect((await assetA.reload()).name).toBe('Renamed')
+  })
+
+  it("rejects another user's assets per item", async () => {
+    const data = await bulk(
+      {
+        mode: 'best-effort',
+        operations: [
+          { op: 'delete', id: assetA.id },
+          { op: 'patch', id: assetA.id, data: { name: 'Mine' } },
+        ],
+      },
+      'bulk-test-intruder'
+    )
+
+    expect(statusCodes(data)).toEqual([403, 403])
+    expect((await assetA.reload()).name).toBe('Bulk A')
+  })
+})
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { AssetCategory, type AssetInstance } from '../../shared/src/types'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * ETags and If-Match on PATCH / DELETE
+ */
+
+const api = createTestClient(handler, { sub: 'concurrency-test-owner' })
+
+let asset: AssetInstance
+let params: { id: string }
+
+const ifMatch = (etag: string) => ({ 'If-Match': etag })
+
+const rename = (name: string, etag: string) =>
+  api.patch('/assets/{id}', { params, body: { name }, headers: ifMatch(etag) })
+
+beforeEach(async () => {
+  asset = await Asset.create({ ownerId: 'concurrency-test-owner', name: 'Concurrency', category: AssetCategory.IMAGE })
+  params = { id: asset.id }
+})
+
+describe('optimistic concurrency', () => {
+  it('returns the ETag as a header and in the body', async () => {
+    const created = await api.post('/assets', { body: { name: 'Created', category: 'image' } })
+    const fetched = await api.get('/assets/{id}', { params: { id: created.body.data.id } })
+
+    expect(fetched.headers.ETag).toBeTruthy()
+    expect(fetched.body.data.etag).toBe(fetched.headers.ETag)
+    expect(created.headers.ETag).toBe(fetched.headers.ETag)
+  })
+
+  it('accepts a PATCH with the current ETag and returns a new one', async () => {
+    const { headers } = await api.get('/assets/{id}', { params })
+    const updated = await rename('Editor A', headers.ETag)
+
+    expect(updated.statusCode).toBe(200)
+    expect(updated.headers.ETag).toBeTruthy()
+    expect(updated.headers.ETag).not.toBe(headers.ETag)
+  })
+
+  it('rejects a PATCH with a stale ETag and changes nothing', async () => {
+    const { headers } = await api.get('/assets/{id}', { params })
+    await rename('Editor A', headers.ETag)
+    const stale = await rename('Editor B', headers.ETag)
+
+    expect(stale.statusCode).toBe(412)
+    expect((await asset.reload()).name).toBe('Editor A')
+  })
+
+  it('rejects a concurrent write between read and update', async () => {
+    const copyA = await Asset.findByPk(asset.id)
+    const copyB = await Asset.findByPk(asset.id)
+    await copyA!.update({ description: 'Saved first' })
+
+    await expect(copyB!.update({ description: 'Saved second' })).rejects.toMatchObject({
+      name: 'SequelizeOptimisticLockError',
+    })
+  })
+
+  it('deletes only with the current ETag', async () => {
+    const before = await api.get('/assets/{id}', { params })
+    await asset.update({ description: 'Changed elsewhere' })
+    const current = await api.get('/assets/{id}', { params })
+
+    expect((await api.delete('/assets/{id}', { params, headers: ifMatch(before.headers.ETag) })).statusCode).toBe(412)
+    expect((await api.delete('/assets/{id}', { params, headers: ifMatch(current.headers.ETag) })).statusCode).toBe(204)
+  })
+
+  it('returns 412 for If-Match on a missing asset', async () => {
+    await api.delete('/assets/{id}', { params })
+
+    expect((await api.delete('/assets/{id}', { params, headers: ifMatch('*') })).statusCode).toBe(412)
+  })
+})
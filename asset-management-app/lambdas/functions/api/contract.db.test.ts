@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { env } from '../../shared/src/config/env'
+import { apiRoutes } from '../../shared/src/routes'
+import { checkResponseContract } from '../../shared/src/http/openapi'
+import { createEventFactory, parseResult, type TestRequestOptions } from '../../shared/src/testing/events'
+
+/**
+ * Calls each endpoint and checks the response against the OpenAPI document; fails when a
+ * handler returns fields or statuses the spec does not describe
+ */
+
+const buildEvent = createEventFactory({ sub: 'contract-test-owner' })
+
+describe('API contract', () => {
+  it('answers every operation as described by the OpenAPI document', async () => {
+    const violations: { request: string; errors: string[] }[] = []
+    const covered = new Set<string>()
+
+    const request = async (httpMethod: string, resource: string, options?: TestRequestOptions) => {
+      const result = await handler(buildEvent(httpMethod, resource, options))
+      const route = apiRoutes.find((r) => r.method === httpMethod && r.resource === resource)!
+      const errors = checkResponseContract(route, result)
+      covered.add(route.schema!.operationId)
+      if (errors.length > 0) {
+        violations.push({
+          request: `${httpMethod} ${resource} (${result.statusCode})`,
+          errors: errors.map((error) => `${error.field}: ${error.message}`),
+        })
+      }
+      return parseResult(result).body
+    }
+
+    const created = await request('POST', '/assets', { body: { name: 'Contract Test Asset', category: 'document' } })
+    const params = { id: created.data.id }
+
+    await request('POST', '/assets', { body: { name: '', category: 'music' } })
+    await request('GET', '/assets')
+    await request('GET', '/assets', { query: { q: 'contract', sort: 'name:asc' } })
+    await request('GET', '/assets', { query: { cursor: 'not-a-cursor' } })
+    await request('GET', '/assets/{id}', { params })
+    await request('GET', '/assets/{id}', { params: { id: 'missing-asset-id' } })
+    await request('PATCH', '/assets/{id}', { params, body: { description: 'Updated by the contract test' } })
+    await request('PATCH', '/assets/{id}', { params, headers: { 'If-Match': '"0"' }, body: { name: 'Stale' } })
+    await request('GET', '/assets/{id}/files', { params })
+    await request('GET', '/assets/{id}/download-url', { params })
+    const pdf = Buffer.from('%PDF-1.4 contract test')
+    const upload = await request('POST', '/assets/{id}/upload-url', {
+      params,
+      body: { contentType: 'application/pdf', size: pdf.length },
+    })
+    await fetch(upload.data.uploadUrl, { method: 'PUT', headers: upload.data.headers, body: pdf })
+    await request('POST', '/assets/{id}/upload-complete', { params, body: { key: upload.data.key } })
+    await request('POST', '/assets/{id}/upload-complete', { params, body: { key: upload.data.key } })
+    await request('GET', '/assets/{id}/download-url', { params })
+    const files = await request('GET', '/assets/{id}/files', { params })
+    const fileParams = { ...params, fileId: files.data.files[0].id }
+    await request('GET', '/assets/{id}/files/{fileId}', { params: fileParams })
+    await request('PATCH', '/assets/{id}/files/{fileId}', { params: fileParams, body: { role: 'attachment' } })
+    await request('GET', '/assets/{id}/files/{fileId}/download-url', { params: fileParams })
+    await request('DELETE', '/assets/{id}/files/{fileId}', { params: fileParams })
+    await request('POST', '/assets/{id}/files', { params, body: { key: upload.data.key } })
+    await request('POST', '/assets/bulk', {
+      body: {
+        mode: 'best-effort',
+        operations: [
+          { op: 'patch', id: params.id, data: { category: 'other' } },
+          { op: 'patch', id: 'missing-asset-id', data: { name: 'Missing' } },
+        ],
+      },
+    })
+    await request('GET', '/assets/export', { query: { format: 'ndjson' } })
+    await request('POST', '/assets/import', {
+      body: { format: 'csv', content: 'externalKey,name,category\ncontract-1,Imported,image\n,,music\n', dryRun: true },
+    })
+    await request('GET', '/assets/{id}/revisions', { params })
+    await request('POST', '/assets/{id}/revisions/{revision}/restore', { params: { ...params, revision: '1' } })
+    await request('POST', '/assets/{id}/revisions/{revision}/restore', { params: { ...params, revision: '999' } })
+    const tag = await request('POST', '/assets/{id}/tags', { params, body: { name: 'env', value: 'contract' } })
+    await request('POST', '/assets/{id}/tags', { params, body: { name: 'env', value: 'contract' } })
+    await request('GET', '/assets/{id}/tags', { params })
+    await request('GET', '/tags')
+    await request('GET', '/assets', { query: { status: 'active', tag: 'env:contract' } })
+    await request('DELETE', '/assets/{id}/tags/{tagId}', { params: { ...params, tagId: String(tag.data.id) } })
+    const grantee = 'contract-test-viewer'
+    const share = await request('POST', '/assets/{id}/shares', { params, body: { granteeId: grantee, role: 'viewer' } })
+    await request('POST', '/assets/{id}/shares', { params, body: { granteeId: grantee, role: 'editor' } })
+    await request('GET', '/assets/{id}/shares', { params })
+    await request('GET', '/assets', { query: { scope: 'all' } })
+    await request('GET', '/assets/{id}', { params, as: grantee })
+    await request('DELETE', '/assets/{id}', { params, as: grantee })
+    await request('DELETE', '/assets/{id}/shares/{shareId}', { params: { ...params, shareId: share.data.id } })
+    await request('DELETE', '/assets/{id}/shares/{shareId}', { params: { ...params, shareId: share.data.id } })
+    const link = await request('POST', '/assets/{id}/links', { params, body: { maxDownloads: 1 } })
+    await request('POST', '/assets/{id}/links', { params, body: { password: 'short' } })
+    await request('GET', '/assets/{id}/links', { params })
+    await request('GET', '/shared/{token}', { params: { token: link.data.token }, as: null })
+    await request('GET', '/shared/{token}', { params: { token: link.data.token }, as: null })
+    await request('GET', '/shared/{token}', { params: { token: 'not-a-real-token' }, as: null })
+    await request('DELETE', '/assets/{id}/links/{linkId}', { params: { ...params, linkId: link.data.id } })
+    await request('DELETE', '/assets/{id}', { params })
+    await request('GET', '/assets/trash')
+    await request('POST', '/assets/{id}/restore', { params })
+    await request('POST', '/assets/{id}/restore', { params })
+    await request('GET', '/admin/audit-events', { groups: env.ADMIN_GROUP, query: { assetId: params.id } })
+    await request('GET', '/admin/audit-events')
+    await request('GET', '/usage')
+    const asAdmin = { groups: env.ADMIN_GROUP, params: { ownerId: 'contract-test-owner' } }
+    await request('GET', '/admin/limits/{ownerId}', asAdmin)
+    await request('PUT', '/admin/limits/{ownerId}', { ...asAdmin, body: { maxAssets: 1 } })
+    await request('PUT', '/admin/limits/{ownerId}', { ...asAdmin, body: {} })
+    await request('POST', '/assets', { body: { name: 'Over Quota', category: 'document' } })
+    await request('GET', '/health')
+    await request('GET', '/health/ready')
+    await request('GET', '/openapi.json')
+
+    expect(violations).toEqual([])
+    expect(apiRoutes.map((route) => route.schema!.operationId).filter((id) => !covered.has(id))).toEqual([])
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { checkReadiness } from '../../shared/src/routes/health'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Liveness and readiness
+ */
+
+// Health checks are public, so events carry no authorizer claims
+const api = createTestClient(handler, { sub: null })
+
+describe('health checks', () => {
+  it('answers liveness without a token', async () => {
+    const live = await api.get('/health')
+
+    expect(live.statusCode).toBe(200)
+    expect(live.body.data).toMatchObject({ status: 'ok', version: expect.any(String) })
+    expect(live.headers['Cache-Control']).toBe('no-store')
+  })
+
+  it('reports the database, Secrets Manager and the pool on readiness', async () => {
+    const ready = await api.get('/health/ready')
+    const report = ready.body.data
+
+    expect(ready.statusCode).toBe(200)
+    expect(report.status).toBe('ok')
+    expect(report.checks.database.status).toBe('ok')
+    // Tests connect with DB_* settings, not a secret
+    expect(report.checks.secretsManager.status).toBe('skipped')
+    expect(report.pool.size).toBeGreaterThanOrEqual(1)
+  })
+
+  it('degrades readiness when the database check exceeds the timeout', async () => {
+    const degraded = await checkReadiness(0)
+
+    expect(degraded.status).toBe('degraded')
+    expect(degraded.checks.database).toMatchObject({ status: 'fail', message: 'Database is unreachable' })
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { AssetCategory } from '../../shared/src/types'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * GET /assets/export and POST /assets/import
+ */
+
+const owner = 'import-export-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+const csv = [
+  'externalKey,name,description,category',
+  'sku-1,Logo,"Main logo, dark",image',
+  'sku-2,Manual,,document',
+  ',Unkeyed,,other',
+  'sku-3,,,music',
+  'sku-1,Duplicate,,image',
+].join('\n')
+
+const importAssets = async (body: unknown) => (await api.post('/assets/import', { body })).body.data
+
+describe('asset import', () => {
+  it('reports the planned actions on a dry run without writing', async () => {
+    const data = await importAssets({ format: 'csv', content: csv, dryRun: true })
+
+    expect(data.rows.map((row: any) => `${row.line}:${row.action}`)).toEqual([
+      '2:create',
+      '3:create',
+      '4:create',
+      '5:error',
+      '6:error',
+    ])
+    expect(data.rows[3].errors.map((error: any) => error.field).sort()).toEqual(['category', 'name'])
+    expect(await Asset.count({ where: { ownerId: owner } })).toBe(0)
+  })
+
+  it('creates the valid rows', async () => {
+    const data = await importAssets({ format: 'csv', content: csv })
+    const logo = await Asset.findOne({ where: { ownerId: owner, externalKey: 'sku-1' } })
+
+    expect(data).toMatchObject({ created: 3, failed: 2 })
+    expect(logo?.description).toBe('Main logo, dark')
+    expect(await Asset.count({ where: { ownerId: owner } })).toBe(3)
+  })
+
+  it('upserts by externalKey', async () => {
+    const logo = await Asset.create({
+      ownerId: owner,
+      externalKey: 'sku-1',
+      name: 'Logo',
+      description: 'Main logo, dark',
+      category: AssetCategory.IMAGE,
+    })
+    await Asset.create({ ownerId: owner, externalKey: 'sku-2', name: 'Manual', category: AssetCategory.DOCUMENT })
+    const ndjson = [
+      JSON.stringify({ externalKey: 'sku-1', name: 'Logo v2', category: 'image' }),
+      JSON.stringify({ externalKey: 'sku-2', name: 'Manual', category: 'document' }),
+      '{not json',
+    ].join('\n')
+
+    const data = await importAssets({ format: 'ndjson', content: ndjson })
+    await logo.reload()
+
+    expect(data.rows.map((row: any) => row.action)).toEqual(['update', 'unchanged', 'error'])
+    expect(logo.name).toBe('Logo v2')
+    expect(logo.description).toBe('Main logo, dark')
+  })
+})
+
+describe('asset export', () => {
+  it('exports CSV that respects filters and can be imported again', async () => {
+    await importAssets({ format: 'csv', content: csv })
+    const exported = await api.get('/assets/export', { query: { format: 'csv', category: 'image' } })
+    const lines = exported.text.trim().split('\r\n')
+    const reimported = await importAssets({ format: 'csv', content: exported.text, dryRun: true })
+
+    expect(exported.statusCode).toBe(200)
+    expect(exported.headers['Content-Type']).toMatch(/^text\/csv/)
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatch(/^id,externalKey,name/)
+    expect(reimported.unchanged).toBe(1)
+  })
+
+  it('exports one asset per NDJSON line', async () => {
+    await importAssets({ format: 'csv', content: csv })
+    const exported = await api.get('/assets/export', { query: { format: 'ndjson', q: 'manual' } })
+    const assets = exported.text
+      .trim()
+      .split('\n')
+      .map((line: string) => JSON.parse(line))
+
+    expect(assets).toEqual([expect.objectContaining({ externalKey: 'sku-2' })])
+  })
+
+  it('returns 400 for an unknown format', async () => {
+    expect((await api.get('/assets/export', { query: { format: 'xlsx' } })).statusCode).toBe(400)
+  })
+})
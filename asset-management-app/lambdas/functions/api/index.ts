@@ -0,0 +1,11 @@
+import { createRouter } from '../../shared/src/http/router'
+import { defaultMiddlewares } from '../../shared/src/http/middleware'
+import { apiRoutes } from '../../shared/src/routes'
+
+/**
+ * Asset API Lambda Handler
+ *
+ * Single routed entrypoint for every asset endpoint.
+ * Requests are dispatched on httpMethod + resource (e.g. "GET /assets/{id}").
+ */
+export const handler = createRouter(apiRoutes, defaultMiddlewares)
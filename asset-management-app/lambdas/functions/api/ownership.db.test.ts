@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Ownership rules: callers only see and change their own assets
+ */
+
+const owner = 'ownership-owner'
+const intruder = 'ownership-intruder'
+const api = createTestClient(handler, { sub: owner })
+
+let assetId: string
+
+beforeEach(async () => {
+  const created = await api.post('/assets', { body: { name: 'Owned Asset', category: 'document' } })
+  assetId = created.body.data.id
+})
+
+describe('asset ownership', () => {
+  it('makes the caller the owner of a created asset', async () => {
+    const response = await api.get('/assets/{id}', { params: { id: assetId } })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.ownerId).toBe(owner)
+  })
+
+  it('returns 403 when creating an asset for another user', async () => {
+    const response = await api.post('/assets', {
+      as: intruder,
+      body: { ownerId: owner, name: 'Forged Asset', category: 'image' },
+    })
+
+    expect(response.statusCode).toBe(403)
+  })
+
+  it("returns 403 when listing another user's assets", async () => {
+    expect((await api.get('/assets', { as: intruder, query: { ownerId: owner } })).statusCode).toBe(403)
+  })
+
+  it("returns 403 when reading, updating or deleting another user's asset", async () => {
+    const params = { id: assetId }
+
+    expect((await api.get('/assets/{id}', { as: intruder, params })).statusCode).toBe(403)
+    expect((await api.patch('/assets/{id}', { as: intruder, params, body: { name: 'Hijacked' } })).statusCode).toBe(403)
+    expect((await api.delete('/assets/{id}', { as: intruder, params })).statusCode).toBe(403)
+    expect((await api.get('/assets/{id}', { params })).body.data.name).toBe('Owned Asset')
+  })
+
+  it('returns 401 without authorizer claims', async () => {
+    expect((await api.get('/assets/{id}', { as: null, params: { id: assetId } })).statusCode).toBe(401)
+  })
+
+  it('lets the owner delete the asset', async () => {
+    expect((await api.delete('/assets/{id}', { params: { id: assetId } })).statusCode).toBe(204)
+    expect((await api.get('/assets/{id}', { params: { id: assetId } })).statusCode).toBe(404)
+  })
+})
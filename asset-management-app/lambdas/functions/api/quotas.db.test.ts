@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { handler } from './index'
+import { env } from '../../shared/src/config/env'
+import { Asset } from '../../shared/src/models'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Per-owner rate limits, asset and storage quotas, GET /usage and the admin limit endpoints
+ */
+
+const owner = 'quota-test-owner'
+const admin = 'quota-test-admin'
+const api = createTestClient(handler, { sub: owner })
+
+const png = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+)
+
+const setLimits = (body: unknown, ownerId = owner) =>
+  api.put('/admin/limits/{ownerId}', { params: { ownerId }, body, as: admin, groups: env.ADMIN_GROUP })
+
+const createAsset = (name: string, category = 'image') => api.post('/assets', { body: { name, category } })
+
+/**
+ * Request an upload URL for `content`, PUT it and attach it as the primary file
+ */
+async function uploadPrimary(assetId: string, content: Buffer) {
+  const response = await api.post('/assets/{id}/upload-url', {
+    params: { id: assetId },
+    body: { contentType: 'image/png', size: content.length },
+  })
+  const { uploadUrl, key, headers } = response.body.data
+  await fetch(uploadUrl, { method: 'PUT', headers, body: new Uint8Array(content) })
+  return api.post('/assets/{id}/upload-complete', { params: { id: assetId }, body: { key } })
+}
+
+describe('rate limit', () => {
+  beforeEach(() => {
+    // Mid-minute, so the requests of a test share one window
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-05-01T10:15:30.000Z'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('rejects requests over the limit with 429 and Retry-After', async () => {
+    await setLimits({ requestsPerMinute: 2 })
+
+    const first = await api.get('/assets')
+    const second = await api.get('/assets')
+    const third = await api.get('/assets')
+
+    expect(first.headers).toMatchObject({ 'X-RateLimit-Limit': '2', 'X-RateLimit-Remaining': '1' })
+    expect(second.headers['X-RateLimit-Remaining']).toBe('0')
+    expect(third.statusCode).toBe(429)
+    expect(third.headers['Retry-After']).toBe('30')
+    expect(third.body.error).toMatch(/Rate limit of 2 requests per minute exceeded/)
+  })
+
+  it('starts a new window each minute and counts owners separately', async () => {
+    await setLimits({ requestsPerMinute: 1 })
+    await api.get('/assets')
+
+    expect((await api.get('/assets')).statusCode).toBe(429)
+    expect((await api.get('/assets', { as: 'quota-test-other' })).statusCode).toBe(200)
+
+    vi.setSystemTime(new Date('2024-05-01T10:16:00.000Z'))
+    expect((await api.get('/assets')).statusCode).toBe(200)
+  })
+
+  it('does not limit an owner with requestsPerMinute 0', async () => {
+    await setLimits({ requestsPerMinute: 0 })
+
+    const response = await api.get('/assets')
+
+    expect(response.statusCode).toBe(200)
+    expect(response.headers).not.toHaveProperty('X-RateLimit-Limit')
+  })
+})
+
+describe('asset quota', () => {
+  beforeEach(async () => {
+    await setLimits({ maxAssets: 1 })
+  })
+
+  it('rejects creating assets over maxAssets with 413', async () => {
+    expect((await createAsset('First')).statusCode).toBe(201)
+
+    const second = await createAsset('Second')
+
+    expect(second.statusCode).toBe(413)
+    expect(second.body.error).toMatch(/Asset quota exceeded: 1 of 1/)
+    expect(await Asset.count({ where: { ownerId: owner } })).toBe(1)
+  })
+
+  it('does not count trashed assets, but checks the quota on restore', async () => {
+    const first = await createAsset('First')
+    await api.delete('/assets/{id}', { params: { id: first.body.data.id } })
+
+    expect((await createAsset('Second')).statusCode).toBe(201)
+    expect((await api.post('/assets/{id}/restore', { params: { id: first.body.data.id } })).statusCode).toBe(413)
+  })
+
+  it('fails bulk creates over the quota per operation', async () => {
+    const response = await api.post('/assets/bulk', {
+      body: {
+        mode: 'best-effort',
+        operations: [
+          { op: 'create', data: { name: 'Bulk 1', category: 'other' } },
+          { op: 'create', data: { name: 'Bulk 2', category: 'other' } },
+        ],
+      },
+    })
+
+    expect(response.body.data.results.map((result: any) => result.statusCode)).toEqual([201, 413])
+  })
+
+  it('rejects an import that would exceed the quota before writing anything', async () => {
+    const content = 'externalKey,name,category\nq-1,One,image\nq-2,Two,image\n'
+
+    const dryRun = await api.post('/assets/import', { body: { format: 'csv', content, dryRun: true } })
+    const response = await api.post('/assets/import', { body: { format: 'csv', content } })
+
+    expect(dryRun.statusCode).toBe(413)
+    expect(response.statusCode).toBe(413)
+    expect(await Asset.count({ where: { ownerId: owner } })).toBe(0)
+  })
+})
+
+describe('storage quota', () => {
+  let assetId: string
+
+  beforeEach(async () => {
+    await setLimits({ maxBytesPerCategory: { image: png.length + 10 } })
+    assetId = (await createAsset('Storage Test Asset')).body.data.id
+  })
+
+  it('rejects an upload URL for more bytes than the category quota allows', async () => {
+    const response = await api.post('/assets/{id}/upload-url', {
+      params: { id: assetId },
+      body: { contentType: 'image/png', size: png.length + 11 },
+    })
+
+    expect(response.statusCode).toBe(413)
+    expect(response.body.error).toMatch(/Storage quota for image assets exceeded/)
+  })
+
+  it('counts stored files against the quota', async () => {
+    expect((await uploadPrimary(assetId, png)).statusCode).toBe(200)
+
+    const response = await api.post('/assets/{id}/upload-url', {
+      params: { id: assetId },
+      body: { contentType: 'image/png', size: png.length },
+    })
+
+    expect(response.statusCode).toBe(413)
+  })
+
+  it('checks the quota when an asset with files moves into the category', async () => {
+    const importAs = (category: string) =>
+      api.post('/assets/import', {
+        body: { format: 'csv', content: `externalKey,name,category\nq-move,Moved,${category}\n` },
+      })
+    expect((await uploadPrimary(assetId, png)).statusCode).toBe(200)
+    // Revision 1 is in image without files; the file is added once the asset is in other
+    const id = (await importAs('image')).body.data.rows[0].id
+    expect((await api.patch('/assets/{id}', { params: { id }, body: { category: 'other' } })).statusCode).toBe(200)
+    expect((await uploadPrimary(id, png)).statusCode).toBe(200)
+
+    const patched = await api.patch('/assets/{id}', { params: { id }, body: { category: 'image' } })
+    const bulk = await api.post('/assets/bulk', {
+      body: { mode: 'best-effort', operations: [{ op: 'patch', id, data: { category: 'image' } }] },
+    })
+    const restored = await api.post('/assets/{id}/revisions/{revision}/restore', { params: { id, revision: '1' } })
+
+    expect(patched.statusCode).toBe(413)
+    expect(patched.body.error).toMatch(/Storage quota for image assets exceeded/)
+    expect(bulk.body.data.results[0].statusCode).toBe(413)
+    expect((await importAs('image')).statusCode).toBe(413)
+    expect(restored.statusCode).toBe(413)
+    expect(await Asset.findByPk(id)).toMatchObject({ category: 'other' })
+  })
+
+  it('does not limit other categories', async () => {
+    const document = await createAsset('Document', 'document')
+    const response = await api.post('/assets/{id}/upload-url', {
+      params: { id: document.body.data.id },
+      body: { contentType: 'application/pdf', size: png.length * 10 },
+    })
+
+    expect(response.statusCode).toBe(200)
+  })
+})
+
+describe('GET /usage', () => {
+  it('returns the limits in effect and current usage', async () => {
+    const asset = await createAsset('Usage Test Asset')
+    await uploadPrimary(asset.body.data.id, png)
+    await createAsset('Document', 'document')
+
+    const response = await api.get('/usage')
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data).toMatchObject({
+      ownerId: owner,
+      limits: { requestsPerMinute: env.RATE_LIMIT_REQUESTS_PER_MINUTE, maxAssets: env.QUOTA_MAX_ASSETS },
+      overrides: { requestsPerMinute: null, maxAssets: null },
+      usage: { assets: 2, bytesByCategory: { image: png.length, document: 0 } },
+    })
+    expect(response.body.data.usage.requestsThisMinute).toBeGreaterThan(0)
+  })
+})
+
+describe('admin limits', () => {
+  it('is only available to administrators', async () => {
+    const response = await api.put('/admin/limits/{ownerId}', { params: { ownerId: owner }, body: { maxAssets: 5 } })
+
+    expect(response.statusCode).toBe(403)
+    expect((await api.get('/admin/limits/{ownerId}', { params: { ownerId: owner } })).statusCode).toBe(403)
+  })
+
+  it('keeps omitted overrides and resets null ones to the default', async () => {
+    await setLimits({ maxAssets: 5, maxBytesPerCategory: { image: 100, video: 200 } })
+    const response = await setLimits({ requestsPerMinute: 10, maxBytesPerCategory: { image: null } })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.overrides).toMatchObject({
+      requestsPerMinute: 10,
+      maxAssets: 5,
+      maxBytesPerCategory: { image: null, video: 200 },
+    })
+    expect(response.body.data.limits.maxBytesPerCategory.image).toBe(env.QUOTA_MAX_BYTES_PER_CATEGORY)
+
+    const fetched = await api.get('/admin/limits/{ownerId}', {
+      params: { ownerId: owner },
+      as: admin,
+      groups: env.ADMIN_GROUP,
+    })
+    expect(fetched.body.data.overrides).toEqual(response.body.data.overrides)
+  })
+
+  it('rejects negative limits and unknown categories', async () => {
+    expect((await setLimits({ maxAssets: -1 })).statusCode).toBe(400)
+    expect((await setLimits({ maxBytesPerCategory: { music: 1 } })).statusCode).toBe(400)
+    expect((await setLimits({})).statusCode).toBe(400)
+  })
+})
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { AssetRevision } from '../../shared/src/models'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Revisions written by asset changes, listing and restore
+ */
+
+const owner = 'revision-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+let params: { id: string }
+
+const listRevisions = async () => (await api.get('/assets/{id}/revisions', { params })).body.data
+
+const restoreRevision = (revision: string) =>
+  api.post('/assets/{id}/revisions/{revision}/restore', { params: { ...params, revision } })
+
+beforeEach(async () => {
+  const created = await api.post('/assets', { body: { name: 'Revision Test Asset', category: 'image' } })
+  params = { id: created.body.data.id }
+})
+
+describe('asset revisions', () => {
+  it('records revision 1 with the initial values on create', async () => {
+    const { revisions } = await listRevisions()
+
+    expect(revisions).toHaveLength(1)
+    expect(revisions[0]).toMatchObject({ revision: 1, action: 'created', actorId: owner })
+    expect(revisions[0].changes).toContainEqual(expect.objectContaining({ field: 'name', to: 'Revision Test Asset' }))
+  })
+
+  it('records a field-level diff on update and nothing for a no-op update', async () => {
+    await api.patch('/assets/{id}', { params, body: { name: 'Renamed', description: 'Now with text' } })
+    await api.patch('/assets/{id}', { params, body: { name: 'Renamed' } })
+    const { revisions, pagination } = await listRevisions()
+
+    expect(pagination.total).toBe(2)
+    expect(revisions[0].action).toBe('updated')
+    expect(revisions[0].changes).toEqual([
+      { field: 'name', from: 'Revision Test Asset', to: 'Renamed' },
+      { field: 'description', from: null, to: 'Now with text' },
+    ])
+  })
+
+  it('reverts to an earlier revision and records a reverted revision', async () => {
+    await api.patch('/assets/{id}', { params, body: { name: 'Renamed', description: 'Now with text' } })
+    const restored = await restoreRevision('1')
+    const { revisions } = await listRevisions()
+
+    expect(restored.statusCode).toBe(200)
+    expect(restored.body.data).toMatchObject({ name: 'Revision Test Asset', description: null })
+    expect(revisions[0]).toMatchObject({ action: 'reverted', revertedTo: 1, revision: 3 })
+  })
+
+  it('returns 404 for an unknown revision and 403 for other owners', async () => {
+    const missing = await restoreRevision('99')
+    const other = await api.get('/assets/{id}/revisions', { params, as: 'someone-else' })
+
+    expect(missing.statusCode).toBe(404)
+    expect(other.statusCode).toBe(403)
+  })
+
+  it('records trash and restore', async () => {
+    await api.delete('/assets/{id}', { params })
+    await api.post('/assets/{id}/restore', { params })
+    const revisions = await AssetRevision.findAll({ where: { assetId: params.id }, order: [['revision', 'ASC']] })
+
+    expect(revisions.map((revision) => revision.action)).toEqual(['created', 'deleted', 'restored'])
+  })
+
+  it('leaves no revision behind for a failed update', async () => {
+    const invalid = await api.patch('/assets/{id}', { params, body: { name: 'x'.repeat(300) } })
+
+    expect(invalid.statusCode).toBe(400)
+    expect(await AssetRevision.count({ where: { assetId: params.id } })).toBe(1)
+  })
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Router tests
+ * These requests are answered before the database middleware runs, so no database is required
+ */
+
+const api = createTestClient(handler, { sub: 'router-test-user' })
+
+const fields = (body: { errors?: { field: string }[] }) => (body.errors ?? []).map((error) => error.field)
+
+describe('API router', () => {
+  it('returns 404 for an unknown resource', async () => {
+    expect((await api.get('/unknown')).statusCode).toBe(404)
+  })
+
+  it('returns 405 for an unsupported method', async () => {
+    expect((await api.request('PUT', '/assets')).statusCode).toBe(405)
+  })
+
+  it('returns 401 without authorizer claims', async () => {
+    expect((await api.get('/assets', { as: null })).statusCode).toBe(401)
+  })
+
+  it('echoes an incoming X-Request-Id on error responses', async () => {
+    const response = await api.get('/unknown', { headers: { 'x-request-id': 'router-test-correlation' } })
+
+    expect(response.statusCode).toBe(404)
+    expect(response.headers['X-Request-Id']).toBe('router-test-correlation')
+  })
+
+  it('serves /openapi.json and /health without authorizer claims or a database', async () => {
+    expect((await api.get('/openapi.json', { as: null })).statusCode).toBe(200)
+    expect((await api.get('/health', { as: null })).statusCode).toBe(200)
+  })
+})
+
+describe('request validation', () => {
+  it('returns 400 for a missing body', async () => {
+    expect((await api.post('/assets')).statusCode).toBe(400)
+    expect((await api.post('/assets/{id}/upload-url', { params: { id: '123' } })).statusCode).toBe(400)
+  })
+
+  it('returns 400 for malformed JSON and non-object bodies', async () => {
+    expect((await api.post('/assets', { body: '{not json' })).statusCode).toBe(400)
+    expect((await api.patch('/assets/{id}', { params: { id: '123' }, body: '[]' })).statusCode).toBe(400)
+  })
+
+  it('reports every invalid field', async () => {
+    const response = await api.post('/assets', { body: { name: ' ', category: 'music' } })
+
+    expect(response.statusCode).toBe(400)
+    expect(fields(response.body)).toEqual(['name', 'category'])
+  })
+
+  it('validates query strings', async () => {
+    const response = await api.get('/assets', { query: { limit: 'ten' } })
+
+    expect(response.statusCode).toBe(400)
+    expect(fields(response.body)).toEqual(['limit'])
+  })
+
+  it('caps the number of bulk operations', async () => {
+    const operations = Array.from({ length: 101 }, () => ({ op: 'delete', id: 'x' }))
+    const response = await api.post('/assets/bulk', { body: { operations } })
+
+    expect(response.statusCode).toBe(400)
+    expect(fields(response.body)).toEqual(['operations'])
+  })
+
+  it('rejects an unknown import format', async () => {
+    const response = await api.post('/assets/import', { body: { format: 'xlsx', content: 'name,category' } })
+
+    expect(response.statusCode).toBe(400)
+    expect(fields(response.body)).toEqual(['format'])
+  })
+})
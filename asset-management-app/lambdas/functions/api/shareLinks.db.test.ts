@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { handler } from './index'
+import { env } from '../../shared/src/config/env'
+import { Asset, AuditEvent, ShareLink } from '../../shared/src/models'
+import { createTestClient, parseResult } from '../../shared/src/testing/events'
+
+/**
+ * Public share links: creating and revoking them, and opening them without an account
+ */
+
+const owner = 'link-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+const pdf = Buffer.from('%PDF-1.4 share link test')
+
+let params: { id: string }
+
+const createLink = (body: unknown = {}, as = owner) => api.post('/assets/{id}/links', { params, body, as })
+
+const open = (token: string, password?: string) =>
+  api.get('/shared/{token}', {
+    params: { token },
+    as: null,
+    ...(password !== undefined && { headers: { 'X-Link-Password': password } }),
+  })
+
+/**
+ * Upload `pdf` as the asset's primary file
+ */
+async function uploadPrimary() {
+  const response = await api.post('/assets/{id}/upload-url', {
+    params,
+    body: { contentType: 'application/pdf', size: pdf.length },
+  })
+  const { uploadUrl, key, headers } = response.body.data
+  await fetch(uploadUrl, { method: 'PUT', headers, body: new Uint8Array(pdf) })
+  await api.post('/assets/{id}/upload-complete', { params, body: { key } })
+}
+
+beforeEach(async () => {
+  const created = await api.post('/assets', { body: { name: 'Linked Asset', category: 'document' } })
+  params = { id: created.body.data.id }
+})
+
+describe('managing links', () => {
+  it('creates a link with the default expiry and returns its token once', async () => {
+    const response = await createLink()
+
+    expect(response.statusCode).toBe(201)
+    expect(response.body.data).toMatchObject({ status: 'active', hasPassword: false, maxDownloads: null })
+    expect(response.body.data.token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(Date.parse(response.body.data.expiresAt)).toBeGreaterThan(Date.now() + 6 * 86400 * 1000)
+
+    const { links } = (await api.get('/assets/{id}/links', { params })).body.data
+    expect(links).toHaveLength(1)
+    expect(links[0]).not.toHaveProperty('token')
+  })
+
+  it('only lets the owner manage links', async () => {
+    await api.post('/assets/{id}/shares', { params, body: { granteeId: 'link-test-editor', role: 'editor' } })
+
+    expect((await createLink({}, 'link-test-editor')).statusCode).toBe(403)
+    expect((await api.get('/assets/{id}/links', { params, as: 'link-test-stranger' })).statusCode).toBe(403)
+  })
+
+  it('rejects expiry in the past or too far ahead, and short passwords', async () => {
+    const nextYear = new Date(Date.now() + 365 * 86400 * 1000).toISOString()
+
+    expect((await createLink({ expiresAt: '2020-01-01T00:00:00.000Z' })).statusCode).toBe(400)
+    expect((await createLink({ expiresAt: nextYear })).statusCode).toBe(400)
+    expect((await createLink({ password: 'short' })).statusCode).toBe(400)
+    expect((await createLink({ maxDownloads: 0 })).statusCode).toBe(400)
+  })
+
+  it('revokes a link, keeping its counts', async () => {
+    const { id: linkId, token } = (await createLink()).body.data
+    await open(token)
+
+    expect((await api.delete('/assets/{id}/links/{linkId}', { params: { ...params, linkId } })).statusCode).toBe(204)
+    expect((await api.delete('/assets/{id}/links/{linkId}', { params: { ...params, linkId } })).statusCode).toBe(204)
+    expect((await open(token)).statusCode).toBe(410)
+
+    const { links } = (await api.get('/assets/{id}/links', { params })).body.data
+    expect(links[0]).toMatchObject({ status: 'revoked', accessCount: 1 })
+  })
+})
+
+describe('GET /shared/{token}', () => {
+  it('returns read-only metadata and a download URL without authentication', async () => {
+    await uploadPrimary()
+    const { token } = (await createLink({ maxDownloads: 2 })).body.data
+
+    const response = await open(token)
+
+    expect(response.statusCode).toBe(200)
+    expect(response.headers['Cache-Control']).toBe('no-store')
+    expect(response.body.data.asset).toEqual({
+      name: 'Linked Asset',
+      description: null,
+      category: 'document',
+      updatedAt: expect.any(String),
+    })
+    expect(response.body.data.file).toMatchObject({ mimeType: 'application/pdf', size: pdf.length })
+    expect(response.body.data.link.downloadsRemaining).toBe(1)
+
+    const download = await fetch(response.body.data.file.downloadUrl)
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(pdf)
+  })
+
+  it('counts accesses and downloads and stops at the download limit', async () => {
+    await uploadPrimary()
+    const { id, token } = (await createLink({ maxDownloads: 1 })).body.data
+
+    expect((await open(token)).statusCode).toBe(200)
+    const second = await open(token)
+
+    expect(second.statusCode).toBe(410)
+    expect(second.body.error).toMatch(/no downloads left/)
+    expect(await ShareLink.findByPk(id)).toMatchObject({ accessCount: 1, downloadCount: 1 })
+    expect(await AuditEvent.count({ where: { assetId: params.id, actorId: `link:${id}` } })).toBe(1)
+  })
+
+  it('does not count downloads for assets without a file', async () => {
+    const { id, token } = (await createLink({ maxDownloads: 1 })).body.data
+
+    await open(token)
+    const response = await open(token)
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.file).toBeNull()
+    expect(await ShareLink.findByPk(id)).toMatchObject({ accessCount: 2, downloadCount: 0 })
+  })
+
+  it('requires the password of a protected link', async () => {
+    const { token } = (await createLink({ password: 'open sesame' })).body.data
+
+    expect((await open(token)).statusCode).toBe(401)
+    expect((await open(token, 'wrong password')).statusCode).toBe(401)
+    expect((await open(token, 'open sesame')).statusCode).toBe(200)
+  })
+
+  it('returns 404 for unknown tokens and 410 for assets in the trash', async () => {
+    const { token } = (await createLink()).body.data
+
+    expect((await open('not-a-real-token')).statusCode).toBe(404)
+    await Asset.destroy({ where: { id: params.id } })
+    expect((await open(token)).statusCode).toBe(410)
+  })
+
+  it('limits the requests from one IP address', async () => {
+    const event = api.buildEvent('GET', '/shared/{token}', { params: { token: 'not-a-real-token' }, as: null })
+    const fromAddress = () =>
+      handler({ ...event, requestContext: { ...event.requestContext, identity: { sourceIp: '203.0.113.7' } } } as any)
+
+    for (let i = 0; i < env.SHARE_LINK_REQUESTS_PER_MINUTE_PER_IP; i++) {
+      expect((await fromAddress()).statusCode).toBe(404)
+    }
+    const limited = parseResult(await fromAddress())
+
+    expect(limited.statusCode).toBe(429)
+    expect(Number(limited.headers['Retry-After'])).toBeGreaterThan(0)
+    expect((await open('not-a-real-token')).statusCode).toBe(404)
+  })
+
+  describe('expiry and lockout', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('locks the link after too many incorrect passwords', async () => {
+      const { id, token } = (await createLink({ password: 'open sesame' })).body.data
+
+      for (let i = 1; i < env.SHARE_LINK_MAX_PASSWORD_ATTEMPTS; i++) {
+        expect((await open(token, `guess ${i}`)).statusCode).toBe(401)
+      }
+      const locking = await open(token, 'last guess')
+
+      expect(locking.statusCode).toBe(429)
+      expect(Number(locking.headers['Retry-After'])).toBe(env.SHARE_LINK_LOCKOUT_MINUTES * 60)
+      // The right password is refused too until the lockout ends
+      expect((await open(token, 'open sesame')).statusCode).toBe(429)
+
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date(Date.now() + env.SHARE_LINK_LOCKOUT_MINUTES * 60 * 1000 + 1000))
+
+      expect((await open(token, 'open sesame')).statusCode).toBe(200)
+      expect(await ShareLink.findByPk(id)).toMatchObject({ failedPasswordAttempts: 0, accessCount: 1 })
+    })
+
+    it('stops working once the link expires', async () => {
+      const expiresAt = new Date(Date.now() + 3600 * 1000)
+      const { token } = (await createLink({ expiresAt: expiresAt.toISOString() })).body.data
+
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date(expiresAt.getTime() + 1000))
+      const response = await open(token)
+
+      expect(response.statusCode).toBe(410)
+      expect(response.body.error).toMatch(/expired/)
+    })
+  })
+})
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset, AssetShare } from '../../shared/src/models'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Sharing assets with users and groups, and what viewers and editors can do
+ */
+
+const owner = 'share-test-owner'
+const viewer = 'share-test-viewer'
+const editor = 'share-test-editor'
+const stranger = 'share-test-stranger'
+const api = createTestClient(handler, { sub: owner })
+
+let params: { id: string }
+
+const share = (body: unknown, as = owner) => api.post('/assets/{id}/shares', { params, body, as })
+
+const listNames = async (query: Record<string, string>, as: string, groups?: string) =>
+  (await api.get('/assets', { query, as, groups })).body.data.assets.map((asset: { name: string }) => asset.name).sort()
+
+beforeEach(async () => {
+  const created = await api.post('/assets', { body: { name: 'Shared Asset', category: 'document' } })
+  params = { id: created.body.data.id }
+  await api.post('/assets', { body: { name: 'Private Asset', category: 'document' } })
+  await share({ granteeId: viewer, role: 'viewer' })
+  await share({ granteeId: editor, role: 'editor' })
+})
+
+describe('share endpoints', () => {
+  it('lists shares to the owner only', async () => {
+    const response = await api.get('/assets/{id}/shares', { params })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.shares.map((s: any) => `${s.granteeId}:${s.role}`).sort()).toEqual([
+      `${editor}:editor`,
+      `${viewer}:viewer`,
+    ])
+    expect((await api.get('/assets/{id}/shares', { params, as: editor })).statusCode).toBe(403)
+  })
+
+  it('changes the role when sharing again with the same grantee', async () => {
+    const response = await share({ granteeId: viewer, role: 'editor' })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.role).toBe('editor')
+    expect(await AssetShare.count({ where: { assetId: params.id } })).toBe(2)
+  })
+
+  it('rejects sharing with the owner and sharing by sharees', async () => {
+    expect((await share({ granteeId: owner, role: 'viewer' })).statusCode).toBe(400)
+    expect((await share({ granteeId: stranger, role: 'viewer' }, editor)).statusCode).toBe(403)
+    expect((await share({ granteeId: stranger, role: 'owner' })).statusCode).toBe(400)
+  })
+
+  it('removes access when a share is deleted', async () => {
+    const { shares } = (await api.get('/assets/{id}/shares', { params })).body.data
+    const shareId = shares.find((s: any) => s.granteeId === viewer).id
+
+    expect((await api.delete('/assets/{id}/shares/{shareId}', { params: { ...params, shareId } })).statusCode).toBe(204)
+    expect((await api.delete('/assets/{id}/shares/{shareId}', { params: { ...params, shareId } })).statusCode).toBe(404)
+    expect((await api.get('/assets/{id}', { params, as: viewer })).statusCode).toBe(403)
+  })
+
+  it('deletes shares with the asset', async () => {
+    await Asset.destroy({ where: { id: params.id }, force: true })
+
+    expect(await AssetShare.count({ where: { assetId: params.id } })).toBe(0)
+  })
+})
+
+describe('viewer and editor access', () => {
+  it('lets viewers read the asset and its files, tags and revisions', async () => {
+    const response = await api.get('/assets/{id}', { params, as: viewer })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.access).toBe('viewer')
+    expect((await api.get('/assets/{id}/files', { params, as: viewer })).statusCode).toBe(200)
+    expect((await api.get('/assets/{id}/tags', { params, as: viewer })).statusCode).toBe(200)
+    expect((await api.get('/assets/{id}/revisions', { params, as: viewer })).statusCode).toBe(200)
+  })
+
+  it('lets editors update the asset but not viewers', async () => {
+    const denied = await api.patch('/assets/{id}', { params, as: viewer, body: { name: 'By Viewer' } })
+    const updated = await api.patch('/assets/{id}', { params, as: editor, body: { name: 'By Editor' } })
+
+    expect(denied.statusCode).toBe(403)
+    expect(denied.body.error).toMatch(/requires editor access/)
+    expect(updated.statusCode).toBe(200)
+    expect(updated.body.data.name).toBe('By Editor')
+  })
+
+  it('keeps trashing, tags and uploads with the owner', async () => {
+    const deleted = await api.delete('/assets/{id}', { params, as: editor })
+    const tagged = await api.post('/assets/{id}/tags', { params, as: editor, body: { name: 'env' } })
+    const upload = await api.post('/assets/{id}/upload-url', {
+      params,
+      as: editor,
+      body: { contentType: 'application/pdf', size: 10 },
+    })
+
+    expect(deleted.statusCode).toBe(403)
+    expect(deleted.body.error).toMatch(/Only the owner/)
+    expect(tagged.statusCode).toBe(403)
+    expect(upload.statusCode).toBe(403)
+  })
+
+  it('grants group shares to members of the group', async () => {
+    await share({ granteeType: 'group', granteeId: 'designers', role: 'viewer' })
+
+    expect((await api.get('/assets/{id}', { params, as: stranger })).statusCode).toBe(403)
+    const member = await api.get('/assets/{id}', { params, as: stranger, groups: 'designers' })
+    expect(member.statusCode).toBe(200)
+    expect(member.body.data.access).toBe('viewer')
+  })
+
+  it('uses the highest role when several shares apply', async () => {
+    await share({ granteeType: 'group', granteeId: 'designers', role: 'editor' })
+
+    const response = await api.get('/assets/{id}', { params, as: viewer, groups: 'designers' })
+
+    expect(response.body.data.access).toBe('editor')
+  })
+})
+
+describe('GET /assets scope', () => {
+  it('lists owned, shared or all assets', async () => {
+    await api.post('/assets', { as: viewer, body: { name: 'Viewer Asset', category: 'other' } })
+
+    expect(await listNames({}, viewer)).toEqual(['Viewer Asset'])
+    expect(await listNames({ scope: 'shared' }, viewer)).toEqual(['Shared Asset'])
+    expect(await listNames({ scope: 'all' }, viewer)).toEqual(['Shared Asset', 'Viewer Asset'])
+    expect(await listNames({ scope: 'shared' }, owner)).toEqual([])
+  })
+
+  it('filters shared assets by owner and reports access per asset', async () => {
+    const response = await api.get('/assets', { query: { scope: 'all', ownerId: owner }, as: editor })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.assets.map((asset: any) => [asset.name, asset.access])).toEqual([
+      ['Shared Asset', 'editor'],
+    ])
+    expect((await api.get('/assets', { query: { ownerId: owner }, as: editor })).statusCode).toBe(403)
+  })
+})
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Tag } from '../../shared/src/models'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Tagging, tag and status filters and tag cleanup
+ */
+
+const api = createTestClient(handler, { sub: 'tag-test-owner' })
+
+let prod: { id: string }
+let staging: { id: string }
+
+const addTag = (params: { id: string }, body: unknown, as?: string) =>
+  api.post('/assets/{id}/tags', { params, body, as })
+
+const listNames = async (query: Record<string, string>) =>
+  (await api.get('/assets', { query })).body.data.assets.map((asset: { name: string }) => asset.name).sort()
+
+beforeEach(async () => {
+  const created = await Promise.all([
+    api.post('/assets', { body: { name: 'Prod Server', category: 'other' } }),
+    api.post('/assets', {
+      body: { name: 'Staging Server', category: 'other', status: 'maintenance', statusNote: 'Disk swap' },
+    }),
+  ])
+  ;[prod, staging] = created.map((response) => ({ id: response.body.data.id }))
+})
+
+describe('asset status', () => {
+  it('defaults new assets to active and stores status and note', async () => {
+    const [prodAsset, stagingAsset] = await Promise.all([
+      api.get('/assets/{id}', { params: prod }),
+      api.get('/assets/{id}', { params: staging }),
+    ])
+
+    expect(prodAsset.body.data.status).toBe('active')
+    expect(stagingAsset.body.data).toMatchObject({ status: 'maintenance', statusNote: 'Disk swap' })
+  })
+
+  it('records status changes as revisions', async () => {
+    await api.patch('/assets/{id}', { params: prod, body: { status: 'archived', statusNote: 'Replaced' } })
+    const { revisions } = (await api.get('/assets/{id}/revisions', { params: prod })).body.data
+
+    expect(revisions[0].action).toBe('updated')
+    expect(revisions[0].changes).toContainEqual(
+      expect.objectContaining({ field: 'status', from: 'active', to: 'archived' })
+    )
+  })
+})
+
+describe('asset tags', () => {
+  beforeEach(async () => {
+    await addTag(prod, { name: 'env', value: 'prod' })
+    await addTag(prod, { name: 'critical' })
+    await addTag(staging, { name: 'env', value: 'staging' })
+    await addTag(staging, { name: 'critical' })
+  })
+
+  it('reuses tags across assets and lists them per asset and per owner', async () => {
+    const assetTags = await api.get('/assets/{id}/tags', { params: prod })
+    const ownerTags = await api.get('/tags')
+
+    expect(assetTags.body.data.tags).toHaveLength(2)
+    expect(ownerTags.body.data.tags).toHaveLength(3)
+    expect(ownerTags.body.data.tags).toContainEqual(
+      expect.objectContaining({ name: 'critical', value: null, assetCount: 2 })
+    )
+  })
+
+  it('returns the new tag with 201 and rejects duplicates with 409', async () => {
+    const added = await addTag(prod, { name: 'tier', value: 'gold' })
+    const duplicate = await addTag(prod, { name: 'env', value: 'prod' })
+
+    expect(added.statusCode).toBe(201)
+    expect(added.body.data).toMatchObject({ name: 'tier', value: 'gold' })
+    expect(duplicate.statusCode).toBe(409)
+  })
+
+  it('combines tag and status filters', async () => {
+    expect(await listNames({ tag: 'critical' })).toEqual(['Prod Server', 'Staging Server'])
+    expect(await listNames({ tag: 'env:prod' })).toEqual(['Prod Server'])
+    expect(await listNames({ tag: 'critical,env:staging', status: 'maintenance' })).toEqual(['Staging Server'])
+    expect(await listNames({ tag: 'env:prod', status: 'maintenance' })).toEqual([])
+  })
+
+  it('returns 400 for invalid filters and tag names', async () => {
+    expect((await api.get('/assets', { query: { status: 'deleted' } })).statusCode).toBe(400)
+    expect((await api.get('/assets', { query: { tag: ':prod' } })).statusCode).toBe(400)
+    expect((await addTag(prod, { name: 'a:b' })).statusCode).toBe(400)
+  })
+
+  it("hides an asset's tags from other users", async () => {
+    expect((await api.get('/assets/{id}/tags', { params: prod, as: 'someone-else' })).statusCode).toBe(403)
+    expect((await addTag(prod, { name: 'mine' }, 'someone-else')).statusCode).toBe(403)
+  })
+
+  it('deletes a tag with its last use and treats removing it again as a no-op', async () => {
+    const tag = await Tag.findOne({ where: { ownerId: 'tag-test-owner', name: 'env', value: 'prod' } })
+    const params = { ...prod, tagId: String(tag!.id) }
+
+    expect((await api.delete('/assets/{id}/tags/{tagId}', { params })).statusCode).toBe(204)
+    expect((await api.delete('/assets/{id}/tags/{tagId}', { params })).statusCode).toBe(204)
+    expect(await Tag.count({ where: { id: tag!.id } })).toBe(0)
+  })
+})
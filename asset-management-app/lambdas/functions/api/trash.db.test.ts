@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { purgeTrashedAssets } from '../../shared/src/jobs/purgeTrash'
+import { Asset } from '../../shared/src/models'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Soft delete, trash listing, restore and purge
+ */
+
+const owner = 'trash-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+let assetId: string
+
+beforeEach(async () => {
+  const created = await api.post('/assets', { body: { name: 'Trash Test Asset', category: 'image' } })
+  assetId = created.body.data.id
+})
+
+const trashedIds = async () =>
+  (await api.get('/assets/trash')).body.data.assets.map((asset: { id: string }) => asset.id)
+
+describe('asset trash', () => {
+  it('hides a deleted asset from reads and the asset list', async () => {
+    expect((await api.delete('/assets/{id}', { params: { id: assetId } })).statusCode).toBe(204)
+
+    expect((await api.get('/assets/{id}', { params: { id: assetId } })).statusCode).toBe(404)
+    expect((await api.get('/assets')).body.data.assets).toEqual([])
+  })
+
+  it('lists deleted assets with their deletion time', async () => {
+    await api.delete('/assets/{id}', { params: { id: assetId } })
+    const response = await api.get('/assets/trash')
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.assets).toEqual([expect.objectContaining({ id: assetId, deletedAt: expect.any(String) })])
+    expect((await api.get('/assets/trash', { as: 'someone-else' })).body.data.assets).toEqual([])
+  })
+
+  it('restores a deleted asset', async () => {
+    await api.delete('/assets/{id}', { params: { id: assetId } })
+    const restored = await api.post('/assets/{id}/restore', { params: { id: assetId } })
+
+    expect(restored.statusCode).toBe(200)
+    expect((await api.get('/assets/{id}', { params: { id: assetId } })).statusCode).toBe(200)
+    expect(await trashedIds()).toEqual([])
+  })
+
+  it('returns 409 when restoring an asset that is not in the trash', async () => {
+    expect((await api.post('/assets/{id}/restore', { params: { id: assetId } })).statusCode).toBe(409)
+  })
+
+  it("returns 404 for an unknown asset and 403 for another user's asset on restore", async () => {
+    await api.delete('/assets/{id}', { params: { id: assetId } })
+
+    expect((await api.post('/assets/{id}/restore', { params: { id: 'missing-asset-id' } })).statusCode).toBe(404)
+    expect((await api.post('/assets/{id}/restore', { as: 'someone-else', params: { id: assetId } })).statusCode).toBe(
+      403
+    )
+  })
+
+  it('purges expired assets and their objects', async () => {
+    // imageKey is normally set by upload-complete; attach one directly so the purge has an object to delete
+    await Asset.update({ imageKey: `assets/${owner}/trash-test.jpg` }, { where: { id: assetId } })
+    await api.delete('/assets/{id}', { params: { id: assetId } })
+
+    const deletedKeys: string[] = []
+    const result = await purgeTrashedAssets({
+      retentionDays: 0,
+      now: new Date(Date.now() + 1000),
+      deleteObjects: async (keys) => {
+        deletedKeys.push(...keys)
+        return []
+      },
+    })
+
+    expect(result.purged).toBe(1)
+    expect(deletedKeys).toEqual([`assets/${owner}/trash-test.jpg`])
+    expect(await trashedIds()).toEqual([])
+  })
+})
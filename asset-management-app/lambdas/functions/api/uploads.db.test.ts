@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { headObject } from '../../shared/src/utils/storage'
+import { createTestClient } from '../../shared/src/testing/events'
+
+/**
+ * Presigned upload / download URLs and asset files, against the S3 stand-in started by the db test setup
+ */
+
+const owner = 'upload-test-owner'
+const intruder = 'upload-test-intruder'
+const api = createTestClient(handler, { sub: owner })
+
+const png = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+)
+
+let assetId: string
+
+beforeEach(async () => {
+  const created = await api.post('/assets', { body: { name: 'Upload Test Asset', category: 'image' } })
+  assetId = created.body.data.id
+})
+
+/**
+ * Request an upload URL and PUT `content` to it; returns the object key
+ */
+async function upload(content: Buffer, contentType: string, role?: string): Promise<string> {
+  const response = await api.post('/assets/{id}/upload-url', {
+    params: { id: assetId },
+    body: { contentType, size: content.length, ...(role && { role }) },
+  })
+  const { uploadUrl, key, headers } = response.body.data
+  const put = await fetch(uploadUrl, { method: 'PUT', headers, body: new Uint8Array(content) })
+  expect(put.ok).toBe(true)
+  return key
+}
+
+describe('upload URLs', () => {
+  it('returns a URL for a key under the owner prefix', async () => {
+    const response = await api.post('/assets/{id}/upload-url', {
+      params: { id: assetId },
+      body: { contentType: 'image/png', size: png.length },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data).toMatchObject({ method: 'PUT', headers: { 'Content-Type': 'image/png' } })
+    expect(response.body.data.key.startsWith(`assets/${owner}/${assetId}/`)).toBe(true)
+  })
+
+  it('rejects a disallowed content type or an oversized file', async () => {
+    const request = (body: unknown) => api.post('/assets/{id}/upload-url', { params: { id: assetId }, body })
+
+    expect((await request({ contentType: 'video/mp4', size: png.length })).statusCode).toBe(400)
+    expect((await request({ contentType: 'image/png', size: 100 * 1024 * 1024 })).statusCode).toBe(400)
+  })
+
+  it('rejects setting imageKey directly', async () => {
+    const response = await api.patch('/assets/{id}', {
+      params: { id: assetId },
+      body: { imageKey: `assets/${owner}/forged.png` },
+    })
+
+    expect(response.statusCode).toBe(400)
+  })
+})
+
+describe('upload-complete', () => {
+  it('returns 409 before the file is uploaded', async () => {
+    const response = await api.post('/assets/{id}/upload-url', {
+      params: { id: assetId },
+      body: { contentType: 'image/png', size: png.length },
+    })
+    const early = await api.post('/assets/{id}/upload-complete', {
+      params: { id: assetId },
+      body: { key: response.body.data.key },
+    })
+
+    expect(early.statusCode).toBe(409)
+  })
+
+  it('sets imageKey to the uploaded file', async () => {
+    const key = await upload(png, 'image/png')
+    const completed = await api.post('/assets/{id}/upload-complete', { params: { id: assetId }, body: { key } })
+
+    expect(completed.statusCode).toBe(200)
+    expect(completed.body.data.imageKey).toBe(key)
+  })
+
+  it("returns 403 when another user confirms the owner's upload", async () => {
+    const key = await upload(png, 'image/png')
+
+    const response = await api.post('/assets/{id}/upload-complete', {
+      as: intruder,
+      params: { id: assetId },
+      body: { key },
+    })
+
+    expect(response.statusCode).toBe(403)
+  })
+})
+
+describe('download URLs', () => {
+  it('returns a URL for the uploaded file', async () => {
+    const key = await upload(png, 'image/png')
+    await api.post('/assets/{id}/upload-complete', { params: { id: assetId }, body: { key } })
+
+    const download = await api.get('/assets/{id}/download-url', { params: { id: assetId } })
+    const fetched = await fetch(download.body.data.downloadUrl)
+
+    expect(download.statusCode).toBe(200)
+    expect(Buffer.from(await fetched.arrayBuffer()).equals(png)).toBe(true)
+  })
+
+  it('returns 404 without an uploaded file and 403 for another user', async () => {
+    expect((await api.get('/assets/{id}/download-url', { params: { id: assetId } })).statusCode).toBe(404)
+    expect((await api.get('/assets/{id}/download-url', { as: intruder, params: { id: assetId } })).statusCode).toBe(
+      403
+    )
+  })
+})
+
+describe('asset files', () => {
+  let primaryKey: string
+  let attachmentKey: string
+  let attachmentId: string
+
+  beforeEach(async () => {
+    primaryKey = await upload(png, 'image/png')
+    await api.post('/assets/{id}/upload-complete', { params: { id: assetId }, body: { key: primaryKey } })
+
+    attachmentKey = await upload(Buffer.from('release notes'), 'text/plain', 'attachment')
+    const attached = await api.post('/assets/{id}/files', { params: { id: assetId }, body: { key: attachmentKey } })
+    expect(attached.statusCode).toBe(201)
+    expect(attached.body.data.role).toBe('attachment')
+    attachmentId = attached.body.data.id
+  })
+
+  it('embeds the file list in getAsset, primary first', async () => {
+    const files = (await api.get('/assets/{id}', { params: { id: assetId } })).body.data.files
+
+    expect(files).toEqual([
+      expect.objectContaining({ role: 'primary', key: primaryKey, size: png.length }),
+      expect.objectContaining({ id: attachmentId, role: 'attachment' }),
+    ])
+  })
+
+  it('returns file metadata and a download URL', async () => {
+    const params = { id: assetId, fileId: attachmentId }
+
+    expect((await api.get('/assets/{id}/files/{fileId}', { params })).body.data.key).toBe(attachmentKey)
+    expect((await api.get('/assets/{id}/files/{fileId}/download-url', { params })).statusCode).toBe(200)
+    const missing = await api.get('/assets/{id}/files/{fileId}', { params: { ...params, fileId: 'missing' } })
+    expect(missing.statusCode).toBe(404)
+  })
+
+  it('returns 409 when the same upload is attached twice', async () => {
+    const again = await api.post('/assets/{id}/files', { params: { id: assetId }, body: { key: attachmentKey } })
+
+    expect(again.statusCode).toBe(409)
+  })
+
+  it('does not make a text file the primary file of an image asset', async () => {
+    const params = { id: assetId, fileId: attachmentId }
+
+    expect((await api.patch('/assets/{id}/files/{fileId}', { params, body: { role: 'primary' } })).statusCode).toBe(
+      400
+    )
+  })
+
+  it('deletes the row and the object', async () => {
+    const removed = await api.delete('/assets/{id}/files/{fileId}', { params: { id: assetId, fileId: attachmentId } })
+    const remaining = await api.get('/assets/{id}/files', { params: { id: assetId } })
+
+    expect(removed.statusCode).toBe(204)
+    expect(remaining.body.data.files).toHaveLength(1)
+    expect(await headObject(attachmentKey)).toBeNull()
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { createTestClient } from '../../shared/src/testing/events'
+
+const owner = 'create-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+describe('createAsset handler', () => {
+  it('creates an asset owned by the caller', async () => {
+    const response = await api.post('/assets', {
+      body: { ownerId: owner, name: 'My Test Asset', description: 'This is a test asset', category: 'image' },
+    })
+
+    expect(response.statusCode).toBe(201)
+    expect(response.body.data).toMatchObject({ ownerId: owner, name: 'My Test Asset', category: 'image' })
+    expect(response.headers.ETag).toBe(response.body.data.etag)
+    expect(await Asset.count({ where: { ownerId: owner } })).toBe(1)
+  })
+
+  it('returns 400 when a required field is missing', async () => {
+    const response = await api.post('/assets', { body: { category: 'image' } })
+
+    expect(response.statusCode).toBe(400)
+    expect(response.body.field).toBe('name')
+  })
+
+  it('returns 400 for an unknown category', async () => {
+    const response = await api.post('/assets', { body: { name: 'Test Asset', category: 'invalid-category' } })
+
+    expect(response.statusCode).toBe(400)
+    expect(response.body.field).toBe('category')
+  })
+
+  it('returns 500 with the route error message when the database fails', async () => {
+    vi.spyOn(Asset, 'create').mockRejectedValueOnce(new Error('Connection lost'))
+
+    const response = await api.post('/assets', { body: { name: 'Test Asset', category: 'image' } })
+
+    expect(response.statusCode).toBe(500)
+    expect(response.body.error).toBe('Failed to create asset')
+  })
+})
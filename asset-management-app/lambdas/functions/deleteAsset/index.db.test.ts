@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { AssetCategory, type AssetInstance } from '../../shared/src/types'
+import { createTestClient } from '../../shared/src/testing/events'
+
+const owner = 'delete-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+let asset: AssetInstance
+
+beforeEach(async () => {
+  asset = await Asset.create({ ownerId: owner, name: 'Test Asset', category: AssetCategory.OTHER })
+})
+
+describe('deleteAsset handler', () => {
+  it('moves the asset to the trash', async () => {
+    const response = await api.delete('/assets/{id}', { params: { id: asset.id } })
+    const trashed = await Asset.findByPk(asset.id, { paranoid: false })
+
+    expect(response.statusCode).toBe(204)
+    expect(await Asset.findByPk(asset.id)).toBeNull()
+    expect(trashed?.deletedAt).toBeInstanceOf(Date)
+  })
+
+  it('returns 204 again for a deleted asset', async () => {
+    await api.delete('/assets/{id}', { params: { id: asset.id } })
+
+    expect((await api.delete('/assets/{id}', { params: { id: asset.id } })).statusCode).toBe(204)
+  })
+
+  it('returns 400 without an asset ID', async () => {
+    expect((await api.delete('/assets/{id}')).statusCode).toBe(400)
+  })
+
+  it("returns 403 for another user's asset", async () => {
+    expect((await api.delete('/assets/{id}', { as: 'someone-else', params: { id: asset.id } })).statusCode).toBe(403)
+    expect(await Asset.findByPk(asset.id)).not.toBeNull()
+  })
+})
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { AssetCategory, type AssetInstance } from '../../shared/src/types'
+import { createTestClient } from '../../shared/src/testing/events'
+
+const owner = 'get-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+let asset: AssetInstance
+
+beforeEach(async () => {
+  asset = await Asset.create({ ownerId: owner, name: 'Test Asset', category: AssetCategory.DOCUMENT })
+})
+
+describe('getAsset handler', () => {
+  it('returns the asset with its files and tags', async () => {
+    const response = await api.get('/assets/{id}', { params: { id: asset.id } })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data).toMatchObject({ id: asset.id, name: 'Test Asset', files: [], tags: [] })
+  })
+
+  it('returns 404 for an unknown asset', async () => {
+    const response = await api.get('/assets/{id}', { params: { id: '00000000-0000-0000-0000-000000000000' } })
+
+    expect(response.statusCode).toBe(404)
+  })
+
+  it('returns 400 without an asset ID', async () => {
+    expect((await api.get('/assets/{id}')).statusCode).toBe(400)
+  })
+
+  it("returns 403 for another user's asset", async () => {
+    expect((await api.get('/assets/{id}', { as: 'someone-else', params: { id: asset.id } })).statusCode).toBe(403)
+  })
+})
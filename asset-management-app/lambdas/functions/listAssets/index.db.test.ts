@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { AssetCategory } from '../../shared/src/types'
+import { createTestClient } from '../../shared/src/testing/events'
+
+const owner = 'list-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+beforeEach(async () => {
+  await Asset.bulkCreate([
+    { ownerId: owner, name: 'Test Logo', description: 'Blue test logo', category: AssetCategory.IMAGE },
+    { ownerId: owner, name: 'Manual', description: 'Test manual for the printer', category: AssetCategory.DOCUMENT },
+    { ownerId: owner, name: 'Photo', category: AssetCategory.IMAGE },
+    { ownerId: 'someone-else', name: 'Test Asset', category: AssetCategory.IMAGE },
+  ])
+})
+
+const names = (body: any) => body.data.assets.map((asset: { name: string }) => asset.name)
+
+describe('listAssets handler', () => {
+  it("lists only the caller's assets", async () => {
+    const response = await api.get('/assets')
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.pagination.total).toBe(3)
+    expect(names(response.body).sort()).toEqual(['Manual', 'Photo', 'Test Logo'])
+  })
+
+  it('accepts the caller as ownerId and filters by category', async () => {
+    const response = await api.get('/assets', { query: { ownerId: owner, category: 'image' } })
+
+    expect(names(response.body).sort()).toEqual(['Photo', 'Test Logo'])
+  })
+
+  it('pages with limit and offset', async () => {
+    const response = await api.get('/assets', { query: { limit: '2', offset: '2', sort: 'name:asc' } })
+
+    expect(names(response.body)).toEqual(['Test Logo'])
+    expect(response.body.data.pagination).toMatchObject({ total: 3, limit: 2, offset: 2 })
+  })
+
+  it('pages with cursors in both directions', async () => {
+    const page = async (cursor?: string) =>
+      (await api.get('/assets', { query: { limit: '1', sort: 'name:asc', count: 'false', ...(cursor && { cursor }) } }))
+        .body.data
+    const first = await page()
+    const second = await page(first.pagination.nextCursor)
+    const back = await page(second.pagination.prevCursor)
+
+    expect(first.pagination.total).toBeNull()
+    expect([first.assets[0].name, second.assets[0].name]).toEqual(['Manual', 'Photo'])
+    expect(back.assets[0].id).toBe(first.assets[0].id)
+  })
+
+  it('orders search results by relevance and highlights matches', async () => {
+    const response = await api.get('/assets', { query: { q: 'test' } })
+    const assets = response.body.data.assets
+    const scores = assets.map((asset: { relevance: number }) => asset.relevance)
+
+    expect(response.statusCode).toBe(200)
+    expect(names(response.body).sort()).toEqual(['Manual', 'Test Logo'])
+    expect(scores).toEqual([...scores].sort((a, b) => b - a))
+    for (const asset of assets) {
+      expect(asset.highlights.name + asset.highlights.description).toMatch(/<mark>/i)
+    }
+  })
+
+  it('returns 400 for an invalid sort field or a query without words', async () => {
+    expect((await api.get('/assets', { query: { sort: 'ownerId:asc' } })).statusCode).toBe(400)
+    expect((await api.get('/assets', { query: { q: '+*"' } })).statusCode).toBe(400)
+  })
+
+  it("returns 403 for another user's ownerId", async () => {
+    expect((await api.get('/assets', { query: { ownerId: 'someone-else' } })).statusCode).toBe(403)
+  })
+})
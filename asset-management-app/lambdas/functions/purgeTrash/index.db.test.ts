@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest'
+import { handler } from './index'
+import { Asset, AuditEvent } from '../../shared/src/models'
+import { AssetCategory } from '../../shared/src/types'
+
+const owner = 'purge-test-owner'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Create an asset that was moved to the trash `daysAgo` days ago
+ */
+async function createTrashedAsset(name: string, daysAgo: number, imageKey: string | null = null) {
+  const asset = await Asset.create({ ownerId: owner, name, category: AssetCategory.IMAGE, imageKey })
+  await Asset.update(
+    { deletedAt: new Date(Date.now() - daysAgo * DAY_MS) },
+    { where: { id: asset.id }, paranoid: false, silent: true }
+  )
+  return asset
+}
+
+describe('purgeTrash handler', () => {
+  it('purges assets trashed longer than the retention period', async () => {
+    const expired = await createTrashedAsset('Expired', 40, `assets/${owner}/expired/photo.png`)
+    const recent = await createTrashedAsset('Recent', 1)
+
+    const result = await handler()
+
+    expect(result).toMatchObject({ success: true, purged: 1, deletedObjects: 1, failed: [] })
+    expect(await Asset.findByPk(expired.id, { paranoid: false })).toBeNull()
+    expect(await Asset.findByPk(recent.id, { paranoid: false })).not.toBeNull()
+    expect(await AuditEvent.count({ where: { assetId: expired.id, action: 'purged' } })).toBe(1)
+  })
+
+  it('keeps assets whose object could not be deleted', async () => {
+    // The S3 stand-in denies keys outside assets/{entity_id}/
+    const asset = await createTrashedAsset('Outside prefix', 40, 'private/photo.png')
+
+    const result = await handler()
+
+    expect(result).toMatchObject({ success: true, purged: 0, failed: [asset.id] })
+    expect(await Asset.findByPk(asset.id, { paranoid: false })).not.toBeNull()
+  })
+
+  it('rethrows database failures', async () => {
+    vi.spyOn(Asset, 'findAll').mockRejectedValueOnce(new Error('Connection lost'))
+
+    await expect(handler()).rejects.toThrow('Connection lost')
+  })
+})
@@ -0,0 +1,39 @@
+import type { Context } from 'aws-lambda'
+import { connectToDatabase } from '../../shared/src/config/dbHelper'
+import { purgeTrashedAssets } from '../../shared/src/jobs/purgeTrash'
+import { logger, runWithLogContext } from '../../shared/src/utils/logger'
+
+/**
+ * Scheduled Lambda to purge the asset trash
+ *
+ * Permanently removes assets soft-deleted more than TRASH_RETENTION_DAYS ago,
+ * along with their S3 imageKey objects. Triggered daily by EventBridge.
+ */
+export const handler = async (_event?: unknown, context?: Context) =>
+  runWithLogContext({ function: 'purgeTrash', awsRequestId: context?.awsRequestId }, async () => {
+    const startedAt = Date.now()
+    logger.info('Purging trashed assets')
+
+    try {
+      await connectToDatabase()
+
+      const result = await purgeTrashedAssets()
+      logger.info('Trash purged', {
+        purged: result.purged,
+        deletedObjects: result.deletedObjects,
+        cutoff: result.cutoff,
+        durationMs: Date.now() - startedAt,
+      })
+      if (result.failed.length > 0) {
+        logger.warn('Kept assets whose objects could not be deleted', { failed: result.failed })
+      }
+
+      return {
+        success: true,
+        ...result,
+      }
+    } catch (error) {
+      logger.error('Trash purge failed', { error, durationMs: Date.now() - startedAt })
+      throw error
+    }
+  })
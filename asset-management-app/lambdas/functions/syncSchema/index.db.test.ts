@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { env } from '../../shared/src/config/env'
+import { migrations } from '../../shared/src/migrations'
+
+/**
+ * The test database is already migrated by the db test setup
+ */
+
+const run = async (event: Parameters<typeof handler>[0]) => {
+  const result = await handler(event)
+  return { statusCode: result.statusCode, body: JSON.parse(result.body) }
+}
+
+describe('syncSchema handler', () => {
+  it('reports every migration as applied', async () => {
+    const { statusCode, body } = await run({ command: 'status' })
+
+    expect(statusCode).toBe(200)
+    expect(body.data.map((status: { name: string }) => status.name)).toEqual(migrations.map((m) => m.name))
+    expect(body.data.every((status: { state: string }) => status.state === 'applied')).toBe(true)
+  })
+
+  it('has nothing to apply on up', async () => {
+    const { statusCode, body } = await run({})
+
+    expect(statusCode).toBe(200)
+    expect(body.data.migrations).toEqual([])
+  })
+
+  it('releases the migration lock on unlock', async () => {
+    expect((await run({ command: 'unlock' })).body.data).toEqual({ unlocked: true })
+  })
+
+  it('returns 500 for an unknown command', async () => {
+    const { statusCode, body } = await run({ command: 'drop' })
+
+    expect(statusCode).toBe(500)
+    expect(body).toEqual({ success: false, error: 'Unknown migration command: drop' })
+  })
+
+  it('only runs for administrators when called through the API', async () => {
+    const caller = (groups: string) => ({ sub: 'sync-test-user', groups })
+
+    await expect(handler({ command: 'status', caller: caller('') })).rejects.toThrow(/^Forbidden/)
+    await expect(handler({ command: 'status', caller: caller('editors') })).rejects.toThrow(/^Forbidden/)
+    expect((await run({ command: 'status', caller: caller(`editors,${env.ADMIN_GROUP}`) })).statusCode).toBe(200)
+  })
+})
@@ -1,33 +1,107 @@
+import type { Context } from 'aws-lambda'
 import { connectToDatabase } from '../../shared/src/config/dbHelper'
 import { sequelize } from '../../shared/src/models'
+import { migrations } from '../../shared/src/migrations'
+import { createMigrator } from '../../shared/src/migrations/migrator'
+import { isAdmin } from '../../shared/src/http/auth'
+import { logger, runWithLogContext } from '../../shared/src/utils/logger'
 
 /**
- * One-time Lambda to sync database schema
- * 
- * This creates all tables based on Sequelize models
+ * Schema migration Lambda
+ *
+ * Runs the versioned migrations in shared/src/migrations (replaces sequelize.sync({ alter: true })).
+ *
+ * Event (all optional):
+ * {
+ *   command: 'up' | 'down' | 'status' | 'baseline' | 'unlock' (default: 'up')
+ *   dryRun: boolean - return the SQL without executing it
+ *   to: string - last migration to apply / baseline
+ *   steps: number - migrations to roll back with 'down' (default: 1)
+ *   caller: { sub, groups } - set by the POST /admin/sync-schema mapping template from the Cognito
+ *     claims; the caller must be in ADMIN_GROUP. Direct invocations (IAM only) have no caller.
+ * }
  */
-export const handler = async () => {
-  console.log('🔄 Syncing database schema...')
+export const handler = async (
+  event: {
+    command?: string
+    dryRun?: boolean
+    to?: string
+    steps?: number
+    caller?: { sub?: string; groups?: string }
+  } = {},
+  context?: Context
+) =>
+  runWithLogContext({ function: 'syncSchema', awsRequestId: context?.awsRequestId }, () => {
+    assertAdminCaller(event.caller)
+    return runCommand(event)
+  })
+
+/**
+ * Reject API callers outside ADMIN_GROUP
+ * Thrown rather than returned: the non-proxy integration maps errors starting with "Forbidden" to 403.
+ */
+function assertAdminCaller(caller: { sub?: string; groups?: string } | undefined) {
+  if (!caller) {
+    return
+  }
+  // API Gateway flattens list claims into a comma-separated string
+  const groups = caller.groups ? caller.groups.split(',') : []
+  if (!caller.sub || !isAdmin({ ownerId: caller.sub, groups })) {
+    logger.warn('Schema migration rejected: caller is not an administrator', { ownerId: caller.sub })
+    throw new Error('Forbidden: administrator access required')
+  }
+}
+
+async function runCommand(event: { command?: string; dryRun?: boolean; to?: string; steps?: number }) {
+  const command = event.command || 'up'
+  const options = {
+    dryRun: !!event.dryRun,
+    to: event.to,
+    steps: event.steps,
+    log: (message: string) => logger.info(message, { command }),
+  }
+  logger.info('Running schema migrations', { command, dryRun: options.dryRun, to: options.to, steps: options.steps })
 
   try {
     // Connect to database
     await connectToDatabase()
-    console.log('✅ Connected to database')
 
-    // Sync schema (creates tables if they don't exist)
-    await sequelize.sync({ alter: true })
-    console.log('✅ Schema synced successfully')
+    const migrator = createMigrator(sequelize, migrations)
+
+    let data: unknown
+    switch (command) {
+      case 'up':
+        data = await migrator.up(options)
+        break
+      case 'down':
+        data = await migrator.down(options)
+        break
+      case 'baseline':
+        data = await migrator.baseline(options)
+        break
+      case 'status':
+        data = await migrator.status()
+        break
+      case 'unlock':
+        await migrator.unlock()
+        data = { unlocked: true }
+        break
+      default:
+        throw new Error(`Unknown migration command: ${command}`)
+    }
+
+    logger.info('Migration command completed', { command })
 
     return {
       statusCode: 200,
       body: JSON.stringify({
         success: true,
-        message: 'Database schema synced successfully',
+        data,
       }),
     }
   } catch (error) {
-    console.error('❌ Schema sync failed:', error)
-    
+    logger.error('Schema migration failed', { command, error })
+
     return {
       statusCode: 500,
       body: JSON.stringify({
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { handler } from './index'
+import { Asset } from '../../shared/src/models'
+import { AssetCategory, type AssetInstance } from '../../shared/src/types'
+import { createTestClient } from '../../shared/src/testing/events'
+
+const owner = 'update-test-owner'
+const api = createTestClient(handler, { sub: owner })
+
+let asset: AssetInstance
+
+beforeEach(async () => {
+  asset = await Asset.create({ ownerId: owner, name: 'Original Name', category: AssetCategory.IMAGE })
+})
+
+describe('updateAsset handler', () => {
+  it('updates the name', async () => {
+    const response = await api.patch('/assets/{id}', { params: { id: asset.id }, body: { name: 'Updated Name' } })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data.name).toBe('Updated Name')
+    expect((await asset.reload()).name).toBe('Updated Name')
+  })
+
+  it('updates several fields at once', async () => {
+    const response = await api.patch('/assets/{id}', {
+      params: { id: asset.id },
+      body: { description: 'Updated description', category: 'document' },
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(response.body.data).toMatchObject({ description: 'Updated description', category: 'document' })
+  })
+
+  it('returns 400 when changing ownerId', async () => {
+    const response = await api.patch('/assets/{id}', { params: { id: asset.id }, body: { ownerId: 'someone-else' } })
+
+    expect(response.statusCode).toBe(400)
+    expect((await asset.reload()).ownerId).toBe(owner)
+  })
+
+  it('returns 400 for an empty body', async () => {
+    expect((await api.patch('/assets/{id}', { params: { id: asset.id }, body: {} })).statusCode).toBe(400)
+  })
+
+  it('returns 404 for an unknown asset', async () => {
+    const response = await api.patch('/assets/{id}', {
+      params: { id: '00000000-0000-0000-0000-000000000000' },
+      body: { name: 'Updated Name' },
+    })
+
+    expect(response.statusCode).toBe(404)
+  })
+})
@@ -0,0 +1,124 @@
+import fs from 'fs'
+import path from 'path'
+import { build, type Metafile } from 'esbuild'
+
+/**
+ * Bundle each Lambda function into functions/<name>/dist/index.js
+ *
+ * Usage:
+ *   npm run build:lambdas                  # every function
+ *   npm run build:lambdas -- api syncSchema
+ *   npm run build:lambdas -- --check       # bundle in memory and only check the imports
+ *
+ * amplify/backend.ts deploys functions/<name> with the handler dist/index.handler. Everything the
+ * handler imports is bundled and tree-shaken, except the AWS SDK, which the Node.js runtime provides.
+ * lambdas/shared/src is the only shared code: the build fails if a function bundles source from
+ * anywhere else (another function, or an old functions/<name>/shared copy).
+ */
+
+const LAMBDAS_DIR = path.resolve(__dirname, '../..')
+const FUNCTIONS_DIR = path.join(LAMBDAS_DIR, 'functions')
+const SHARED_SRC_DIR = path.join(LAMBDAS_DIR, 'shared/src')
+
+// Provided by the Lambda runtime; pg-hstore is only required by Sequelize's postgres dialect
+const EXTERNALS = ['@aws-sdk/*', 'pg-hstore']
+
+/**
+ * Functions with an index.ts entry point
+ */
+function listFunctions(): string[] {
+  return fs
+    .readdirSync(FUNCTIONS_DIR)
+    .filter((name) => fs.existsSync(path.join(FUNCTIONS_DIR, name, 'index.ts')))
+    .sort()
+}
+
+/**
+ * Bundled source files that come from neither the function itself nor lambdas/shared/src
+ */
+export function findForeignInputs(name: string, metafile: Metafile): string[] {
+  const functionDir = path.join(FUNCTIONS_DIR, name)
+
+  return Object.keys(metafile.inputs)
+    .map((input) => path.resolve(LAMBDAS_DIR, input))
+    .filter((file) => !file.split(path.sep).includes('node_modules'))
+    .filter((file) => {
+      const relativeToFunction = path.relative(functionDir, file)
+      const inFunction = !relativeToFunction.startsWith('..') && !relativeToFunction.startsWith(`shared${path.sep}`)
+      return !inFunction && !file.startsWith(SHARED_SRC_DIR + path.sep)
+    })
+    .map((file) => path.relative(LAMBDAS_DIR, file))
+}
+
+async function bundleFunction(name: string, write: boolean): Promise<string[]> {
+  const outfile = path.join(FUNCTIONS_DIR, name, 'dist/index.js')
+  const result = await build({
+    absWorkingDir: LAMBDAS_DIR,
+    entryPoints: [path.join(FUNCTIONS_DIR, name, 'index.ts')],
+    outfile,
+    bundle: true,
+    treeShaking: true,
+    platform: 'node',
+    target: 'node20',
+    format: 'cjs',
+    external: EXTERNALS,
+    metafile: true,
+    write: false,
+    logLevel: 'error',
+  })
+
+  const foreign = findForeignInputs(name, result.metafile)
+  if (write && foreign.length === 0) {
+    fs.rmSync(path.dirname(outfile), { recursive: true, force: true })
+    fs.mkdirSync(path.dirname(outfile), { recursive: true })
+    for (const file of result.outputFiles) {
+      fs.writeFileSync(file.path, file.contents)
+    }
+    const sizeKb = Math.round(result.outputFiles[0].contents.length / 1024)
+    console.log(`  ✅ ${name} → functions/${name}/dist/index.js (${sizeKb} KB)`)
+  }
+  return foreign
+}
+
+async function run(): Promise<void> {
+  const check = process.argv.includes('--check')
+  const requested = process.argv.slice(2).filter((arg) => arg !== '--check')
+  const available = listFunctions()
+  const unknown = requested.filter((name) => !available.includes(name))
+  if (unknown.length > 0) {
+    console.error(`❌ Unknown function(s): ${unknown.join(', ')}. Available: ${available.join(', ')}`)
+    process.exitCode = 1
+    return
+  }
+
+  const names = requested.length > 0 ? requested : available
+  console.log(check ? '🔍 Checking Lambda imports...' : '🔨 Building Lambda functions...')
+
+  let failed = 0
+  for (const name of names) {
+    try {
+      const foreign = await bundleFunction(name, !check)
+      if (foreign.length > 0) {
+        failed++
+        console.error(`  ❌ ${name} imports code outside lambdas/shared/src:`)
+        foreign.forEach((file) => console.error(`     - ${file}`))
+      } else if (check) {
+        console.log(`  ✅ ${name}`)
+      }
+    } catch (error) {
+      failed++
+      console.error(`  ❌ ${name} failed to bundle:`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`\n❌ ${failed} function(s) failed`)
+    process.exitCode = 1
+    return
+  }
+  console.log(
+    check ? '\n✨ All functions import shared code from lambdas/shared/src' : '\n✨ All Lambda functions built'
+  )
+}
+
+run()
@@ -0,0 +1,209 @@
+// Import env FIRST to ensure environment variables are loaded
+import { env } from '../src/config/env'
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb'
+import { DynamoDBDocumentClient, paginateScan } from '@aws-sdk/lib-dynamodb'
+import { sequelize, Asset, AssetTag, Tag } from '../src/models'
+import { AssetStatus, type AssetInstance } from '../src/types'
+import { validate } from '../src/schemas/schema'
+import { addTagBodySchema } from '../src/schemas/tags'
+import { updateAssetWithRevision } from '../src/utils/revisions'
+
+/**
+ * One-off copy of AssetTag / AssetStatus records from Amplify Data (DynamoDB) to MySQL
+ *
+ * Usage:
+ *   npm run copy:appsync-tags -- --tag-table AssetTag-<apiId>-NONE --status-table AssetStatus-<apiId>-NONE [--dry-run]
+ *
+ * The table names are listed in the DynamoDB console (or `aws dynamodb list-tables`).
+ * Safe to run more than once: tags an asset already has are skipped, and a status is only
+ * written when it differs. Records for assets that no longer exist are reported and skipped.
+ * Status `deleted` is skipped too; the trash (deletedAt) is the source of truth for deletion.
+ */
+
+const MIGRATION_ACTOR = 'appsync-copy'
+
+interface AppSyncTag {
+  id: string
+  assetId: string
+  tagName: string
+  tagValue?: string | null
+  createdBy?: string | null
+  createdAt?: string | null
+}
+
+interface AppSyncStatus {
+  id: string
+  assetId: string
+  status?: string | null
+  statusNote?: string | null
+  updatedBy?: string | null
+  updatedAt?: string | null
+}
+
+function parseArgs(argv: string[]) {
+  const options: { tagTable?: string; statusTable?: string; dryRun: boolean } = { dryRun: false }
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--tag-table':
+        options.tagTable = argv[++i]
+        break
+      case '--status-table':
+        options.statusTable = argv[++i]
+        break
+      case '--dry-run':
+        options.dryRun = true
+        break
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`)
+    }
+  }
+
+  if (!options.tagTable && !options.statusTable) {
+    throw new Error('Pass --tag-table and/or --status-table')
+  }
+  return options
+}
+
+/**
+ * Every item of a table
+ */
+async function scanTable<T>(client: DynamoDBDocumentClient, tableName: string): Promise<T[]> {
+  const items: T[] = []
+  for await (const page of paginateScan({ client }, { TableName: tableName })) {
+    items.push(...((page.Items ?? []) as T[]))
+  }
+  return items
+}
+
+/**
+ * Assets by ID, including trashed ones
+ */
+async function loadAssets(ids: string[]): Promise<Map<string, AssetInstance>> {
+  const assets = await Asset.findAll({ where: { id: [...new Set(ids)] }, paranoid: false })
+  return new Map(assets.map((asset) => [asset.id, asset]))
+}
+
+async function copyTags(records: AppSyncTag[], dryRun: boolean) {
+  const summary = { copied: 0, existing: 0, missingAsset: 0, invalid: 0 }
+  const assets = await loadAssets(records.map((record) => record.assetId))
+
+  for (const record of records) {
+    const asset = assets.get(record.assetId)
+    if (!asset) {
+      summary.missingAsset++
+      continue
+    }
+
+    const { value: input, errors } = validate(addTagBodySchema, { name: record.tagName, value: record.tagValue ?? null })
+    if (errors.length > 0) {
+      console.warn(`⚠️  Skipping tag ${record.id} (${record.tagName}:${record.tagValue ?? ''}): ${errors[0].message}`)
+      summary.invalid++
+      continue
+    }
+
+    const where = { ownerId: asset.ownerId, name: input.name, value: input.value ?? '' }
+    if (dryRun) {
+      const tag = await Tag.findOne({ where })
+      const exists = tag ? await AssetTag.count({ where: { assetId: asset.id, tagId: tag.id } }) : 0
+      summary[exists ? 'existing' : 'copied']++
+      continue
+    }
+
+    const linked = await sequelize.transaction(async (transaction) => {
+      const [tag] = await Tag.findOrCreate({ where, transaction })
+      if (await AssetTag.count({ where: { assetId: asset.id, tagId: tag.id }, transaction })) {
+        return false
+      }
+      await AssetTag.create(
+        {
+          assetId: asset.id,
+          tagId: tag.id,
+          createdBy: record.createdBy || asset.ownerId,
+          ...(record.createdAt && { createdAt: new Date(record.createdAt) }),
+        },
+        { transaction }
+      )
+      return true
+    })
+
+    summary[linked ? 'copied' : 'existing']++
+  }
+
+  return summary
+}
+
+async function copyStatuses(records: AppSyncStatus[], dryRun: boolean) {
+  const summary = { updated: 0, unchanged: 0, missingAsset: 0, skipped: 0 }
+
+  // Assets can have several status records; the most recent one wins
+  const latest = new Map<string, AppSyncStatus>()
+  for (const record of records) {
+    const current = latest.get(record.assetId)
+    if (!current || String(record.updatedAt ?? '') > String(current.updatedAt ?? '')) {
+      latest.set(record.assetId, record)
+    }
+  }
+
+  const assets = await loadAssets([...latest.keys()])
+  const statuses = Object.values(AssetStatus) as string[]
+
+  for (const record of latest.values()) {
+    const asset = assets.get(record.assetId)
+    if (!asset) {
+      summary.missingAsset++
+      continue
+    }
+    if (!record.status || !statuses.includes(record.status)) {
+      console.warn(`⚠️  Skipping status ${record.id} for asset ${record.assetId}: ${record.status ?? 'no status'}`)
+      summary.skipped++
+      continue
+    }
+
+    const values = { status: record.status as AssetStatus, statusNote: record.statusNote || null }
+    if (asset.status === values.status && asset.statusNote === values.statusNote) {
+      summary.unchanged++
+      continue
+    }
+
+    if (!dryRun) {
+      await sequelize.transaction((transaction) =>
+        updateAssetWithRevision(asset, values, { actorId: record.updatedBy || MIGRATION_ACTOR, transaction })
+      )
+    }
+    summary.updated++
+  }
+
+  return summary
+}
+
+async function copyAppSyncTags(): Promise<void> {
+  try {
+    const options = parseArgs(process.argv.slice(2))
+    const client = DynamoDBDocumentClient.from(new DynamoDBClient({ region: env.AWS_REGION }))
+
+    await sequelize.authenticate()
+
+    if (options.tagTable) {
+      const records = await scanTable<AppSyncTag>(client, options.tagTable)
+      console.log(`📋 ${records.length} tag record(s) in ${options.tagTable}`)
+      console.table(await copyTags(records, options.dryRun))
+    }
+
+    if (options.statusTable) {
+      const records = await scanTable<AppSyncStatus>(client, options.statusTable)
+      console.log(`📋 ${records.length} status record(s) in ${options.statusTable}`)
+      console.table(await copyStatuses(records, options.dryRun))
+    }
+
+    console.log(options.dryRun ? '\n✨ Dry run complete, nothing was written' : '\n✨ Copy complete')
+  } catch (error) {
+    console.error('❌ Copy failed:', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  } finally {
+    await sequelize.close()
+  }
+}
+
+// Run the copy
+copyAppSyncTags()
@@ -0,0 +1,156 @@
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import type { AddressInfo } from 'net'
+import type { createDB } from 'mysql-memory-server'
+
+/**
+ * Local development server: API Gateway, MySQL and S3 stand-ins, no AWS account needed
+ *
+ * Usage:
+ *   npm run dev:server                          # in-memory MySQL, API on :3001, S3 on :4569
+ *   npm run dev:server -- --db env              # use the DB_* settings from .env instead
+ *   npm run dev:server -- --user local-user     # requests without a token act as this user
+ *   npm run dev:server -- --port 3001 --s3-port 4569 --storage-dir ../.local/s3
+ *
+ * The API runs the functions/api Lambda handler behind src/local/apiGateway.ts. The in-memory
+ * database (mysql-memory-server, MySQL 8.0 like RDS) is migrated on start and discarded on exit.
+ * Uploaded files are kept in the storage directory.
+ */
+
+const LOCAL_BUCKET = 'local-assets'
+
+interface DevServerOptions {
+  db: 'memory' | 'env'
+  port: number
+  s3Port: number
+  storageDir: string
+  user?: string
+}
+
+function parseArgs(argv: string[]): DevServerOptions {
+  const options: DevServerOptions = {
+    db: 'memory',
+    port: 3001,
+    s3Port: 4569,
+    storageDir: path.resolve(__dirname, '../../.local/s3'),
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--db': {
+        const db = argv[++i]
+        if (db !== 'memory' && db !== 'env') {
+          throw new Error('--db must be memory or env')
+        }
+        options.db = db
+        break
+      }
+      case '--port':
+        options.port = parseInt(argv[++i])
+        break
+      case '--s3-port':
+        options.s3Port = parseInt(argv[++i])
+        break
+      case '--storage-dir':
+        options.storageDir = path.resolve(argv[++i])
+        break
+      case '--user':
+        options.user = argv[++i]
+        break
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`)
+    }
+  }
+  return options
+}
+
+function listen(server: http.Server, port: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+  })
+}
+
+async function startDevServer(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  let database: Awaited<ReturnType<typeof createDB>> | null = null
+
+  if (options.db === 'memory') {
+    const { createDB } = await import('mysql-memory-server')
+    console.log('🐬 Starting in-memory MySQL 8.0 (downloaded on first run)...')
+    database = await createDB({ dbName: 'asset_management', version: '8.0.x', logLevel: 'ERROR' })
+    Object.assign(process.env, {
+      DB_HOST: '127.0.0.1',
+      DB_PORT: String(database.port),
+      DB_NAME: database.dbName,
+      DB_USER: database.username,
+      DB_PASSWORD: '',
+    })
+  }
+
+  // Set before the shared code loads env.ts; .env does not override existing variables
+  Object.assign(process.env, {
+    NODE_ENV: 'development',
+    DB_SECRET_NAME: '',
+    ASSET_BUCKET_NAME: LOCAL_BUCKET,
+    S3_ENDPOINT: `http://localhost:${options.s3Port}`,
+    S3_FORCE_PATH_STYLE: 'true',
+    AWS_ACCESS_KEY_ID: process.env.AWS_ACCESS_KEY_ID || 'local',
+    AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY || 'local',
+  })
+
+  const { env } = await import('../src/config/env')
+  const { sequelize } = await import('../src/models')
+  const { migrations } = await import('../src/migrations')
+  const { createMigrator } = await import('../src/migrations/migrator')
+  const { apiRoutes } = await import('../src/routes')
+  const { buildClaims } = await import('../src/testing/authEvents')
+  const { createLocalApiListener } = await import('../src/local/apiGateway')
+  const { createLocalS3Listener } = await import('../src/local/s3Server')
+  const { handler } = await import('../../functions/api/index')
+
+  if (database) {
+    const result = await createMigrator(sequelize, migrations).up()
+    console.log(`📋 Applied ${result.migrations.length} migration(s)`)
+  }
+
+  fs.mkdirSync(options.storageDir, { recursive: true })
+  const s3Server = http.createServer(createLocalS3Listener({ rootDir: options.storageDir, bucket: LOCAL_BUCKET }))
+  const apiServer = http.createServer(
+    createLocalApiListener({
+      handler,
+      routes: apiRoutes,
+      defaultClaims: options.user ? (buildClaims(options.user) as Record<string, string>) : null,
+      onResponse: (method, requestPath, statusCode, durationMs) =>
+        console.log(`${method} ${requestPath} → ${statusCode} (${durationMs} ms)`),
+    })
+  )
+
+  await listen(s3Server, options.s3Port)
+  const apiPort = await listen(apiServer, options.port)
+
+  console.log(`\n🚀 API:     http://localhost:${apiPort}`)
+  console.log(`🪣 S3:      http://localhost:${options.s3Port}/${LOCAL_BUCKET} → ${options.storageDir}`)
+  console.log(`🐬 MySQL:   ${env.DB_HOST}:${env.DB_PORT}/${env.DB_NAME}`)
+  if (options.user) {
+    console.log(`👤 Requests without a token act as ${options.user}`)
+  }
+  console.log(`\nFrontend: VITE_API_ENDPOINT=http://localhost:${apiPort} VITE_LOCAL_USER=<sub> npm run dev`)
+
+  const shutdown = async () => {
+    console.log('\n👋 Shutting down...')
+    apiServer.close()
+    s3Server.close()
+    await sequelize.close()
+    await database?.stop()
+    process.exit(0)
+  }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+}
+
+startDevServer().catch((error) => {
+  console.error('❌ Dev server failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,35 @@
+// Import env FIRST to ensure environment variables are loaded
+import '../src/config/env'
+import fs from 'fs'
+import path from 'path'
+import { API_INFO, apiRoutes } from '../src/routes'
+import { buildOpenApiDocument } from '../src/http/openapi'
+import { GENERATED_CLIENT_PATH, generateClient } from '../src/http/clientGenerator'
+
+/**
+ * Generate the frontend API client from the OpenAPI document
+ *
+ * Usage:
+ *   npm run generate:client              # write frontend/src/services/generated/apiClient.ts
+ *   npm run generate:client -- --check   # exit 1 if the committed client is out of date
+ */
+function run(): void {
+  const source = generateClient(buildOpenApiDocument(apiRoutes, API_INFO))
+
+  if (process.argv.includes('--check')) {
+    const current = fs.existsSync(GENERATED_CLIENT_PATH) ? fs.readFileSync(GENERATED_CLIENT_PATH, 'utf8') : ''
+    if (current !== source) {
+      console.error(`❌ ${GENERATED_CLIENT_PATH} is out of date. Run npm run generate:client`)
+      process.exitCode = 1
+      return
+    }
+    console.log('✅ API client is up to date')
+    return
+  }
+
+  fs.mkdirSync(path.dirname(GENERATED_CLIENT_PATH), { recursive: true })
+  fs.writeFileSync(GENERATED_CLIENT_PATH, source)
+  console.log(`✅ API client written to ${GENERATED_CLIENT_PATH}`)
+}
+
+run()
@@ -0,0 +1,86 @@
+// Import env FIRST to ensure environment variables are loaded
+import '../src/config/env'
+import { sequelize } from '../src/models'
+import { migrations } from '../src/migrations'
+import { createMigrator } from '../src/migrations/migrator'
+
+/**
+ * Schema migration CLI
+ *
+ * Usage:
+ *   npm run db:migrate -- status
+ *   npm run db:migrate -- up [--to 0002_add_assets_deleted_at] [--dry-run]
+ *   npm run db:migrate -- down [--steps 1] [--dry-run]
+ *   npm run db:migrate -- baseline --to 0002_add_assets_deleted_at [--dry-run]
+ *   npm run db:migrate -- unlock
+ */
+function parseArgs(argv: string[]) {
+  const [command = 'status', ...rest] = argv
+  const options: { dryRun: boolean; to?: string; steps?: number } = { dryRun: false }
+
+  for (let i = 0; i < rest.length; i++) {
+    switch (rest[i]) {
+      case '--dry-run':
+        options.dryRun = true
+        break
+      case '--to':
+        options.to = rest[++i]
+        break
+      case '--steps':
+        options.steps = parseInt(rest[++i])
+        break
+      default:
+        throw new Error(`Unknown option: ${rest[i]}`)
+    }
+  }
+
+  return { command, options }
+}
+
+async function migrate(): Promise<void> {
+  try {
+    const { command, options } = parseArgs(process.argv.slice(2))
+
+    await sequelize.authenticate()
+    const migrator = createMigrator(sequelize, migrations)
+
+    switch (command) {
+      case 'status': {
+        const statuses = await migrator.status()
+        console.table(
+          statuses.map((s) => ({ name: s.name, state: s.state, executedAt: s.executedAt }))
+        )
+        break
+      }
+      case 'up': {
+        const result = await migrator.up(options)
+        console.log(`\n✨ ${options.dryRun ? 'Would apply' : 'Applied'} ${result.migrations.length} migration(s)`)
+        break
+      }
+      case 'down': {
+        const result = await migrator.down(options)
+        console.log(`\n✨ ${options.dryRun ? 'Would revert' : 'Reverted'} ${result.migrations.length} migration(s)`)
+        break
+      }
+      case 'baseline': {
+        const result = await migrator.baseline(options)
+        console.log(`\n✨ Baselined ${result.migrations.length} migration(s)`)
+        break
+      }
+      case 'unlock':
+        await migrator.unlock()
+        console.log('🔓 Migration lock released')
+        break
+      default:
+        throw new Error(`Unknown command: ${command}`)
+    }
+  } catch (error) {
+    console.error('❌ Migration failed:', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  } finally {
+    await sequelize.close()
+  }
+}
+
+// Run the migration command
+migrate()
@@ -0,0 +1,24 @@
+// Import env FIRST to ensure environment variables are loaded
+import '../src/config/env'
+import fs from 'fs'
+import path from 'path'
+import { API_INFO, apiRoutes } from '../src/routes'
+import { buildOpenApiDocument } from '../src/http/openapi'
+
+/**
+ * Write the OpenAPI document for the asset API
+ *
+ * Usage:
+ *   npm run openapi                  # dist/openapi.json
+ *   npm run openapi -- ./openapi.json
+ */
+function writeOpenApi(): void {
+  const output = path.resolve(process.argv[2] || 'dist/openapi.json')
+  const document = buildOpenApiDocument(apiRoutes, API_INFO)
+
+  fs.mkdirSync(path.dirname(output), { recursive: true })
+  fs.writeFileSync(output, JSON.stringify(document, null, 2) + '\n')
+  console.log(`✅ OpenAPI document written to ${output} (${Object.keys(document.paths as object).length} paths)`)
+}
+
+writeOpenApi()
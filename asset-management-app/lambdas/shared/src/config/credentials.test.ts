@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AccessDeniedError, ConnectionRefusedError } from 'sequelize'
+import type { SecretsClient } from './secretsManager'
+
+/**
+ * Secret caching and credential refresh after rotation, with a fake Secrets Manager client
+ */
+
+const SECRET_NAME = 'asset-db-test-secret'
+
+/**
+ * Stand-in for SecretsManagerClient that counts calls and serves `password`
+ */
+function createFakeSecretsClient(password: string) {
+  const fake = {
+    password,
+    getCalls: 0,
+    describeCalls: 0,
+    async send(command: { constructor: { name: string } }) {
+      if (command.constructor.name === 'DescribeSecretCommand') {
+        fake.describeCalls++
+        return { Name: SECRET_NAME }
+      }
+      fake.getCalls++
+      // Let concurrent callers overlap
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      return {
+        SecretString: JSON.stringify({
+          host: 'db.internal',
+          port: 3307,
+          dbname: 'assets',
+          username: 'app',
+          password: fake.password,
+        }),
+      }
+    },
+  }
+  return fake satisfies SecretsClient
+}
+
+let secrets: typeof import('./secretsManager')
+let getDbCredentials: typeof import('./env').getDbCredentials
+let database: typeof import('./database')
+let fake: ReturnType<typeof createFakeSecretsClient>
+
+beforeAll(async () => {
+  // Production settings must be in place before env.ts is loaded
+  vi.stubEnv('NODE_ENV', 'production')
+  vi.stubEnv('DB_SECRET_NAME', SECRET_NAME)
+  secrets = await import('./secretsManager')
+  getDbCredentials = (await import('./env')).getDbCredentials
+  database = await import('./database')
+})
+
+beforeEach(() => {
+  vi.stubEnv('SECRET_CACHE_TTL_SECONDS', '300')
+  secrets.clearSecretCache()
+  fake = createFakeSecretsClient('first-password')
+  secrets.setSecretsManagerClient(fake)
+})
+
+afterAll(() => {
+  secrets.setSecretsManagerClient(null)
+  vi.unstubAllEnvs()
+})
+
+/**
+ * Run the beforeConnect hook the way Sequelize does for a new pool connection
+ */
+async function connect(config = database.getDatabaseConfig()) {
+  const connection: Record<string, unknown> = { host: 'placeholder', password: 'placeholder' }
+  await config.hooks!.beforeConnect!(connection as any)
+  return connection
+}
+
+describe('secret cache', () => {
+  it('fetches the secret once and reuses it within the TTL', async () => {
+    const first = await getDbCredentials()
+    const second = await getDbCredentials()
+
+    expect(fake.getCalls).toBe(1)
+    expect(first.password).toBe('first-password')
+    expect(second).toMatchObject({ host: 'db.internal', port: 3307 })
+  })
+
+  it('fetches the secret again after the TTL', async () => {
+    vi.stubEnv('SECRET_CACHE_TTL_SECONDS', '0')
+    await getDbCredentials()
+    await getDbCredentials()
+
+    expect(fake.getCalls).toBe(2)
+  })
+
+  it('shares one request between concurrent callers', async () => {
+    await Promise.all([getDbCredentials(), getDbCredentials(), getDbCredentials()])
+
+    expect(fake.getCalls).toBe(1)
+  })
+
+  it('drops the cached value on invalidateSecret', async () => {
+    await getDbCredentials()
+    expect(secrets.getSecretCacheAge(SECRET_NAME)).toBe(0)
+
+    secrets.invalidateSecret(SECRET_NAME)
+    expect(secrets.getSecretCacheAge(SECRET_NAME)).toBeNull()
+  })
+
+  it('describes the secret through the configured client', async () => {
+    await secrets.checkSecretAccess(SECRET_NAME)
+
+    expect(fake.describeCalls).toBe(1)
+  })
+})
+
+describe('database credentials', () => {
+  it('fills new connections from the secret', async () => {
+    expect(await connect()).toMatchObject({
+      host: 'db.internal',
+      database: 'assets',
+      username: 'app',
+      password: 'first-password',
+    })
+  })
+
+  it('picks up a rotated password after access denied', async () => {
+    await connect()
+    fake.password = 'rotated-password'
+    const stale = await connect()
+
+    const refreshed = database.refreshCredentialsOnAccessDenied(
+      new AccessDeniedError(new Error("Access denied for user 'app'"))
+    )
+    const fresh = await connect()
+
+    expect(stale.password).toBe('first-password')
+    expect(refreshed).toBe(true)
+    expect(fresh.password).toBe('rotated-password')
+    expect(fake.getCalls).toBe(2)
+  })
+
+  it('keeps the cached secret on other connection errors', async () => {
+    await connect()
+    const refreshed = database.refreshCredentialsOnAccessDenied(new ConnectionRefusedError(new Error('ECONNREFUSED')))
+    await connect()
+
+    expect(refreshed).toBe(false)
+    expect(fake.getCalls).toBe(1)
+  })
+
+  it('retries access denied errors only, refreshing the secret in the retry report', async () => {
+    const config = database.getDatabaseConfig()
+    const retry = config.retry!
+    await connect(config)
+
+    retry.report!('failed', {} as any, new AccessDeniedError(new Error('Access denied')))
+    await connect(config)
+
+    expect(Array.isArray(retry.match) ? retry.match : [retry.match]).toContain(AccessDeniedError)
+    expect(retry.max).toBe(2)
+    expect(fake.getCalls).toBe(2)
+  })
+})
@@ -1,22 +1,48 @@
-import { Options } from 'sequelize'
-import { env, getDbCredentials } from './env'
+import mysql2 from 'mysql2'
+import { AccessDeniedError, Sequelize, type Options } from 'sequelize'
+import { env, getDbCredentials, invalidateDbCredentials } from './env'
+import { logger } from '../utils/logger'
+
+/**
+ * Database rejected the credentials, e.g. after the secret was rotated
+ */
+export function isAccessDeniedError(error: unknown): error is AccessDeniedError {
+  return error instanceof AccessDeniedError
+}
+
+/**
+ * Drop the cached credentials when `error` is an access denied error
+ * Returns true when it was, so the next connection fetches the current secret
+ */
+export function refreshCredentialsOnAccessDenied(error: unknown): boolean {
+  if (!isAccessDeniedError(error)) {
+    return false
+  }
+  logger.warn('Database rejected the credentials, refreshing them', { reason: error.message })
+  invalidateDbCredentials()
+  return true
+}
 
 /**
  * Get Sequelize configuration based on environment
- * Async to support Secrets Manager in production
+ *
+ * Host, port, database and credentials are resolved per connection in the beforeConnect hook
+ * (from Secrets Manager in production, or env vars in development), so new pool connections
+ * pick up a rotated password. A query that fails with AccessDeniedError drops the cached secret
+ * and is retried once with fresh credentials.
  */
-export async function getDatabaseConfig(): Promise<Options> {
-  // Get credentials (from Secrets Manager in production, or env vars in development)
-  const credentials = await getDbCredentials()
-  
-  const baseConfig: Options = {
+export function getDatabaseConfig(): Options {
+  return {
     dialect: 'mysql',
-    host: credentials.host,
-    port: credentials.port,
-    database: credentials.database,
-    username: credentials.username,
-    password: credentials.password,
-    logging: env.NODE_ENV === 'development' ? console.log : false,
+    // Passed explicitly so esbuild bundles the driver (Sequelize otherwise requires it by name)
+    dialectModule: mysql2,
+    host: env.DB_HOST,
+    port: env.DB_PORT,
+    database: env.DB_NAME,
+    username: env.DB_USER,
+    password: env.DB_PASSWORD,
+    // SQL is logged at debug level (LOG_LEVEL=debug)
+    logging: (sql: string) => logger.debug('Executing SQL', { sql }),
     pool: {
       max: env.DB_POOL_MAX,
       min: env.DB_POOL_MIN,
@@ -31,7 +57,27 @@ export async function getDatabaseConfig(): Promise<Options> {
       underscored: false,
       freezeTableName: true,
     },
+    hooks: {
+      beforeConnect: async (config) => {
+        const credentials = await getDbCredentials()
+        Object.assign(config, credentials)
+      },
+    },
+    retry: {
+      max: 2,
+      match: [AccessDeniedError],
+      // Called after every failed attempt, before deciding whether to retry
+      report: (_message, _options, error) => {
+        refreshCredentialsOnAccessDenied(error)
+      },
+    },
   }
+}
 
-  return baseConfig
+/**
+ * Create a Sequelize instance from getDatabaseConfig() (or a config derived from it)
+ * Nothing connects until the first query (see dbHelper.connectToDatabase)
+ */
+export function createSequelize(config: Options = getDatabaseConfig()): Sequelize {
+  return new Sequelize(config)
 }
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { connectToDatabase, getPoolStats, isConnectionActive, testConnection } from './dbHelper'
+import { Asset, sequelize } from '../models'
+
+/**
+ * Connection lifecycle against the test database
+ */
+
+describe('database connection helper', () => {
+  it('connects once and reuses the connection', async () => {
+    const first = await connectToDatabase()
+    const second = await connectToDatabase()
+
+    expect(first).toBe(sequelize)
+    expect(second).toBe(first)
+    expect(isConnectionActive()).toBe(true)
+    expect(await Asset.count()).toBe(0)
+  })
+
+  it('reports a successful connection test', async () => {
+    expect(await testConnection()).toMatchObject({ success: true, message: 'Connection successful' })
+  })
+
+  it('reports a connection test that exceeds the timeout as failed', async () => {
+    expect((await testConnection(0)).success).toBe(false)
+  })
+
+  it('reports pool statistics once the pool is open', async () => {
+    await connectToDatabase()
+
+    expect(getPoolStats()).toMatchObject({ size: expect.any(Number), max: expect.any(Number) })
+  })
+})
@@ -1,5 +1,6 @@
 import { sequelize } from '../models'
-import { getDbCredentials, env } from './env'
+import { logger as rootLogger } from '../utils/logger'
+import { withTimeout } from '../utils/timeout'
 import type { Sequelize } from 'sequelize'
 
 /**
@@ -7,67 +8,32 @@ import type { Sequelize } from 'sequelize'
  * Manages Sequelize connection lifecycle for Lambda functions
  */
 
-let isConnected = false
-let credentialsInitialized = false
+const logger = rootLogger.child({ component: 'dbHelper' })
 
-/**
- * Initialize database credentials from Secrets Manager (production only)
- * Must be called before first connection
- */
-async function initializeCredentials(): Promise<void> {
-  if (credentialsInitialized) {
-    return
-  }
-
-  if (env.NODE_ENV === 'production' && env.DB_SECRET_NAME) {
-    console.log('🔐 Fetching credentials from Secrets Manager...')
-    const credentials = await getDbCredentials()
-    
-    // Update Sequelize config directly
-    // @ts-ignore - accessing internal config
-    sequelize.config.password = credentials.password
-    // @ts-ignore - accessing internal connectionManager
-    if (sequelize.connectionManager) {
-      // @ts-ignore
-      sequelize.connectionManager.config.password = credentials.password
-    }
-    
-    // Also update process.env for consistency
-    process.env.DB_PASSWORD = credentials.password
-    
-    credentialsInitialized = true
-    console.log('✅ Credentials fetched and configured')
-  } else {
-    // Development mode - credentials already in env
-    credentialsInitialized = true
-  }
-}
+let isConnected = false
 
 /**
  * Connect to database
  * Reuses existing connection if available (Lambda container reuse)
- * Fetches credentials from Secrets Manager in production on first call
+ * Credentials are resolved when the pool opens a connection (see config/database.ts)
  */
 export async function connectToDatabase(): Promise<Sequelize> {
   try {
-    // Fetch credentials from Secrets Manager if needed (production only, first time)
-    await initializeCredentials()
-    
     // If already connected, return existing connection
     if (isConnected) {
-      console.log('♻️  Using existing database connection')
+      logger.debug('Reusing existing database connection')
       return sequelize
     }
 
-    console.log('🔌 Creating new database connection...')
-    
+    const startedAt = Date.now()
+
     // Test the connection
     await sequelize.authenticate()
     isConnected = true
-    console.log('✅ Database connection established')
+    logger.info('Database connection established', { durationMs: Date.now() - startedAt })
     return sequelize
   } catch (error) {
-    console.error('❌ Database connection failed:', error)
+    logger.error('Database connection failed', { error })
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     throw new Error(`Database connection failed: ${errorMessage}`)
   }
@@ -85,24 +51,27 @@ export async function closeDatabase(): Promise<void> {
   try {
     await sequelize.close()
     isConnected = false
-    console.log('Database connection closed')
+    logger.info('Database connection closed')
   } catch (error) {
-    console.error('Error closing database:', error)
+    logger.error('Error closing database connection', { error })
     throw error
   }
 }
 
 /**
  * Test database connection
- * Useful for health checks
+ * Used by GET /health/ready; gives up after `timeoutMs`
  */
-export async function testConnection(): Promise<{ success: boolean; message: string }> {
+export async function testConnection(
+  timeoutMs: number = 5000
+): Promise<{ success: boolean; message: string; durationMs: number }> {
+  const startedAt = Date.now()
   try {
-    await sequelize.authenticate()
-    return { success: true, message: 'Connection successful' }
+    await withTimeout(sequelize.authenticate(), timeoutMs, 'Database connection test')
+    return { success: true, message: 'Connection successful', durationMs: Date.now() - startedAt }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    return { success: false, message: errorMessage }
+    return { success: false, message: errorMessage, durationMs: Date.now() - startedAt }
   }
 }
 
@@ -112,3 +81,48 @@ export async function testConnection(): Promise<{ success: boolean; message: str
 export function isConnectionActive(): boolean {
   return isConnected
 }
+
+/**
+ * Connection pool statistics
+ */
+export interface PoolStats {
+  // Open connections (idle + in use)
+  size: number
+  available: number
+  using: number
+  // Requests waiting for a connection
+  waiting: number
+  max: number
+  min: number
+}
+
+/**
+ * Fields read from the sequelize-pool instance behind the connection manager
+ * Not part of Sequelize's public types, so only what getPoolStats needs is declared
+ */
+interface SequelizePool {
+  size: number
+  available: number
+  using: number
+  waiting: number
+  maxSize: number
+  minSize: number
+}
+
+/**
+ * Current pool statistics; null before the pool exists
+ */
+export function getPoolStats(): PoolStats | null {
+  const { pool } = sequelize.connectionManager as { pool?: SequelizePool }
+  if (!pool || typeof pool.size !== 'number') {
+    return null
+  }
+  return {
+    size: pool.size,
+    available: pool.available,
+    using: pool.using,
+    waiting: pool.waiting,
+    max: pool.maxSize,
+    min: pool.minSize,
+  }
+}
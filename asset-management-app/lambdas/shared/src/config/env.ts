@@ -1,6 +1,9 @@
 import dotenv from 'dotenv'
 import path from 'path'
-import { getDatabaseCredentials } from './secretsManager'
+import { getDatabaseCredentials, invalidateSecret } from './secretsManager'
+import { logger as rootLogger } from '../utils/logger'
+
+const logger = rootLogger.child({ component: 'env' })
 
 // Load environment variables from .env file
 // Try multiple locations to find .env
@@ -14,16 +17,15 @@ let loaded = false
 for (const envPath of possiblePaths) {
   const result = dotenv.config({ path: envPath })
   if (!result.error) {
-    console.log('📄 Loading .env from:', envPath)
-    console.log('✅ .env file loaded successfully')
+    logger.debug('Loaded .env file', { path: envPath })
     loaded = true
     break
   }
 }
 
 if (!loaded) {
-  console.warn('⚠️  Warning: Could not load .env file from any location')
-  console.log('💡 Trying default .env location...')
+  // Normal in Lambda, where configuration comes from the function environment
+  logger.debug('No .env file found, using process environment', { searched: possiblePaths })
   dotenv.config() // Fallback to default behavior
 }
 
@@ -48,18 +50,53 @@ export const env = {
   // Database Pool
   DB_POOL_MAX: parseInt(process.env.DB_POOL_MAX || '5'),
   DB_POOL_MIN: parseInt(process.env.DB_POOL_MIN || '0'),
+
+  // Storage
+  ASSET_BUCKET_NAME: process.env.ASSET_BUCKET_NAME || '',
+  // Local S3 stand-in (e.g. http://localhost:9000 for MinIO); empty uses AWS S3
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true',
+  // Lifetime of presigned upload / download URLs
+  UPLOAD_URL_TTL_SECONDS: parseInt(process.env.UPLOAD_URL_TTL_SECONDS || '900'),
+  DOWNLOAD_URL_TTL_SECONDS: parseInt(process.env.DOWNLOAD_URL_TTL_SECONDS || '300'),
+
+  // Public share links: lifetime when none is given, and the longest allowed
+  SHARE_LINK_DEFAULT_TTL_HOURS: parseInt(process.env.SHARE_LINK_DEFAULT_TTL_HOURS || '168'),
+  SHARE_LINK_MAX_TTL_DAYS: parseInt(process.env.SHARE_LINK_MAX_TTL_DAYS || '90'),
+  // Incorrect passwords before a link is locked, and for how long
+  SHARE_LINK_MAX_PASSWORD_ATTEMPTS: parseInt(process.env.SHARE_LINK_MAX_PASSWORD_ATTEMPTS || '5'),
+  SHARE_LINK_LOCKOUT_MINUTES: parseInt(process.env.SHARE_LINK_LOCKOUT_MINUTES || '15'),
+  // Requests per minute to GET /shared/{token} from one IP address; 0 means no limit
+  SHARE_LINK_REQUESTS_PER_MINUTE_PER_IP: parseInt(process.env.SHARE_LINK_REQUESTS_PER_MINUTE_PER_IP || '30'),
+
+  // Trash
+  TRASH_RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+
+  // Cognito group whose members may call the /admin endpoints
+  ADMIN_GROUP: process.env.ADMIN_GROUP || 'admins',
+
+  // Default per-owner limits; PUT /admin/limits/{ownerId} overrides them per owner. 0 means no limit
+  RATE_LIMIT_REQUESTS_PER_MINUTE: parseInt(process.env.RATE_LIMIT_REQUESTS_PER_MINUTE || '120'),
+  QUOTA_MAX_ASSETS: parseInt(process.env.QUOTA_MAX_ASSETS || '1000'),
+  // Total file bytes per asset category (default 10 GiB)
+  QUOTA_MAX_BYTES_PER_CATEGORY: parseInt(process.env.QUOTA_MAX_BYTES_PER_CATEGORY || String(10 * 1024 ** 3)),
+
+  // Health checks
+  // Deployed build (e.g. the commit id), reported by GET /health
+  BUILD_VERSION: process.env.BUILD_VERSION || 'dev',
+  // Time each GET /health/ready dependency check may take
+  HEALTH_CHECK_TIMEOUT_MS: parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000'),
 } as const
 
-// Debug: Log loaded environment variables (remove in production)
-if (process.env.NODE_ENV === 'development') {
-  console.log('🔧 Environment loaded:')
-  console.log('  DB_HOST:', env.DB_HOST)
-  console.log('  DB_PORT:', env.DB_PORT)
-  console.log('  DB_NAME:', env.DB_NAME)
-  console.log('  DB_USER:', env.DB_USER)
-  console.log('  DB_PASSWORD:', env.DB_PASSWORD ? '***' : '(empty)')
-  console.log()
-}
+// Debug: Log loaded database settings (the password is redacted by the logger)
+logger.debug('Environment loaded', {
+  DB_HOST: env.DB_HOST,
+  DB_PORT: env.DB_PORT,
+  DB_NAME: env.DB_NAME,
+  DB_USER: env.DB_USER,
+  DB_PASSWORD: env.DB_PASSWORD,
+  NODE_ENV: env.NODE_ENV,
+})
 
 /**
  * Validate required environment variables
@@ -75,13 +112,13 @@ export function validateEnv(): void {
 
 /**
  * Get database credentials with Secrets Manager support
- * In production, fetches password from AWS Secrets Manager
+ * In production, fetches password from AWS Secrets Manager (cached for SECRET_CACHE_TTL_SECONDS)
  * In development, uses environment variables
  */
 export async function getDbCredentials() {
   // In production with Secrets Manager configured
   if (env.NODE_ENV === 'production' && env.DB_SECRET_NAME) {
-    console.log('🔐 Fetching database credentials from AWS Secrets Manager...')
+    logger.debug('Fetching database credentials from Secrets Manager')
     try {
       const credentials = await getDatabaseCredentials()
       return {
@@ -92,8 +129,9 @@ export async function getDbCredentials() {
         password: credentials.password,
       }
     } catch (error) {
-      console.error('❌ Failed to fetch from Secrets Manager:', error)
-      console.log('⚠️  Falling back to environment variables')
+      logger.error('Failed to fetch credentials from Secrets Manager, falling back to environment variables', {
+        error,
+      })
       // Fallback to environment variables
       return {
         host: env.DB_HOST,
@@ -106,7 +144,7 @@ export async function getDbCredentials() {
   }
   
   // Development: use environment variables
-  console.log('🔧 Using environment variables for database credentials')
+  logger.debug('Using environment variables for database credentials')
   return {
     host: env.DB_HOST,
     port: env.DB_PORT,
@@ -115,3 +153,13 @@ export async function getDbCredentials() {
     password: env.DB_PASSWORD,
   }
 }
+
+/**
+ * Forget the cached database secret so the next connection fetches it again
+ * No-op outside production or without DB_SECRET_NAME
+ */
+export function invalidateDbCredentials(): void {
+  if (env.NODE_ENV === 'production' && env.DB_SECRET_NAME) {
+    invalidateSecret(env.DB_SECRET_NAME)
+  }
+}
@@ -1,30 +1,58 @@
 import {
   SecretsManagerClient,
+  DescribeSecretCommand,
   GetSecretValueCommand,
 } from '@aws-sdk/client-secrets-manager'
 import type { DatabaseSecret } from '../types'
+import { logger as rootLogger } from '../utils/logger'
 
-// Cache secrets to avoid repeated API calls
-const secretCache: Record<string, any> = {}
+const logger = rootLogger.child({ component: 'secretsManager' })
 
 /**
- * Get secret from AWS Secrets Manager
- * Caches the result for Lambda container reuse
+ * The part of SecretsManagerClient used here; tests pass a fake with setSecretsManagerClient
  */
-export async function getSecret(secretName: string): Promise<any> {
-  // Return cached secret if available
-  if (secretCache[secretName]) {
-    console.log(`Using cached secret: ${secretName}`)
-    return secretCache[secretName]
-  }
+export interface SecretsClient {
+  send(command: GetSecretValueCommand | DescribeSecretCommand): Promise<any>
+}
+
+interface CachedSecret {
+  value: any
+  // When the secret was fetched (ms since epoch)
+  fetchedAt: number
+}
+
+// Secrets are cached for SECRET_CACHE_TTL_SECONDS so a rotated secret is picked up by warm containers
+const secretCache = new Map<string, CachedSecret>()
+// Fetches in progress, shared by concurrent callers (e.g. several pool connections opening at once)
+const pendingFetches = new Map<string, Promise<any>>()
+
+let client: SecretsClient | null = null
+
+/**
+ * Cache lifetime, read on every call so tests can change it
+ */
+function cacheTtlMs(): number {
+  return parseInt(process.env.SECRET_CACHE_TTL_SECONDS || '300') * 1000
+}
 
-  const client = new SecretsManagerClient({
+function getClient(): SecretsClient {
+  client ??= new SecretsManagerClient({
     region: process.env.AWS_REGION || 'us-east-1',
   })
+  return client
+}
+
+/**
+ * Replace the Secrets Manager client (tests); null restores the default client
+ */
+export function setSecretsManagerClient(replacement: SecretsClient | null): void {
+  client = replacement
+}
 
+async function fetchSecret(secretName: string): Promise<any> {
   try {
-    console.log(`Fetching secret: ${secretName}`)
-    const response = await client.send(
+    logger.info('Fetching secret', { secretName })
+    const response = await getClient().send(
       new GetSecretValueCommand({
         SecretId: secretName,
       })
@@ -41,17 +69,44 @@ export async function getSecret(secretName: string): Promise<any> {
       throw new Error('Secret has no string or binary value')
     }
 
-    // Cache the secret
-    secretCache[secretName] = secret
-    console.log(`✅ Secret fetched and cached: ${secretName}`)
+    secretCache.set(secretName, { value: secret, fetchedAt: Date.now() })
+    logger.info('Secret fetched and cached', { secretName })
     return secret
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error(`❌ Error fetching secret ${secretName}:`, error)
+    logger.error('Error fetching secret', { secretName, error })
     throw new Error(`Failed to fetch secret: ${errorMessage}`)
   }
 }
 
+/**
+ * Get secret from AWS Secrets Manager
+ * Cached for SECRET_CACHE_TTL_SECONDS (default 300); invalidateSecret forces the next call to fetch it
+ */
+export async function getSecret(secretName: string): Promise<any> {
+  const cached = secretCache.get(secretName)
+  if (cached && Date.now() - cached.fetchedAt < cacheTtlMs()) {
+    logger.debug('Using cached secret', { secretName })
+    return cached.value
+  }
+
+  let pending = pendingFetches.get(secretName)
+  if (!pending) {
+    pending = fetchSecret(secretName).finally(() => pendingFetches.delete(secretName))
+    pendingFetches.set(secretName, pending)
+  }
+  return pending
+}
+
+/**
+ * Drop a cached secret, e.g. after the database rejected the credentials it holds
+ */
+export function invalidateSecret(secretName: string): void {
+  if (secretCache.delete(secretName)) {
+    logger.info('Cached secret invalidated', { secretName })
+  }
+}
+
 /**
  * Get database credentials from Secrets Manager
  */
@@ -73,10 +128,26 @@ export async function getDatabaseCredentials(): Promise<DatabaseSecret> {
   }
 }
 
+/**
+ * Seconds since a secret was fetched; null when it is not cached
+ */
+export function getSecretCacheAge(secretName: string): number | null {
+  const cached = secretCache.get(secretName)
+  return cached === undefined ? null : Math.floor((Date.now() - cached.fetchedAt) / 1000)
+}
+
+/**
+ * Check that Secrets Manager is reachable and the secret exists
+ * Uses DescribeSecret, so the secret value is not fetched
+ */
+export async function checkSecretAccess(secretName: string): Promise<void> {
+  await getClient().send(new DescribeSecretCommand({ SecretId: secretName }))
+}
+
 /**
  * Clear secret cache (useful for testing)
  */
 export function clearSecretCache(): void {
-  Object.keys(secretCache).forEach((key) => delete secretCache[key])
-  console.log('Secret cache cleared')
-}
\ No newline at end of file
+  secretCache.clear()
+  logger.debug('Secret cache cleared')
+}
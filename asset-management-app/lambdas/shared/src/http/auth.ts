@@ -0,0 +1,82 @@
+import type { APIGatewayProxyEvent } from 'aws-lambda'
+import { env } from '../config/env'
+import { appendLogContext } from '../utils/logger'
+import { forbidden, unauthorized } from './errors'
+import type { Middleware, RequestContext } from './router'
+
+/**
+ * Authenticated caller, derived from the Cognito user-pool authorizer claims
+ */
+export interface AuthContext {
+  // Cognito `sub` - stored as Asset.ownerId
+  ownerId: string
+  email?: string
+  groups: string[]
+}
+
+/**
+ * Read the caller from requestContext.authorizer.claims
+ * API Gateway only populates the claims after verifying the token, so they can be trusted here.
+ * Returns null when the request did not pass through the Cognito authorizer.
+ */
+export function getAuthContext(event: APIGatewayProxyEvent): AuthContext | null {
+  const claims = event.requestContext?.authorizer?.claims
+  if (!claims || typeof claims.sub !== 'string' || claims.sub === '') {
+    return null
+  }
+
+  // API Gateway flattens list claims into a comma-separated string
+  const rawGroups = claims['cognito:groups']
+  const groups = Array.isArray(rawGroups)
+    ? rawGroups
+    : typeof rawGroups === 'string' && rawGroups !== ''
+      ? rawGroups.split(',')
+      : []
+
+  return {
+    ownerId: claims.sub,
+    email: claims.email,
+    groups,
+  }
+}
+
+/**
+ * Require an authenticated caller and expose it as ctx.auth
+ */
+export const withAuth: Middleware = async (ctx, next) => {
+  const auth = getAuthContext(ctx.event)
+  if (!auth) {
+    throw unauthorized('Authentication required')
+  }
+
+  ctx.auth = auth
+  appendLogContext({ ownerId: auth.ownerId })
+  return next()
+}
+
+/**
+ * Get the authenticated caller for a route protected by withAuth
+ */
+export function requireAuth(ctx: RequestContext): AuthContext {
+  if (!ctx.auth) {
+    throw unauthorized('Authentication required')
+  }
+  return ctx.auth
+}
+
+/**
+ * Whether the caller is in the ADMIN_GROUP Cognito group
+ */
+export function isAdmin(auth: AuthContext): boolean {
+  return auth.groups.includes(env.ADMIN_GROUP)
+}
+
+/**
+ * Restrict a route to administrators; runs after withAuth
+ */
+export const withAdmin: Middleware = async (ctx, next) => {
+  if (!isAdmin(requireAuth(ctx))) {
+    throw forbidden('Administrator access required')
+  }
+  return next()
+}
@@ -0,0 +1,301 @@
+/**
+ * TypeScript API client generated from the OpenAPI document
+ *
+ * Emits one module with request / response types per operation and createApiClient(), which
+ * returns a method per operationId. The frontend imports the generated file
+ * (frontend/src/services/generated/apiClient.ts) instead of writing HTTP calls by hand.
+ */
+
+import path from 'path'
+
+type JsonObject = Record<string, any>
+
+/**
+ * Where generate:client writes the frontend client
+ */
+export const GENERATED_CLIENT_PATH = path.resolve(__dirname, '../../../../frontend/src/services/generated/apiClient.ts')
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete']
+
+const HEADER = `/* eslint-disable */
+// Generated from the API's OpenAPI document by lambdas/shared/scripts/generateClient.ts - do not edit.
+// Regenerate with: cd lambdas/shared && npm run generate:client
+`
+
+const RUNTIME = `
+export interface ApiClientOptions {
+  // API Gateway stage URL, e.g. https://abc123.execute-api.us-east-1.amazonaws.com/prod
+  baseUrl: string
+  // Cognito ID token sent as the Bearer token on authenticated operations
+  getToken?: () => Promise<string | undefined> | string | undefined
+  fetch?: typeof fetch
+}
+
+export interface ApiFieldError {
+  field?: string
+  message: string
+}
+
+/**
+ * Error response from the API
+ * \`errors\` lists every invalid field on 400 responses
+ */
+export class ApiError extends Error {
+  status: number
+  field?: string
+  errors: ApiFieldError[]
+  requestId?: string
+
+  constructor(status: number, body: ApiErrorBody | null, requestId?: string) {
+    super(body?.error || \`Request failed with status \${status}\`)
+    this.name = 'ApiError'
+    this.status = status
+    this.field = body?.field
+    this.errors = body?.errors ?? []
+    this.requestId = requestId
+  }
+}
+
+interface RequestParts {
+  params?: object
+  query?: object
+  headers?: object
+  body?: unknown
+}
+
+function buildPath(template: string, params: object = {}): string {
+  return template.replace(/\\{(\\w+)\\}/g, (_, name) => encodeURIComponent(String((params as any)[name])))
+}
+
+function buildQuery(query: object = {}): string {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== null) {
+      search.set(key, String(value))
+    }
+  }
+  const text = search.toString()
+  return text ? \`?\${text}\` : ''
+}
+`
+
+function pascalCase(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`
+}
+
+/**
+ * TypeScript type for a JSON Schema emitted by toJsonSchema()
+ */
+export function schemaToType(schema: JsonObject | undefined, indent: string = ''): string {
+  if (!schema) {
+    return 'unknown'
+  }
+  if (schema.$ref) {
+    return pascalCase(String(schema.$ref).split('/').pop() as string)
+  }
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const).replace(/"/g, "'")
+  }
+  if (schema.enum) {
+    return schema.enum.map((value: unknown) => JSON.stringify(value).replace(/"/g, "'")).join(' | ')
+  }
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+  return types
+    .map((type) => {
+      switch (type) {
+        case 'string':
+          return 'string'
+        case 'number':
+        case 'integer':
+          return 'number'
+        case 'boolean':
+          return 'boolean'
+        case 'null':
+          return 'null'
+        case 'array': {
+          const item = schemaToType(schema.items, indent)
+          return /^[\w']+$/.test(item) ? `${item}[]` : `Array<${item}>`
+        }
+        case 'object': {
+          const required = new Set<string>(schema.required || [])
+          const lines = Object.entries(schema.properties || {}).map(([name, property]) => {
+            const optional = required.has(name) ? '' : '?'
+            return `${indent}  ${propertyName(name)}${optional}: ${schemaToType(property as JsonObject, indent + '  ')}`
+          })
+          return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, unknown>'
+        }
+        default:
+          return 'unknown'
+      }
+    })
+    .join(' | ')
+}
+
+/**
+ * Object type for path or query parameters
+ */
+function parametersType(parameters: JsonObject[], location: string): string | null {
+  const selected = parameters.filter((parameter) => parameter.in === location)
+  if (selected.length === 0) {
+    return null
+  }
+  const lines = selected.map((parameter) => {
+    const optional = parameter.required ? '' : '?'
+    return `  ${propertyName(parameter.name)}${optional}: ${schemaToType(parameter.schema, '  ')}`
+  })
+  return `{\n${lines.join('\n')}\n}`
+}
+
+/**
+ * Generate the client module source for an OpenAPI document
+ */
+export function generateClient(document: JsonObject): string {
+  const types: string[] = []
+  const methods: string[] = []
+
+  const errorSchema = document.components?.schemas?.Error
+  types.push(`export type ApiErrorBody = ${schemaToType(errorSchema)}`)
+
+  for (const [path, item] of Object.entries<JsonObject>(document.paths)) {
+    for (const method of HTTP_METHODS) {
+      const operation = item[method]
+      if (!operation) {
+        continue
+      }
+
+      const name = pascalCase(operation.operationId)
+      const parameters: JsonObject[] = operation.parameters || []
+      const parts: string[] = []
+      let requiredParts = false
+
+      const params = parametersType(parameters, 'path')
+      if (params) {
+        types.push(`export type ${name}Params = ${params}`)
+        parts.push(`params: ${name}Params`)
+        requiredParts = true
+      }
+
+      const query = parametersType(parameters, 'query')
+      if (query) {
+        const queryRequired = parameters.some((parameter) => parameter.in === 'query' && parameter.required)
+        types.push(`export type ${name}Query = ${query}`)
+        parts.push(`query${queryRequired ? '' : '?'}: ${name}Query`)
+        requiredParts ||= queryRequired
+      }
+
+      const headers = parametersType(parameters, 'header')
+      if (headers) {
+        types.push(`export type ${name}Headers = ${headers}`)
+        parts.push(`headers?: ${name}Headers`)
+      }
+
+      const bodySchema = operation.requestBody?.content?.['application/json']?.schema
+      if (bodySchema) {
+        types.push(`export type ${name}Body = ${schemaToType(bodySchema)}`)
+        parts.push(`body: ${name}Body`)
+        requiredParts = true
+      }
+
+      // Success responses are { success, data }; methods resolve with `data`.
+      // Non-JSON bodies (CSV exports) resolve with the text
+      const [status, response] = Object.entries<JsonObject>(operation.responses).find(([code]) => code.startsWith('2'))!
+      const contentTypes = Object.keys(response.content ?? {})
+      const responseSchema = response.content?.['application/json']?.schema
+      const responseType = responseSchema?.properties?.data
+        ? 'envelope'
+        : contentTypes.length && !contentTypes.includes('application/json')
+          ? 'text'
+          : 'json'
+      const resultType =
+        status === '204'
+          ? 'void'
+          : responseType === 'envelope'
+            ? `${name}Response`
+            : responseType === 'text'
+              ? 'string'
+              : 'unknown'
+      if (responseType === 'envelope') {
+        types.push(`export type ${name}Response = ${schemaToType(responseSchema.properties.data)}`)
+      }
+
+      const requestType = parts.length ? `{ ${parts.join('; ')} }` : null
+      const argument = requestType ? `request: ${requestType}${requiredParts ? '' : ' = {}'}` : ''
+      const authenticated = Boolean(operation.security?.length)
+
+      methods.push(
+        [
+          `    /**`,
+          `     * ${method.toUpperCase()} ${path} - ${operation.summary}`,
+          `     */`,
+          `    ${operation.operationId}: (${argument}): Promise<${resultType}> =>`,
+          `      send('${method.toUpperCase()}', '${path}', ${requestType ? 'request' : '{}'}, ${authenticated}, '${responseType}'),`,
+        ].join('\n')
+      )
+    }
+  }
+
+  return `${HEADER}
+export const API_VERSION = '${document.info.version}'
+
+${types.join('\n\n')}
+${RUNTIME}
+/**
+ * Create a client for the asset API
+ */
+export function createApiClient(options: ApiClientOptions) {
+  const fetchImpl = options.fetch ?? fetch
+
+  async function send(
+    method: string,
+    path: string,
+    parts: RequestParts,
+    authenticated: boolean,
+    responseType: 'envelope' | 'json' | 'text'
+  ): Promise<any> {
+    const headers: Record<string, string> = {}
+    for (const [name, value] of Object.entries(parts.headers ?? {})) {
+      if (value !== undefined && value !== null) {
+        headers[name] = String(value)
+      }
+    }
+    if (parts.body !== undefined) {
+      headers['Content-Type'] = 'application/json'
+    }
+    if (authenticated && options.getToken) {
+      const token = await options.getToken()
+      if (token) {
+        headers.Authorization = \`Bearer \${token}\`
+      }
+    }
+
+    const url = options.baseUrl.replace(/\\/$/, '') + buildPath(path, parts.params) + buildQuery(parts.query)
+    const response = await fetchImpl(url, {
+      method,
+      headers,
+      body: parts.body === undefined ? undefined : JSON.stringify(parts.body),
+    })
+
+    const text = await response.text()
+    if (response.ok && responseType === 'text') {
+      return text
+    }
+    const payload = text ? JSON.parse(text) : null
+    if (!response.ok) {
+      throw new ApiError(response.status, payload, response.headers.get('X-Request-Id') ?? undefined)
+    }
+    return responseType === 'envelope' ? payload?.data : payload
+  }
+
+  return {
+${methods.join('\n\n')}
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+`
+}
@@ -0,0 +1,61 @@
+import type { AssetInstance } from '../types'
+import { s } from '../schemas/schema'
+import { getHeader } from './middleware'
+import { preconditionFailed } from './errors'
+import type { RequestContext } from './router'
+
+/**
+ * Conditional requests (optimistic concurrency) for assets
+ *
+ * An asset's ETag is its quoted row version. Clients send it back in If-Match on PATCH and
+ * DELETE; a stale value returns 412 instead of overwriting another editor's change.
+ * Requests without If-Match are unconditional, as before.
+ */
+
+export const IF_MATCH_HEADER = 'If-Match'
+
+/**
+ * Headers schema for routes that accept If-Match
+ */
+export const ifMatchHeadersSchema = s.object({
+  [IF_MATCH_HEADER]: s.optional(
+    s.string({ description: 'ETag from a previous response, or *; 412 when the asset has changed since', example: '"3"' })
+  ),
+})
+
+/**
+ * Strong ETag for the current version of an asset
+ */
+export function assetEtag(asset: Pick<AssetInstance, 'version'>): string {
+  return `"${asset.version}"`
+}
+
+/**
+ * ETag response header for an asset
+ */
+export function etagHeader(asset: Pick<AssetInstance, 'version'>): Record<string, string> {
+  return { ETag: assetEtag(asset) }
+}
+
+/**
+ * Check the request's If-Match header against the current asset (null when it does not exist)
+ *
+ * Follows RFC 9110: `*` matches any existing asset, otherwise one of the listed strong ETags must
+ * equal the current one (weak W/ tags never match). A conditional request on a missing asset fails.
+ */
+export function checkIfMatch(ctx: RequestContext, asset: AssetInstance | null): void {
+  const header = getHeader(ctx.event, IF_MATCH_HEADER)?.trim()
+  if (!header) {
+    return
+  }
+
+  const current = asset ? assetEtag(asset) : null
+  const matches =
+    current !== null && (header === '*' || header.split(',').some((tag) => tag.trim() === current))
+
+  if (!matches) {
+    throw preconditionFailed(
+      asset ? 'Asset was modified by another request; reload it and try again' : 'Asset no longer exists'
+    )
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * HTTP error class
+ * Thrown from route handlers to short-circuit with a specific status code
+ * `headers` are added to the error response (e.g. Retry-After)
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 500,
+    public headers: Record<string, string> = {}
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
+
+/**
+ * Create a 404 Not Found error
+ */
+export function notFound(message: string = 'Not found'): HttpError {
+  return new HttpError(message, 404)
+}
+
+/**
+ * Create a 401 Unauthorized error
+ */
+export function unauthorized(message: string = 'Unauthorized'): HttpError {
+  return new HttpError(message, 401)
+}
+
+/**
+ * Create a 412 Precondition Failed error (If-Match did not match)
+ */
+export function preconditionFailed(message: string = 'Precondition failed'): HttpError {
+  return new HttpError(message, 412)
+}
+
+/**
+ * Create a 403 Forbidden error
+ */
+export function forbidden(message: string = 'Forbidden'): HttpError {
+  return new HttpError(message, 403)
+}
+
+/**
+ * Create a 410 Gone error (e.g. a share link that was revoked or has expired)
+ */
+export function gone(message: string = 'Gone'): HttpError {
+  return new HttpError(message, 410)
+}
+
+/**
+ * Create a 413 Payload Too Large error (the request would exceed a storage quota)
+ */
+export function payloadTooLarge(message: string = 'Quota exceeded'): HttpError {
+  return new HttpError(message, 413)
+}
+
+/**
+ * Create a 429 Too Many Requests error telling the client when to retry
+ */
+export function tooManyRequests(retryAfterSeconds: number, message: string = 'Too many requests'): HttpError {
+  return new HttpError(message, 429, { 'Retry-After': String(retryAfterSeconds) })
+}
@@ -0,0 +1,215 @@
+import { randomUUID } from 'crypto'
+import type { APIGatewayProxyEvent } from 'aws-lambda'
+import { connectToDatabase } from '../config/dbHelper'
+import { refreshCredentialsOnAccessDenied } from '../config/database'
+import { ValidationError, type FieldError } from '../utils/validation'
+import { errorResponse, validationErrorResponse } from '../utils/response'
+import { logger, runWithLogContext } from '../utils/logger'
+import { runWithAuditSource } from '../utils/audit'
+import { validate } from '../schemas/schema'
+import { HttpError } from './errors'
+import type { Middleware } from './router'
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+/**
+ * Read a request header regardless of its case
+ */
+export function getHeader(event: APIGatewayProxyEvent, name: string): string | undefined {
+  const lower = name.toLowerCase()
+  const entry = Object.entries(event.headers || {}).find(([key]) => key.toLowerCase() === lower)
+  return entry?.[1] ?? undefined
+}
+
+/**
+ * Correlation id for a request
+ * A well-formed X-Request-Id from the caller wins, then the API Gateway request id
+ */
+function resolveCorrelationId(event: APIGatewayProxyEvent, awsRequestId?: string): string {
+  const incoming = getHeader(event, REQUEST_ID_HEADER)
+  if (incoming && /^[\w.:-]{1,128}$/.test(incoming)) {
+    return incoming
+  }
+  return event.requestContext?.requestId || awsRequestId || randomUUID()
+}
+
+/**
+ * Log each request as structured JSON and echo the correlation id in X-Request-Id
+ *
+ * Runs the rest of the pipeline in a log context, so every entry logged while handling the
+ * request carries correlationId, requestId, awsRequestId and route (and ownerId after withAuth).
+ * Does not log the raw event (it contains Authorization headers) or the raw path (GET /shared/{token}
+ * carries a share-link token); `route` has the resource template instead
+ */
+export const withLogging: Middleware = async (ctx, next) => {
+  const { event, lambdaContext } = ctx
+  const correlationId = resolveCorrelationId(event, lambdaContext?.awsRequestId)
+  const startedAt = Date.now()
+
+  const fields = {
+    correlationId,
+    requestId: event.requestContext?.requestId,
+    awsRequestId: lambdaContext?.awsRequestId,
+    route: `${event.httpMethod} ${event.resource}`,
+  }
+
+  return runWithLogContext(fields, async () => {
+    logger.debug('Request started', { query: event.queryStringParameters })
+    const result = await next()
+    logger.info('Request completed', { statusCode: result.statusCode, durationMs: Date.now() - startedAt })
+
+    return {
+      ...result,
+      headers: { ...result.headers, [REQUEST_ID_HEADER]: correlationId },
+    }
+  })
+}
+
+/**
+ * Record the caller's IP address, User-Agent and correlation id on audit events written
+ * while the rest of the pipeline runs (see utils/audit.ts)
+ */
+export const withAuditSource: Middleware = async (ctx, next) => {
+  const { event, lambdaContext } = ctx
+  const source = {
+    sourceIp: event.requestContext?.identity?.sourceIp || null,
+    userAgent: getHeader(event, 'User-Agent') || event.requestContext?.identity?.userAgent || null,
+    requestId: resolveCorrelationId(event, lambdaContext?.awsRequestId),
+  }
+  return runWithAuditSource(source, next)
+}
+
+/**
+ * Map thrown errors to API responses
+ * Handles ValidationError, HttpError and Sequelize errors identically for every route
+ */
+export const withErrorHandling: Middleware = async (ctx, next) => {
+  try {
+    return await next()
+  } catch (error) {
+    // Client errors are expected; only unexpected failures are logged as errors
+    if (error instanceof ValidationError || (error instanceof HttpError && error.statusCode < 500)) {
+      logger.warn('Request rejected', { error: { name: error.name, message: error.message } })
+    } else {
+      logger.error('Request failed', { error })
+    }
+
+    // Handle validation errors
+    if (error instanceof ValidationError) {
+      return validationErrorResponse(error.message, error.field, error.errors)
+    }
+
+    // Handle explicit HTTP errors
+    if (error instanceof HttpError) {
+      const response = errorResponse(error.message, error.statusCode)
+      return { ...response, headers: { ...response.headers, ...error.headers } }
+    }
+
+    // Handle database errors
+    if (error instanceof Error) {
+      if (error.name === 'SequelizeValidationError') {
+        return validationErrorResponse('Validation failed: ' + error.message)
+      }
+      if (error.name === 'SequelizeOptimisticLockError') {
+        return errorResponse('The resource was modified by another request; reload it and try again', 412)
+      }
+      if (error.name === 'SequelizeUniqueConstraintError') {
+        return errorResponse('Resource already exists', 409)
+      }
+      if (error.name === 'SequelizeDatabaseError') {
+        return errorResponse('Database error occurred', 500)
+      }
+    }
+
+    // Generic error
+    return errorResponse(ctx.route.errorMessage || 'Internal server error')
+  }
+}
+
+/**
+ * Ensure the database connection is established before the route runs
+ *
+ * Queries retry access denied errors with fresh credentials themselves, but transactions open
+ * their connection outside that retry, so the cached secret is dropped here for the next request.
+ */
+export const withDatabase: Middleware = async (ctx, next) => {
+  await connectToDatabase()
+  try {
+    return await next()
+  } catch (error) {
+    refreshCredentialsOnAccessDenied(error)
+    throw error
+  }
+}
+
+/**
+ * Parse the JSON request body into ctx.body
+ * With `required`, a missing or empty body is rejected with 400
+ */
+export function withJsonBody(options: { required?: boolean } = {}): Middleware {
+  return async (ctx, next) => {
+    if (!ctx.event.body) {
+      if (options.required) {
+        throw new ValidationError('Request body is required')
+      }
+      ctx.body = {}
+      return next()
+    }
+
+    try {
+      ctx.body = JSON.parse(ctx.event.body)
+    } catch (error) {
+      throw new ValidationError('Invalid JSON in request body')
+    }
+
+    if (ctx.body === null || typeof ctx.body !== 'object' || Array.isArray(ctx.body)) {
+      throw new ValidationError('Request body must be a JSON object')
+    }
+
+    return next()
+  }
+}
+
+/**
+ * Validate path parameters, query string, headers and body against the route's schema
+ *
+ * Every invalid field is reported in one 400 response. ctx.body is replaced with the parsed body
+ * (trimmed, unknown properties dropped); params and query keep their raw string values.
+ * Runs after withJsonBody and before withDatabase.
+ */
+export const withValidation: Middleware = async (ctx, next) => {
+  const { schema } = ctx.route
+  if (!schema) {
+    throw new Error(`Route ${ctx.route.method} ${ctx.route.resource} has no schema to validate against`)
+  }
+
+  const errors: FieldError[] = []
+  if (schema.params) {
+    errors.push(...validate(schema.params, ctx.params, { location: 'path' }).errors)
+  }
+  if (schema.query) {
+    errors.push(...validate(schema.query, ctx.query, { location: 'query' }).errors)
+  }
+  if (schema.headers) {
+    const headers = Object.fromEntries(
+      Object.keys(schema.headers.properties).map((name) => [name, getHeader(ctx.event, name)])
+    )
+    errors.push(...validate(schema.headers, headers, { location: 'header' }).errors)
+  }
+  if (schema.body) {
+    const result = validate(schema.body, ctx.body)
+    errors.push(...result.errors)
+    ctx.body = result.value
+  }
+
+  if (errors.length > 0) {
+    throw ValidationError.fromFieldErrors(errors)
+  }
+  return next()
+}
+
+/**
+ * Default pipeline applied to every route
+ * Routes add withJsonBody / withDatabase themselves so requests are validated before connecting
+ */
+export const defaultMiddlewares: Middleware[] = [withLogging, withAuditSource, withErrorHandling]
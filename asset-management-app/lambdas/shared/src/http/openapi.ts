@@ -0,0 +1,241 @@
+import type { APIGatewayProxyResult } from 'aws-lambda'
+import { s, toJsonSchema, validate, type ObjectSchema, type Schema, type Shape } from '../schemas/schema'
+import type { FieldError } from '../utils/validation'
+import { withAuth } from './auth'
+import { withIpRateLimit, withRateLimit } from './rateLimit'
+import type { Route } from './router'
+
+/**
+ * OpenAPI 3.1 document generated from the route schemas
+ *
+ * Success bodies use the { success: true, data } envelope from successResponse; errors share
+ * the Error schema, with `errors` listing every invalid field on 400.
+ * checkResponseContract() compares a handler response with the same schemas.
+ */
+
+export interface OpenApiInfo {
+  title: string
+  version: string
+  description?: string
+}
+
+type JsonObject = Record<string, unknown>
+
+const ERROR_RESPONSES: Record<string, JsonObject> = {
+  BadRequest: { description: 'Invalid request; `errors` lists every invalid field' },
+  Unauthorized: { description: 'Missing or invalid Cognito token' },
+  Forbidden: { description: 'The caller neither owns the resource nor has a share that allows this' },
+  NotFound: { description: 'Resource not found' },
+  PreconditionFailed: { description: 'If-Match does not match the current ETag' },
+  LinkPasswordRequired: { description: 'The share link has a password and X-Link-Password is missing or wrong' },
+  Gone: { description: 'The share link was revoked, has expired or has no downloads left' },
+  PayloadTooLarge: { description: "The request would exceed the caller's asset or storage quota" },
+  TooManyRequests: {
+    description: 'Rate limit exceeded, or too many incorrect share link passwords',
+    headers: {
+      'Retry-After': {
+        description: 'Seconds until the rate limit window or share link lockout ends',
+        schema: { type: 'integer' },
+      },
+    },
+  },
+  InternalError: { description: 'Unexpected server error' },
+}
+
+/**
+ * Body of every error response (errorResponse / validationErrorResponse)
+ */
+export const errorBodySchema = s.object({
+  success: s.boolean(),
+  error: s.string(),
+  field: s.optional(s.string()),
+  errors: s.optional(
+    s.array(
+      s.object({
+        field: s.optional(s.string()),
+        message: s.string(),
+      })
+    )
+  ),
+})
+
+/**
+ * Success envelope around a route's response schema
+ */
+function envelope(data: Schema) {
+  return s.object({ success: s.boolean(), data })
+}
+
+function errorRef(name: string): JsonObject {
+  return { $ref: `#/components/responses/${name}` }
+}
+
+/**
+ * OpenAPI parameters for a path or query schema
+ */
+function parameters(schema: ObjectSchema<any> | undefined, location: 'path' | 'query' | 'header'): JsonObject[] {
+  if (!schema) {
+    return []
+  }
+  return Object.entries(schema.properties as Shape).map(([name, property]) => {
+    const { description, ...jsonSchema } = toJsonSchema(property)
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !property.optional,
+      ...(description !== undefined && { description }),
+      schema: jsonSchema,
+    }
+  })
+}
+
+/**
+ * OpenAPI operation for one route
+ */
+function operation(route: Route): JsonObject {
+  const { schema } = route
+  if (!schema) {
+    throw new Error(`Route ${route.method} ${route.resource} has no schema`)
+  }
+
+  const status = String(schema.status ?? 200)
+  const authenticated = route.middlewares?.includes(withAuth) ?? false
+  const content: JsonObject | null = schema.produces
+    ? Object.fromEntries(schema.produces.map((type) => [type, { schema: { type: 'string' } }]))
+    : schema.response
+      ? { 'application/json': { schema: toJsonSchema(envelope(schema.response)) } }
+      : null
+  const responses: JsonObject = {
+    [status]: content ? { description: schema.summary, content } : { description: schema.summary },
+  }
+  for (const alternate of schema.alternateStatuses ?? []) {
+    responses[String(alternate)] = { description: `${schema.summary} (status ${alternate})`, ...(content && { content }) }
+  }
+
+  if (schema.params || schema.query || schema.body) {
+    responses['400'] = errorRef('BadRequest')
+  }
+  if (authenticated) {
+    responses['401'] = errorRef('Unauthorized')
+    responses['403'] = errorRef('Forbidden')
+  }
+  if (schema.params) {
+    responses['404'] = errorRef('NotFound')
+  }
+  if (schema.shareLink) {
+    responses['401'] = errorRef('LinkPasswordRequired')
+    responses['410'] = errorRef('Gone')
+  }
+  if (schema.headers?.properties['If-Match']) {
+    responses['412'] = errorRef('PreconditionFailed')
+  }
+  if (schema.quotaLimited) {
+    responses['413'] = errorRef('PayloadTooLarge')
+  }
+  if (route.middlewares?.includes(withRateLimit) || route.middlewares?.includes(withIpRateLimit)) {
+    responses['429'] = errorRef('TooManyRequests')
+  }
+  responses['500'] = errorRef('InternalError')
+
+  return {
+    operationId: schema.operationId,
+    summary: schema.summary,
+    ...(authenticated && { security: [{ cognito: [] }] }),
+    parameters: [
+      ...parameters(schema.params, 'path'),
+      ...parameters(schema.query, 'query'),
+      ...parameters(schema.headers, 'header'),
+    ],
+    ...(schema.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(schema.body) } },
+      },
+    }),
+    responses,
+  }
+}
+
+/**
+ * Build the OpenAPI document for a list of routes
+ * Every route must declare a schema
+ */
+export function buildOpenApiDocument(routes: Route[], info: OpenApiInfo): JsonObject {
+  const paths: Record<string, JsonObject> = {}
+  for (const route of routes) {
+    paths[route.resource] = {
+      ...paths[route.resource],
+      [route.method.toLowerCase()]: operation(route),
+    }
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        cognito: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'Cognito ID token',
+        },
+      },
+      schemas: { Error: toJsonSchema(errorBodySchema) },
+      responses: Object.fromEntries(
+        Object.entries(ERROR_RESPONSES).map(([name, response]) => [
+          name,
+          { ...response, content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } },
+        ])
+      ),
+    },
+  }
+}
+
+/**
+ * Differences between a handler response and the route's documented response
+ *
+ * Error responses must match the Error schema; success responses must use the documented
+ * status and match the response schema exactly (undocumented properties count as drift).
+ * `alternateStatuses` are checked against the response schema as well.
+ * Non-JSON bodies (`produces`) are only checked for their content type.
+ * An empty list means the response matches the spec.
+ */
+export function checkResponseContract(route: Route, result: APIGatewayProxyResult): FieldError[] {
+  const { schema } = route
+  if (!schema) {
+    return [{ field: 'route', message: `Route ${route.method} ${route.resource} has no schema` }]
+  }
+
+  const status = schema.status ?? 200
+  if (schema.produces && result.statusCode === status) {
+    const contentType = String(result.headers?.['Content-Type'] ?? '').split(';')[0]
+    return schema.produces.includes(contentType)
+      ? []
+      : [{ field: 'Content-Type', message: `Expected one of ${schema.produces.join(', ')}, got ${contentType}` }]
+  }
+
+  let body: unknown = null
+  try {
+    body = result.body ? JSON.parse(result.body) : null
+  } catch {
+    return [{ field: 'body', message: 'Response body is not JSON' }]
+  }
+
+  const alternate = schema.alternateStatuses?.includes(result.statusCode) ?? false
+  if (result.statusCode >= 400 && !alternate) {
+    return validate(errorBodySchema, body, { strict: true }).errors
+  }
+
+  if (result.statusCode !== status && !alternate) {
+    return [{ field: 'statusCode', message: `Expected status ${status}, got ${result.statusCode}` }]
+  }
+  if (status === 204) {
+    return body === null ? [] : [{ field: 'body', message: '204 responses must not have a body' }]
+  }
+  if (!schema.response) {
+    return []
+  }
+  return validate(envelope(schema.response), body, { strict: true }).errors
+}
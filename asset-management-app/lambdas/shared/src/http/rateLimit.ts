@@ -0,0 +1,83 @@
+import { env } from '../config/env'
+import { consumeRequest, getOwnerLimits, type RateLimitResult } from '../utils/quotas'
+import { logger } from '../utils/logger'
+import { tooManyRequests } from './errors'
+import { requireAuth } from './auth'
+import type { Middleware } from './router'
+
+export const RATE_LIMIT_HEADERS = {
+  limit: 'X-RateLimit-Limit',
+  remaining: 'X-RateLimit-Remaining',
+} as const
+
+/**
+ * Count the request against the caller's per-minute limit; runs after withDatabase
+ *
+ * Over the limit, the request is rejected with 429 and Retry-After (seconds until the window ends).
+ * Responses carry X-RateLimit-Limit and X-RateLimit-Remaining. When the counter cannot be updated
+ * the request is let through, so a limiter failure does not take the API down with it.
+ */
+export const withRateLimit: Middleware = async (ctx, next) => {
+  const { ownerId } = requireAuth(ctx)
+
+  let result
+  try {
+    const { limits } = await getOwnerLimits(ownerId)
+    result = await consumeRequest(ownerId, limits.requestsPerMinute)
+  } catch (error) {
+    logger.warn('Rate limit check failed; allowing the request', { error })
+    return next()
+  }
+
+  if (result.limit === 0) {
+    return next()
+  }
+  if (!result.allowed) {
+    throw tooManyRequests(
+      result.retryAfterSeconds,
+      `Rate limit of ${result.limit} requests per minute exceeded; retry in ${result.retryAfterSeconds} seconds`
+    )
+  }
+
+  const response = await next()
+  return {
+    ...response,
+    headers: {
+      ...response.headers,
+      [RATE_LIMIT_HEADERS.limit]: String(result.limit),
+      [RATE_LIMIT_HEADERS.remaining]: String(result.remaining),
+    },
+  }
+}
+
+/**
+ * Count a request from an unauthenticated route against its IP address; runs after withDatabase
+ *
+ * Uses the RateLimitWindows counters under the key `ip:<address>` (Cognito user IDs never take that
+ * form) with SHARE_LINK_REQUESTS_PER_MINUTE_PER_IP as the limit. Like withRateLimit it answers 429 with
+ * Retry-After over the limit and lets the request through when the counter cannot be updated.
+ */
+export const withIpRateLimit: Middleware = async (ctx, next) => {
+  const sourceIp = ctx.event.requestContext?.identity?.sourceIp
+  const limit = env.SHARE_LINK_REQUESTS_PER_MINUTE_PER_IP
+  if (!sourceIp || limit === 0) {
+    return next()
+  }
+
+  let result: RateLimitResult
+  try {
+    result = await consumeRequest(`ip:${sourceIp}`, limit)
+  } catch (error) {
+    logger.warn('IP rate limit check failed; allowing the request', { error })
+    return next()
+  }
+
+  if (!result.allowed) {
+    logger.warn('IP rate limit exceeded', { sourceIp, limit })
+    throw tooManyRequests(
+      result.retryAfterSeconds,
+      `Too many requests from this address; retry in ${result.retryAfterSeconds} seconds`
+    )
+  }
+  return next()
+}
@@ -0,0 +1,170 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda'
+import { errorResponse } from '../utils/response'
+import type { ObjectSchema, Schema } from '../schemas/schema'
+import type { AuthContext } from './auth'
+
+/**
+ * Supported HTTP methods
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+/**
+ * Per-request context passed through the middleware pipeline
+ */
+export interface RequestContext {
+  event: APIGatewayProxyEvent
+  lambdaContext?: Context
+  route: Route
+  params: Record<string, string | undefined>
+  query: Record<string, string | undefined>
+  body: any
+  // Set by withAuth
+  auth?: AuthContext
+  state: Record<string, unknown>
+}
+
+export type RouteHandler = (ctx: RequestContext) => Promise<APIGatewayProxyResult>
+
+export type Next = () => Promise<APIGatewayProxyResult>
+
+export type Middleware = (ctx: RequestContext, next: Next) => Promise<APIGatewayProxyResult>
+
+/**
+ * Request and response schemas of a route
+ * Requests are validated by withValidation; the whole object feeds the OpenAPI document
+ */
+export interface RouteSchema {
+  operationId: string
+  summary: string
+  params?: ObjectSchema<any>
+  query?: ObjectSchema<any>
+  // Request headers (matched case-insensitively), e.g. If-Match
+  headers?: ObjectSchema<any>
+  body?: Schema
+  // `data` of the success envelope; omitted for 204 responses
+  response?: Schema
+  // Success status code (default: 200)
+  status?: number
+  // Other statuses whose body also matches `response` (e.g. 503 from GET /health/ready)
+  alternateStatuses?: number[]
+  // Content types of a non-JSON success body (e.g. text/csv), sent without the envelope
+  produces?: string[]
+  // The request can exceed the caller's asset or storage quota (413)
+  quotaLimited?: boolean
+  // Opened with a public share link: 401 without the right password, 410 once the link stops working
+  shareLink?: boolean
+}
+
+/**
+ * Route definition
+ * `resource` matches API Gateway's resource path (e.g. /assets/{id})
+ */
+export interface Route {
+  method: HttpMethod
+  resource: string
+  handler: RouteHandler
+  middlewares?: Middleware[]
+  schema?: RouteSchema
+  // Message used for unexpected errors (e.g. "Failed to create asset")
+  errorMessage?: string
+}
+
+export type LambdaHandler = (
+  event: APIGatewayProxyEvent,
+  context?: Context
+) => Promise<APIGatewayProxyResult>
+
+/**
+ * Build the route table key for a method + resource pair
+ */
+function routeKey(method: string, resource: string): string {
+  return `${method.toUpperCase()} ${resource}`
+}
+
+/**
+ * Run a middleware chain ending with the route handler
+ */
+function compose(middlewares: Middleware[], handler: RouteHandler): RouteHandler {
+  return (ctx) => {
+    const dispatch = (index: number): Promise<APIGatewayProxyResult> => {
+      if (index === middlewares.length) {
+        return handler(ctx)
+      }
+      return middlewares[index](ctx, () => dispatch(index + 1))
+    }
+    return dispatch(0)
+  }
+}
+
+/**
+ * Create the request context for an incoming event
+ */
+function createContext(
+  event: APIGatewayProxyEvent,
+  route: Route,
+  lambdaContext?: Context
+): RequestContext {
+  return {
+    event,
+    lambdaContext,
+    route,
+    params: event.pathParameters || {},
+    query: event.queryStringParameters || {},
+    body: undefined,
+    state: {},
+  }
+}
+
+/**
+ * Create a Lambda handler that serves a single route
+ * Used by the per-function entrypoints, which are invoked for one method + resource only
+ */
+export function createRouteHandler(route: Route, middlewares: Middleware[] = []): LambdaHandler {
+  const pipeline = compose([...middlewares, ...(route.middlewares || [])], route.handler)
+
+  return (event, lambdaContext) => pipeline(createContext(event, route, lambdaContext))
+}
+
+/**
+ * Create a Lambda handler that dispatches to routes keyed on httpMethod + resource
+ *
+ * Global middlewares run for every route, followed by the route's own middlewares.
+ * Unknown resources return 404; known resources with an unsupported method return 405.
+ */
+export function createRouter(routes: Route[], middlewares: Middleware[] = []): LambdaHandler {
+  const table = new Map<string, LambdaHandler>()
+  const resources = new Set<string>()
+
+  for (const route of routes) {
+    const key = routeKey(route.method, route.resource)
+    if (table.has(key)) {
+      throw new Error(`Duplicate route: ${key}`)
+    }
+    table.set(key, createRouteHandler(route, middlewares))
+    resources.add(route.resource)
+  }
+
+  // Unmatched requests still run the global middlewares (logging, request id header)
+  const notMatched = compose(middlewares, async (ctx) => {
+    const { httpMethod, resource } = ctx.event
+    if (resources.has(resource)) {
+      return errorResponse(`Method ${httpMethod} not allowed`, 405)
+    }
+    return errorResponse(`Route ${httpMethod} ${resource} not found`, 404)
+  })
+
+  return async (event, lambdaContext) => {
+    const handler = table.get(routeKey(event.httpMethod, event.resource))
+
+    if (!handler) {
+      const route: Route = {
+        method: event.httpMethod as HttpMethod,
+        resource: event.resource,
+        handler: notMatched,
+      }
+      return notMatched(createContext(event, route, lambdaContext))
+    }
+
+    return handler(event, lambdaContext)
+  }
+}
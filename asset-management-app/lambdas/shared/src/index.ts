@@ -1,5 +1,5 @@
 import { env, validateEnv } from './config/env'
-import type { AssetAttributes, AssetCategory } from './types'
+import type { AssetAttributes, AssetCategory, AssetStatus } from './types'
 
 console.log('🚀 TypeScript setup test')
 console.log('Environment:', env.NODE_ENV)
@@ -9,12 +9,17 @@ console.log('Database:', env.DB_NAME)
 const testAsset: AssetAttributes = {
   id: '123',
   ownerId: 'user-123',
+  externalKey: null,
   name: 'Test Asset',
   description: 'A test asset description',
   category: 'image' as AssetCategory,
   imageKey: 'test/image.jpg',
+  status: 'active' as AssetStatus,
+  statusNote: null,
   createdAt: new Date(),
   updatedAt: new Date(),
+  deletedAt: null,
+  version: 0,
 }
 
 console.log('✅ TypeScript is working!')
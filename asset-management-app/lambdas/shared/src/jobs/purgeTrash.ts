@@ -0,0 +1,111 @@
+import { Op, literal } from 'sequelize'
+import { sequelize, Asset, AssetFile, Tag } from '../models'
+import { AuditAction } from '../types'
+import { env } from '../config/env'
+import { deleteObjects } from '../utils/storage'
+import { snapshotAsset } from '../utils/revisions'
+import { recordAuditEvent } from '../utils/audit'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PURGE_ACTOR = 'system:purge-trash'
+
+export interface PurgeTrashOptions {
+  // Days a trashed asset is kept before it is permanently removed
+  retentionDays?: number
+  // Maximum number of assets purged per run
+  batchSize?: number
+  now?: Date
+  // Injected for tests; defaults to deleting from the asset bucket
+  deleteObjects?: (keys: string[]) => Promise<string[]>
+}
+
+export interface PurgeTrashResult {
+  cutoff: Date
+  purged: number
+  deletedObjects: number
+  // Assets kept because their S3 object could not be deleted (retried next run)
+  failed: string[]
+}
+
+/**
+ * Permanently remove assets that have been in the trash longer than the retention period
+ *
+ * S3 objects (imageKey and every AssetFile) are deleted first; an asset with an object that
+ * could not be deleted stays in the trash so the next run retries it instead of orphaning the
+ * object. AssetFile, AssetRevision and AssetTag rows are removed with the asset by the foreign key
+ * cascade; tags no other asset uses are deleted afterwards. Each purged asset gets a `purged`
+ * audit event, which is kept.
+ */
+export async function purgeTrashedAssets(options: PurgeTrashOptions = {}): Promise<PurgeTrashResult> {
+  const retentionDays = options.retentionDays ?? env.TRASH_RETENTION_DAYS
+  const batchSize = options.batchSize ?? 100
+  const now = options.now ?? new Date()
+  const removeObjects = options.deleteObjects ?? deleteObjects
+
+  if (!Number.isFinite(retentionDays) || retentionDays < 0) {
+    throw new Error(`Invalid trash retention period: ${retentionDays}`)
+  }
+
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS)
+
+  const expired = await Asset.findAll({
+    where: { deletedAt: { [Op.lt]: cutoff } },
+    paranoid: false,
+    order: [['deletedAt', 'ASC']],
+    limit: batchSize,
+  })
+
+  if (expired.length === 0) {
+    return { cutoff, purged: 0, deletedObjects: 0, failed: [] }
+  }
+
+  // Object keys per asset: the legacy imageKey plus its files (the primary file repeats imageKey)
+  const files = await AssetFile.findAll({ where: { assetId: expired.map((asset) => asset.id) } })
+  const keysByAsset = new Map<string, Set<string>>(
+    expired.map((asset) => [asset.id, new Set(asset.imageKey ? [asset.imageKey] : [])])
+  )
+  for (const file of files) {
+    keysByAsset.get(file.assetId)?.add(file.key)
+  }
+
+  const keys = [...keysByAsset.values()].flatMap((assetKeys) => [...assetKeys])
+  const failedKeys = new Set(await removeObjects(keys))
+
+  const purgeable = expired.filter((asset) =>
+    [...(keysByAsset.get(asset.id) as Set<string>)].every((key) => !failedKeys.has(key))
+  )
+  const failed = expired.filter((asset) => !purgeable.includes(asset)).map((asset) => asset.id)
+
+  if (purgeable.length > 0) {
+    await sequelize.transaction(async (transaction) => {
+      for (const asset of purgeable) {
+        await recordAuditEvent(asset, {
+          action: AuditAction.PURGED,
+          actorId: PURGE_ACTOR,
+          before: snapshotAsset(asset),
+          after: null,
+          transaction,
+        })
+      }
+      await Asset.destroy({
+        where: { id: purgeable.map((asset) => asset.id) },
+        force: true,
+        transaction,
+      })
+    })
+    await Tag.destroy({
+      where: {
+        ownerId: [...new Set(purgeable.map((asset) => asset.ownerId))],
+        id: { [Op.notIn]: literal('(SELECT `tagId` FROM `AssetTags`)') },
+      },
+    })
+  }
+
+  return {
+    cutoff,
+    purged: purgeable.length,
+    deletedObjects: keys.length - failedKeys.size,
+    failed,
+  }
+}
@@ -0,0 +1,138 @@
+import http from 'http'
+import type { AddressInfo } from 'net'
+import type { APIGatewayProxyEvent } from 'aws-lambda'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createLocalApiListener, decodeTokenClaims, matchResource, type LocalApiOptions } from './apiGateway'
+import { apiRoutes } from '../routes'
+import { createRouter } from '../http/router'
+import { defaultMiddlewares } from '../http/middleware'
+import { buildClaims, signTestToken } from '../testing/authEvents'
+import { successResponse } from '../utils/response'
+
+/**
+ * API Gateway stand-in used by scripts/devServer.ts
+ */
+
+const resources = apiRoutes.map((route) => route.resource)
+
+let server: http.Server | null = null
+
+async function startApi(options: Omit<LocalApiOptions, 'routes'>): Promise<string> {
+  server = http.createServer(createLocalApiListener({ routes: apiRoutes, ...options }))
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+afterEach(() => {
+  server?.close()
+  server = null
+})
+
+describe('matchResource', () => {
+  it('prefers literal segments over path parameters', () => {
+    expect(matchResource(resources, '/assets/trash')).toEqual({ resource: '/assets/trash', pathParameters: null })
+    expect(matchResource(resources, '/assets/abc-123')).toEqual({
+      resource: '/assets/{id}',
+      pathParameters: { id: 'abc-123' },
+    })
+    expect(matchResource(resources, '/assets/abc/revisions/3/restore')?.pathParameters).toEqual({
+      id: 'abc',
+      revision: '3',
+    })
+  })
+
+  it('returns null for unknown paths', () => {
+    expect(matchResource(resources, '/nope')).toBeNull()
+  })
+
+  it('returns null for parameters with a malformed escape', () => {
+    expect(matchResource(resources, '/assets/%E0%A4')).toBeNull()
+    expect(matchResource(resources, '/assets/%20id')?.pathParameters).toEqual({ id: ' id' })
+  })
+})
+
+describe('decodeTokenClaims', () => {
+  it('decodes the claims of a token, with or without a Bearer prefix', () => {
+    const token = signTestToken(buildClaims('user-a', { 'cognito:groups': 'admins' }))
+
+    expect(decodeTokenClaims(`Bearer ${token}`)).toMatchObject({ sub: 'user-a', 'cognito:groups': 'admins' })
+    expect(decodeTokenClaims(token)?.sub).toBe('user-a')
+  })
+
+  it('rejects expired and malformed tokens', () => {
+    expect(decodeTokenClaims(signTestToken(buildClaims('user-a', { exp: '1' })))).toBeNull()
+    expect(decodeTokenClaims('junk')).toBeNull()
+  })
+})
+
+describe('createLocalApiListener', () => {
+  it('sends the handler a REST proxy event with claims, path parameters and query', async () => {
+    let received: APIGatewayProxyEvent | null = null
+    const url = await startApi({
+      handler: async (event) => {
+        received = event
+        return successResponse({ ok: true })
+      },
+    })
+
+    const response = await fetch(`${url}/assets/abc/tags?limit=5`, {
+      headers: { Authorization: signTestToken(buildClaims('user-a')) },
+    })
+
+    expect(response.status).toBe(200)
+    expect(received).toMatchObject({
+      resource: '/assets/{id}/tags',
+      httpMethod: 'GET',
+      pathParameters: { id: 'abc' },
+      queryStringParameters: { limit: '5' },
+      requestContext: { authorizer: { claims: { sub: 'user-a' } } },
+    })
+  })
+
+  it('answers like API Gateway without calling the handler', async () => {
+    const url = await startApi({ handler: async () => successResponse({ ok: true }) })
+
+    const unauthorized = await fetch(`${url}/assets/abc/tags`)
+    const missing = await fetch(`${url}/unknown`)
+    const malformed = await fetch(`${url}/assets/%E0%A4`)
+    const preflight = await fetch(`${url}/assets/abc/tags`, { method: 'OPTIONS' })
+
+    expect(unauthorized.status).toBe(401)
+    expect(missing.status).toBe(403)
+    expect(malformed.status).toBe(403)
+    expect(preflight.status).toBe(204)
+    expect(preflight.headers.get('access-control-allow-methods')).toBe('GET,POST,OPTIONS')
+  })
+
+  it('returns 502 when the handler throws', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const url = await startApi({
+      handler: async () => {
+        throw new Error('Lambda crashed')
+      },
+    })
+
+    expect((await fetch(`${url}/health`)).status).toBe(502)
+    expect(consoleError).toHaveBeenCalledWith('Lambda handler failed:', expect.any(Error))
+    consoleError.mockRestore()
+  })
+
+  it('uses the default claims without a token and runs the Lambda router', async () => {
+    const router = createRouter(apiRoutes, defaultMiddlewares)
+    let sub: string | undefined
+    const url = await startApi({
+      defaultClaims: buildClaims('local-user') as Record<string, string>,
+      handler: async (event) => {
+        sub = event.requestContext.authorizer?.claims.sub
+        return router(event)
+      },
+    })
+
+    const response = await fetch(`${url}/health`)
+    const body: any = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.data.status).toBe('ok')
+    expect(sub).toBe('local-user')
+  })
+})
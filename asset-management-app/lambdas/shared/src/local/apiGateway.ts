@@ -0,0 +1,203 @@
+import { randomUUID } from 'crypto'
+import type { IncomingMessage, RequestListener, ServerResponse } from 'http'
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { CORS_HEADERS } from '../utils/response'
+import { withAuth } from '../http/auth'
+import type { Route } from '../http/router'
+
+/**
+ * API Gateway stand-in for local development
+ *
+ * Matches requests against the route resources the way the RestApi in amplify/backend.ts does,
+ * builds the REST proxy event and calls the Lambda handler. Routes protected by withAuth need an
+ * Authorization header like the Cognito authorizer, but the token is only decoded, not verified.
+ */
+
+export type ProxyHandler = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>
+
+export interface LocalApiOptions {
+  handler: ProxyHandler
+  routes: Route[]
+  // Claims used for requests without an Authorization header (e.g. --user in the dev server)
+  defaultClaims?: Record<string, string> | null
+  // Called after each request, for request logs
+  onResponse?: (method: string, path: string, statusCode: number, durationMs: number) => void
+}
+
+export interface ResourceMatch {
+  resource: string
+  pathParameters: Record<string, string> | null
+}
+
+/**
+ * Decode a path segment; null for a malformed escape such as %E0%A4
+ */
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Find the resource template for a path
+ * Literal segments win over {param} segments, so /assets/trash is not matched as /assets/{id}.
+ * A parameter with a malformed escape does not match, so the request is answered like an unknown path.
+ */
+export function matchResource(resources: string[], path: string): ResourceMatch | null {
+  const segments = path.split('/').filter(Boolean)
+  const candidates = [...new Set(resources)]
+    .map((resource) => ({ resource, parts: resource.split('/').filter(Boolean) }))
+    .filter(({ parts }) => parts.length === segments.length)
+    .sort((a, b) => {
+      const firstParam = (parts: string[]) => {
+        const index = parts.findIndex((part) => part.startsWith('{'))
+        return index === -1 ? parts.length : index
+      }
+      return firstParam(b.parts) - firstParam(a.parts)
+    })
+
+  for (const { resource, parts } of candidates) {
+    const pathParameters: Record<string, string> = {}
+    const matches = parts.every((part, index) => {
+      if (part.startsWith('{') && part.endsWith('}')) {
+        const value = decodeSegment(segments[index])
+        if (value === null) {
+          return false
+        }
+        pathParameters[part.slice(1, -1)] = value
+        return true
+      }
+      return part === segments[index]
+    })
+    if (matches) {
+      return { resource, pathParameters: Object.keys(pathParameters).length > 0 ? pathParameters : null }
+    }
+  }
+  return null
+}
+
+/**
+ * Claims from an unverified JWT; null when the token is malformed or expired
+ * API Gateway accepts the raw ID token in Authorization; a Bearer prefix is allowed too.
+ */
+export function decodeTokenClaims(authorization: string): Record<string, string> | null {
+  const token = authorization.replace(/^Bearer\s+/i, '')
+  try {
+    const claims = JSON.parse(Buffer.from(token.split('.')[1] ?? '', 'base64url').toString('utf8'))
+    if (!claims || typeof claims.sub !== 'string' || claims.sub === '') {
+      return null
+    }
+    if (claims.exp && Number(claims.exp) * 1000 < Date.now()) {
+      return null
+    }
+    // The Cognito authorizer passes every claim as a string
+    return Object.fromEntries(
+      Object.entries(claims).map(([name, value]) => [name, Array.isArray(value) ? value.join(',') : String(value)])
+    )
+  } catch {
+    return null
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<string | null> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : null
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+  res.writeHead(statusCode, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Create the request listener for the API Gateway stand-in
+ */
+export function createLocalApiListener(options: LocalApiOptions): RequestListener {
+  const resources = options.routes.map((route) => route.resource)
+
+  return async (req, res) => {
+    const startedAt = Date.now()
+    const method = req.method || 'GET'
+    const url = new URL(req.url || '/', 'http://localhost')
+
+    try {
+      const match = matchResource(resources, url.pathname)
+      const routes = match ? options.routes.filter((route) => route.resource === match.resource) : []
+
+      // CORS preflight, answered by API Gateway itself (addCorsPreflight)
+      if (method === 'OPTIONS' && routes.length > 0) {
+        res.writeHead(204, {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': [...routes.map((route) => route.method), 'OPTIONS'].join(','),
+          'Access-Control-Allow-Headers': CORS_HEADERS['Access-Control-Allow-Headers'],
+        })
+        res.end()
+        return
+      }
+
+      const route = routes.find((candidate) => candidate.method === method)
+      if (!match || !route) {
+        sendJson(res, 403, { message: 'Missing Authentication Token' })
+        return
+      }
+
+      const headers = Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value.join(',') : value ?? ''])
+      )
+      const authorization = headers.authorization
+      const claims = authorization ? decodeTokenClaims(authorization) : options.defaultClaims ?? null
+      if (route.middlewares?.includes(withAuth) && !claims) {
+        sendJson(res, 401, { message: 'Unauthorized' })
+        return
+      }
+
+      const query = [...url.searchParams.keys()]
+      const event: APIGatewayProxyEvent = {
+        resource: match.resource,
+        path: url.pathname,
+        httpMethod: method,
+        headers,
+        multiValueHeaders: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, [value]])),
+        queryStringParameters: query.length > 0 ? Object.fromEntries(url.searchParams) : null,
+        multiValueQueryStringParameters:
+          query.length > 0 ? Object.fromEntries(query.map((name) => [name, url.searchParams.getAll(name)])) : null,
+        pathParameters: match.pathParameters,
+        stageVariables: null,
+        body: await readBody(req),
+        isBase64Encoded: false,
+        requestContext: {
+          resourcePath: match.resource,
+          httpMethod: method,
+          path: url.pathname,
+          stage: 'local',
+          requestId: randomUUID(),
+          requestTimeEpoch: startedAt,
+          identity: { sourceIp: req.socket.remoteAddress || '127.0.0.1', userAgent: headers['user-agent'] || null },
+          ...(claims && { authorizer: { claims } }),
+        } as any,
+      }
+
+      const result = await options.handler(event)
+      const responseHeaders: Record<string, string | string[]> = {}
+      for (const [name, value] of Object.entries(result.headers ?? {})) {
+        responseHeaders[name] = String(value)
+      }
+      for (const [name, values] of Object.entries(result.multiValueHeaders ?? {})) {
+        responseHeaders[name] = values.map(String)
+      }
+      res.writeHead(result.statusCode, responseHeaders)
+      res.end(result.isBase64Encoded ? Buffer.from(result.body, 'base64') : result.body)
+    } catch (error) {
+      // API Gateway answers 502 when the integration fails
+      console.error('Lambda handler failed:', error)
+      sendJson(res, 502, { message: 'Internal server error' })
+    } finally {
+      options.onResponse?.(method, url.pathname, res.statusCode, Date.now() - startedAt)
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import type { AddressInfo } from 'net'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { createLocalS3Listener, isPresignedUrlExpired } from './s3Server'
+
+/**
+ * Filesystem S3 stand-in, driven by the AWS SDK the way utils/storage.ts uses it
+ */
+
+const BUCKET = 'local-assets'
+
+let rootDir: string
+let server: http.Server
+let url: string
+let s3: S3Client
+
+beforeAll(async () => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-s3-'))
+  server = http.createServer(createLocalS3Listener({ rootDir, bucket: BUCKET }))
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  s3 = new S3Client({
+    region: 'us-east-1',
+    endpoint: url,
+    forcePathStyle: true,
+    credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+  })
+})
+
+afterAll(() => {
+  server.close()
+  s3.destroy()
+  fs.rmSync(rootDir, { recursive: true, force: true })
+})
+
+async function upload(key: string, body: string, contentType: string): Promise<Response> {
+  const command = new PutObjectCommand({ Bucket: BUCKET, Key: key, ContentType: contentType })
+  const uploadUrl = await getSignedUrl(s3, command, { expiresIn: 60 })
+  return fetch(uploadUrl, { method: 'PUT', headers: { 'Content-Type': contentType }, body })
+}
+
+describe('createLocalS3Listener', () => {
+  it('stores a presigned upload on disk and reports it on HeadObject', async () => {
+    const key = 'assets/user-a/asset-1/photo.png'
+    const put = await upload(key, 'png-bytes', 'image/png')
+    const head = await s3.send(new HeadObjectCommand({ Bucket: BUCKET, Key: key }))
+
+    expect(put.status).toBe(200)
+    expect(head).toMatchObject({ ContentLength: 9, ContentType: 'image/png' })
+    expect(fs.readFileSync(path.join(rootDir, key), 'utf8')).toBe('png-bytes')
+  })
+
+  it('returns the object for a presigned download with the requested Content-Disposition', async () => {
+    const key = 'assets/user-a/asset-1/download.png'
+    await upload(key, 'png-bytes', 'image/png')
+    const command = new GetObjectCommand({
+      Bucket: BUCKET,
+      Key: key,
+      ResponseContentDisposition: 'attachment; filename="photo.png"',
+    })
+    const downloadUrl = await getSignedUrl(s3, command, { expiresIn: 60 })
+    const response = await fetch(downloadUrl)
+
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe('png-bytes')
+    expect(response.headers.get('content-disposition')).toBe('attachment; filename="photo.png"')
+  })
+
+  it('denies keys outside assets/{entity_id}/', async () => {
+    const response = await fetch(`${url}/${BUCKET}/private/secret.txt`, { method: 'PUT', body: 'x' })
+
+    expect(response.status).toBe(403)
+  })
+
+  it('removes objects with DeleteObjects', async () => {
+    const key = 'assets/user-a/asset-1/deleted.png'
+    await upload(key, 'png-bytes', 'image/png')
+    const response = await s3.send(
+      new DeleteObjectsCommand({ Bucket: BUCKET, Delete: { Objects: [{ Key: key }], Quiet: true } })
+    )
+
+    expect(response.Errors ?? []).toEqual([])
+    await expect(s3.send(new HeadObjectCommand({ Bucket: BUCKET, Key: key }))).rejects.toMatchObject({
+      $metadata: { httpStatusCode: 404 },
+    })
+  })
+})
+
+describe('isPresignedUrlExpired', () => {
+  const query = new URLSearchParams({ 'X-Amz-Date': '20260101T000000Z', 'X-Amz-Expires': '60' })
+
+  it('compares X-Amz-Date + X-Amz-Expires with the current time', () => {
+    expect(isPresignedUrlExpired(query, new Date('2026-01-01T00:00:30Z'))).toBe(false)
+    expect(isPresignedUrlExpired(query, new Date('2026-01-01T00:02:00Z'))).toBe(true)
+  })
+
+  it('treats unsigned requests as current and malformed dates as expired', () => {
+    expect(isPresignedUrlExpired(new URLSearchParams())).toBe(false)
+    expect(isPresignedUrlExpired(new URLSearchParams({ 'X-Amz-Date': 'yesterday', 'X-Amz-Expires': '60' }))).toBe(true)
+  })
+})
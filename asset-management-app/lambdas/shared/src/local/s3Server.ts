@@ -0,0 +1,221 @@
+import fs from 'fs'
+import path from 'path'
+import { createHash } from 'crypto'
+import type { IncomingMessage, RequestListener, ServerResponse } from 'http'
+
+/**
+ * Filesystem-backed S3 stand-in for local development
+ *
+ * Serves the path-style requests utils/storage.ts makes (presigned PUT / GET, HeadObject,
+ * DeleteObjects) for one bucket. Objects are stored under `rootDir/<key>` with their content
+ * type and ETag in `rootDir/.metadata/<key>.json`.
+ * Only keys under assets/{entity_id}/ are accepted, like amplify/storage/resource.ts.
+ * Signatures are not checked, but presigned URLs are rejected once X-Amz-Expires has passed.
+ */
+
+export interface LocalS3Options {
+  // Directory holding the objects
+  rootDir: string
+  bucket: string
+}
+
+interface ObjectMetadata {
+  contentType: string
+  etag: string
+  size: number
+  lastModified: string
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, HEAD, DELETE, POST',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'ETag',
+}
+
+/**
+ * assets/{entity_id}/<name> with no empty, "." or ".." segments (see utils/uploadPolicy.ownerPrefix)
+ */
+function isAllowedKey(key: string): boolean {
+  const segments = key.split('/')
+  return (
+    segments.length >= 3 &&
+    segments[0] === 'assets' &&
+    segments.every((segment) => segment !== '' && segment !== '.' && segment !== '..')
+  )
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function sendXml(res: ServerResponse, statusCode: number, xml: string): void {
+  res.writeHead(statusCode, { ...CORS_HEADERS, 'Content-Type': 'application/xml' })
+  res.end(`<?xml version="1.0" encoding="UTF-8"?>\n${xml}`)
+}
+
+function sendError(res: ServerResponse, statusCode: number, code: string, message: string, method?: string): void {
+  if (method === 'HEAD') {
+    res.writeHead(statusCode, CORS_HEADERS)
+    res.end()
+    return
+  }
+  sendXml(res, statusCode, `<Error><Code>${code}</Code><Message>${escapeXml(message)}</Message></Error>`)
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Whether a presigned URL has expired (X-Amz-Date + X-Amz-Expires)
+ */
+export function isPresignedUrlExpired(query: URLSearchParams, now: Date = new Date()): boolean {
+  const signedAt = query.get('X-Amz-Date')
+  const expires = query.get('X-Amz-Expires')
+  if (!signedAt || !expires) {
+    return false
+  }
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(signedAt)
+  if (!match) {
+    return true
+  }
+  const [, year, month, day, hour, minute, second] = match
+  const signedAtMs = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+  return now.getTime() > signedAtMs + parseInt(expires) * 1000
+}
+
+/**
+ * Create the request listener for the S3 stand-in
+ */
+export function createLocalS3Listener(options: LocalS3Options): RequestListener {
+  const objectPath = (key: string) => path.join(options.rootDir, key)
+  const metadataPath = (key: string) => path.join(options.rootDir, '.metadata', `${key}.json`)
+
+  const readMetadata = (key: string): ObjectMetadata | null => {
+    try {
+      return JSON.parse(fs.readFileSync(metadataPath(key), 'utf8'))
+    } catch {
+      return null
+    }
+  }
+
+  const deleteObject = (key: string) => {
+    fs.rmSync(objectPath(key), { force: true })
+    fs.rmSync(metadataPath(key), { force: true })
+  }
+
+  return async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', 'http://localhost')
+      const method = req.method || 'GET'
+      const [bucket, ...keyParts] = url.pathname.slice(1).split('/')
+      const key = keyParts.map(decodeURIComponent).join('/')
+
+      if (method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS)
+        res.end()
+        return
+      }
+      if (bucket !== options.bucket) {
+        sendError(res, 404, 'NoSuchBucket', `Bucket ${bucket} does not exist`, method)
+        return
+      }
+      if (isPresignedUrlExpired(url.searchParams)) {
+        sendError(res, 403, 'AccessDenied', 'Request has expired', method)
+        return
+      }
+
+      // DeleteObjects: POST /{bucket}?delete
+      if (method === 'POST' && url.searchParams.has('delete') && key === '') {
+        const body = (await readBody(req)).toString('utf8')
+        const keys = [...body.matchAll(/<Key>([\s\S]*?)<\/Key>/g)].map((match) => unescapeXml(match[1]))
+        const errors = keys.filter((candidate) => !isAllowedKey(candidate))
+        keys.filter(isAllowedKey).forEach(deleteObject)
+        sendXml(
+          res,
+          200,
+          '<DeleteResult xmlns="http://s3.amazonaws.com/doc/2006-03-01/">' +
+            errors
+              .map(
+                (denied) =>
+                  `<Error><Key>${escapeXml(denied)}</Key><Code>AccessDenied</Code><Message>Access Denied</Message></Error>`
+              )
+              .join('') +
+            '</DeleteResult>'
+        )
+        return
+      }
+
+      if (!isAllowedKey(key)) {
+        sendError(res, 403, 'AccessDenied', 'Only keys under assets/{entity_id}/ are allowed', method)
+        return
+      }
+
+      switch (method) {
+        case 'PUT': {
+          const body = await readBody(req)
+          const metadata: ObjectMetadata = {
+            contentType: req.headers['content-type'] || 'application/octet-stream',
+            etag: `"${createHash('md5').update(body).digest('hex')}"`,
+            size: body.length,
+            lastModified: new Date().toUTCString(),
+          }
+          fs.mkdirSync(path.dirname(objectPath(key)), { recursive: true })
+          fs.mkdirSync(path.dirname(metadataPath(key)), { recursive: true })
+          fs.writeFileSync(objectPath(key), body)
+          fs.writeFileSync(metadataPath(key), JSON.stringify(metadata))
+          res.writeHead(200, { ...CORS_HEADERS, ETag: metadata.etag })
+          res.end()
+          return
+        }
+        case 'GET':
+        case 'HEAD': {
+          const metadata = readMetadata(key)
+          if (!metadata || !fs.existsSync(objectPath(key))) {
+            sendError(res, 404, 'NoSuchKey', 'The specified key does not exist.', method)
+            return
+          }
+          const disposition = url.searchParams.get('response-content-disposition')
+          res.writeHead(200, {
+            ...CORS_HEADERS,
+            'Content-Type': url.searchParams.get('response-content-type') || metadata.contentType,
+            'Content-Length': String(metadata.size),
+            ETag: metadata.etag,
+            'Last-Modified': metadata.lastModified,
+            ...(disposition && { 'Content-Disposition': disposition }),
+          })
+          if (method === 'HEAD') {
+            res.end()
+            return
+          }
+          fs.createReadStream(objectPath(key)).pipe(res)
+          return
+        }
+        case 'DELETE': {
+          deleteObject(key)
+          res.writeHead(204, CORS_HEADERS)
+          res.end()
+          return
+        }
+        default:
+          sendError(res, 405, 'MethodNotAllowed', `${method} is not supported`, method)
+      }
+    } catch (error) {
+      sendError(res, 500, 'InternalError', error instanceof Error ? error.message : 'Unknown error', req.method)
+    }
+  }
+}
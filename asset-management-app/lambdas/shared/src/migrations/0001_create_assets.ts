@@ -0,0 +1,26 @@
+import type { Migration } from './migrator'
+
+/**
+ * Create the Assets table
+ * Matches the table previously created by sequelize.sync() from defineAssetModel
+ */
+export const migration: Migration = {
+  name: '0001_create_assets',
+  up: [
+    `CREATE TABLE IF NOT EXISTS \`Assets\` (
+  \`id\` CHAR(36) BINARY NOT NULL COMMENT 'Unique identifier for the asset',
+  \`ownerId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the asset owner',
+  \`name\` VARCHAR(255) NOT NULL COMMENT 'Name of the asset',
+  \`description\` TEXT NULL COMMENT 'Detailed description of the asset',
+  \`category\` VARCHAR(100) NOT NULL COMMENT 'Category of the asset',
+  \`imageKey\` VARCHAR(500) NULL COMMENT 'S3 object key for the asset image',
+  \`createdAt\` DATETIME NOT NULL,
+  \`updatedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`),
+  INDEX \`idx_ownerId\` (\`ownerId\`),
+  INDEX \`idx_category\` (\`category\`),
+  INDEX \`idx_createdAt\` (\`createdAt\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Stores metadata for user-uploaded assets'`,
+  ],
+  down: ['DROP TABLE IF EXISTS `Assets`'],
+}
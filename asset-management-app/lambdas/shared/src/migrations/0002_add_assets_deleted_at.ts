@@ -0,0 +1,16 @@
+import type { Migration } from './migrator'
+
+/**
+ * Add soft-delete support to Assets (paranoid model)
+ */
+export const migration: Migration = {
+  name: '0002_add_assets_deleted_at',
+  up: [
+    'ALTER TABLE `Assets` ADD COLUMN `deletedAt` DATETIME NULL AFTER `updatedAt`',
+    'CREATE INDEX `idx_deletedAt` ON `Assets` (`deletedAt`)',
+  ],
+  down: [
+    'DROP INDEX `idx_deletedAt` ON `Assets`',
+    'ALTER TABLE `Assets` DROP COLUMN `deletedAt`',
+  ],
+}
@@ -0,0 +1,21 @@
+import type { Migration } from './migrator'
+
+/**
+ * Composite indexes for listAssets keyset pagination
+ * Each covers WHERE ownerId = ? ORDER BY <field>, id for one sort field
+ */
+export const migration: Migration = {
+  name: '0003_add_assets_sort_indexes',
+  up: [
+    'CREATE INDEX `idx_owner_createdAt` ON `Assets` (`ownerId`, `createdAt`, `id`)',
+    'CREATE INDEX `idx_owner_updatedAt` ON `Assets` (`ownerId`, `updatedAt`, `id`)',
+    'CREATE INDEX `idx_owner_name` ON `Assets` (`ownerId`, `name`, `id`)',
+    'CREATE INDEX `idx_owner_category` ON `Assets` (`ownerId`, `category`, `id`)',
+  ],
+  down: [
+    'DROP INDEX `idx_owner_category` ON `Assets`',
+    'DROP INDEX `idx_owner_name` ON `Assets`',
+    'DROP INDEX `idx_owner_updatedAt` ON `Assets`',
+    'DROP INDEX `idx_owner_createdAt` ON `Assets`',
+  ],
+}
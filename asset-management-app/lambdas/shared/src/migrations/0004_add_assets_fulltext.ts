@@ -0,0 +1,11 @@
+import type { Migration } from './migrator'
+
+/**
+ * Full-text index for listAssets search (?q=)
+ * Queried with MATCH(name, description) AGAINST (... IN BOOLEAN MODE)
+ */
+export const migration: Migration = {
+  name: '0004_add_assets_fulltext',
+  up: ['CREATE FULLTEXT INDEX `ft_name_description` ON `Assets` (`name`, `description`)'],
+  down: ['DROP INDEX `ft_name_description` ON `Assets`'],
+}
@@ -0,0 +1,28 @@
+import type { Migration } from './migrator'
+
+/**
+ * Create the AssetFiles table (multiple files per asset)
+ * Rows are removed with their asset when it is purged from the trash.
+ * imageKey values set before this migration have no file row.
+ */
+export const migration: Migration = {
+  name: '0005_create_asset_files',
+  up: [
+    `CREATE TABLE \`AssetFiles\` (
+  \`id\` CHAR(36) BINARY NOT NULL COMMENT 'Unique identifier for the file',
+  \`assetId\` CHAR(36) BINARY NOT NULL COMMENT 'Asset the file belongs to',
+  \`key\` VARCHAR(500) NOT NULL COMMENT 'S3 object key',
+  \`mimeType\` VARCHAR(255) NOT NULL COMMENT 'Content type of the stored object',
+  \`size\` BIGINT NOT NULL COMMENT 'Object size in bytes',
+  \`checksum\` VARCHAR(64) NULL COMMENT 'SHA-256 of the content (hex), as supplied by the uploader',
+  \`role\` VARCHAR(20) NOT NULL DEFAULT 'attachment' COMMENT 'primary, thumbnail or attachment',
+  \`createdAt\` DATETIME NOT NULL,
+  \`updatedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE INDEX \`uniq_assetFiles_key\` (\`key\`),
+  INDEX \`idx_assetFiles_asset_role\` (\`assetId\`, \`role\`),
+  CONSTRAINT \`fk_assetFiles_asset\` FOREIGN KEY (\`assetId\`) REFERENCES \`Assets\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Files stored in S3 for an asset'`,
+  ],
+  down: ['DROP TABLE IF EXISTS `AssetFiles`'],
+}
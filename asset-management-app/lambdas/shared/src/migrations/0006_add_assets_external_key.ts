@@ -0,0 +1,18 @@
+import type { Migration } from './migrator'
+
+/**
+ * Client-supplied external key, unique per owner
+ * POST /assets/import upserts on (ownerId, externalKey); assets without one are never matched.
+ * Trashed assets keep their key until they are purged.
+ */
+export const migration: Migration = {
+  name: '0006_add_assets_external_key',
+  up: [
+    "ALTER TABLE `Assets` ADD COLUMN `externalKey` VARCHAR(255) NULL COMMENT 'Client-supplied key used by imports' AFTER `ownerId`",
+    'CREATE UNIQUE INDEX `uniq_owner_externalKey` ON `Assets` (`ownerId`, `externalKey`)',
+  ],
+  down: [
+    'DROP INDEX `uniq_owner_externalKey` ON `Assets`',
+    'ALTER TABLE `Assets` DROP COLUMN `externalKey`',
+  ],
+}
@@ -0,0 +1,13 @@
+import type { Migration } from './migrator'
+
+/**
+ * Row version for optimistic concurrency control
+ * Incremented by Sequelize on every update (model option `version: true`) and exposed as the ETag
+ */
+export const migration: Migration = {
+  name: '0007_add_assets_version',
+  up: [
+    "ALTER TABLE `Assets` ADD COLUMN `version` INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Incremented on every update' AFTER `deletedAt`",
+  ],
+  down: ['ALTER TABLE `Assets` DROP COLUMN `version`'],
+}
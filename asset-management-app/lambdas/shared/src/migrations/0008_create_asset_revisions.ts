@@ -0,0 +1,27 @@
+import type { Migration } from './migrator'
+
+/**
+ * Create the AssetRevisions table (change history per asset)
+ * Rows are written in the same transaction as the asset change and never updated.
+ * They are removed with their asset when it is purged from the trash.
+ */
+export const migration: Migration = {
+  name: '0008_create_asset_revisions',
+  up: [
+    `CREATE TABLE \`AssetRevisions\` (
+  \`id\` CHAR(36) BINARY NOT NULL COMMENT 'Unique identifier for the revision',
+  \`assetId\` CHAR(36) BINARY NOT NULL COMMENT 'Asset the revision belongs to',
+  \`revision\` INT UNSIGNED NOT NULL COMMENT 'Revision number, starting at 1 per asset',
+  \`action\` VARCHAR(20) NOT NULL COMMENT 'created, updated, deleted, restored or reverted',
+  \`actorId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the caller that made the change',
+  \`changes\` JSON NOT NULL COMMENT 'Changed fields: [{ field, from, to }]',
+  \`snapshot\` JSON NOT NULL COMMENT 'Recorded asset fields after the change',
+  \`revertedTo\` INT UNSIGNED NULL COMMENT 'Revision whose values were restored (reverted only)',
+  \`createdAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE INDEX \`uniq_assetRevisions_asset_revision\` (\`assetId\`, \`revision\`),
+  CONSTRAINT \`fk_assetRevisions_asset\` FOREIGN KEY (\`assetId\`) REFERENCES \`Assets\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Field-level change history of assets'`,
+  ],
+  down: ['DROP TABLE IF EXISTS `AssetRevisions`'],
+}
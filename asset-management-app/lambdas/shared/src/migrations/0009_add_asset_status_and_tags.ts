@@ -0,0 +1,43 @@
+import type { Migration } from './migrator'
+
+/**
+ * Asset status columns and relational tags
+ * Replaces the AssetStatus / AssetTag models in Amplify Data (DynamoDB), which could not be
+ * filtered together with assets and were left behind when an asset was deleted.
+ * scripts/copyAppSyncTags.ts copies the existing records.
+ */
+export const migration: Migration = {
+  name: '0009_add_asset_status_and_tags',
+  up: [
+    "ALTER TABLE `Assets` ADD COLUMN `status` VARCHAR(20) NOT NULL DEFAULT 'active' COMMENT 'active, archived or maintenance' AFTER `imageKey`",
+    "ALTER TABLE `Assets` ADD COLUMN `statusNote` VARCHAR(500) NULL COMMENT 'Reason for the current status' AFTER `status`",
+    'CREATE INDEX `idx_owner_status` ON `Assets` (`ownerId`, `status`)',
+    `CREATE TABLE \`Tags\` (
+  \`id\` CHAR(36) BINARY NOT NULL COMMENT 'Unique identifier for the tag',
+  \`ownerId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the tag owner',
+  \`name\` VARCHAR(50) NOT NULL COMMENT 'Tag name, e.g. env',
+  \`value\` VARCHAR(100) NOT NULL DEFAULT '' COMMENT 'Tag value, e.g. prod; empty for tags without one',
+  \`createdAt\` DATETIME NOT NULL,
+  \`updatedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE INDEX \`uniq_tags_owner_name_value\` (\`ownerId\`, \`name\`, \`value\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Tags defined by each owner'`,
+    `CREATE TABLE \`AssetTags\` (
+  \`assetId\` CHAR(36) BINARY NOT NULL COMMENT 'Tagged asset',
+  \`tagId\` CHAR(36) BINARY NOT NULL COMMENT 'Tag applied to the asset',
+  \`createdBy\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the caller that added the tag',
+  \`createdAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`assetId\`, \`tagId\`),
+  INDEX \`idx_assetTags_tag\` (\`tagId\`, \`assetId\`),
+  CONSTRAINT \`fk_assetTags_asset\` FOREIGN KEY (\`assetId\`) REFERENCES \`Assets\` (\`id\`) ON DELETE CASCADE,
+  CONSTRAINT \`fk_assetTags_tag\` FOREIGN KEY (\`tagId\`) REFERENCES \`Tags\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Tags applied to assets'`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS `AssetTags`',
+    'DROP TABLE IF EXISTS `Tags`',
+    'DROP INDEX `idx_owner_status` ON `Assets`',
+    'ALTER TABLE `Assets` DROP COLUMN `statusNote`',
+    'ALTER TABLE `Assets` DROP COLUMN `status`',
+  ],
+}
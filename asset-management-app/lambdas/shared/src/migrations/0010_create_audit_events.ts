@@ -0,0 +1,30 @@
+import type { Migration } from './migrator'
+
+/**
+ * Create the AuditEvents table (append-only audit trail written by the API)
+ * Replaces the ActivityLog model in Amplify Data, which any signed-in user could write.
+ * There is no foreign key to Assets: events are kept after an asset is purged.
+ */
+export const migration: Migration = {
+  name: '0010_create_audit_events',
+  up: [
+    `CREATE TABLE \`AuditEvents\` (
+  \`id\` CHAR(36) BINARY NOT NULL COMMENT 'Unique identifier for the event',
+  \`assetId\` CHAR(36) BINARY NOT NULL COMMENT 'Asset the action was performed on',
+  \`ownerId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the asset owner',
+  \`actorId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the caller, or system:<job>',
+  \`action\` VARCHAR(20) NOT NULL COMMENT 'created, viewed, updated, deleted, restored, reverted or purged',
+  \`beforeHash\` CHAR(64) NULL COMMENT 'SHA-256 of the asset snapshot before the action',
+  \`afterHash\` CHAR(64) NULL COMMENT 'SHA-256 of the asset snapshot after the action',
+  \`sourceIp\` VARCHAR(45) NULL COMMENT 'Caller IP address from API Gateway',
+  \`userAgent\` VARCHAR(500) NULL COMMENT 'Caller User-Agent (truncated)',
+  \`requestId\` VARCHAR(128) NULL COMMENT 'Correlation ID of the request',
+  \`createdAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`),
+  INDEX \`idx_auditEvents_createdAt\` (\`createdAt\`),
+  INDEX \`idx_auditEvents_actor_createdAt\` (\`actorId\`, \`createdAt\`),
+  INDEX \`idx_auditEvents_asset_createdAt\` (\`assetId\`, \`createdAt\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Append-only audit trail of asset actions'`,
+  ],
+  down: ['DROP TABLE IF EXISTS `AuditEvents`'],
+}
@@ -0,0 +1,29 @@
+import type { Migration } from './migrator'
+
+/**
+ * Per-owner rate limits and quotas
+ * OwnerLimits holds the overrides set through PUT /admin/limits/{ownerId}; RateLimitWindows counts
+ * each owner's requests per fixed window (see utils/quotas.ts).
+ */
+export const migration: Migration = {
+  name: '0011_create_owner_limits',
+  up: [
+    `CREATE TABLE \`OwnerLimits\` (
+  \`ownerId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID the limits apply to',
+  \`requestsPerMinute\` INT UNSIGNED NULL COMMENT 'API requests per minute; NULL uses RATE_LIMIT_REQUESTS_PER_MINUTE',
+  \`maxAssets\` INT UNSIGNED NULL COMMENT 'Assets outside the trash; NULL uses QUOTA_MAX_ASSETS',
+  \`maxBytesPerCategory\` JSON NULL COMMENT 'Total file bytes per asset category; missing ones use QUOTA_MAX_BYTES_PER_CATEGORY',
+  \`updatedBy\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the administrator who last changed the limits',
+  \`createdAt\` DATETIME NOT NULL,
+  \`updatedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`ownerId\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Per-owner overrides of the default rate limit and quotas'`,
+    `CREATE TABLE \`RateLimitWindows\` (
+  \`ownerId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the caller',
+  \`windowStart\` DATETIME NOT NULL COMMENT 'Start of the one-minute window',
+  \`requestCount\` INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Requests received in the window, including rejected ones',
+  PRIMARY KEY (\`ownerId\`, \`windowStart\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Request counts per owner and rate-limit window'`,
+  ],
+  down: ['DROP TABLE IF EXISTS `RateLimitWindows`', 'DROP TABLE IF EXISTS `OwnerLimits`'],
+}
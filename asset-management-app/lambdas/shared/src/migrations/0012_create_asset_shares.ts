@@ -0,0 +1,26 @@
+import type { Migration } from './migrator'
+
+/**
+ * Create the AssetShares table (viewer / editor access for other users and groups)
+ * Rows are removed with their asset when it is purged from the trash.
+ */
+export const migration: Migration = {
+  name: '0012_create_asset_shares',
+  up: [
+    `CREATE TABLE \`AssetShares\` (
+  \`id\` CHAR(36) BINARY NOT NULL COMMENT 'Unique identifier for the share',
+  \`assetId\` CHAR(36) BINARY NOT NULL COMMENT 'Shared asset',
+  \`granteeType\` VARCHAR(10) NOT NULL COMMENT 'user or group',
+  \`granteeId\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID or group name',
+  \`role\` VARCHAR(10) NOT NULL COMMENT 'viewer or editor',
+  \`createdBy\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the owner who shared the asset',
+  \`createdAt\` DATETIME NOT NULL,
+  \`updatedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE INDEX \`uniq_assetShares_asset_grantee\` (\`assetId\`, \`granteeType\`, \`granteeId\`),
+  INDEX \`idx_assetShares_grantee\` (\`granteeType\`, \`granteeId\`),
+  CONSTRAINT \`fk_assetShares_asset\` FOREIGN KEY (\`assetId\`) REFERENCES \`Assets\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Access to an asset granted to other users or groups'`,
+  ],
+  down: ['DROP TABLE IF EXISTS `AssetShares`'],
+}
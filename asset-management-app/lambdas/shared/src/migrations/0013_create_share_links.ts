@@ -0,0 +1,31 @@
+import type { Migration } from './migrator'
+
+/**
+ * Create the ShareLinks table (public links to an asset, see utils/shareLinks.ts)
+ * Rows are removed with their asset when it is purged from the trash.
+ */
+export const migration: Migration = {
+  name: '0013_create_share_links',
+  up: [
+    `CREATE TABLE \`ShareLinks\` (
+  \`id\` CHAR(36) BINARY NOT NULL COMMENT 'Unique identifier for the link',
+  \`assetId\` CHAR(36) BINARY NOT NULL COMMENT 'Shared asset',
+  \`tokenHash\` CHAR(64) NOT NULL COMMENT 'SHA-256 of the link token (hex)',
+  \`passwordHash\` VARCHAR(255) NULL COMMENT 'scrypt hash of the optional password',
+  \`expiresAt\` DATETIME NOT NULL COMMENT 'The link cannot be opened after this time',
+  \`maxDownloads\` INTEGER UNSIGNED NULL COMMENT 'Download limit; NULL for none',
+  \`downloadCount\` INTEGER UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Download URLs issued through the link',
+  \`accessCount\` INTEGER UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Successful opens of the link',
+  \`lastAccessedAt\` DATETIME NULL,
+  \`revokedAt\` DATETIME NULL,
+  \`createdBy\` VARCHAR(255) NOT NULL COMMENT 'Cognito user ID of the owner who created the link',
+  \`createdAt\` DATETIME NOT NULL,
+  \`updatedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`),
+  UNIQUE INDEX \`uniq_shareLinks_tokenHash\` (\`tokenHash\`),
+  INDEX \`idx_shareLinks_assetId\` (\`assetId\`),
+  CONSTRAINT \`fk_shareLinks_asset\` FOREIGN KEY (\`assetId\`) REFERENCES \`Assets\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COMMENT='Public links to an asset for people without an account'`,
+  ],
+  down: ['DROP TABLE IF EXISTS `ShareLinks`'],
+}
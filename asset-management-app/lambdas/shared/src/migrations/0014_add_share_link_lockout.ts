@@ -0,0 +1,18 @@
+import type { Migration } from './migrator'
+
+/**
+ * Lock out password guessing on share links
+ * Incorrect passwords are counted per link; after SHARE_LINK_MAX_PASSWORD_ATTEMPTS the link refuses
+ * passwords until lockedUntil (see utils/shareLinks.ts).
+ */
+export const migration: Migration = {
+  name: '0014_add_share_link_lockout',
+  up: [
+    "ALTER TABLE `ShareLinks` ADD COLUMN `failedPasswordAttempts` INT UNSIGNED NOT NULL DEFAULT 0 COMMENT 'Incorrect passwords since the last successful open or lockout' AFTER `accessCount`",
+    "ALTER TABLE `ShareLinks` ADD COLUMN `lockedUntil` DATETIME NULL COMMENT 'Passwords are refused until this time' AFTER `failedPasswordAttempts`",
+  ],
+  down: [
+    'ALTER TABLE `ShareLinks` DROP COLUMN `lockedUntil`',
+    'ALTER TABLE `ShareLinks` DROP COLUMN `failedPasswordAttempts`',
+  ],
+}
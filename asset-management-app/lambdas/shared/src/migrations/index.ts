@@ -0,0 +1,36 @@
+import { migration as m0001 } from './0001_create_assets'
+import { migration as m0002 } from './0002_add_assets_deleted_at'
+import { migration as m0003 } from './0003_add_assets_sort_indexes'
+import { migration as m0004 } from './0004_add_assets_fulltext'
+import { migration as m0005 } from './0005_create_asset_files'
+import { migration as m0006 } from './0006_add_assets_external_key'
+import { migration as m0007 } from './0007_add_assets_version'
+import { migration as m0008 } from './0008_create_asset_revisions'
+import { migration as m0009 } from './0009_add_asset_status_and_tags'
+import { migration as m0010 } from './0010_create_audit_events'
+import { migration as m0011 } from './0011_create_owner_limits'
+import { migration as m0012 } from './0012_create_asset_shares'
+import { migration as m0013 } from './0013_create_share_links'
+import { migration as m0014 } from './0014_add_share_link_lockout'
+import type { Migration } from './migrator'
+
+/**
+ * All migrations, in the order they are applied
+ * Append new migrations here; never edit or reorder one that has been applied.
+ */
+export const migrations: Migration[] = [
+  m0001,
+  m0002,
+  m0003,
+  m0004,
+  m0005,
+  m0006,
+  m0007,
+  m0008,
+  m0009,
+  m0010,
+  m0011,
+  m0012,
+  m0013,
+  m0014,
+]
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import type { Sequelize } from 'sequelize'
+import { migrations } from './index'
+import { createMigrator, checksum, MigrationLockError } from './migrator'
+
+/**
+ * Fake connection that understands the migrator's bookkeeping queries
+ * Migration SQL is recorded instead of executed, so these tests run without MySQL
+ */
+function createFakeSequelize() {
+  const tables = new Set<string>()
+  const history: { name: string; checksum: string; executedAt: Date }[] = []
+  let lock: { lockedBy: string; lockedAt: Date } | null = null
+  const executed: string[] = []
+
+  const query = async (sql: string, options: any = {}) => {
+    const params: any[] = options.replacements || []
+
+    if (sql.startsWith('SHOW TABLES LIKE')) {
+      return tables.has(params[0]) ? [{ table: params[0] }] : []
+    }
+    if (sql.startsWith('CREATE TABLE IF NOT EXISTS `SchemaMigration')) {
+      tables.add(sql.match(/`(\w+)`/)![1])
+      return [[], 0]
+    }
+    if (sql.startsWith('SELECT name, checksum, executedAt')) {
+      return [...history]
+    }
+    if (sql.startsWith('INSERT INTO `SchemaMigrationLock`')) {
+      if (lock) {
+        const error = new Error('Duplicate entry')
+        error.name = 'SequelizeUniqueConstraintError'
+        throw error
+      }
+      lock = { lockedBy: params[0], lockedAt: new Date() }
+      return [[], 1]
+    }
+    if (sql.startsWith('SELECT lockedBy, lockedAt')) {
+      return lock ? [lock] : []
+    }
+    if (sql.startsWith('DELETE FROM `SchemaMigrationLock`')) {
+      if (!params.length || lock?.lockedBy === params[0]) {
+        lock = null
+      }
+      return [[], 0]
+    }
+    if (sql.startsWith('INSERT INTO `SchemaMigrations`')) {
+      history.push({ name: params[0], checksum: params[1], executedAt: new Date() })
+      return [[], 1]
+    }
+    if (sql.startsWith('DELETE FROM `SchemaMigrations`')) {
+      history.splice(history.findIndex((row) => row.name === params[0]), 1)
+      return [[], 1]
+    }
+
+    executed.push(sql)
+    return [[], 0]
+  }
+
+  return {
+    sequelize: { query } as unknown as Sequelize,
+    history,
+    executed,
+    setLock: (lockedBy: string) => {
+      lock = { lockedBy, lockedAt: new Date() }
+    },
+  }
+}
+
+const silent = () => {}
+
+describe('createMigrator', () => {
+  it('returns the pending SQL on a dry run without executing or recording it', async () => {
+    const fake = createFakeSequelize()
+    const lines: string[] = []
+    const result = await createMigrator(fake.sequelize, migrations).up({
+      dryRun: true,
+      log: (line) => lines.push(line),
+    })
+
+    expect(result.migrations).toHaveLength(migrations.length)
+    expect(fake.executed).toEqual([])
+    expect(fake.history).toEqual([])
+    expect(lines.some((line) => line.startsWith('CREATE TABLE IF NOT EXISTS `Assets`'))).toBe(true)
+  })
+
+  it('applies every migration in order and records its checksum', async () => {
+    const fake = createFakeSequelize()
+    const migrator = createMigrator(fake.sequelize, migrations)
+    await migrator.up({ log: silent })
+
+    expect(fake.history.map((row) => row.name)).toEqual(migrations.map((m) => m.name))
+    expect(fake.history.map((row) => row.checksum)).toEqual(migrations.map(checksum))
+    expect((await migrator.status()).every((s) => s.state === 'applied')).toBe(true)
+  })
+
+  it('does nothing when every migration is applied', async () => {
+    const migrator = createMigrator(createFakeSequelize().sequelize, migrations)
+    await migrator.up({ log: silent })
+
+    expect((await migrator.up({ log: silent })).migrations).toEqual([])
+  })
+
+  it('reverts the most recent migration on down', async () => {
+    const fake = createFakeSequelize()
+    const migrator = createMigrator(fake.sequelize, migrations)
+    await migrator.up({ log: silent })
+    const reverted = await migrator.down({ log: silent })
+
+    expect(reverted.migrations[0].name).toBe(migrations[migrations.length - 1].name)
+    expect(fake.history).toHaveLength(migrations.length - 1)
+  })
+
+  it('rejects a migration edited after it was applied', async () => {
+    const fake = createFakeSequelize()
+    await createMigrator(fake.sequelize, migrations).up({ log: silent })
+    const edited = migrations.map((m, i) => (i === 0 ? { ...m, up: [...m.up, 'SELECT 1'] } : m))
+
+    await expect(createMigrator(fake.sequelize, edited).up({ log: silent })).rejects.toThrow(/checksum mismatch/)
+  })
+
+  it('blocks a concurrent run until the stale lock is released', async () => {
+    const fake = createFakeSequelize()
+    const migrator = createMigrator(fake.sequelize, migrations)
+    await migrator.up({ to: migrations[0].name, log: silent })
+    fake.setLock('other-host:123')
+
+    await expect(migrator.up({ log: silent })).rejects.toBeInstanceOf(MigrationLockError)
+    expect(fake.history).toHaveLength(1)
+
+    await migrator.unlock()
+    await migrator.up({ log: silent })
+    expect(fake.history).toHaveLength(migrations.length)
+  })
+
+  it('records migrations as applied on baseline without executing them', async () => {
+    const fake = createFakeSequelize()
+    await createMigrator(fake.sequelize, migrations).baseline({ to: migrations[0].name, log: silent })
+
+    expect(fake.history).toHaveLength(1)
+    expect(fake.executed).toEqual([])
+  })
+})
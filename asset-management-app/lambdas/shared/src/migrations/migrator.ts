@@ -0,0 +1,395 @@
+import { createHash } from 'crypto'
+import { hostname } from 'os'
+import { QueryTypes, Sequelize } from 'sequelize'
+
+/**
+ * Versioned schema migrations
+ *
+ * Migrations are plain SQL so a dry run can print exactly what will be executed and
+ * the checksum of an applied migration can be verified on every run.
+ * Applied migrations are recorded in the SchemaMigrations history table; a single-row
+ * SchemaMigrationLock table prevents concurrent runs (CLI and syncSchema Lambda).
+ *
+ * Note: MySQL DDL statements commit implicitly, so a failing multi-statement migration
+ * is not rolled back. Keep one logical change per migration.
+ */
+
+const HISTORY_TABLE = 'SchemaMigrations'
+const LOCK_TABLE = 'SchemaMigrationLock'
+
+/**
+ * Migration definition
+ * `name` must start with a zero-padded sequence number (e.g. 0003_add_tags)
+ */
+export interface Migration {
+  name: string
+  up: string[]
+  down: string[]
+}
+
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing'
+
+export interface MigrationStatus {
+  name: string
+  state: MigrationState
+  checksum: string | null
+  executedAt: Date | null
+}
+
+export interface MigrationRun {
+  name: string
+  sql: string[]
+}
+
+export interface MigrationResult {
+  direction: 'up' | 'down' | 'baseline'
+  dryRun: boolean
+  migrations: MigrationRun[]
+}
+
+export interface MigrateOptions {
+  // Print the SQL instead of executing it
+  dryRun?: boolean
+  // Up / baseline: stop after this migration. Down: number of migrations to roll back (default 1)
+  to?: string
+  steps?: number
+  log?: (message: string) => void
+}
+
+interface HistoryRow {
+  name: string
+  checksum: string
+  executedAt: Date
+}
+
+/**
+ * Migration lock error
+ * Thrown when another run holds the migration lock
+ */
+export class MigrationLockError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationLockError'
+  }
+}
+
+/**
+ * Checksum of a migration's up statements
+ */
+export function checksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up.join(';\n')).digest('hex')
+}
+
+/**
+ * Validate migration names are unique and in ascending order
+ */
+function validateMigrations(migrations: Migration[]): void {
+  for (let i = 0; i < migrations.length; i++) {
+    const { name } = migrations[i]
+    if (!/^\d{4}_[a-z0-9_]+$/.test(name)) {
+      throw new Error(`Invalid migration name: ${name}`)
+    }
+    if (i > 0 && migrations[i - 1].name >= name) {
+      throw new Error(`Migrations out of order: ${migrations[i - 1].name} before ${name}`)
+    }
+  }
+}
+
+/**
+ * Create a migrator for the given connection and ordered migration list
+ */
+export function createMigrator(sequelize: Sequelize, migrations: Migration[]) {
+  validateMigrations(migrations)
+
+  const lockOwner = `${hostname()}:${process.pid}`
+
+  async function tableExists(table: string): Promise<boolean> {
+    const rows = await sequelize.query('SHOW TABLES LIKE ?', {
+      replacements: [table],
+      type: QueryTypes.SELECT,
+    })
+    return rows.length > 0
+  }
+
+  async function ensureTables(): Promise<void> {
+    await sequelize.query(
+      `CREATE TABLE IF NOT EXISTS \`${HISTORY_TABLE}\` (
+  \`name\` VARCHAR(255) NOT NULL,
+  \`checksum\` CHAR(64) NOT NULL,
+  \`executedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`name\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`
+    )
+    await sequelize.query(
+      `CREATE TABLE IF NOT EXISTS \`${LOCK_TABLE}\` (
+  \`id\` TINYINT NOT NULL,
+  \`lockedBy\` VARCHAR(255) NOT NULL,
+  \`lockedAt\` DATETIME NOT NULL,
+  PRIMARY KEY (\`id\`)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`
+    )
+  }
+
+  async function readHistory(): Promise<HistoryRow[]> {
+    if (!(await tableExists(HISTORY_TABLE))) {
+      return []
+    }
+    return sequelize.query<HistoryRow>(
+      `SELECT name, checksum, executedAt FROM \`${HISTORY_TABLE}\` ORDER BY name ASC`,
+      { type: QueryTypes.SELECT }
+    )
+  }
+
+  async function acquireLock(): Promise<void> {
+    try {
+      await sequelize.query(
+        `INSERT INTO \`${LOCK_TABLE}\` (id, lockedBy, lockedAt) VALUES (1, ?, NOW())`,
+        { replacements: [lockOwner] }
+      )
+    } catch (error) {
+      if (error instanceof Error && error.name === 'SequelizeUniqueConstraintError') {
+        const [holder] = await sequelize.query<{ lockedBy: string; lockedAt: Date }>(
+          `SELECT lockedBy, lockedAt FROM \`${LOCK_TABLE}\` WHERE id = 1`,
+          { type: QueryTypes.SELECT }
+        )
+        throw new MigrationLockError(
+          `Migrations are locked by ${holder?.lockedBy ?? 'unknown'} since ${holder?.lockedAt ?? 'unknown'}. ` +
+            'If that run is no longer active, release the lock with the unlock command.'
+        )
+      }
+      throw error
+    }
+  }
+
+  async function releaseLock(): Promise<void> {
+    await sequelize.query(`DELETE FROM \`${LOCK_TABLE}\` WHERE id = 1 AND lockedBy = ?`, {
+      replacements: [lockOwner],
+    })
+  }
+
+  async function withLock<T>(fn: () => Promise<T>): Promise<T> {
+    await ensureTables()
+    await acquireLock()
+    try {
+      return await fn()
+    } finally {
+      await releaseLock()
+    }
+  }
+
+  /**
+   * Compare the migration list with the history table
+   */
+  async function status(): Promise<MigrationStatus[]> {
+    const history = await readHistory()
+    const applied = new Map(history.map((row) => [row.name, row]))
+
+    const result: MigrationStatus[] = migrations.map((migration) => {
+      const row = applied.get(migration.name)
+      if (!row) {
+        return { name: migration.name, state: 'pending', checksum: null, executedAt: null }
+      }
+      return {
+        name: migration.name,
+        state: row.checksum === checksum(migration) ? 'applied' : 'changed',
+        checksum: row.checksum,
+        executedAt: row.executedAt,
+      }
+    })
+
+    // Applied migrations that no longer exist in code
+    const known = new Set(migrations.map((migration) => migration.name))
+    for (const row of history) {
+      if (!known.has(row.name)) {
+        result.push({ name: row.name, state: 'missing', checksum: row.checksum, executedAt: row.executedAt })
+      }
+    }
+
+    return result.sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Refuse to run when an applied migration was edited or removed
+   */
+  function assertConsistent(statuses: MigrationStatus[]): void {
+    const changed = statuses.filter((s) => s.state === 'changed').map((s) => s.name)
+    if (changed.length > 0) {
+      throw new Error(`Applied migrations have been modified (checksum mismatch): ${changed.join(', ')}`)
+    }
+    const missing = statuses.filter((s) => s.state === 'missing').map((s) => s.name)
+    if (missing.length > 0) {
+      throw new Error(`Applied migrations are missing from the migration list: ${missing.join(', ')}`)
+    }
+  }
+
+  /**
+   * Select pending migrations up to and including `to`
+   */
+  function selectPending(statuses: MigrationStatus[], to?: string): Migration[] {
+    if (to && !migrations.some((migration) => migration.name === to)) {
+      throw new Error(`Unknown migration: ${to}`)
+    }
+
+    const pendingNames = new Set(statuses.filter((s) => s.state === 'pending').map((s) => s.name))
+    const selected: Migration[] = []
+    for (const migration of migrations) {
+      if (pendingNames.has(migration.name)) {
+        selected.push(migration)
+      }
+      if (migration.name === to) {
+        break
+      }
+    }
+    return selected
+  }
+
+  /**
+   * Apply pending migrations
+   */
+  async function up(options: MigrateOptions = {}): Promise<MigrationResult> {
+    const log = options.log ?? console.log
+
+    if (options.dryRun) {
+      const statuses = await status()
+      assertConsistent(statuses)
+      const pending = selectPending(statuses, options.to)
+      pending.forEach((migration) => printSql(log, 'up', migration.name, migration.up))
+      return {
+        direction: 'up',
+        dryRun: true,
+        migrations: pending.map((m) => ({ name: m.name, sql: m.up })),
+      }
+    }
+
+    return withLock(async () => {
+      const statuses = await status()
+      assertConsistent(statuses)
+      const pending = selectPending(statuses, options.to)
+
+      for (const migration of pending) {
+        log(`Applying ${migration.name}...`)
+        for (const sql of migration.up) {
+          await sequelize.query(sql)
+        }
+        await sequelize.query(
+          `INSERT INTO \`${HISTORY_TABLE}\` (name, checksum, executedAt) VALUES (?, ?, NOW())`,
+          { replacements: [migration.name, checksum(migration)] }
+        )
+        log(`Applied ${migration.name}`)
+      }
+
+      return {
+        direction: 'up',
+        dryRun: false,
+        migrations: pending.map((m) => ({ name: m.name, sql: m.up })),
+      }
+    })
+  }
+
+  /**
+   * Roll back the most recently applied migrations (default: 1)
+   */
+  async function down(options: MigrateOptions = {}): Promise<MigrationResult> {
+    const log = options.log ?? console.log
+    const steps = options.steps ?? 1
+
+    const selectApplied = (statuses: MigrationStatus[]): Migration[] => {
+      assertConsistent(statuses)
+      const appliedNames = statuses.filter((s) => s.state === 'applied').map((s) => s.name)
+      return appliedNames
+        .slice(-steps)
+        .reverse()
+        .map((name) => migrations.find((migration) => migration.name === name) as Migration)
+    }
+
+    if (options.dryRun) {
+      const selected = selectApplied(await status())
+      selected.forEach((migration) => printSql(log, 'down', migration.name, migration.down))
+      return {
+        direction: 'down',
+        dryRun: true,
+        migrations: selected.map((m) => ({ name: m.name, sql: m.down })),
+      }
+    }
+
+    return withLock(async () => {
+      const selected = selectApplied(await status())
+
+      for (const migration of selected) {
+        log(`Reverting ${migration.name}...`)
+        for (const sql of migration.down) {
+          await sequelize.query(sql)
+        }
+        await sequelize.query(`DELETE FROM \`${HISTORY_TABLE}\` WHERE name = ?`, {
+          replacements: [migration.name],
+        })
+        log(`Reverted ${migration.name}`)
+      }
+
+      return {
+        direction: 'down',
+        dryRun: false,
+        migrations: selected.map((m) => ({ name: m.name, sql: m.down })),
+      }
+    })
+  }
+
+  /**
+   * Record pending migrations up to `to` as applied without running them
+   * Used once for databases created by the old sequelize.sync({ alter: true })
+   */
+  async function baseline(options: MigrateOptions = {}): Promise<MigrationResult> {
+    const log = options.log ?? console.log
+    if (!options.to) {
+      throw new Error('Baseline requires a target migration')
+    }
+
+    const run = async () => {
+      const statuses = await status()
+      assertConsistent(statuses)
+      const pending = selectPending(statuses, options.to)
+
+      for (const migration of pending) {
+        if (!options.dryRun) {
+          await sequelize.query(
+            `INSERT INTO \`${HISTORY_TABLE}\` (name, checksum, executedAt) VALUES (?, ?, NOW())`,
+            { replacements: [migration.name, checksum(migration)] }
+          )
+        }
+        log(`${options.dryRun ? 'Would mark' : 'Marked'} ${migration.name} as applied`)
+      }
+
+      return {
+        direction: 'baseline' as const,
+        dryRun: !!options.dryRun,
+        migrations: pending.map((m) => ({ name: m.name, sql: [] })),
+      }
+    }
+
+    return options.dryRun ? run() : withLock(run)
+  }
+
+  /**
+   * Force-release a lock left behind by a crashed run
+   */
+  async function unlock(): Promise<void> {
+    if (await tableExists(LOCK_TABLE)) {
+      await sequelize.query(`DELETE FROM \`${LOCK_TABLE}\` WHERE id = 1`)
+    }
+  }
+
+  return { status, up, down, baseline, unlock }
+}
+
+export type Migrator = ReturnType<typeof createMigrator>
+
+/**
+ * Print the SQL a migration would execute
+ */
+function printSql(log: (message: string) => void, direction: string, name: string, statements: string[]): void {
+  log(`-- ${name} (${direction})`)
+  for (const sql of statements) {
+    log(`${sql};`)
+  }
+  log('')
+}
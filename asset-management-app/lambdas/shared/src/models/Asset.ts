@@ -1,5 +1,6 @@
 import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
-import type { AssetInstance, AssetCategory } from '../types'
+import { AssetStatus, type AssetInstance, type AssetCategory } from '../types'
+import { ASSET_LIMITS } from '../schemas/assets'
 
 /**
  * Define Asset Model
@@ -34,6 +35,13 @@ export function defineAssetModel(sequelize: Sequelize): ModelStatic<AssetInstanc
         },
       },
 
+      // Client-supplied key, unique per owner (POST /assets/import upserts on it)
+      externalKey: {
+        type: DataTypes.STRING(ASSET_LIMITS.externalKeyMaxLength),
+        allowNull: true,
+        comment: 'Client-supplied key used by imports',
+      },
+
       // Asset Details
       name: {
         type: DataTypes.STRING(255),
@@ -44,8 +52,8 @@ export function defineAssetModel(sequelize: Sequelize): ModelStatic<AssetInstanc
             msg: 'Asset name cannot be empty',
           },
           len: {
-            args: [1, 255],
-            msg: 'Asset name must be between 1 and 255 characters',
+            args: [1, ASSET_LIMITS.nameMaxLength],
+            msg: `Asset name must be between 1 and ${ASSET_LIMITS.nameMaxLength} characters`,
           },
         },
       },
@@ -55,9 +63,10 @@ export function defineAssetModel(sequelize: Sequelize): ModelStatic<AssetInstanc
         allowNull: true,
         comment: 'Detailed description of the asset',
         validate: {
+          // The TEXT column holds more; the API limit is enforced here too
           len: {
-            args: [0, 65535],
-            msg: 'Description is too long',
+            args: [0, ASSET_LIMITS.descriptionMaxLength],
+            msg: `Description must not exceed ${ASSET_LIMITS.descriptionMaxLength} characters`,
           },
         },
       },
@@ -77,6 +86,26 @@ export function defineAssetModel(sequelize: Sequelize): ModelStatic<AssetInstanc
         },
       },
 
+      // Lifecycle status (trashing is tracked by deletedAt)
+      status: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: AssetStatus.ACTIVE,
+        comment: 'active, archived or maintenance',
+        validate: {
+          isIn: {
+            args: [Object.values(AssetStatus)],
+            msg: 'Status must be one of: active, archived, maintenance',
+          },
+        },
+      },
+
+      statusNote: {
+        type: DataTypes.STRING(ASSET_LIMITS.statusNoteMaxLength),
+        allowNull: true,
+        comment: 'Reason for the current status',
+      },
+
       // Image Information
       imageKey: {
         type: DataTypes.STRING(500),
@@ -94,12 +123,19 @@ export function defineAssetModel(sequelize: Sequelize): ModelStatic<AssetInstanc
       // Model options
       tableName: 'Assets',
       timestamps: true, // Automatically adds createdAt and updatedAt
+      paranoid: true, // Soft deletes: destroy() sets deletedAt, queries exclude trashed rows
+      version: true, // Optimistic locking: updates check and increment `version` (OptimisticLockError when stale)
       underscored: false,
       indexes: [
         {
           name: 'idx_ownerId',
           fields: ['ownerId'],
         },
+        {
+          name: 'uniq_owner_externalKey',
+          unique: true,
+          fields: ['ownerId', 'externalKey'],
+        },
         {
           name: 'idx_category',
           fields: ['category'],
@@ -108,6 +144,37 @@ export function defineAssetModel(sequelize: Sequelize): ModelStatic<AssetInstanc
           name: 'idx_createdAt',
           fields: ['createdAt'],
         },
+        {
+          name: 'idx_deletedAt',
+          fields: ['deletedAt'],
+        },
+        // Keyset pagination: WHERE ownerId = ? ORDER BY <sort field>, id
+        {
+          name: 'idx_owner_createdAt',
+          fields: ['ownerId', 'createdAt', 'id'],
+        },
+        {
+          name: 'idx_owner_updatedAt',
+          fields: ['ownerId', 'updatedAt', 'id'],
+        },
+        {
+          name: 'idx_owner_name',
+          fields: ['ownerId', 'name', 'id'],
+        },
+        {
+          name: 'idx_owner_category',
+          fields: ['ownerId', 'category', 'id'],
+        },
+        {
+          name: 'idx_owner_status',
+          fields: ['ownerId', 'status'],
+        },
+        // Full-text search over name and description (listAssets ?q=)
+        {
+          name: 'ft_name_description',
+          type: 'FULLTEXT',
+          fields: ['name', 'description'],
+        },
       ],
       comment: 'Stores metadata for user-uploaded assets',
     }
@@ -0,0 +1,109 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import { AssetFileRole, type AssetFileInstance } from '../types'
+
+/**
+ * Define AssetFile Model
+ * A file stored in S3 that belongs to an asset (primary file, thumbnail or attachment)
+ */
+export function defineAssetFileModel(sequelize: Sequelize): ModelStatic<AssetFileInstance> {
+  const AssetFile = sequelize.define<AssetFileInstance>(
+    'AssetFile',
+    {
+      // Primary Key
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Unique identifier for the file',
+      },
+
+      // Parent Asset
+      assetId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        comment: 'Asset the file belongs to',
+        references: {
+          model: 'Assets',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+
+      // Storage Information
+      key: {
+        type: DataTypes.STRING(500),
+        allowNull: false,
+        unique: 'uniq_assetFiles_key',
+        comment: 'S3 object key',
+        validate: {
+          notEmpty: {
+            msg: 'Key cannot be empty',
+          },
+        },
+      },
+
+      mimeType: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Content type of the stored object',
+      },
+
+      size: {
+        type: DataTypes.BIGINT,
+        allowNull: false,
+        comment: 'Object size in bytes',
+        // BIGINT is returned as a string by mysql2
+        get(this: AssetFileInstance) {
+          const value = this.getDataValue('size')
+          return value === null || value === undefined ? value : Number(value)
+        },
+      },
+
+      checksum: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+        comment: 'SHA-256 of the content (hex), as supplied by the uploader',
+        validate: {
+          is: {
+            args: /^[a-f0-9]{64}$/,
+            msg: 'Checksum must be a hex SHA-256 digest',
+          },
+        },
+      },
+
+      role: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        defaultValue: AssetFileRole.ATTACHMENT,
+        comment: 'primary, thumbnail or attachment',
+        validate: {
+          isIn: {
+            args: [Object.values(AssetFileRole)],
+            msg: 'Role must be one of: primary, thumbnail, attachment',
+          },
+        },
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'AssetFiles',
+      timestamps: true,
+      underscored: false,
+      indexes: [
+        {
+          name: 'idx_assetFiles_asset_role',
+          fields: ['assetId', 'role'],
+        },
+      ],
+      comment: 'Files stored in S3 for an asset',
+    }
+  )
+
+  return AssetFile
+}
+
+/**
+ * AssetFile Model Type
+ */
+export type AssetFileModel = ModelStatic<AssetFileInstance>
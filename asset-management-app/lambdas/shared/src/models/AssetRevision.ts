@@ -0,0 +1,100 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import { RevisionAction, type AssetRevisionInstance } from '../types'
+
+/**
+ * Define AssetRevision Model
+ * One change to an asset: the changed fields, the resulting values and who made the change.
+ * Revisions are append-only; see utils/revisions.ts.
+ */
+export function defineAssetRevisionModel(sequelize: Sequelize): ModelStatic<AssetRevisionInstance> {
+  const AssetRevision = sequelize.define<AssetRevisionInstance>(
+    'AssetRevision',
+    {
+      // Primary Key
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Unique identifier for the revision',
+      },
+
+      // Parent Asset
+      assetId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        comment: 'Asset the revision belongs to',
+        references: {
+          model: 'Assets',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+
+      revision: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false,
+        comment: 'Revision number, starting at 1 per asset',
+      },
+
+      action: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        comment: 'created, updated, deleted, restored or reverted',
+        validate: {
+          isIn: {
+            args: [Object.values(RevisionAction)],
+            msg: 'Action must be one of: created, updated, deleted, restored, reverted',
+          },
+        },
+      },
+
+      actorId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the caller that made the change',
+      },
+
+      changes: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        comment: 'Changed fields: [{ field, from, to }]',
+      },
+
+      snapshot: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        comment: 'Recorded asset fields after the change',
+      },
+
+      revertedTo: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true,
+        comment: 'Revision whose values were restored (reverted only)',
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'AssetRevisions',
+      timestamps: true,
+      // Revisions are never updated
+      updatedAt: false,
+      underscored: false,
+      indexes: [
+        {
+          name: 'uniq_assetRevisions_asset_revision',
+          unique: true,
+          fields: ['assetId', 'revision'],
+        },
+      ],
+      comment: 'Field-level change history of assets',
+    }
+  )
+
+  return AssetRevision
+}
+
+/**
+ * AssetRevision Model Type
+ */
+export type AssetRevisionModel = ModelStatic<AssetRevisionInstance>
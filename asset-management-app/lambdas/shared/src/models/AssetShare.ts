@@ -0,0 +1,101 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import { ShareGranteeType, ShareRole, type AssetShareInstance } from '../types'
+
+/**
+ * Define AssetShare Model
+ * Viewer or editor access to an asset for another user or a Cognito group (see utils/shares.ts)
+ */
+export function defineAssetShareModel(sequelize: Sequelize): ModelStatic<AssetShareInstance> {
+  const AssetShare = sequelize.define<AssetShareInstance>(
+    'AssetShare',
+    {
+      // Primary Key
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Unique identifier for the share',
+      },
+
+      // Shared Asset
+      assetId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        comment: 'Shared asset',
+        references: {
+          model: 'Assets',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+
+      // Grantee
+      granteeType: {
+        type: DataTypes.STRING(10),
+        allowNull: false,
+        comment: 'user or group',
+        validate: {
+          isIn: {
+            args: [Object.values(ShareGranteeType)],
+            msg: 'Grantee type must be one of: user, group',
+          },
+        },
+      },
+
+      granteeId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID or group name',
+        validate: {
+          notEmpty: {
+            msg: 'Grantee ID cannot be empty',
+          },
+        },
+      },
+
+      role: {
+        type: DataTypes.STRING(10),
+        allowNull: false,
+        comment: 'viewer or editor',
+        validate: {
+          isIn: {
+            args: [Object.values(ShareRole)],
+            msg: 'Role must be one of: viewer, editor',
+          },
+        },
+      },
+
+      createdBy: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the owner who shared the asset',
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'AssetShares',
+      timestamps: true,
+      underscored: false,
+      indexes: [
+        {
+          name: 'uniq_assetShares_asset_grantee',
+          unique: true,
+          fields: ['assetId', 'granteeType', 'granteeId'],
+        },
+        {
+          name: 'idx_assetShares_grantee',
+          fields: ['granteeType', 'granteeId'],
+        },
+      ],
+      comment: 'Access to an asset granted to other users or groups',
+    }
+  )
+
+  return AssetShare
+}
+
+/**
+ * AssetShare Model Type
+ */
+export type AssetShareModel = ModelStatic<AssetShareInstance>
@@ -0,0 +1,64 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import type { AssetTagInstance } from '../types'
+
+/**
+ * Define AssetTag Model
+ * Join table between assets and tags; rows are removed with either side
+ */
+export function defineAssetTagModel(sequelize: Sequelize): ModelStatic<AssetTagInstance> {
+  const AssetTag = sequelize.define<AssetTagInstance>(
+    'AssetTag',
+    {
+      assetId: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Tagged asset',
+        references: {
+          model: 'Assets',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+
+      tagId: {
+        type: DataTypes.UUID,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Tag applied to the asset',
+        references: {
+          model: 'Tags',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+
+      createdBy: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the caller that added the tag',
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'AssetTags',
+      timestamps: true,
+      updatedAt: false,
+      underscored: false,
+      indexes: [
+        {
+          name: 'idx_assetTags_tag',
+          fields: ['tagId', 'assetId'],
+        },
+      ],
+      comment: 'Tags applied to assets',
+    }
+  )
+
+  return AssetTag
+}
+
+/**
+ * AssetTag Model Type
+ */
+export type AssetTagModel = ModelStatic<AssetTagInstance>
@@ -0,0 +1,124 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import { AuditAction, type AuditEventInstance } from '../types'
+
+/**
+ * Define AuditEvent Model
+ * One action on an asset, written by the API; see utils/audit.ts.
+ * Events are append-only: updates and deletes through the model throw.
+ */
+export function defineAuditEventModel(sequelize: Sequelize): ModelStatic<AuditEventInstance> {
+  const AuditEvent = sequelize.define<AuditEventInstance>(
+    'AuditEvent',
+    {
+      // Primary Key
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Unique identifier for the event',
+      },
+
+      // Not a foreign key: events are kept after the asset is purged
+      assetId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        comment: 'Asset the action was performed on',
+      },
+
+      ownerId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the asset owner',
+      },
+
+      actorId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the caller, or system:<job>',
+      },
+
+      action: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        comment: 'created, viewed, updated, deleted, restored, reverted or purged',
+        validate: {
+          isIn: {
+            args: [Object.values(AuditAction)],
+            msg: `Action must be one of: ${Object.values(AuditAction).join(', ')}`,
+          },
+        },
+      },
+
+      beforeHash: {
+        type: DataTypes.CHAR(64),
+        allowNull: true,
+        comment: 'SHA-256 of the asset snapshot before the action',
+      },
+
+      afterHash: {
+        type: DataTypes.CHAR(64),
+        allowNull: true,
+        comment: 'SHA-256 of the asset snapshot after the action',
+      },
+
+      sourceIp: {
+        type: DataTypes.STRING(45),
+        allowNull: true,
+        comment: 'Caller IP address from API Gateway',
+      },
+
+      userAgent: {
+        type: DataTypes.STRING(500),
+        allowNull: true,
+        comment: 'Caller User-Agent (truncated)',
+      },
+
+      requestId: {
+        type: DataTypes.STRING(128),
+        allowNull: true,
+        comment: 'Correlation ID of the request',
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'AuditEvents',
+      timestamps: true,
+      // Events are never updated
+      updatedAt: false,
+      underscored: false,
+      indexes: [
+        {
+          name: 'idx_auditEvents_createdAt',
+          fields: ['createdAt'],
+        },
+        {
+          name: 'idx_auditEvents_actor_createdAt',
+          fields: ['actorId', 'createdAt'],
+        },
+        {
+          name: 'idx_auditEvents_asset_createdAt',
+          fields: ['assetId', 'createdAt'],
+        },
+      ],
+      hooks: {
+        beforeUpdate: rejectChange,
+        beforeBulkUpdate: rejectChange,
+        beforeDestroy: rejectChange,
+        beforeBulkDestroy: rejectChange,
+      },
+      comment: 'Append-only audit trail of asset actions',
+    }
+  )
+
+  return AuditEvent
+}
+
+function rejectChange(): never {
+  throw new Error('Audit events are append-only')
+}
+
+/**
+ * AuditEvent Model Type
+ */
+export type AuditEventModel = ModelStatic<AuditEventInstance>
@@ -0,0 +1,60 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import type { OwnerLimitInstance } from '../types'
+
+/**
+ * Define OwnerLimit Model
+ * Limits an administrator set for one owner; owners without a row use the defaults from env.
+ * See utils/quotas.ts.
+ */
+export function defineOwnerLimitModel(sequelize: Sequelize): ModelStatic<OwnerLimitInstance> {
+  const OwnerLimit = sequelize.define<OwnerLimitInstance>(
+    'OwnerLimit',
+    {
+      // Primary Key
+      ownerId: {
+        type: DataTypes.STRING(255),
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Cognito user ID the limits apply to',
+      },
+
+      requestsPerMinute: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true,
+        comment: 'API requests per minute; NULL uses RATE_LIMIT_REQUESTS_PER_MINUTE',
+      },
+
+      maxAssets: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true,
+        comment: 'Assets outside the trash; NULL uses QUOTA_MAX_ASSETS',
+      },
+
+      maxBytesPerCategory: {
+        type: DataTypes.JSON,
+        allowNull: true,
+        comment: 'Total file bytes per asset category; missing ones use QUOTA_MAX_BYTES_PER_CATEGORY',
+      },
+
+      updatedBy: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the administrator who last changed the limits',
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'OwnerLimits',
+      timestamps: true,
+      underscored: false,
+      comment: 'Per-owner overrides of the default rate limit and quotas',
+    }
+  )
+
+  return OwnerLimit
+}
+
+/**
+ * OwnerLimit Model Type
+ */
+export type OwnerLimitModel = ModelStatic<OwnerLimitInstance>
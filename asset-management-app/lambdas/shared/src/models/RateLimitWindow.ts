@@ -0,0 +1,49 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import type { RateLimitWindowInstance } from '../types'
+
+/**
+ * Define RateLimitWindow Model
+ * Request count of one owner in one fixed window. Counters are incremented with an upsert in
+ * utils/quotas.ts; older windows of the owner are deleted when a new one starts.
+ */
+export function defineRateLimitWindowModel(sequelize: Sequelize): ModelStatic<RateLimitWindowInstance> {
+  const RateLimitWindow = sequelize.define<RateLimitWindowInstance>(
+    'RateLimitWindow',
+    {
+      ownerId: {
+        type: DataTypes.STRING(255),
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Cognito user ID of the caller',
+      },
+
+      windowStart: {
+        type: DataTypes.DATE,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Start of the one-minute window',
+      },
+
+      requestCount: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Requests received in the window, including rejected ones',
+      },
+    },
+    {
+      // Model options
+      tableName: 'RateLimitWindows',
+      timestamps: false,
+      underscored: false,
+      comment: 'Request counts per owner and rate-limit window',
+    }
+  )
+
+  return RateLimitWindow
+}
+
+/**
+ * RateLimitWindow Model Type
+ */
+export type RateLimitWindowModel = ModelStatic<RateLimitWindowInstance>
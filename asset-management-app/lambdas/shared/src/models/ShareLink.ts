@@ -0,0 +1,130 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import type { ShareLinkInstance } from '../types'
+
+/**
+ * Define ShareLink Model
+ * Public, revocable link to an asset for people without an account (see utils/shareLinks.ts)
+ */
+export function defineShareLinkModel(sequelize: Sequelize): ModelStatic<ShareLinkInstance> {
+  const ShareLink = sequelize.define<ShareLinkInstance>(
+    'ShareLink',
+    {
+      // Primary Key
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Unique identifier for the link',
+      },
+
+      // Shared Asset
+      assetId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        comment: 'Shared asset',
+        references: {
+          model: 'Assets',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+
+      // Credentials
+      tokenHash: {
+        type: DataTypes.CHAR(64),
+        allowNull: false,
+        unique: true,
+        comment: 'SHA-256 of the link token (hex)',
+      },
+
+      passwordHash: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+        comment: 'scrypt hash of the optional password',
+      },
+
+      // Limits
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        comment: 'The link cannot be opened after this time',
+      },
+
+      maxDownloads: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: true,
+        comment: 'Download limit; NULL for none',
+      },
+
+      // Usage
+      downloadCount: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Download URLs issued through the link',
+      },
+
+      accessCount: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Successful opens of the link',
+      },
+
+      failedPasswordAttempts: {
+        type: DataTypes.INTEGER.UNSIGNED,
+        allowNull: false,
+        defaultValue: 0,
+        comment: 'Incorrect passwords since the last successful open or lockout',
+      },
+
+      lockedUntil: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        comment: 'Passwords are refused until this time',
+      },
+
+      lastAccessedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+
+      createdBy: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the owner who created the link',
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'ShareLinks',
+      timestamps: true,
+      underscored: false,
+      indexes: [
+        {
+          name: 'uniq_shareLinks_tokenHash',
+          unique: true,
+          fields: ['tokenHash'],
+        },
+        {
+          name: 'idx_shareLinks_assetId',
+          fields: ['assetId'],
+        },
+      ],
+      comment: 'Public links to an asset for people without an account',
+    }
+  )
+
+  return ShareLink
+}
+
+/**
+ * ShareLink Model Type
+ */
+export type ShareLinkModel = ModelStatic<ShareLinkInstance>
@@ -0,0 +1,70 @@
+import { DataTypes, Sequelize, ModelStatic } from 'sequelize'
+import type { TagInstance } from '../types'
+import { TAG_LIMITS } from '../schemas/tags'
+
+/**
+ * Define Tag Model
+ * A name:value pair defined by an owner; applied to assets through AssetTag
+ */
+export function defineTagModel(sequelize: Sequelize): ModelStatic<TagInstance> {
+  const Tag = sequelize.define<TagInstance>(
+    'Tag',
+    {
+      // Primary Key
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false,
+        comment: 'Unique identifier for the tag',
+      },
+
+      // Owner Information
+      ownerId: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        comment: 'Cognito user ID of the tag owner',
+      },
+
+      name: {
+        type: DataTypes.STRING(TAG_LIMITS.nameMaxLength),
+        allowNull: false,
+        comment: 'Tag name, e.g. env',
+        validate: {
+          notEmpty: {
+            msg: 'Tag name cannot be empty',
+          },
+        },
+      },
+
+      // '' rather than NULL so the unique index also covers tags without a value
+      value: {
+        type: DataTypes.STRING(TAG_LIMITS.valueMaxLength),
+        allowNull: false,
+        defaultValue: '',
+        comment: 'Tag value, e.g. prod; empty for tags without one',
+      },
+    } as any, // Type assertion to avoid timestamp field requirement
+    {
+      // Model options
+      tableName: 'Tags',
+      timestamps: true,
+      underscored: false,
+      indexes: [
+        {
+          name: 'uniq_tags_owner_name_value',
+          unique: true,
+          fields: ['ownerId', 'name', 'value'],
+        },
+      ],
+      comment: 'Tags defined by each owner',
+    }
+  )
+
+  return Tag
+}
+
+/**
+ * Tag Model Type
+ */
+export type TagModel = ModelStatic<TagInstance>
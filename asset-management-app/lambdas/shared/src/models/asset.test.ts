@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from 'sequelize'
+import { Asset } from './index'
+import { AssetCategory } from '../types'
+
+/**
+ * Asset model validation (build / validate do not touch the database)
+ */
+
+describe('Asset', () => {
+  it('rejects an asset without the required fields', async () => {
+    await expect(Asset.build({} as any).validate()).rejects.toBeInstanceOf(ValidationError)
+  })
+
+  it('accepts a valid asset', async () => {
+    const asset = Asset.build({
+      ownerId: 'test-user-123',
+      name: 'Test Asset',
+      description: 'This is a test asset',
+      category: AssetCategory.IMAGE,
+      imageKey: 'assets/test-user-123/test-asset/image.jpg',
+    })
+
+    await expect(asset.validate()).resolves.toBe(asset)
+  })
+
+  it('rejects an unknown category', async () => {
+    const asset = Asset.build({ ownerId: 'test-user-123', name: 'Test Asset', category: 'music' as AssetCategory })
+
+    await expect(asset.validate()).rejects.toBeInstanceOf(ValidationError)
+  })
+})
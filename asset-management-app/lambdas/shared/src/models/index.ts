@@ -1,38 +1,72 @@
 import { Sequelize } from 'sequelize'
-import { env } from '../config/env'
+import { createSequelize } from '../config/database'
 import { defineAssetModel, AssetModel } from './Asset'
+import { defineAssetFileModel, AssetFileModel } from './AssetFile'
+import { defineAssetRevisionModel, AssetRevisionModel } from './AssetRevision'
+import { defineTagModel, TagModel } from './Tag'
+import { defineAssetTagModel, AssetTagModel } from './AssetTag'
+import { defineAuditEventModel, AuditEventModel } from './AuditEvent'
+import { defineAssetShareModel, AssetShareModel } from './AssetShare'
+import { defineShareLinkModel, ShareLinkModel } from './ShareLink'
+import { defineOwnerLimitModel, OwnerLimitModel } from './OwnerLimit'
+import { defineRateLimitWindowModel, RateLimitWindowModel } from './RateLimitWindow'
 
-// Create Sequelize instance with placeholder config
+// Create Sequelize instance; credentials are resolved per connection (config/database.ts)
 // Actual connection happens in dbHelper.connectToDatabase()
-const sequelize = new Sequelize({
-  dialect: 'mysql',
-  host: env.DB_HOST,
-  port: env.DB_PORT,
-  database: env.DB_NAME,
-  username: env.DB_USER,
-  password: env.DB_PASSWORD,
-  logging: env.NODE_ENV === 'development' ? console.log : false,
-  pool: {
-    max: env.DB_POOL_MAX,
-    min: env.DB_POOL_MIN,
-    acquire: 30000,
-    idle: 10000,
-  },
-  dialectOptions: {
-    connectTimeout: 60000,
-  },
-  define: {
-    timestamps: true,
-    underscored: false,
-    freezeTableName: true,
-  },
-})
+const sequelize = createSequelize()
 
 // Initialize models
 const Asset: AssetModel = defineAssetModel(sequelize)
+const AssetFile: AssetFileModel = defineAssetFileModel(sequelize)
+const AssetRevision: AssetRevisionModel = defineAssetRevisionModel(sequelize)
+const Tag: TagModel = defineTagModel(sequelize)
+const AssetTag: AssetTagModel = defineAssetTagModel(sequelize)
+const AuditEvent: AuditEventModel = defineAuditEventModel(sequelize)
+const AssetShare: AssetShareModel = defineAssetShareModel(sequelize)
+const ShareLink: ShareLinkModel = defineShareLinkModel(sequelize)
+const OwnerLimit: OwnerLimitModel = defineOwnerLimitModel(sequelize)
+const RateLimitWindow: RateLimitWindowModel = defineRateLimitWindowModel(sequelize)
+
+// Associations
+// Files are removed with their asset by the foreign key (ON DELETE CASCADE) when it is purged
+Asset.hasMany(AssetFile, { as: 'files', foreignKey: 'assetId', onDelete: 'CASCADE' })
+AssetFile.belongsTo(Asset, { as: 'asset', foreignKey: 'assetId' })
+Asset.hasMany(AssetRevision, { as: 'revisions', foreignKey: 'assetId', onDelete: 'CASCADE' })
+AssetRevision.belongsTo(Asset, { as: 'asset', foreignKey: 'assetId' })
+// Tag links are removed by the foreign keys when either the asset or the tag is deleted
+Asset.belongsToMany(Tag, { as: 'tags', through: AssetTag, foreignKey: 'assetId', otherKey: 'tagId' })
+Tag.belongsToMany(Asset, { as: 'assets', through: AssetTag, foreignKey: 'tagId', otherKey: 'assetId' })
+Asset.hasMany(AssetShare, { as: 'shares', foreignKey: 'assetId', onDelete: 'CASCADE' })
+AssetShare.belongsTo(Asset, { as: 'asset', foreignKey: 'assetId' })
+Asset.hasMany(ShareLink, { as: 'links', foreignKey: 'assetId', onDelete: 'CASCADE' })
+ShareLink.belongsTo(Asset, { as: 'asset', foreignKey: 'assetId' })
 
 // Export sequelize instance and models
-export { sequelize, Sequelize, Asset }
+export {
+  sequelize,
+  Sequelize,
+  Asset,
+  AssetFile,
+  AssetRevision,
+  Tag,
+  AssetTag,
+  AuditEvent,
+  AssetShare,
+  ShareLink,
+  OwnerLimit,
+  RateLimitWindow,
+}
 
 // Export types
-export type { AssetModel }
+export type {
+  AssetModel,
+  AssetFileModel,
+  AssetRevisionModel,
+  TagModel,
+  AssetTagModel,
+  AuditEventModel,
+  AssetShareModel,
+  ShareLinkModel,
+  OwnerLimitModel,
+  RateLimitWindowModel,
+}
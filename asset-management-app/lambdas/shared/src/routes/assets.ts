@@ -0,0 +1,429 @@
+import { Op, type Transaction } from 'sequelize'
+import { sequelize, Asset, AssetFile } from '../models'
+import { AssetFileRole, AssetScope, AuditAction, RevisionAction, ShareRole, type AssetInstance } from '../types'
+import { successResponse, noContentResponse } from '../utils/response'
+import { findPage, parseLimit, parseSort } from '../utils/pagination'
+import { buildHighlights, findSearchPage, matchExpression, parseSearchQuery } from '../utils/search'
+import { logger } from '../utils/logger'
+import { recordRevision, snapshotAsset, updateAssetWithRevision } from '../utils/revisions'
+import { recordAuditEvent } from '../utils/audit'
+import { assertAssetQuota, assertStorageQuota } from '../utils/quotas'
+import { getAccessByAsset } from '../utils/shares'
+import {
+  assetListSchema,
+  assetParamsSchema,
+  assetSchema,
+  createAssetBodySchema,
+  listAssetsQuerySchema,
+  listTrashQuerySchema,
+  trashListSchema,
+  updateAssetBodySchema,
+  type AssetEvent,
+  type AssetUpdateEvent,
+} from '../schemas/assets'
+import { assetWithFilesSchema } from '../schemas/files'
+import { withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { HttpError, notFound, forbidden } from '../http/errors'
+import { withAuth, requireAuth } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import { checkIfMatch, etagHeader, ifMatchHeadersSchema } from '../http/conditional'
+import type { Route } from '../http/router'
+import {
+  assertAssetOwner,
+  assetListFilters,
+  findAccessibleAsset,
+  listAssetFiles,
+  listAssetTags,
+  requireAssetId,
+  toAssetResponse,
+  toFileResponse,
+  toTagResponse,
+} from './common'
+
+/**
+ * Serialize a trashed asset for API responses
+ */
+function toTrashedAssetResponse(asset: AssetInstance) {
+  return {
+    ...toAssetResponse(asset),
+    deletedAt: asset.deletedAt,
+  }
+}
+
+/**
+ * Apply a PATCH body to an asset and record the revision
+ * imageKey mirrors the primary file, so detaching it demotes that file to an attachment
+ */
+export async function applyAssetUpdate(
+  asset: AssetInstance,
+  updates: Omit<AssetUpdateEvent, 'id'>,
+  actorId: string,
+  transaction: Transaction
+): Promise<void> {
+  await updateAssetWithRevision(asset, updates, { actorId, transaction })
+  if (updates.imageKey === null) {
+    await AssetFile.update(
+      { role: AssetFileRole.ATTACHMENT },
+      { where: { assetId: asset.id, role: AssetFileRole.PRIMARY }, transaction }
+    )
+  }
+}
+
+/**
+ * POST /assets - Create asset
+ *
+ * The owner is always the authenticated caller (Cognito `sub`).
+ * Body: createAssetBodySchema (name, description, category, status; ownerId must match the caller if provided)
+ *
+ * imageKey cannot be set here; upload the file with POST /assets/{id}/upload-url and
+ * confirm it with POST /assets/{id}/upload-complete.
+ * Returns 413 when the caller already has their maximum number of assets.
+ */
+export const createAssetRoute: Route = {
+  method: 'POST',
+  resource: '/assets',
+  errorMessage: 'Failed to create asset',
+  schema: {
+    operationId: 'createAsset',
+    summary: 'Create an asset',
+    body: createAssetBodySchema,
+    response: assetSchema,
+    status: 201,
+    quotaLimited: true,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const body: AssetEvent = ctx.body
+
+    // ownerId is derived from the token; a different body.ownerId is an impersonation attempt
+    if (body.ownerId !== undefined && body.ownerId !== ownerId) {
+      throw forbidden('Cannot create assets for another user')
+    }
+    await assertAssetQuota(ownerId, 1)
+
+    const asset = await sequelize.transaction(async (transaction) => {
+      const created = await Asset.create(
+        {
+          ownerId,
+          name: body.name,
+          description: body.description ?? null,
+          category: body.category,
+          status: body.status,
+          statusNote: body.statusNote ?? null,
+          imageKey: null,
+        },
+        { transaction }
+      )
+      await recordRevision(created, { action: RevisionAction.CREATED, actorId: ownerId, before: null, transaction })
+      return created
+    })
+
+    logger.info('Asset created', { assetId: asset.id })
+
+    return successResponse(toAssetResponse(asset), 201, etagHeader(asset))
+  },
+}
+
+/**
+ * GET /assets - List assets
+ *
+ * `scope` selects the caller's assets (owned, the default), the assets shared with them (shared) or
+ * both (all). Each asset has the caller's `access`.
+ *
+ * Query parameters: listAssetsQuerySchema (scope, ownerId, category, status, tag, q, sort, limit, cursor,
+ * offset, count).
+ * `tag=env:prod,team` requires every listed tag (any value for a bare name).
+ * `cursor` selects cursor mode, otherwise `offset` is used.
+ *
+ * Search results also include `relevance` (null when an explicit sort is used) and
+ * `highlights` ({ name, description } HTML with matches wrapped in <mark>).
+ */
+export const listAssetsRoute: Route = {
+  method: 'GET',
+  resource: '/assets',
+  errorMessage: 'Failed to list assets',
+  schema: {
+    operationId: 'listAssets',
+    summary: "List the caller's assets and the assets shared with them",
+    query: listAssetsQuerySchema,
+    response: assetListSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const { query } = ctx
+    const scope = (query.scope || AssetScope.OWNED) as AssetScope
+
+    if (scope === AssetScope.OWNED && query.ownerId && query.ownerId !== auth.ownerId) {
+      throw forbidden("Cannot list another user's assets")
+    }
+
+    const filters = assetListFilters(auth, query, scope)
+    if (scope !== AssetScope.OWNED && query.ownerId) {
+      filters.push({ ownerId: query.ownerId })
+    }
+    const where = { [Op.and]: filters }
+
+    const terms = parseSearchQuery(query.q)
+    const pageOptions = {
+      limit: parseLimit(query.limit),
+      cursor: query.cursor,
+      offset: parseInt(query.offset || '0'),
+      includeTotal: query.count !== 'false',
+    }
+
+    // Search without an explicit sort is ordered by relevance; with one, the match is only a filter
+    const { rows: assets, pagination } =
+      terms && !query.sort
+        ? await findSearchPage(Asset, { ...pageOptions, where, terms })
+        : await findPage(Asset, {
+            ...pageOptions,
+            where: terms ? { [Op.and]: [where, matchExpression(Asset, terms)] } : where,
+            sort: parseSort(query.sort),
+          })
+
+    const access = await getAccessByAsset(assets, auth)
+
+    logger.debug('Assets listed', { count: assets.length, total: pagination.total, search: !!terms, scope })
+
+    return successResponse({
+      assets: assets.map((asset) => ({
+        ...toAssetResponse(asset),
+        access: access.get(asset.id)!,
+        ...(terms && {
+          relevance: asset.get('relevance') ?? null,
+          highlights: buildHighlights(asset, terms),
+        }),
+      })),
+      pagination,
+    })
+  },
+}
+
+/**
+ * GET /assets/{id} - Get asset by ID
+ *
+ * The response embeds the asset's files (primary first) and tags, and the caller's `access`.
+ * Viewers and editors of a shared asset can read it too.
+ * Each successful read is recorded as a `viewed` audit event.
+ */
+export const getAssetRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}',
+  errorMessage: 'Failed to retrieve asset',
+  schema: {
+    operationId: 'getAsset',
+    summary: 'Get an asset with its files',
+    params: assetParamsSchema,
+    response: assetWithFilesSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const { asset, access } = await findAccessibleAsset(requireAssetId(ctx), auth, ShareRole.VIEWER)
+    const files = await listAssetFiles(asset.id)
+    const tags = await listAssetTags(asset.id)
+
+    const snapshot = snapshotAsset(asset)
+    await recordAuditEvent(asset, {
+      action: AuditAction.VIEWED,
+      actorId: auth.ownerId,
+      before: snapshot,
+      after: snapshot,
+    })
+
+    return successResponse(
+      {
+        ...toAssetResponse(asset),
+        access,
+        files: files.map(toFileResponse),
+        tags: tags.map(toTagResponse),
+      },
+      200,
+      etagHeader(asset)
+    )
+  },
+}
+
+/**
+ * PATCH /assets/{id} - Update asset (partial update)
+ *
+ * Body: updateAssetBodySchema (name, description, category, status, statusNote, all optional).
+ * `imageKey: null` detaches the primary file, which is kept as an attachment. ownerId cannot be changed.
+ * Editors of a shared asset can update it; viewers get 403.
+ * With If-Match, a stale ETag returns 412; a concurrent update between the read and the write
+ * also returns 412 (OptimisticLockError from the version check).
+ * Changing the category returns 413 when the asset's files would exceed the owner's quota for it.
+ */
+export const updateAssetRoute: Route = {
+  method: 'PATCH',
+  resource: '/assets/{id}',
+  errorMessage: 'Failed to update asset',
+  schema: {
+    operationId: 'updateAsset',
+    summary: 'Update an asset',
+    params: assetParamsSchema,
+    headers: ifMatchHeadersSchema,
+    body: updateAssetBodySchema,
+    response: assetSchema,
+    quotaLimited: true,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const updates: Omit<AssetUpdateEvent, 'id'> = ctx.body
+
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), auth, ShareRole.EDITOR)
+    checkIfMatch(ctx, asset)
+
+    await sequelize.transaction((transaction) => applyAssetUpdate(asset, updates, auth.ownerId, transaction))
+
+    logger.info('Asset updated', { assetId: asset.id, version: asset.version })
+
+    return successResponse(toAssetResponse(asset), 200, etagHeader(asset))
+  },
+}
+
+/**
+ * DELETE /assets/{id} - Move asset to trash (soft delete)
+ *
+ * Sets deletedAt; the asset can be restored until the purge job removes it.
+ * Returns 204 even when the asset does not exist, for idempotency (412 with If-Match).
+ * Deleting another user's asset returns 403, including for viewers and editors of a shared asset.
+ */
+export const deleteAssetRoute: Route = {
+  method: 'DELETE',
+  resource: '/assets/{id}',
+  errorMessage: 'Failed to delete asset',
+  schema: {
+    operationId: 'deleteAsset',
+    summary: 'Move an asset to the trash',
+    params: assetParamsSchema,
+    headers: ifMatchHeadersSchema,
+    status: 204,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const { ownerId } = auth
+    const assetId = requireAssetId(ctx)
+    const asset = await Asset.findByPk(assetId)
+
+    await assertAssetOwner(asset, auth)
+    checkIfMatch(ctx, asset)
+
+    if (asset) {
+      await sequelize.transaction(async (transaction) => {
+        await asset.destroy({ transaction })
+        await recordRevision(asset, { action: RevisionAction.DELETED, actorId: ownerId, before: null, transaction })
+      })
+      logger.info('Asset moved to trash', { assetId })
+    }
+
+    return noContentResponse()
+  },
+}
+
+/**
+ * GET /assets/trash - List the caller's trashed assets
+ *
+ * Query parameters: listTrashQuerySchema (limit, offset)
+ */
+export const listTrashRoute: Route = {
+  method: 'GET',
+  resource: '/assets/trash',
+  errorMessage: 'Failed to list trashed assets',
+  schema: {
+    operationId: 'listTrash',
+    summary: "List the caller's trashed assets",
+    query: listTrashQuerySchema,
+    response: trashListSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const limit = Math.min(parseInt(ctx.query.limit || '10'), 100)
+    const offset = parseInt(ctx.query.offset || '0')
+
+    const { count, rows: assets } = await Asset.findAndCountAll({
+      where: { ownerId, deletedAt: { [Op.ne]: null } },
+      paranoid: false,
+      limit,
+      offset,
+      order: [['deletedAt', 'DESC']],
+    })
+
+    return successResponse({
+      assets: assets.map(toTrashedAssetResponse),
+      pagination: {
+        total: count,
+        limit,
+        offset,
+        currentPage: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(count / limit),
+        hasMore: offset + limit < count,
+      },
+    })
+  },
+}
+
+/**
+ * POST /assets/{id}/restore - Restore a trashed asset
+ *
+ * Returns 409 if the asset is not in the trash and 413 if restoring it would exceed the caller's
+ * asset or storage quota.
+ */
+export const restoreAssetRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/restore',
+  errorMessage: 'Failed to restore asset',
+  schema: {
+    operationId: 'restoreAsset',
+    summary: 'Restore a trashed asset',
+    params: assetParamsSchema,
+    response: assetSchema,
+    quotaLimited: true,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await Asset.findByPk(requireAssetId(ctx), { paranoid: false })
+
+    if (!asset) {
+      throw notFound('Asset not found')
+    }
+    if (asset.ownerId !== ownerId) {
+      throw forbidden('You do not have access to this asset')
+    }
+    if (!asset.deletedAt) {
+      throw new HttpError('Asset is not in the trash', 409)
+    }
+    // The asset and its files count towards the quotas again once restored
+    const fileBytes = (await AssetFile.sum('size', { where: { assetId: asset.id } })) || 0
+    await assertAssetQuota(ownerId, 1)
+    await assertStorageQuota(ownerId, asset.category, fileBytes)
+
+    await sequelize.transaction(async (transaction) => {
+      await asset.restore({ transaction })
+      await recordRevision(asset, { action: RevisionAction.RESTORED, actorId: ownerId, before: null, transaction })
+    })
+
+    logger.info('Asset restored', { assetId: asset.id })
+
+    return successResponse(toAssetResponse(asset), 200, etagHeader(asset))
+  },
+}
+
+/**
+ * All asset routes, in the order they are registered on the API
+ */
+export const assetRoutes: Route[] = [
+  createAssetRoute,
+  listAssetsRoute,
+  listTrashRoute,
+  getAssetRoute,
+  updateAssetRoute,
+  deleteAssetRoute,
+  restoreAssetRoute,
+]
@@ -0,0 +1,91 @@
+import { Op, type WhereOptions } from 'sequelize'
+import { AuditEvent } from '../models'
+import type { AuditEventAttributes, AuditEventInstance } from '../types'
+import { successResponse } from '../utils/response'
+import { listAuditEventsQuerySchema, auditEventListSchema } from '../schemas/audit'
+import { withDatabase, withValidation } from '../http/middleware'
+import { withAuth, withAdmin } from '../http/auth'
+import type { Route } from '../http/router'
+
+/**
+ * Serialize an audit event for API responses
+ */
+function toAuditEventResponse(event: AuditEventInstance) {
+  return {
+    id: event.id,
+    assetId: event.assetId,
+    ownerId: event.ownerId,
+    actorId: event.actorId,
+    action: event.action,
+    beforeHash: event.beforeHash,
+    afterHash: event.afterHash,
+    sourceIp: event.sourceIp,
+    userAgent: event.userAgent,
+    requestId: event.requestId,
+    createdAt: event.createdAt,
+  }
+}
+
+/**
+ * GET /admin/audit-events - Query the audit trail (newest first)
+ *
+ * Only for members of the ADMIN_GROUP Cognito group; everyone else gets 403.
+ * Query parameters: listAuditEventsQuerySchema (from, to, actorId, assetId, ownerId, action, limit, offset)
+ */
+export const listAuditEventsRoute: Route = {
+  method: 'GET',
+  resource: '/admin/audit-events',
+  errorMessage: 'Failed to list audit events',
+  schema: {
+    operationId: 'listAuditEvents',
+    summary: 'Query the audit trail (administrators only)',
+    query: listAuditEventsQuerySchema,
+    response: auditEventListSchema,
+  },
+  middlewares: [withAuth, withAdmin, withValidation, withDatabase],
+  handler: async (ctx) => {
+    const { from, to, actorId, assetId, ownerId, action } = ctx.query
+    const limit = Math.min(parseInt(ctx.query.limit || '50'), 100)
+    const offset = parseInt(ctx.query.offset || '0')
+
+    const where: WhereOptions<AuditEventAttributes> = {
+      ...(actorId && { actorId }),
+      ...(assetId && { assetId }),
+      ...(ownerId && { ownerId }),
+      ...(action && { action }),
+      ...((from || to) && {
+        createdAt: {
+          ...(from && { [Op.gte]: new Date(from) }),
+          ...(to && { [Op.lt]: new Date(to) }),
+        },
+      }),
+    }
+
+    const { count, rows: events } = await AuditEvent.findAndCountAll({
+      where,
+      limit,
+      offset,
+      order: [
+        ['createdAt', 'DESC'],
+        ['id', 'DESC'],
+      ],
+    })
+
+    return successResponse({
+      events: events.map(toAuditEventResponse),
+      pagination: {
+        total: count,
+        limit,
+        offset,
+        currentPage: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(count / limit),
+        hasMore: offset + limit < count,
+      },
+    })
+  },
+}
+
+/**
+ * Audit routes, in the order they are registered on the API
+ */
+export const auditRoutes: Route[] = [listAuditEventsRoute]
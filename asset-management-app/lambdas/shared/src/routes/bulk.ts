@@ -0,0 +1,206 @@
+import type { Transaction } from 'sequelize'
+import { sequelize, Asset } from '../models'
+import { RevisionAction, ShareRole } from '../types'
+import { successResponse } from '../utils/response'
+import { ValidationError, type FieldError } from '../utils/validation'
+import { logger } from '../utils/logger'
+import { recordRevision } from '../utils/revisions'
+import { assertAssetQuota } from '../utils/quotas'
+import { validate } from '../schemas/schema'
+import { createAssetBodySchema, updateAssetBodySchema } from '../schemas/assets'
+import { bulkAssetsBodySchema, bulkResponseSchema, type BulkAssetsInput, type BulkOperation } from '../schemas/bulk'
+import { withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { HttpError, forbidden } from '../http/errors'
+import { withAuth, requireAuth, type AuthContext } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import type { Route } from '../http/router'
+import { applyAssetUpdate } from './assets'
+import { assertAssetOwner, findAccessibleAsset, toAssetResponse } from './common'
+
+interface BulkResult {
+  index: number
+  op: BulkOperation['op']
+  id: string | null
+  status: 'succeeded' | 'failed' | 'rolledBack'
+  statusCode: number
+  asset?: ReturnType<typeof toAssetResponse> | null
+  error?: string
+  errors?: FieldError[]
+}
+
+/**
+ * Reject an operation's data with every invalid field
+ */
+function validateData<T>(result: { value: T; errors: FieldError[] }): T {
+  if (result.errors.length > 0) {
+    throw ValidationError.fromFieldErrors(result.errors)
+  }
+  return result.value
+}
+
+function requireOperationId(operation: BulkOperation): string {
+  if (!operation.id) {
+    throw new ValidationError(`id is required for ${operation.op}`, 'id')
+  }
+  return operation.id
+}
+
+/**
+ * Run one operation with the same rules as the single-asset endpoint
+ * Returns the asset ID, status code and serialized asset (null after a delete)
+ */
+async function runOperation(
+  operation: BulkOperation,
+  auth: AuthContext,
+  transaction: Transaction
+): Promise<Pick<BulkResult, 'id' | 'statusCode' | 'asset'>> {
+  const { ownerId } = auth
+  switch (operation.op) {
+    case 'create': {
+      const body = validateData(validate(createAssetBodySchema, operation.data ?? {}))
+      if (body.ownerId !== undefined && body.ownerId !== ownerId) {
+        throw forbidden('Cannot create assets for another user')
+      }
+      // Counted inside the transaction, so assets created earlier in the batch are included
+      await assertAssetQuota(ownerId, 1, transaction)
+      const asset = await Asset.create(
+        {
+          ownerId,
+          name: body.name,
+          description: body.description ?? null,
+          category: body.category,
+          status: body.status,
+          statusNote: body.statusNote ?? null,
+          imageKey: null,
+        },
+        { transaction }
+      )
+      await recordRevision(asset, { action: RevisionAction.CREATED, actorId: ownerId, before: null, transaction })
+      return { id: asset.id, statusCode: 201, asset: toAssetResponse(asset) }
+    }
+
+    case 'patch': {
+      const assetId = requireOperationId(operation)
+      const updates = validateData(validate(updateAssetBodySchema, operation.data ?? {}))
+      const { asset } = await findAccessibleAsset(assetId, auth, ShareRole.EDITOR, transaction)
+      await applyAssetUpdate(asset, updates, ownerId, transaction)
+      return { id: asset.id, statusCode: 200, asset: toAssetResponse(asset) }
+    }
+
+    case 'delete': {
+      // Same as DELETE /assets/{id}: missing assets count as deleted
+      const assetId = requireOperationId(operation)
+      const asset = await Asset.findByPk(assetId, { transaction })
+      await assertAssetOwner(asset, auth, transaction)
+      if (asset) {
+        await asset.destroy({ transaction })
+        await recordRevision(asset, { action: RevisionAction.DELETED, actorId: ownerId, before: null, transaction })
+      }
+      return { id: assetId, statusCode: 204, asset: null }
+    }
+  }
+}
+
+/**
+ * Result for an operation that was rejected
+ * Only client errors are reported per item; anything else aborts the whole request
+ */
+function failedResult(index: number, operation: BulkOperation, error: unknown): BulkResult {
+  const base = { index, op: operation.op, id: operation.id ?? null, status: 'failed' as const }
+
+  if (error instanceof ValidationError) {
+    return { ...base, statusCode: 400, error: error.message, errors: error.errors ?? [] }
+  }
+  if (error instanceof HttpError && error.statusCode < 500) {
+    return { ...base, statusCode: error.statusCode, error: error.message }
+  }
+  if (error instanceof Error && error.name === 'SequelizeValidationError') {
+    return { ...base, statusCode: 400, error: 'Validation failed: ' + error.message }
+  }
+  if (error instanceof Error && error.name === 'SequelizeOptimisticLockError') {
+    return { ...base, statusCode: 412, error: 'Asset was modified by another request' }
+  }
+  throw error
+}
+
+/**
+ * POST /assets/bulk - Create, patch and delete assets in one transaction
+ *
+ * Body: bulkAssetsBodySchema (mode, up to BULK_MAX_OPERATIONS operations).
+ * Each operation runs in its own savepoint and follows the rules of the matching single-asset
+ * endpoint (access, validation, asset quota, idempotent delete). Results are returned in request order.
+ *
+ * - all-or-nothing (default): every operation is attempted so all failures are reported, then the
+ *   transaction is rolled back if any failed (`committed: false`, successes become `rolledBack`)
+ * - best-effort: failed operations are rolled back to their savepoint and the rest are committed
+ *
+ * The response is 200 in both modes; check `committed` and each result's `status`.
+ */
+export const bulkAssetsRoute: Route = {
+  method: 'POST',
+  resource: '/assets/bulk',
+  errorMessage: 'Failed to run bulk operations',
+  schema: {
+    operationId: 'bulkAssets',
+    summary: 'Create, patch and delete several assets in one transaction',
+    body: bulkAssetsBodySchema,
+    response: bulkResponseSchema,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const { operations, mode = 'all-or-nothing' }: BulkAssetsInput = ctx.body
+
+    const transaction = await sequelize.transaction()
+    const results: BulkResult[] = []
+
+    try {
+      for (const [index, operation] of operations.entries()) {
+        try {
+          // Nested transaction = savepoint; a failed operation leaves the others untouched
+          const outcome = await sequelize.transaction({ transaction }, (savepoint) =>
+            runOperation(operation, auth, savepoint)
+          )
+          results.push({ index, op: operation.op, status: 'succeeded', ...outcome })
+        } catch (error) {
+          results.push(failedResult(index, operation, error))
+        }
+      }
+    } catch (error) {
+      await transaction.rollback()
+      throw error
+    }
+
+    const failed = results.filter((result) => result.status === 'failed').length
+    const committed = mode === 'best-effort' || failed === 0
+
+    if (committed) {
+      await transaction.commit()
+    } else {
+      await transaction.rollback()
+      // Nothing was written: drop the assets and the IDs of creates that no longer exist
+      for (const result of results.filter((result) => result.status === 'succeeded')) {
+        result.status = 'rolledBack'
+        result.asset = null
+        if (result.op === 'create') {
+          result.id = null
+        }
+      }
+    }
+
+    logger.info('Bulk operations finished', { mode, operations: operations.length, failed, committed })
+
+    return successResponse({
+      mode,
+      committed,
+      succeeded: results.filter((result) => result.status === 'succeeded').length,
+      failed,
+      results,
+    })
+  },
+}
+
+/**
+ * Bulk asset routes
+ */
+export const bulkRoutes: Route[] = [bulkAssetsRoute]
@@ -0,0 +1,186 @@
+import type { Transaction, WhereOptions } from 'sequelize'
+import { Asset, AssetFile, Tag } from '../models'
+import { AssetFileRole, AssetScope, type AssetFileInstance, type AssetInstance, type TagInstance } from '../types'
+import { ValidationError } from '../utils/validation'
+import { parseTagFilter, tagFilterExpressions } from '../utils/tags'
+import { assetScopeFilter, getAssetAccess, hasAccess, type AssetAccess } from '../utils/shares'
+import { notFound, forbidden } from '../http/errors'
+import { assetEtag } from '../http/conditional'
+import type { AuthContext } from '../http/auth'
+import type { RequestContext } from '../http/router'
+
+/**
+ * Helpers shared by the asset route modules
+ */
+
+/**
+ * Serialize an asset for API responses
+ */
+export function toAssetResponse(asset: AssetInstance) {
+  return {
+    id: asset.id,
+    ownerId: asset.ownerId,
+    externalKey: asset.externalKey,
+    name: asset.name,
+    description: asset.description,
+    category: asset.category,
+    imageKey: asset.imageKey,
+    status: asset.status,
+    statusNote: asset.statusNote,
+    createdAt: asset.createdAt,
+    updatedAt: asset.updatedAt,
+    version: asset.version,
+    etag: assetEtag(asset),
+  }
+}
+
+/**
+ * Filters shared by GET /assets and GET /assets/export: scope, category, status and tags
+ * Export only covers the caller's own assets (scope `owned`).
+ */
+export function assetListFilters(
+  auth: AuthContext,
+  query: { category?: string; status?: string; tag?: string },
+  scope: AssetScope = AssetScope.OWNED
+): WhereOptions[] {
+  const filters: WhereOptions[] = [assetScopeFilter(Asset, auth, scope)]
+  if (query.category) {
+    filters.push({ category: query.category })
+  }
+  if (query.status) {
+    filters.push({ status: query.status })
+  }
+  const tags = parseTagFilter(query.tag)
+  if (tags) {
+    filters.push(...tagFilterExpressions(Asset, tags))
+  }
+  return filters
+}
+
+/**
+ * Read the asset ID path parameter
+ */
+export function requireAssetId(ctx: RequestContext): string {
+  const assetId = ctx.params.id
+  if (!assetId) {
+    throw new ValidationError('Asset ID is required', 'id')
+  }
+  return assetId
+}
+
+/**
+ * Load an asset and check it belongs to the caller
+ * Missing assets return 404, assets owned by someone else return 403
+ */
+export async function findOwnedAsset(
+  assetId: string,
+  ownerId: string,
+  transaction?: Transaction
+): Promise<AssetInstance> {
+  const asset = await Asset.findByPk(assetId, { transaction })
+
+  if (!asset) {
+    throw notFound('Asset not found')
+  }
+  if (asset.ownerId !== ownerId) {
+    throw forbidden('You do not have access to this asset')
+  }
+
+  return asset
+}
+
+/**
+ * Load an asset the caller owns or that is shared with them, with at least `required` access
+ * Missing assets return 404; callers without access, or with a lower role, return 403
+ */
+export async function findAccessibleAsset(
+  assetId: string,
+  auth: AuthContext,
+  required: AssetAccess,
+  transaction?: Transaction
+): Promise<{ asset: AssetInstance; access: AssetAccess }> {
+  const asset = await Asset.findByPk(assetId, { transaction })
+
+  if (!asset) {
+    throw notFound('Asset not found')
+  }
+  const access = await getAssetAccess(asset, auth, transaction)
+  if (!access) {
+    throw forbidden('You do not have access to this asset')
+  }
+  if (!hasAccess(access, required)) {
+    throw forbidden(
+      required === 'owner' ? 'Only the owner can do this' : `This requires ${required} access to the asset`
+    )
+  }
+
+  return { asset, access }
+}
+
+/**
+ * Reject a caller who does not own the asset; a missing asset passes (idempotent deletes)
+ * Viewers and editors of a shared asset are told that only the owner can do this.
+ */
+export async function assertAssetOwner(
+  asset: AssetInstance | null,
+  auth: AuthContext,
+  transaction?: Transaction
+): Promise<void> {
+  if (!asset || asset.ownerId === auth.ownerId) {
+    return
+  }
+  const shared = (await getAssetAccess(asset, auth, transaction)) !== null
+  throw forbidden(shared ? 'Only the owner can do this' : 'You do not have access to this asset')
+}
+
+/**
+ * Serialize an asset file for API responses
+ */
+export function toFileResponse(file: AssetFileInstance) {
+  return {
+    id: file.id,
+    assetId: file.assetId,
+    key: file.key,
+    mimeType: file.mimeType,
+    size: file.size,
+    checksum: file.checksum,
+    role: file.role,
+    createdAt: file.createdAt,
+    updatedAt: file.updatedAt,
+  }
+}
+
+/**
+ * Files of an asset: primary first, then thumbnails, then attachments (oldest first)
+ */
+export async function listAssetFiles(assetId: string): Promise<AssetFileInstance[]> {
+  const files = await AssetFile.findAll({ where: { assetId }, order: [['createdAt', 'ASC']] })
+  const rank = Object.values(AssetFileRole)
+  return files.sort((a, b) => rank.indexOf(a.role) - rank.indexOf(b.role))
+}
+
+/**
+ * Serialize a tag for API responses ('' values are returned as null)
+ */
+export function toTagResponse(tag: TagInstance) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    value: tag.value === '' ? null : tag.value,
+    createdAt: tag.createdAt,
+  }
+}
+
+/**
+ * Tags of an asset, by name and value
+ */
+export async function listAssetTags(assetId: string, transaction?: Transaction): Promise<TagInstance[]> {
+  return Tag.findAll({
+    include: [{ association: 'assets', where: { id: assetId }, attributes: [], through: { attributes: [] }, paranoid: false }],
+    order: [
+      ['name', 'ASC'],
+      ['value', 'ASC'],
+    ],
+    transaction,
+  })
+}
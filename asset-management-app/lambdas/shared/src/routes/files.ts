@@ -0,0 +1,351 @@
+import path from 'path'
+import { Op, type Transaction } from 'sequelize'
+import { env } from '../config/env'
+import { sequelize, AssetFile } from '../models'
+import { AssetFileRole, ShareRole, type AssetFileInstance, type AssetInstance } from '../types'
+import { ValidationError } from '../utils/validation'
+import { successResponse, noContentResponse } from '../utils/response'
+import { createDownloadUrl, deleteObjects, headObject } from '../utils/storage'
+import { assetPrefix, ownerPrefix, policyCategory, validateUpload } from '../utils/uploadPolicy'
+import { logger } from '../utils/logger'
+import { updateAssetWithRevision } from '../utils/revisions'
+import { assertStorageQuota } from '../utils/quotas'
+import { assetParamsSchema } from '../schemas/assets'
+import {
+  assetFileSchema,
+  createFileBodySchema,
+  downloadUrlQuerySchema,
+  downloadUrlSchema,
+  fileListSchema,
+  fileParamsSchema,
+  updateFileBodySchema,
+  type CreateFileInput,
+  type UpdateFileInput,
+} from '../schemas/files'
+import { withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { HttpError, notFound } from '../http/errors'
+import { withAuth, requireAuth } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import type { Route, RequestContext } from '../http/router'
+import { findAccessibleAsset, findOwnedAsset, listAssetFiles, requireAssetId, toFileResponse } from './common'
+
+export const MAX_FILES_PER_ASSET = 50
+
+/**
+ * Read the file ID path parameter and load the file, which must belong to the asset
+ */
+async function findAssetFile(ctx: RequestContext, asset: AssetInstance): Promise<AssetFileInstance> {
+  const fileId = ctx.params.fileId
+  if (!fileId) {
+    throw new ValidationError('File ID is required', 'fileId')
+  }
+
+  const file = await AssetFile.findOne({ where: { id: fileId, assetId: asset.id } })
+  if (!file) {
+    throw notFound('File not found')
+  }
+  return file
+}
+
+/**
+ * Make `file` the asset's primary file
+ * The previous primary file is kept as an attachment; imageKey mirrors the primary file's key
+ */
+async function promoteToPrimary(
+  asset: AssetInstance,
+  file: AssetFileInstance,
+  actorId: string,
+  transaction: Transaction
+): Promise<void> {
+  await AssetFile.update(
+    { role: AssetFileRole.ATTACHMENT },
+    { where: { assetId: asset.id, role: AssetFileRole.PRIMARY, id: { [Op.ne]: file.id } }, transaction }
+  )
+  await updateAssetWithRevision(asset, { imageKey: file.key }, { actorId, transaction })
+}
+
+export interface AttachFileInput {
+  key: string
+  role: AssetFileRole
+  // Hex SHA-256, already validated by the route schema
+  checksum?: string | null
+  // Caller recorded on the asset revision when the file becomes primary
+  actorId: string
+}
+
+/**
+ * Attach an uploaded object to an asset
+ *
+ * The key must come from POST /assets/{id}/upload-url for this asset. The stored object is
+ * checked against the upload policy for the role and the owner's storage quota, since the
+ * client controls what it actually uploaded; a rejected object is deleted.
+ */
+export async function attachFile(asset: AssetInstance, input: AttachFileInput): Promise<AssetFileInstance> {
+  const { key, role } = input
+  const checksum = input.checksum ?? null
+
+  if (!key.startsWith(assetPrefix(asset.ownerId, asset.id)) || key.includes('..')) {
+    throw new ValidationError('key must be a key returned by upload-url for this asset', 'key')
+  }
+  if (await AssetFile.count({ where: { key } })) {
+    throw new HttpError('This upload is already attached', 409)
+  }
+  if ((await AssetFile.count({ where: { assetId: asset.id } })) >= MAX_FILES_PER_ASSET) {
+    throw new HttpError(`Asset already has the maximum of ${MAX_FILES_PER_ASSET} files`, 409)
+  }
+
+  const object = await headObject(key)
+  if (!object) {
+    throw new HttpError('Upload not found. PUT the file to the upload URL before confirming it', 409)
+  }
+
+  try {
+    validateUpload(policyCategory(asset.category, role), object.contentType, object.size)
+    await assertStorageQuota(asset.ownerId, asset.category, object.size)
+  } catch (error) {
+    await deleteObjects([key])
+    throw error
+  }
+
+  // A legacy imageKey (set before AssetFiles existed) has no row to keep, so its object is removed
+  const legacyKey =
+    role === AssetFileRole.PRIMARY && asset.imageKey && !(await AssetFile.count({ where: { key: asset.imageKey } }))
+      ? asset.imageKey
+      : null
+
+  const file = await sequelize.transaction(async (transaction) => {
+    const created = await AssetFile.create(
+      { assetId: asset.id, key, mimeType: object.contentType as string, size: object.size, checksum, role },
+      { transaction }
+    )
+    if (role === AssetFileRole.PRIMARY) {
+      await promoteToPrimary(asset, created, input.actorId, transaction)
+    }
+    return created
+  })
+
+  // Best effort: a leftover object is harmless, so a failure is only logged
+  if (legacyKey && legacyKey.startsWith(ownerPrefix(asset.ownerId))) {
+    const failed = await deleteObjects([legacyKey]).catch(() => [legacyKey])
+    if (failed.length > 0) {
+      logger.warn('Could not delete previous asset object', { assetId: asset.id, key: legacyKey })
+    }
+  }
+
+  logger.info('File attached', { assetId: asset.id, fileId: file.id, role })
+
+  return file
+}
+
+/**
+ * GET /assets/{id}/files - List an asset's files
+ */
+export const listFilesRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/files',
+  errorMessage: 'Failed to list files',
+  schema: {
+    operationId: 'listFiles',
+    summary: "List an asset's files",
+    params: assetParamsSchema,
+    response: fileListSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), ShareRole.VIEWER)
+    const files = await listAssetFiles(asset.id)
+
+    return successResponse({ files: files.map(toFileResponse) })
+  },
+}
+
+/**
+ * POST /assets/{id}/files - Attach an uploaded file
+ *
+ * Body: createFileBodySchema (key returned by upload-url, role - default: attachment, optional checksum)
+ *
+ * Attaching a primary file sets the asset's imageKey; the previous primary becomes an attachment.
+ */
+export const createFileRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/files',
+  errorMessage: 'Failed to attach file',
+  schema: {
+    operationId: 'createFile',
+    summary: 'Attach an uploaded file',
+    params: assetParamsSchema,
+    body: createFileBodySchema,
+    response: assetFileSchema,
+    status: 201,
+    quotaLimited: true,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await findOwnedAsset(requireAssetId(ctx), ownerId)
+    const body: CreateFileInput = ctx.body
+
+    const file = await attachFile(asset, {
+      key: body.key,
+      role: body.role ?? AssetFileRole.ATTACHMENT,
+      checksum: body.checksum,
+      actorId: ownerId,
+    })
+
+    return successResponse(toFileResponse(file), 201)
+  },
+}
+
+/**
+ * GET /assets/{id}/files/{fileId} - Get file metadata
+ */
+export const getFileRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/files/{fileId}',
+  errorMessage: 'Failed to retrieve file',
+  schema: {
+    operationId: 'getFile',
+    summary: 'Get file metadata',
+    params: fileParamsSchema,
+    response: assetFileSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), ShareRole.VIEWER)
+    const file = await findAssetFile(ctx, asset)
+
+    return successResponse(toFileResponse(file))
+  },
+}
+
+/**
+ * PATCH /assets/{id}/files/{fileId} - Change a file's role or checksum
+ *
+ * Body: updateFileBodySchema (role, checksum - null clears it)
+ *
+ * The stored object must satisfy the upload policy of the new role.
+ */
+export const updateFileRoute: Route = {
+  method: 'PATCH',
+  resource: '/assets/{id}/files/{fileId}',
+  errorMessage: 'Failed to update file',
+  schema: {
+    operationId: 'updateFile',
+    summary: "Change a file's role or checksum",
+    params: fileParamsSchema,
+    body: updateFileBodySchema,
+    response: assetFileSchema,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await findOwnedAsset(requireAssetId(ctx), ownerId)
+    const file = await findAssetFile(ctx, asset)
+    const body: UpdateFileInput = ctx.body
+
+    const role = body.role ?? file.role
+    if (role !== file.role) {
+      validateUpload(policyCategory(asset.category, role), file.mimeType, file.size)
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      const wasPrimary = file.role === AssetFileRole.PRIMARY
+      await file.update(
+        { role, ...(body.checksum !== undefined && { checksum: body.checksum }) },
+        { transaction }
+      )
+      if (role === AssetFileRole.PRIMARY && !wasPrimary) {
+        await promoteToPrimary(asset, file, ownerId, transaction)
+      } else if (wasPrimary && role !== AssetFileRole.PRIMARY) {
+        await updateAssetWithRevision(asset, { imageKey: null }, { actorId: ownerId, transaction })
+      }
+    })
+
+    return successResponse(toFileResponse(file))
+  },
+}
+
+/**
+ * DELETE /assets/{id}/files/{fileId} - Delete a file and its S3 object
+ *
+ * Deleting the primary file clears the asset's imageKey.
+ */
+export const deleteFileRoute: Route = {
+  method: 'DELETE',
+  resource: '/assets/{id}/files/{fileId}',
+  errorMessage: 'Failed to delete file',
+  schema: {
+    operationId: 'deleteFile',
+    summary: 'Delete a file and its S3 object',
+    params: fileParamsSchema,
+    status: 204,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await findOwnedAsset(requireAssetId(ctx), ownerId)
+    const file = await findAssetFile(ctx, asset)
+
+    // Delete the object first so a failure leaves the row in place to retry
+    const failed = await deleteObjects([file.key])
+    if (failed.length > 0) {
+      throw new Error(`Could not delete object ${file.key}`)
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await file.destroy({ transaction })
+      if (asset.imageKey === file.key) {
+        await updateAssetWithRevision(asset, { imageKey: null }, { actorId: ownerId, transaction })
+      }
+    })
+
+    logger.info('File deleted', { assetId: asset.id, fileId: file.id })
+
+    return noContentResponse()
+  },
+}
+
+/**
+ * GET /assets/{id}/files/{fileId}/download-url - Presigned URL for downloading a file
+ *
+ * Query parameters:
+ * - attachment: Set to true to make browsers save the file (named after the asset) instead of displaying it
+ */
+export const fileDownloadUrlRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/files/{fileId}/download-url',
+  errorMessage: 'Failed to create download URL',
+  schema: {
+    operationId: 'createFileDownloadUrl',
+    summary: 'Presigned URL for downloading a file',
+    params: fileParamsSchema,
+    query: downloadUrlQuerySchema,
+    response: downloadUrlSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), ShareRole.VIEWER)
+    const file = await findAssetFile(ctx, asset)
+
+    const fileName = ctx.query.attachment === 'true' ? `${asset.name}${path.extname(file.key)}` : undefined
+    const downloadUrl = await createDownloadUrl(file.key, env.DOWNLOAD_URL_TTL_SECONDS, fileName)
+
+    return successResponse({
+      downloadUrl,
+      key: file.key,
+      expiresAt: new Date(Date.now() + env.DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+    })
+  },
+}
+
+/**
+ * File routes, in the order they are registered on the API
+ */
+export const fileRoutes: Route[] = [
+  listFilesRoute,
+  createFileRoute,
+  getFileRoute,
+  updateFileRoute,
+  deleteFileRoute,
+  fileDownloadUrlRoute,
+]
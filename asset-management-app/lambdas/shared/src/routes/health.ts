@@ -0,0 +1,121 @@
+import { env } from '../config/env'
+import { getPoolStats, testConnection } from '../config/dbHelper'
+import { checkSecretAccess, getSecretCacheAge } from '../config/secretsManager'
+import { jsonResponse, successResponse } from '../utils/response'
+import { logger } from '../utils/logger'
+import { withTimeout } from '../utils/timeout'
+import { livenessSchema, readinessSchema, type ReadinessReport } from '../schemas/health'
+import type { Route } from '../http/router'
+
+/**
+ * Health checks for uptime monitoring and load balancers
+ *
+ * Both routes are public (no Cognito token). Reports do not include hosts or error details
+ * that could help an attacker; failures are logged with the full error instead.
+ */
+
+// Health responses must never be served from a cache
+const NO_STORE = { 'Cache-Control': 'no-store' }
+
+const startedAt = Date.now()
+
+/**
+ * Run every readiness check; each one gives up after `timeoutMs`
+ */
+export async function checkReadiness(timeoutMs: number = env.HEALTH_CHECK_TIMEOUT_MS): Promise<ReadinessReport> {
+  const usesSecret = env.NODE_ENV === 'production' && env.DB_SECRET_NAME !== ''
+
+  const [database, secretsManager] = await Promise.all([
+    (async (): Promise<ReadinessReport['checks']['database']> => {
+      const result = await testConnection(timeoutMs)
+      if (result.success) {
+        return { status: 'ok', durationMs: result.durationMs }
+      }
+      logger.error('Readiness check failed', { check: 'database', reason: result.message })
+      return { status: 'fail', durationMs: result.durationMs, message: 'Database is unreachable' }
+    })(),
+    (async (): Promise<ReadinessReport['checks']['secretsManager']> => {
+      if (!usesSecret) {
+        return { status: 'skipped', durationMs: null, cacheAgeSeconds: null }
+      }
+      const cacheAgeSeconds = getSecretCacheAge(env.DB_SECRET_NAME)
+      const checkStartedAt = Date.now()
+      try {
+        await withTimeout(checkSecretAccess(env.DB_SECRET_NAME), timeoutMs, 'Secrets Manager check')
+        return { status: 'ok', durationMs: Date.now() - checkStartedAt, cacheAgeSeconds }
+      } catch (error) {
+        logger.error('Readiness check failed', { check: 'secretsManager', error })
+        return {
+          status: 'fail',
+          durationMs: Date.now() - checkStartedAt,
+          cacheAgeSeconds,
+          message: 'Secrets Manager is unreachable',
+        }
+      }
+    })(),
+  ])
+
+  return {
+    status: database.status === 'fail' || secretsManager.status === 'fail' ? 'degraded' : 'ok',
+    version: env.BUILD_VERSION,
+    timestamp: new Date().toISOString(),
+    checks: { database, secretsManager },
+    pool: getPoolStats(),
+  }
+}
+
+/**
+ * GET /health - Liveness
+ *
+ * Answers without touching any dependency, so it only fails when the Lambda itself does.
+ */
+export const livenessRoute: Route = {
+  method: 'GET',
+  resource: '/health',
+  errorMessage: 'Health check failed',
+  schema: {
+    operationId: 'getHealth',
+    summary: 'Liveness check',
+    response: livenessSchema,
+  },
+  handler: async () =>
+    successResponse(
+      {
+        status: 'ok',
+        version: env.BUILD_VERSION,
+        uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+        timestamp: new Date().toISOString(),
+      },
+      200,
+      NO_STORE
+    ),
+}
+
+/**
+ * GET /health/ready - Readiness
+ *
+ * Checks the database (with a timeout) and, when credentials come from it, Secrets Manager,
+ * and reports pool statistics and the build version.
+ * Returns 200 when every check passes and 503 with the same report when degraded.
+ */
+export const readinessRoute: Route = {
+  method: 'GET',
+  resource: '/health/ready',
+  errorMessage: 'Readiness check failed',
+  schema: {
+    operationId: 'getReadiness',
+    summary: 'Readiness check of the database and Secrets Manager',
+    response: readinessSchema,
+    alternateStatuses: [503],
+  },
+  handler: async () => {
+    const report = await checkReadiness()
+    const ok = report.status === 'ok'
+    return jsonResponse({ success: ok, data: report }, ok ? 200 : 503, NO_STORE)
+  },
+}
+
+/**
+ * Health routes, in the order they are registered on the API
+ */
+export const healthRoutes: Route[] = [livenessRoute, readinessRoute]
@@ -0,0 +1,42 @@
+import type { Route } from '../http/router'
+import type { OpenApiInfo } from '../http/openapi'
+import { assetRoutes } from './assets'
+import { bulkRoutes } from './bulk'
+import { importExportRoutes } from './importExport'
+import { uploadRoutes } from './uploads'
+import { fileRoutes } from './files'
+import { revisionRoutes } from './revisions'
+import { tagRoutes } from './tags'
+import { shareRoutes } from './shares'
+import { shareLinkRoutes } from './shareLinks'
+import { quotaRoutes } from './quotas'
+import { auditRoutes } from './audit'
+import { healthRoutes } from './health'
+import { createOpenApiRoute } from './openapi'
+
+/**
+ * Title and version of the API in the OpenAPI document
+ */
+export const API_INFO: OpenApiInfo = {
+  title: 'Asset Management API',
+  version: '1.0.0',
+}
+
+/**
+ * Every route served by the routed `api` function, in registration order
+ */
+export const apiRoutes: Route[] = [
+  ...assetRoutes,
+  ...bulkRoutes,
+  ...importExportRoutes,
+  ...uploadRoutes,
+  ...fileRoutes,
+  ...revisionRoutes,
+  ...tagRoutes,
+  ...shareRoutes,
+  ...shareLinkRoutes,
+  ...quotaRoutes,
+  ...auditRoutes,
+  ...healthRoutes,
+  createOpenApiRoute(() => apiRoutes, API_INFO),
+]
@@ -0,0 +1,27 @@
+import { jsonResponse } from '../utils/response'
+import { buildOpenApiDocument, type OpenApiInfo } from '../http/openapi'
+import type { Route } from '../http/router'
+
+/**
+ * GET /openapi.json - OpenAPI document for the API
+ *
+ * Public (no Cognito token) so tooling and the client generator can fetch it. The document is
+ * built from `getRoutes()` on first use and cached for the lifetime of the Lambda container.
+ */
+export function createOpenApiRoute(getRoutes: () => Route[], info: OpenApiInfo): Route {
+  let document: Record<string, unknown> | null = null
+
+  return {
+    method: 'GET',
+    resource: '/openapi.json',
+    errorMessage: 'Failed to build OpenAPI document',
+    schema: {
+      operationId: 'getOpenApiDocument',
+      summary: 'OpenAPI document for this API (plain JSON, not wrapped in the success envelope)',
+    },
+    handler: async () => {
+      document ??= buildOpenApiDocument(getRoutes(), info)
+      return jsonResponse(document, 200, { 'Cache-Control': 'public, max-age=300' })
+    },
+  }
+}
@@ -0,0 +1,120 @@
+import { OwnerLimit } from '../models'
+import type { AssetCategory } from '../types'
+import { ValidationError } from '../utils/validation'
+import { successResponse } from '../utils/response'
+import { logger } from '../utils/logger'
+import { getOwnerLimits, getUsageSummary, type CategoryBytes } from '../utils/quotas'
+import {
+  ownerParamsSchema,
+  updateOwnerLimitsBodySchema,
+  usageSummarySchema,
+  type UpdateOwnerLimitsInput,
+} from '../schemas/quotas'
+import { withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { withAuth, withAdmin, requireAuth } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import type { Route, RequestContext } from '../http/router'
+
+/**
+ * Read the owner ID path parameter
+ */
+function requireOwnerId(ctx: RequestContext): string {
+  const ownerId = ctx.params.ownerId
+  if (!ownerId) {
+    throw new ValidationError('Owner ID is required', 'ownerId')
+  }
+  return ownerId
+}
+
+/**
+ * GET /usage - The caller's limits and current usage
+ *
+ * Shown on the dashboard. Assets in the trash and their files do not count towards the quotas.
+ */
+export const getUsageRoute: Route = {
+  method: 'GET',
+  resource: '/usage',
+  errorMessage: 'Failed to retrieve usage',
+  schema: {
+    operationId: 'getUsage',
+    summary: "The caller's rate limit, quotas and current usage",
+    response: usageSummarySchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    return successResponse(await getUsageSummary(ownerId))
+  },
+}
+
+/**
+ * GET /admin/limits/{ownerId} - A user's limits, overrides and usage (administrators only)
+ */
+export const getOwnerLimitsRoute: Route = {
+  method: 'GET',
+  resource: '/admin/limits/{ownerId}',
+  errorMessage: 'Failed to retrieve limits',
+  schema: {
+    operationId: 'getOwnerLimits',
+    summary: "A user's limits and usage (administrators only)",
+    params: ownerParamsSchema,
+    response: usageSummarySchema,
+  },
+  middlewares: [withAuth, withAdmin, withValidation, withDatabase],
+  handler: async (ctx) => {
+    return successResponse(await getUsageSummary(requireOwnerId(ctx)))
+  },
+}
+
+/**
+ * PUT /admin/limits/{ownerId} - Set a user's limit overrides (administrators only)
+ *
+ * Body: updateOwnerLimitsBodySchema. Omitted fields keep their override and null resets a limit
+ * (or one category's byte limit) to the env default. Lowering a quota below the current usage
+ * does not remove anything; it only blocks new assets and uploads.
+ */
+export const updateOwnerLimitsRoute: Route = {
+  method: 'PUT',
+  resource: '/admin/limits/{ownerId}',
+  errorMessage: 'Failed to update limits',
+  schema: {
+    operationId: 'updateOwnerLimits',
+    summary: "Set a user's limit overrides (administrators only)",
+    params: ownerParamsSchema,
+    body: updateOwnerLimitsBodySchema,
+    response: usageSummarySchema,
+  },
+  middlewares: [withAuth, withAdmin, withJsonBody({ required: true }), withValidation, withDatabase],
+  handler: async (ctx) => {
+    const { ownerId: adminId } = requireAuth(ctx)
+    const ownerId = requireOwnerId(ctx)
+    const body: UpdateOwnerLimitsInput = ctx.body
+    const { overrides } = await getOwnerLimits(ownerId)
+
+    const maxBytesPerCategory: Partial<CategoryBytes> = { ...overrides.maxBytesPerCategory }
+    for (const [category, bytes] of Object.entries(body.maxBytesPerCategory ?? {})) {
+      if (bytes === null || bytes === undefined) {
+        delete maxBytesPerCategory[category as AssetCategory]
+      } else {
+        maxBytesPerCategory[category as AssetCategory] = bytes
+      }
+    }
+
+    await OwnerLimit.upsert({
+      ownerId,
+      requestsPerMinute: body.requestsPerMinute === undefined ? overrides.requestsPerMinute : body.requestsPerMinute,
+      maxAssets: body.maxAssets === undefined ? overrides.maxAssets : body.maxAssets,
+      maxBytesPerCategory: Object.keys(maxBytesPerCategory).length > 0 ? maxBytesPerCategory : null,
+      updatedBy: adminId,
+    })
+
+    logger.info('Owner limits updated', { ownerId, updatedBy: adminId })
+
+    return successResponse(await getUsageSummary(ownerId))
+  },
+}
+
+/**
+ * Usage and limit routes, in the order they are registered on the API
+ */
+export const quotaRoutes: Route[] = [getUsageRoute, getOwnerLimitsRoute, updateOwnerLimitsRoute]
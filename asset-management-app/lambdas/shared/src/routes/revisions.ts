@@ -0,0 +1,132 @@
+import { sequelize, AssetRevision } from '../models'
+import { RevisionAction, ShareRole, type AssetRevisionInstance } from '../types'
+import { successResponse } from '../utils/response'
+import { RESTORABLE_FIELDS, updateAssetWithRevision } from '../utils/revisions'
+import { logger } from '../utils/logger'
+import { assetParamsSchema, assetSchema } from '../schemas/assets'
+import { listRevisionsQuerySchema, revisionListSchema, revisionParamsSchema } from '../schemas/revisions'
+import { withDatabase, withValidation } from '../http/middleware'
+import { notFound } from '../http/errors'
+import { withAuth, requireAuth } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import { checkIfMatch, etagHeader, ifMatchHeadersSchema } from '../http/conditional'
+import type { Route } from '../http/router'
+import { findAccessibleAsset, requireAssetId, toAssetResponse } from './common'
+
+/**
+ * Serialize a revision for API responses
+ */
+function toRevisionResponse(revision: AssetRevisionInstance) {
+  return {
+    id: revision.id,
+    assetId: revision.assetId,
+    revision: revision.revision,
+    action: revision.action,
+    actorId: revision.actorId,
+    changes: revision.changes,
+    revertedTo: revision.revertedTo,
+    createdAt: revision.createdAt,
+  }
+}
+
+/**
+ * GET /assets/{id}/revisions - List an asset's revisions (newest first)
+ *
+ * Query parameters: listRevisionsQuerySchema (limit, offset)
+ */
+export const listRevisionsRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/revisions',
+  errorMessage: 'Failed to list revisions',
+  schema: {
+    operationId: 'listAssetRevisions',
+    summary: "List an asset's revisions",
+    params: assetParamsSchema,
+    query: listRevisionsQuerySchema,
+    response: revisionListSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), ShareRole.VIEWER)
+    const limit = Math.min(parseInt(ctx.query.limit || '20'), 100)
+    const offset = parseInt(ctx.query.offset || '0')
+
+    const { count, rows: revisions } = await AssetRevision.findAndCountAll({
+      where: { assetId: asset.id },
+      limit,
+      offset,
+      order: [['revision', 'DESC']],
+    })
+
+    return successResponse({
+      revisions: revisions.map(toRevisionResponse),
+      pagination: {
+        total: count,
+        limit,
+        offset,
+        currentPage: Math.floor(offset / limit) + 1,
+        totalPages: Math.ceil(count / limit),
+        hasMore: offset + limit < count,
+      },
+    })
+  },
+}
+
+/**
+ * POST /assets/{id}/revisions/{revision}/restore - Roll an asset back to a revision
+ *
+ * Writes the revision's name, description, category and status back to the asset and records a
+ * `reverted` revision (none when nothing changes). Files are not affected.
+ * Supports If-Match like PATCH /assets/{id}, and like PATCH editors of a shared asset can use it.
+ * Restoring another category returns 413 when the asset's files would exceed the owner's quota for it.
+ */
+export const restoreRevisionRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/revisions/{revision}/restore',
+  errorMessage: 'Failed to restore revision',
+  schema: {
+    operationId: 'restoreAssetRevision',
+    summary: 'Restore the values of an earlier revision',
+    params: revisionParamsSchema,
+    headers: ifMatchHeadersSchema,
+    response: assetSchema,
+    quotaLimited: true,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), auth, ShareRole.EDITOR)
+    checkIfMatch(ctx, asset)
+
+    const target = await AssetRevision.findOne({
+      where: { assetId: asset.id, revision: parseInt(ctx.params.revision as string) },
+    })
+    if (!target) {
+      throw notFound('Revision not found')
+    }
+
+    const values = Object.fromEntries(
+      RESTORABLE_FIELDS.filter((field) => target.snapshot[field] !== undefined).map((field) => [
+        field,
+        target.snapshot[field],
+      ])
+    )
+    await sequelize.transaction((transaction) =>
+      updateAssetWithRevision(asset, values, {
+        action: RevisionAction.REVERTED,
+        actorId: auth.ownerId,
+        revertedTo: target.revision,
+        transaction,
+      })
+    )
+
+    logger.info('Asset reverted', { assetId: asset.id, revision: target.revision })
+
+    return successResponse(toAssetResponse(asset), 200, etagHeader(asset))
+  },
+}
+
+/**
+ * Revision routes, in the order they are registered on the API
+ */
+export const revisionRoutes: Route[] = [listRevisionsRoute, restoreRevisionRoute]
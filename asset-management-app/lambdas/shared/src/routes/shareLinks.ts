@@ -0,0 +1,317 @@
+import path from 'path'
+import { Op } from 'sequelize'
+import { env } from '../config/env'
+import { sequelize, Asset, AssetFile, ShareLink } from '../models'
+import { AssetFileRole, AuditAction, ShareLinkStatus, type ShareLinkInstance } from '../types'
+import { successResponse, noContentResponse } from '../utils/response'
+import { ValidationError } from '../utils/validation'
+import { logger } from '../utils/logger'
+import { snapshotAsset } from '../utils/revisions'
+import { recordAuditEvent } from '../utils/audit'
+import { createDownloadUrl } from '../utils/storage'
+import { ownerPrefix } from '../utils/uploadPolicy'
+import {
+  downloadsRemaining,
+  generateLinkToken,
+  hashLinkPassword,
+  hashLinkToken,
+  linkStatus,
+  lockoutSecondsRemaining,
+  recordFailedPassword,
+  recordLinkAccess,
+  verifyLinkPassword,
+} from '../utils/shareLinks'
+import { assetParamsSchema } from '../schemas/assets'
+import {
+  LINK_PASSWORD_HEADER,
+  SHARE_LINK_LIMITS,
+  createShareLinkBodySchema,
+  createdShareLinkSchema,
+  shareLinkListSchema,
+  shareLinkParamsSchema,
+  sharedAssetSchema,
+  sharedLinkHeadersSchema,
+  sharedTokenParamsSchema,
+  type CreateShareLinkInput,
+} from '../schemas/shareLinks'
+import { getHeader, withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { HttpError, gone, notFound, tooManyRequests } from '../http/errors'
+import { withAuth, requireAuth } from '../http/auth'
+import { withIpRateLimit, withRateLimit } from '../http/rateLimit'
+import type { Route } from '../http/router'
+import { findAccessibleAsset, requireAssetId } from './common'
+
+// Responses with a presigned URL must never be served from a cache
+const NO_STORE = { 'Cache-Control': 'no-store' }
+
+const GONE_MESSAGES: Record<Exclude<ShareLinkStatus, ShareLinkStatus.ACTIVE>, string> = {
+  [ShareLinkStatus.EXPIRED]: 'This link has expired',
+  [ShareLinkStatus.REVOKED]: 'This link has been revoked',
+  [ShareLinkStatus.EXHAUSTED]: 'This link has no downloads left',
+}
+
+/**
+ * Serialize a share link for its owner (the token is not stored, so it is never included)
+ */
+function toShareLinkResponse(link: ShareLinkInstance, now: Date = new Date()) {
+  return {
+    id: link.id,
+    assetId: link.assetId,
+    status: linkStatus(link, now),
+    hasPassword: link.passwordHash !== null,
+    expiresAt: link.expiresAt,
+    maxDownloads: link.maxDownloads,
+    downloadCount: link.downloadCount,
+    accessCount: link.accessCount,
+    lastAccessedAt: link.lastAccessedAt,
+    revokedAt: link.revokedAt,
+    createdBy: link.createdBy,
+    createdAt: link.createdAt,
+  }
+}
+
+/**
+ * Expiry of a new link: the requested time, or SHARE_LINK_DEFAULT_TTL_HOURS from now
+ */
+function resolveExpiry(expiresAt: string | undefined, now: Date): Date {
+  if (expiresAt === undefined) {
+    return new Date(now.getTime() + env.SHARE_LINK_DEFAULT_TTL_HOURS * 3600 * 1000)
+  }
+
+  const expiry = new Date(expiresAt)
+  if (expiry.getTime() <= now.getTime()) {
+    throw new ValidationError('expiresAt must be in the future', 'expiresAt')
+  }
+  if (expiry.getTime() > now.getTime() + env.SHARE_LINK_MAX_TTL_DAYS * 86400 * 1000) {
+    throw new ValidationError(`expiresAt must be within ${env.SHARE_LINK_MAX_TTL_DAYS} days`, 'expiresAt')
+  }
+  return expiry
+}
+
+/**
+ * GET /assets/{id}/links - List an asset's public links (owner only)
+ *
+ * Revoked and expired links are listed too, with their status and access counts.
+ */
+export const listShareLinksRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/links',
+  errorMessage: 'Failed to list links',
+  schema: {
+    operationId: 'listShareLinks',
+    summary: "List an asset's public share links",
+    params: assetParamsSchema,
+    response: shareLinkListSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), 'owner')
+    const links = await ShareLink.findAll({ where: { assetId: asset.id }, order: [['createdAt', 'DESC']] })
+    const now = new Date()
+
+    return successResponse({ links: links.map((link) => toShareLinkResponse(link, now)) })
+  },
+}
+
+/**
+ * POST /assets/{id}/links - Create a public link to an asset (owner only)
+ *
+ * Body: createShareLinkBodySchema (expiresAt, maxDownloads, password; all optional).
+ * The response includes the token, which cannot be retrieved later.
+ * Returns 409 once the asset has SHARE_LINK_LIMITS.linksPerAsset links that can still be opened.
+ */
+export const createShareLinkRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/links',
+  errorMessage: 'Failed to create link',
+  schema: {
+    operationId: 'createShareLink',
+    summary: 'Create a public link to an asset',
+    params: assetParamsSchema,
+    body: createShareLinkBodySchema,
+    response: createdShareLinkSchema,
+    status: 201,
+  },
+  middlewares: [withAuth, withJsonBody(), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), auth, 'owner')
+    const body: CreateShareLinkInput = ctx.body
+    const now = new Date()
+    const expiresAt = resolveExpiry(body.expiresAt, now)
+    const passwordHash = body.password ? await hashLinkPassword(body.password) : null
+    const token = generateLinkToken()
+
+    const link = await sequelize.transaction(async (transaction) => {
+      const open = await ShareLink.count({
+        where: { assetId: asset.id, revokedAt: null, expiresAt: { [Op.gt]: now } },
+        transaction,
+      })
+      if (open >= SHARE_LINK_LIMITS.linksPerAsset) {
+        throw new HttpError(`Asset already has the maximum of ${SHARE_LINK_LIMITS.linksPerAsset} open links`, 409)
+      }
+
+      return ShareLink.create(
+        {
+          assetId: asset.id,
+          tokenHash: hashLinkToken(token),
+          passwordHash,
+          expiresAt,
+          maxDownloads: body.maxDownloads ?? null,
+          createdBy: auth.ownerId,
+        },
+        { transaction }
+      )
+    })
+
+    logger.info('Share link created', { assetId: asset.id, linkId: link.id, expiresAt })
+
+    return successResponse({ ...toShareLinkResponse(link, now), token }, 201)
+  },
+}
+
+/**
+ * DELETE /assets/{id}/links/{linkId} - Revoke a public link (owner only)
+ *
+ * The link is kept, with its counts, and stops working at once. Revoking it again returns 204.
+ */
+export const revokeShareLinkRoute: Route = {
+  method: 'DELETE',
+  resource: '/assets/{id}/links/{linkId}',
+  errorMessage: 'Failed to revoke link',
+  schema: {
+    operationId: 'revokeShareLink',
+    summary: 'Revoke a public share link',
+    params: shareLinkParamsSchema,
+    status: 204,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), 'owner')
+    const link = await ShareLink.findOne({ where: { id: ctx.params.linkId, assetId: asset.id } })
+
+    if (!link) {
+      throw notFound('Link not found')
+    }
+    if (!link.revokedAt) {
+      await link.update({ revokedAt: new Date() })
+      logger.info('Share link revoked', { assetId: asset.id, linkId: link.id })
+    }
+
+    return noContentResponse()
+  },
+}
+
+/**
+ * GET /shared/{token} - Open a public share link (no authentication)
+ *
+ * Returns the asset's name, description and category and, when it has a primary file, a download
+ * URL valid for DOWNLOAD_URL_TTL_SECONDS. Each successful request counts as an access, and as a
+ * download when a URL is issued. Password-protected links need the X-Link-Password header (401).
+ * Unknown tokens return 404; revoked, expired and used-up links, and assets in the trash, return 410.
+ * After SHARE_LINK_MAX_PASSWORD_ATTEMPTS incorrect passwords the link answers 429 with Retry-After
+ * until its lockout ends, and each IP address gets SHARE_LINK_REQUESTS_PER_MINUTE_PER_IP requests.
+ */
+export const getSharedAssetRoute: Route = {
+  method: 'GET',
+  resource: '/shared/{token}',
+  errorMessage: 'Failed to open link',
+  schema: {
+    operationId: 'getSharedAsset',
+    summary: 'Open a public share link',
+    params: sharedTokenParamsSchema,
+    headers: sharedLinkHeadersSchema,
+    response: sharedAssetSchema,
+    shareLink: true,
+  },
+  middlewares: [withValidation, withDatabase, withIpRateLimit],
+  handler: async (ctx) => {
+    const now = new Date()
+    const link = await ShareLink.findOne({ where: { tokenHash: hashLinkToken(ctx.params.token ?? '') } })
+
+    if (!link) {
+      throw notFound('Link not found')
+    }
+    const status = linkStatus(link, now)
+    if (status !== ShareLinkStatus.ACTIVE) {
+      throw gone(GONE_MESSAGES[status])
+    }
+    const asset = await Asset.findByPk(link.assetId)
+    if (!asset) {
+      throw gone('The shared asset is no longer available')
+    }
+
+    if (link.passwordHash) {
+      // Checked before the password, so a locked link costs no scrypt run
+      const lockedFor = lockoutSecondsRemaining(link, now)
+      if (lockedFor > 0) {
+        throw tooManyRequests(lockedFor, `Too many incorrect passwords; retry in ${lockedFor} seconds`)
+      }
+      const password = getHeader(ctx.event, LINK_PASSWORD_HEADER)
+      if (!password) {
+        throw new HttpError('This link requires a password', 401)
+      }
+      if (!(await verifyLinkPassword(password, link.passwordHash))) {
+        const lockoutSeconds = await recordFailedPassword(link, now)
+        logger.warn('Share link password rejected', { linkId: link.id, locked: lockoutSeconds > 0 })
+        if (lockoutSeconds > 0) {
+          throw tooManyRequests(lockoutSeconds, `Too many incorrect passwords; retry in ${lockoutSeconds} seconds`)
+        }
+        throw new HttpError('Incorrect password', 401)
+      }
+    }
+
+    const file = await AssetFile.findOne({ where: { assetId: asset.id, role: AssetFileRole.PRIMARY } })
+    // Keys outside the owner's prefix are not served, as in GET /assets/{id}/download-url
+    const downloadable = file !== null && file.key.startsWith(ownerPrefix(asset.ownerId))
+
+    if (!(await recordLinkAccess(link, downloadable, now))) {
+      throw gone(GONE_MESSAGES[ShareLinkStatus.EXHAUSTED])
+    }
+
+    const snapshot = snapshotAsset(asset)
+    await recordAuditEvent(asset, {
+      action: AuditAction.VIEWED,
+      actorId: `link:${link.id}`,
+      before: snapshot,
+      after: snapshot,
+    })
+    logger.info('Share link opened', { assetId: asset.id, linkId: link.id, download: downloadable })
+
+    return successResponse(
+      {
+        asset: {
+          name: asset.name,
+          description: asset.description,
+          category: asset.category,
+          updatedAt: asset.updatedAt,
+        },
+        file: downloadable
+          ? {
+              mimeType: file.mimeType,
+              size: file.size,
+              downloadUrl: await createDownloadUrl(
+                file.key,
+                env.DOWNLOAD_URL_TTL_SECONDS,
+                `${asset.name}${path.extname(file.key)}`
+              ),
+              downloadUrlExpiresAt: new Date(now.getTime() + env.DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+            }
+          : null,
+        link: { expiresAt: link.expiresAt, downloadsRemaining: downloadsRemaining(link) },
+      },
+      200,
+      NO_STORE
+    )
+  },
+}
+
+/**
+ * Share link routes, in the order they are registered on the API
+ */
+export const shareLinkRoutes: Route[] = [
+  listShareLinksRoute,
+  createShareLinkRoute,
+  revokeShareLinkRoute,
+  getSharedAssetRoute,
+]
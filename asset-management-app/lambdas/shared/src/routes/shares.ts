@@ -0,0 +1,154 @@
+import { sequelize, AssetShare } from '../models'
+import { ShareGranteeType, type AssetShareInstance, type ShareRole } from '../types'
+import { successResponse, noContentResponse } from '../utils/response'
+import { ValidationError } from '../utils/validation'
+import { logger } from '../utils/logger'
+import { assetParamsSchema } from '../schemas/assets'
+import {
+  SHARE_LIMITS,
+  createShareBodySchema,
+  shareListSchema,
+  shareParamsSchema,
+  shareSchema,
+  type CreateShareInput,
+} from '../schemas/shares'
+import { withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { HttpError, notFound } from '../http/errors'
+import { withAuth, requireAuth } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import type { Route } from '../http/router'
+import { findAccessibleAsset, requireAssetId } from './common'
+
+/**
+ * Serialize a share for API responses
+ */
+function toShareResponse(share: AssetShareInstance) {
+  return {
+    id: share.id,
+    assetId: share.assetId,
+    granteeType: share.granteeType,
+    granteeId: share.granteeId,
+    role: share.role,
+    createdBy: share.createdBy,
+    createdAt: share.createdAt,
+    updatedAt: share.updatedAt,
+  }
+}
+
+/**
+ * GET /assets/{id}/shares - List who an asset is shared with (owner only)
+ */
+export const listAssetSharesRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/shares',
+  errorMessage: 'Failed to list shares',
+  schema: {
+    operationId: 'listAssetShares',
+    summary: 'List the users and groups an asset is shared with',
+    params: assetParamsSchema,
+    response: shareListSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), 'owner')
+    const shares = await AssetShare.findAll({
+      where: { assetId: asset.id },
+      order: [
+        ['granteeType', 'DESC'],
+        ['createdAt', 'ASC'],
+      ],
+    })
+
+    return successResponse({ shares: shares.map(toShareResponse) })
+  },
+}
+
+/**
+ * POST /assets/{id}/shares - Share an asset with a user or group (owner only)
+ *
+ * Body: createShareBodySchema (granteeType defaults to user). Sharing again with the same grantee
+ * changes the role and returns 200 instead of 201. Returns 400 for a share with the owner and 409
+ * once the asset has SHARE_LIMITS.sharesPerAsset shares.
+ */
+export const shareAssetRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/shares',
+  errorMessage: 'Failed to share asset',
+  schema: {
+    operationId: 'shareAsset',
+    summary: 'Share an asset with a user or group, or change their role',
+    params: assetParamsSchema,
+    body: createShareBodySchema,
+    response: shareSchema,
+    status: 201,
+    alternateStatuses: [200],
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const auth = requireAuth(ctx)
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), auth, 'owner')
+    const body: CreateShareInput = ctx.body
+    const granteeType = (body.granteeType ?? ShareGranteeType.USER) as ShareGranteeType
+    const role = body.role as ShareRole
+
+    if (granteeType === ShareGranteeType.USER && body.granteeId === auth.ownerId) {
+      throw new ValidationError('You cannot share an asset with yourself', 'granteeId')
+    }
+
+    const [share, created] = await sequelize.transaction(async (transaction) => {
+      const existing = await AssetShare.findOne({
+        where: { assetId: asset.id, granteeType, granteeId: body.granteeId },
+        transaction,
+      })
+      if (existing) {
+        return [await existing.update({ role }, { transaction }), false] as const
+      }
+
+      if ((await AssetShare.count({ where: { assetId: asset.id }, transaction })) >= SHARE_LIMITS.sharesPerAsset) {
+        throw new HttpError(`Asset already has the maximum of ${SHARE_LIMITS.sharesPerAsset} shares`, 409)
+      }
+
+      const share = await AssetShare.create(
+        { assetId: asset.id, granteeType, granteeId: body.granteeId, role, createdBy: auth.ownerId },
+        { transaction }
+      )
+      return [share, true] as const
+    })
+
+    logger.info(created ? 'Asset shared' : 'Share role changed', { assetId: asset.id, shareId: share.id, role })
+
+    return successResponse(toShareResponse(share), created ? 201 : 200)
+  },
+}
+
+/**
+ * DELETE /assets/{id}/shares/{shareId} - Stop sharing an asset with a user or group (owner only)
+ */
+export const unshareAssetRoute: Route = {
+  method: 'DELETE',
+  resource: '/assets/{id}/shares/{shareId}',
+  errorMessage: 'Failed to remove share',
+  schema: {
+    operationId: 'unshareAsset',
+    summary: 'Stop sharing an asset with a user or group',
+    params: shareParamsSchema,
+    status: 204,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), 'owner')
+    const removed = await AssetShare.destroy({ where: { id: ctx.params.shareId, assetId: asset.id } })
+
+    if (removed === 0) {
+      throw notFound('Share not found')
+    }
+    logger.info('Share removed', { assetId: asset.id, shareId: ctx.params.shareId })
+
+    return noContentResponse()
+  },
+}
+
+/**
+ * Share routes, in the order they are registered on the API
+ */
+export const shareRoutes: Route[] = [listAssetSharesRoute, shareAssetRoute, unshareAssetRoute]
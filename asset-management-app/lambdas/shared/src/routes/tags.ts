@@ -0,0 +1,185 @@
+import { literal, type Transaction } from 'sequelize'
+import { sequelize, AssetTag, Tag } from '../models'
+import { ShareRole, type TagInstance } from '../types'
+import { successResponse, noContentResponse } from '../utils/response'
+import { logger } from '../utils/logger'
+import { assetParamsSchema } from '../schemas/assets'
+import {
+  TAG_LIMITS,
+  addTagBodySchema,
+  assetTagParamsSchema,
+  ownerTagListSchema,
+  tagListSchema,
+  tagSchema,
+  type AddTagInput,
+} from '../schemas/tags'
+import { withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { HttpError } from '../http/errors'
+import { withAuth, requireAuth } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import type { Route } from '../http/router'
+import { findAccessibleAsset, findOwnedAsset, listAssetTags, requireAssetId, toTagResponse } from './common'
+
+/**
+ * Delete a tag once no asset uses it, so the owner's tag list only shows tags in use
+ * Links from trashed assets still count; the purge job removes those
+ */
+export async function deleteUnusedTag(tag: TagInstance, transaction: Transaction): Promise<void> {
+  if ((await AssetTag.count({ where: { tagId: tag.id }, transaction })) === 0) {
+    await tag.destroy({ transaction })
+  }
+}
+
+/**
+ * GET /tags - List the caller's tags
+ *
+ * Each tag includes the number of assets (not in the trash) that have it, for tag filters.
+ */
+export const listTagsRoute: Route = {
+  method: 'GET',
+  resource: '/tags',
+  errorMessage: 'Failed to list tags',
+  schema: {
+    operationId: 'listTags',
+    summary: "List the caller's tags with usage counts",
+    response: ownerTagListSchema,
+  },
+  middlewares: [withAuth, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+
+    const tags = await Tag.findAll({
+      where: { ownerId },
+      attributes: {
+        include: [
+          [
+            literal(
+              '(SELECT COUNT(*) FROM `AssetTags` AS `at` INNER JOIN `Assets` AS `a` ON `a`.`id` = `at`.`assetId` ' +
+                'WHERE `at`.`tagId` = `Tag`.`id` AND `a`.`deletedAt` IS NULL)'
+            ),
+            'assetCount',
+          ],
+        ],
+      },
+      order: [
+        ['name', 'ASC'],
+        ['value', 'ASC'],
+      ],
+    })
+
+    return successResponse({
+      tags: tags.map((tag) => ({ ...toTagResponse(tag), assetCount: Number(tag.get('assetCount')) })),
+    })
+  },
+}
+
+/**
+ * GET /assets/{id}/tags - List an asset's tags
+ */
+export const listAssetTagsRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/tags',
+  errorMessage: 'Failed to list tags',
+  schema: {
+    operationId: 'listAssetTags',
+    summary: "List an asset's tags",
+    params: assetParamsSchema,
+    response: tagListSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), ShareRole.VIEWER)
+    const tags = await listAssetTags(asset.id)
+
+    return successResponse({ tags: tags.map(toTagResponse) })
+  },
+}
+
+/**
+ * POST /assets/{id}/tags - Tag an asset
+ *
+ * Body: addTagBodySchema (name, value). The caller's tag with the same name and value is reused
+ * (names and values compare case-insensitively), otherwise it is created.
+ * Returns 409 if the asset already has the tag or has TAG_LIMITS.tagsPerAsset tags.
+ */
+export const addAssetTagRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/tags',
+  errorMessage: 'Failed to add tag',
+  schema: {
+    operationId: 'addAssetTag',
+    summary: 'Add a tag to an asset',
+    params: assetParamsSchema,
+    body: addTagBodySchema,
+    response: tagSchema,
+    status: 201,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await findOwnedAsset(requireAssetId(ctx), ownerId)
+    const body: AddTagInput = ctx.body
+
+    const tag = await sequelize.transaction(async (transaction) => {
+      const [tag] = await Tag.findOrCreate({
+        where: { ownerId, name: body.name, value: body.value ?? '' },
+        transaction,
+      })
+
+      if (await AssetTag.count({ where: { assetId: asset.id, tagId: tag.id }, transaction })) {
+        throw new HttpError('Asset already has this tag', 409)
+      }
+      if ((await AssetTag.count({ where: { assetId: asset.id }, transaction })) >= TAG_LIMITS.tagsPerAsset) {
+        throw new HttpError(`Asset already has the maximum of ${TAG_LIMITS.tagsPerAsset} tags`, 409)
+      }
+
+      await AssetTag.create({ assetId: asset.id, tagId: tag.id, createdBy: ownerId }, { transaction })
+      return tag
+    })
+
+    logger.info('Tag added', { assetId: asset.id, tagId: tag.id })
+
+    return successResponse(toTagResponse(tag), 201)
+  },
+}
+
+/**
+ * DELETE /assets/{id}/tags/{tagId} - Remove a tag from an asset
+ *
+ * Returns 204 even when the asset does not have the tag, for idempotency.
+ * The tag itself is deleted once no asset uses it.
+ */
+export const removeAssetTagRoute: Route = {
+  method: 'DELETE',
+  resource: '/assets/{id}/tags/{tagId}',
+  errorMessage: 'Failed to remove tag',
+  schema: {
+    operationId: 'removeAssetTag',
+    summary: 'Remove a tag from an asset',
+    params: assetTagParamsSchema,
+    status: 204,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await findOwnedAsset(requireAssetId(ctx), ownerId)
+    const tag = await Tag.findOne({ where: { id: ctx.params.tagId, ownerId } })
+
+    if (tag) {
+      await sequelize.transaction(async (transaction) => {
+        const removed = await AssetTag.destroy({ where: { assetId: asset.id, tagId: tag.id }, transaction })
+        if (removed > 0) {
+          await deleteUnusedTag(tag, transaction)
+        }
+      })
+      logger.info('Tag removed', { assetId: asset.id, tagId: tag.id })
+    }
+
+    return noContentResponse()
+  },
+}
+
+/**
+ * Tag routes, in the order they are registered on the API
+ */
+export const tagRoutes: Route[] = [listTagsRoute, listAssetTagsRoute, addAssetTagRoute, removeAssetTagRoute]
@@ -0,0 +1,160 @@
+import path from 'path'
+import { env } from '../config/env'
+import { AssetFileRole, ShareRole } from '../types'
+import { successResponse } from '../utils/response'
+import { createDownloadUrl, createUploadUrl } from '../utils/storage'
+import { buildObjectKey, ownerPrefix, policyCategory, validateUpload } from '../utils/uploadPolicy'
+import { assertStorageQuota } from '../utils/quotas'
+import { assetParamsSchema, assetSchema } from '../schemas/assets'
+import {
+  downloadUrlQuerySchema,
+  downloadUrlSchema,
+  uploadCompleteBodySchema,
+  uploadUrlBodySchema,
+  uploadUrlSchema,
+  type UploadUrlInput,
+} from '../schemas/files'
+import { withDatabase, withJsonBody, withValidation } from '../http/middleware'
+import { notFound, forbidden } from '../http/errors'
+import { withAuth, requireAuth } from '../http/auth'
+import { withRateLimit } from '../http/rateLimit'
+import type { Route } from '../http/router'
+import { findAccessibleAsset, findOwnedAsset, requireAssetId, toAssetResponse } from './common'
+import { attachFile } from './files'
+
+/**
+ * Expiry timestamp for a URL valid for `seconds`
+ */
+function expiresAt(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString()
+}
+
+/**
+ * POST /assets/{id}/upload-url - Presigned URL for uploading the asset's file
+ *
+ * Body: uploadUrlBodySchema (contentType, size, role - default: primary)
+ *
+ * Primary files follow the asset category rules, thumbnails the image rules and attachments
+ * the "other" rules. The URL writes a new key under assets/{ownerId}/{assetId}/. The asset is
+ * unchanged until the upload is confirmed with POST /assets/{id}/upload-complete (primary) or
+ * POST /assets/{id}/files. Returns 413 when `size` would exceed the owner's storage quota for
+ * the asset's category; the confirmed object is checked again.
+ */
+export const uploadUrlRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/upload-url',
+  errorMessage: 'Failed to create upload URL',
+  schema: {
+    operationId: 'createUploadUrl',
+    summary: "Presigned URL for uploading one of the asset's files",
+    params: assetParamsSchema,
+    body: uploadUrlBodySchema,
+    response: uploadUrlSchema,
+    quotaLimited: true,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await findOwnedAsset(requireAssetId(ctx), ownerId)
+    const { contentType, size, role = AssetFileRole.PRIMARY }: UploadUrlInput = ctx.body
+    const category = policyCategory(asset.category, role)
+
+    validateUpload(category, contentType, size)
+    await assertStorageQuota(ownerId, asset.category, size)
+
+    const key = buildObjectKey(ownerId, asset.id, category, contentType)
+    const uploadUrl = await createUploadUrl(key, contentType, env.UPLOAD_URL_TTL_SECONDS)
+
+    return successResponse({
+      uploadUrl,
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+      key,
+      expiresAt: expiresAt(env.UPLOAD_URL_TTL_SECONDS),
+    })
+  },
+}
+
+/**
+ * POST /assets/{id}/upload-complete - Confirm an upload as the asset's primary file
+ *
+ * Body: uploadCompleteBodySchema (key returned by upload-url, optional hex SHA-256 checksum)
+ *
+ * Shorthand for POST /assets/{id}/files with role primary that returns the asset:
+ * imageKey points at the new key and the previous primary file is kept as an attachment.
+ */
+export const uploadCompleteRoute: Route = {
+  method: 'POST',
+  resource: '/assets/{id}/upload-complete',
+  errorMessage: 'Failed to complete upload',
+  schema: {
+    operationId: 'completeUpload',
+    summary: "Confirm an upload as the asset's primary file",
+    params: assetParamsSchema,
+    body: uploadCompleteBodySchema,
+    response: assetSchema,
+    quotaLimited: true,
+  },
+  middlewares: [withAuth, withJsonBody({ required: true }), withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { ownerId } = requireAuth(ctx)
+    const asset = await findOwnedAsset(requireAssetId(ctx), ownerId)
+
+    await attachFile(asset, {
+      key: ctx.body.key,
+      role: AssetFileRole.PRIMARY,
+      checksum: ctx.body.checksum,
+      actorId: ownerId,
+    })
+
+    return successResponse(toAssetResponse(asset))
+  },
+}
+
+/**
+ * GET /assets/{id}/download-url - Presigned URL for downloading the asset's file
+ *
+ * Also available to viewers and editors of a shared asset, who cannot read the owner's S3 prefix.
+ *
+ * Query parameters:
+ * - attachment: Set to true to make browsers save the file (named after the asset) instead of displaying it
+ */
+export const downloadUrlRoute: Route = {
+  method: 'GET',
+  resource: '/assets/{id}/download-url',
+  errorMessage: 'Failed to create download URL',
+  schema: {
+    operationId: 'createDownloadUrl',
+    summary: "Presigned URL for downloading the asset's primary file",
+    params: assetParamsSchema,
+    query: downloadUrlQuerySchema,
+    response: downloadUrlSchema,
+  },
+  middlewares: [withAuth, withValidation, withDatabase, withRateLimit],
+  handler: async (ctx) => {
+    const { asset } = await findAccessibleAsset(requireAssetId(ctx), requireAuth(ctx), ShareRole.VIEWER)
+
+    if (!asset.imageKey) {
+      throw notFound('Asset has no uploaded file')
+    }
+    // Keys from before uploads were confirmed server-side may point anywhere
+    if (!asset.imageKey.startsWith(ownerPrefix(asset.ownerId))) {
+      throw forbidden("Asset file is outside the owner's storage prefix")
+    }
+
+    const fileName =
+      ctx.query.attachment === 'true' ? `${asset.name}${path.extname(asset.imageKey)}` : undefined
+    const downloadUrl = await createDownloadUrl(asset.imageKey, env.DOWNLOAD_URL_TTL_SECONDS, fileName)
+
+    return successResponse({
+      downloadUrl,
+      key: asset.imageKey,
+      expiresAt: expiresAt(env.DOWNLOAD_URL_TTL_SECONDS),
+    })
+  },
+}
+
+/**
+ * Upload and download routes, in the order they are registered on the API
+ */
+export const uploadRoutes: Route[] = [uploadUrlRoute, uploadCompleteRoute, downloadUrlRoute]
@@ -0,0 +1,207 @@
+import { AssetCategory, AssetScope, AssetStatus, ShareRole } from '../types'
+import { SORT_FIELDS } from '../utils/pagination'
+import { MAX_QUERY_LENGTH } from '../utils/search'
+import { s, type Infer } from './schema'
+
+/**
+ * Asset field limits
+ * Single source for the route schemas, the Asset model validation and the frontend dialogs
+ */
+export const ASSET_LIMITS = {
+  nameMaxLength: 255,
+  descriptionMaxLength: 5000,
+  externalKeyMaxLength: 255,
+  statusNoteMaxLength: 500,
+} as const
+
+export const IMAGE_KEY_MESSAGE =
+  'imageKey is set by uploading through POST /assets/{id}/upload-url and POST /assets/{id}/upload-complete'
+
+export const assetCategorySchema = s.enumeration(Object.values(AssetCategory), {
+  lowercase: true,
+  description: 'Asset category (case-insensitive)',
+})
+
+export const assetStatusSchema = s.enumeration(Object.values(AssetStatus), {
+  lowercase: true,
+  description: 'Lifecycle status (case-insensitive); moving to the trash is DELETE /assets/{id}',
+})
+
+// Empty notes are stored as null
+const statusNoteSchema = s.nullable(s.string({ trim: true, maxLength: ASSET_LIMITS.statusNoteMaxLength }))
+
+const nameSchema = s.string({ trim: true, minLength: 1, maxLength: ASSET_LIMITS.nameMaxLength })
+
+// Empty descriptions are stored as null
+const descriptionSchema = s.nullable(s.string({ trim: true, maxLength: ASSET_LIMITS.descriptionMaxLength }))
+
+const timestampSchema = s.string({ format: 'date-time' })
+
+export const assetAccessSchema = s.enumeration(['owner', ...Object.values(ShareRole)], {
+  description: "The caller's access: owner, or the highest role shared with them",
+})
+
+/**
+ * Path parameters of /assets/{id} routes
+ */
+export const assetParamsSchema = s.object({
+  id: s.string({ minLength: 1, description: 'Asset ID' }),
+})
+
+/**
+ * POST /assets body
+ */
+export const createAssetBodySchema = s.object({
+  ownerId: s.optional(s.string({ description: 'Must match the caller if provided (kept for existing clients)' })),
+  name: nameSchema,
+  description: s.optional(descriptionSchema),
+  category: assetCategorySchema,
+  status: s.optional(assetStatusSchema),
+  statusNote: s.optional(statusNoteSchema),
+  imageKey: s.optional(s.null({ message: IMAGE_KEY_MESSAGE, description: 'Only null is accepted' })),
+})
+
+/**
+ * PATCH /assets/{id} body
+ */
+export const updateAssetBodySchema = s.object(
+  {
+    name: s.optional(nameSchema),
+    description: s.optional(descriptionSchema),
+    category: s.optional(assetCategorySchema),
+    status: s.optional(assetStatusSchema),
+    statusNote: s.optional(statusNoteSchema),
+    imageKey: s.optional(
+      s.null({ message: IMAGE_KEY_MESSAGE, description: 'null detaches the primary file, which is kept as an attachment' })
+    ),
+    ownerId: s.forbidden('Owner ID cannot be changed'),
+  },
+  { minProperties: 1, message: 'At least one field must be provided for update' }
+)
+
+/**
+ * Request types generated from the schemas
+ */
+export type AssetEvent = Infer<typeof createAssetBodySchema>
+
+export type AssetUpdateEvent = Infer<typeof updateAssetBodySchema> & { id: string }
+
+export const limitSchema = s.integer({ minimum: 1, description: 'Items per page (default: 10, values above 100 are capped)' })
+
+export const offsetSchema = s.integer({ minimum: 0, description: 'Items to skip (offset mode)' })
+
+/**
+ * GET /assets query parameters
+ */
+export const listAssetsQuerySchema = s.object({
+  scope: s.optional(
+    s.enumeration(Object.values(AssetScope), {
+      description: "owned (default): the caller's assets; shared: assets shared with the caller; all: both",
+    })
+  ),
+  ownerId: s.optional(
+    s.string({ description: 'With scope owned, must match the caller; otherwise only lists assets of this owner' })
+  ),
+  category: s.optional(assetCategorySchema),
+  status: s.optional(assetStatusSchema),
+  tag: s.optional(
+    s.string({
+      description: 'Comma-separated tags the asset must all have, as name or name:value',
+      example: 'env:prod,team',
+    })
+  ),
+  q: s.optional(
+    s.string({
+      maxLength: MAX_QUERY_LENGTH,
+      description: 'Full-text search over name and description; every word must match as a prefix',
+    })
+  ),
+  sort: s.optional(
+    s.string({
+      pattern: new RegExp(`^(${SORT_FIELDS.join('|')})(:(asc|desc))?$`),
+      description: 'Sort field, optionally suffixed :asc or :desc (default: createdAt:desc, or relevance with q)',
+      example: 'name:asc',
+    })
+  ),
+  limit: s.optional(limitSchema),
+  cursor: s.optional(s.string({ description: 'nextCursor / prevCursor from a previous page' })),
+  offset: s.optional(offsetSchema),
+  count: s.optional(s.boolean({ description: 'false skips the COUNT query (total / totalPages are null)' })),
+})
+
+/**
+ * GET /assets/trash query parameters
+ */
+export const listTrashQuerySchema = s.object({
+  limit: s.optional(limitSchema),
+  offset: s.optional(offsetSchema),
+})
+
+/**
+ * Asset as returned by the API
+ */
+export const assetSchema = s.object({
+  id: s.string(),
+  ownerId: s.string(),
+  externalKey: s.nullable(s.string({ description: 'Client-supplied key set by POST /assets/import' })),
+  name: s.string(),
+  description: s.nullable(s.string()),
+  category: s.enumeration(Object.values(AssetCategory)),
+  imageKey: s.nullable(s.string({ description: 'S3 key of the primary file' })),
+  status: s.enumeration(Object.values(AssetStatus)),
+  statusNote: s.nullable(s.string()),
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+  version: s.integer({ description: 'Incremented on every update' }),
+  etag: s.string({ description: 'Send as If-Match on PATCH / DELETE to detect concurrent edits', example: '"3"' }),
+})
+
+export type AssetResponse = Infer<typeof assetSchema>
+
+export const trashedAssetSchema = s.object({
+  ...assetSchema.properties,
+  deletedAt: timestampSchema,
+})
+
+export const searchResultSchema = s.object({
+  ...assetSchema.properties,
+  access: assetAccessSchema,
+  relevance: s.optional(s.nullable(s.number({ description: 'Only with q; null when an explicit sort is used' }))),
+  highlights: s.optional(
+    s.object(
+      {
+        name: s.string(),
+        description: s.nullable(s.string()),
+      },
+      { description: 'Only with q; HTML with matches wrapped in <mark>' }
+    )
+  ),
+})
+
+export const paginationSchema = s.object({
+  total: s.nullable(s.integer()),
+  limit: s.integer(),
+  offset: s.nullable(s.integer()),
+  currentPage: s.nullable(s.integer()),
+  totalPages: s.nullable(s.integer()),
+  hasMore: s.boolean(),
+  nextCursor: s.nullable(s.string()),
+  prevCursor: s.nullable(s.string()),
+})
+
+export const assetListSchema = s.object({
+  assets: s.array(searchResultSchema),
+  pagination: paginationSchema,
+})
+
+export const trashListSchema = s.object({
+  assets: s.array(trashedAssetSchema),
+  pagination: s.object({
+    total: s.integer(),
+    limit: s.integer(),
+    offset: s.integer(),
+    currentPage: s.integer(),
+    totalPages: s.integer(),
+    hasMore: s.boolean(),
+  }),
+})
@@ -0,0 +1,49 @@
+import { AuditAction } from '../types'
+import { s } from './schema'
+import { limitSchema, offsetSchema } from './assets'
+
+/**
+ * GET /admin/audit-events query parameters
+ * `from` is inclusive and `to` exclusive; both are ISO 8601 timestamps
+ */
+export const listAuditEventsQuerySchema = s.object({
+  from: s.optional(s.string({ format: 'date-time', description: 'Events at or after this time' })),
+  to: s.optional(s.string({ format: 'date-time', description: 'Events before this time' })),
+  actorId: s.optional(s.string({ minLength: 1, description: 'Cognito user ID of the caller, or system:<job>' })),
+  assetId: s.optional(s.string({ minLength: 1 })),
+  ownerId: s.optional(s.string({ minLength: 1, description: 'Cognito user ID of the asset owner' })),
+  action: s.optional(s.enumeration(Object.values(AuditAction))),
+  limit: s.optional(limitSchema),
+  offset: s.optional(offsetSchema),
+})
+
+const hashSchema = s.nullable(s.string({ description: 'SHA-256 (hex) of the asset snapshot' }))
+
+/**
+ * Audit event as returned by the API
+ */
+export const auditEventSchema = s.object({
+  id: s.string(),
+  assetId: s.string(),
+  ownerId: s.string(),
+  actorId: s.string(),
+  action: s.enumeration(Object.values(AuditAction)),
+  beforeHash: hashSchema,
+  afterHash: hashSchema,
+  sourceIp: s.nullable(s.string()),
+  userAgent: s.nullable(s.string()),
+  requestId: s.nullable(s.string()),
+  createdAt: s.string({ format: 'date-time' }),
+})
+
+export const auditEventListSchema = s.object({
+  events: s.array(auditEventSchema),
+  pagination: s.object({
+    total: s.integer(),
+    limit: s.integer(),
+    offset: s.integer(),
+    currentPage: s.integer(),
+    totalPages: s.integer(),
+    hasMore: s.boolean(),
+  }),
+})
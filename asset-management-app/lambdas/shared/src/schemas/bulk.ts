@@ -0,0 +1,75 @@
+import { s, type Infer } from './schema'
+import { assetSchema, createAssetBodySchema, updateAssetBodySchema } from './assets'
+
+/**
+ * Most operations accepted by one POST /assets/bulk request
+ */
+export const BULK_MAX_OPERATIONS = 100
+
+export const BULK_OPERATIONS = ['create', 'patch', 'delete'] as const
+
+export const BULK_MODES = ['all-or-nothing', 'best-effort'] as const
+
+const bulkOperationTypeSchema = s.enumeration(BULK_OPERATIONS)
+
+/**
+ * One bulk operation
+ * `data` is checked against the createAsset / updateAsset body for its op when the item runs,
+ * so missing or forbidden fields are reported per item
+ */
+const bulkOperationSchema = s.object({
+  op: bulkOperationTypeSchema,
+  id: s.optional(s.string({ minLength: 1, description: 'Asset ID (patch and delete)' })),
+  data: s.optional(
+    s.object(
+      {
+        ...updateAssetBodySchema.properties,
+        ownerId: createAssetBodySchema.properties.ownerId,
+      },
+      { description: 'create: the POST /assets body; patch: the PATCH /assets/{id} body' }
+    )
+  ),
+})
+
+/**
+ * POST /assets/bulk body
+ */
+export const bulkAssetsBodySchema = s.object({
+  mode: s.optional(
+    s.enumeration(BULK_MODES, {
+      description:
+        'all-or-nothing (default) commits only if every operation succeeds; best-effort commits the ones that do',
+    })
+  ),
+  operations: s.array(bulkOperationSchema, { minItems: 1, maxItems: BULK_MAX_OPERATIONS }),
+})
+
+export type BulkAssetsInput = Infer<typeof bulkAssetsBodySchema>
+
+export type BulkOperation = BulkAssetsInput['operations'][number]
+
+export const BULK_RESULT_STATUSES = ['succeeded', 'failed', 'rolledBack'] as const
+
+/**
+ * Outcome of one operation, in request order
+ */
+export const bulkResultSchema = s.object({
+  index: s.integer(),
+  op: bulkOperationTypeSchema,
+  id: s.nullable(s.string({ description: 'Asset ID; null when a create failed' })),
+  status: s.enumeration(BULK_RESULT_STATUSES, {
+    description: 'rolledBack: the operation worked but the all-or-nothing batch was rolled back',
+  }),
+  statusCode: s.integer({ description: 'Status the single-asset endpoint would have returned' }),
+  asset: s.optional(s.nullable(assetSchema)),
+  error: s.optional(s.string()),
+  errors: s.optional(s.array(s.object({ field: s.string(), message: s.string() }))),
+})
+
+export const bulkResponseSchema = s.object({
+  mode: s.enumeration(BULK_MODES),
+  committed: s.boolean({ description: 'false when an all-or-nothing batch was rolled back' }),
+  succeeded: s.integer(),
+  failed: s.integer(),
+  results: s.array(bulkResultSchema),
+})
@@ -0,0 +1,117 @@
+import { AssetFileRole } from '../types'
+import { s, type Infer } from './schema'
+import { assetAccessSchema, assetSchema } from './assets'
+import { tagSchema } from './tags'
+
+export const fileRoleSchema = s.enumeration(Object.values(AssetFileRole), {
+  description: 'primary files follow the asset category rules, thumbnails the image rules, attachments the other rules',
+})
+
+const keySchema = s.string({ minLength: 1, description: 'Key returned by POST /assets/{id}/upload-url' })
+
+const checksumSchema = s.nullable(
+  s.string({ pattern: /^[a-fA-F0-9]{64}$/, lowercase: true, message: 'checksum must be a hex SHA-256 digest' })
+)
+
+const timestampSchema = s.string({ format: 'date-time' })
+
+/**
+ * Path parameters of /assets/{id}/files/{fileId} routes
+ */
+export const fileParamsSchema = s.object({
+  id: s.string({ minLength: 1, description: 'Asset ID' }),
+  fileId: s.string({ minLength: 1, description: 'File ID' }),
+})
+
+/**
+ * POST /assets/{id}/upload-url body
+ * Content type and size are checked against the upload policy for the role in the handler
+ */
+export const uploadUrlBodySchema = s.object({
+  contentType: s.string({ description: 'MIME type, must be allowed for the role', example: 'image/png' }),
+  size: s.integer({ minimum: 1, description: 'Size in bytes, within the limit for the role' }),
+  role: s.optional(fileRoleSchema),
+})
+
+/**
+ * POST /assets/{id}/upload-complete body
+ */
+export const uploadCompleteBodySchema = s.object({
+  key: keySchema,
+  checksum: s.optional(checksumSchema),
+})
+
+/**
+ * Query parameters of the download-url routes
+ */
+export const downloadUrlQuerySchema = s.object({
+  attachment: s.optional(
+    s.boolean({ description: 'true makes browsers save the file (named after the asset) instead of displaying it' })
+  ),
+})
+
+/**
+ * POST /assets/{id}/files body
+ */
+export const createFileBodySchema = s.object({
+  key: keySchema,
+  role: s.optional(fileRoleSchema),
+  checksum: s.optional(checksumSchema),
+})
+
+/**
+ * PATCH /assets/{id}/files/{fileId} body
+ */
+export const updateFileBodySchema = s.object(
+  {
+    role: s.optional(fileRoleSchema),
+    checksum: s.optional(checksumSchema),
+  },
+  { minProperties: 1, message: 'At least one field must be provided for update' }
+)
+
+export type UploadUrlInput = Infer<typeof uploadUrlBodySchema>
+
+export type CreateFileInput = Infer<typeof createFileBodySchema>
+
+export type UpdateFileInput = Infer<typeof updateFileBodySchema>
+
+/**
+ * Asset file as returned by the API
+ */
+export const assetFileSchema = s.object({
+  id: s.string(),
+  assetId: s.string(),
+  key: s.string(),
+  mimeType: s.string(),
+  size: s.integer(),
+  checksum: s.nullable(s.string()),
+  role: fileRoleSchema,
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema,
+})
+
+export const assetWithFilesSchema = s.object({
+  ...assetSchema.properties,
+  access: assetAccessSchema,
+  files: s.array(assetFileSchema),
+  tags: s.array(tagSchema),
+})
+
+export const fileListSchema = s.object({
+  files: s.array(assetFileSchema),
+})
+
+export const uploadUrlSchema = s.object({
+  uploadUrl: s.string({ format: 'uri' }),
+  method: s.enumeration(['PUT']),
+  headers: s.object({ 'Content-Type': s.string() }),
+  key: s.string(),
+  expiresAt: timestampSchema,
+})
+
+export const downloadUrlSchema = s.object({
+  downloadUrl: s.string({ format: 'uri' }),
+  key: s.string(),
+  expiresAt: timestampSchema,
+})
@@ -0,0 +1,48 @@
+import { s, type Infer } from './schema'
+
+/**
+ * GET /health response (liveness)
+ */
+export const livenessSchema = s.object({
+  status: s.enumeration(['ok']),
+  version: s.string({ description: 'Deployed build (BUILD_VERSION)' }),
+  uptimeSeconds: s.integer({ description: 'Age of the Lambda container' }),
+  timestamp: s.string({ format: 'date-time' }),
+})
+
+const checkStatusSchema = s.enumeration(['ok', 'fail', 'skipped'])
+
+/**
+ * GET /health/ready response (readiness)
+ * Returned with 200 when every check passes and 503 when the status is `degraded`
+ */
+export const readinessSchema = s.object({
+  status: s.enumeration(['ok', 'degraded']),
+  version: s.string({ description: 'Deployed build (BUILD_VERSION)' }),
+  timestamp: s.string({ format: 'date-time' }),
+  checks: s.object({
+    database: s.object({
+      status: checkStatusSchema,
+      durationMs: s.integer(),
+      message: s.optional(s.string()),
+    }),
+    secretsManager: s.object({
+      status: checkStatusSchema,
+      durationMs: s.nullable(s.integer()),
+      cacheAgeSeconds: s.nullable(s.integer({ description: 'Age of the cached database secret' })),
+      message: s.optional(s.string()),
+    }),
+  }),
+  pool: s.nullable(
+    s.object({
+      size: s.integer(),
+      available: s.integer(),
+      using: s.integer(),
+      waiting: s.integer(),
+      max: s.integer(),
+      min: s.integer(),
+    })
+  ),
+})
+
+export type ReadinessReport = Infer<typeof readinessSchema>
@@ -0,0 +1,98 @@
+import { s, type Infer } from './schema'
+import { ASSET_LIMITS, createAssetBodySchema, listAssetsQuerySchema } from './assets'
+
+/**
+ * Import / export limits
+ * Lambda responses are capped at 6 MB and request bodies at 10 MB by API Gateway
+ */
+export const TRANSFER_LIMITS = {
+  exportMaxAssets: 10000,
+  importMaxRows: 1000,
+  importMaxContentLength: 5 * 1024 * 1024,
+} as const
+
+export const TRANSFER_FORMATS = ['csv', 'ndjson'] as const
+
+export type TransferFormat = (typeof TRANSFER_FORMATS)[number]
+
+/**
+ * Columns written by the export, in order; the import reads externalKey, name, description and category
+ */
+export const EXPORT_COLUMNS = [
+  'id',
+  'externalKey',
+  'name',
+  'description',
+  'category',
+  'status',
+  'imageKey',
+  'createdAt',
+  'updatedAt',
+] as const
+
+/**
+ * GET /assets/export query parameters
+ * Same filters as GET /assets; results are never relevance ordered
+ */
+export const exportAssetsQuerySchema = s.object({
+  format: s.optional(s.enumeration(TRANSFER_FORMATS, { description: 'csv (default) or ndjson' })),
+  category: listAssetsQuerySchema.properties.category,
+  status: listAssetsQuerySchema.properties.status,
+  tag: listAssetsQuerySchema.properties.tag,
+  q: listAssetsQuerySchema.properties.q,
+  sort: listAssetsQuerySchema.properties.sort,
+})
+
+/**
+ * POST /assets/import body
+ */
+export const importAssetsBodySchema = s.object({
+  format: s.enumeration(TRANSFER_FORMATS),
+  content: s.string({
+    minLength: 1,
+    maxLength: TRANSFER_LIMITS.importMaxContentLength,
+    description: 'CSV with a header row, or one JSON object per line',
+  }),
+  dryRun: s.optional(s.boolean({ description: 'Validate and report the planned actions without writing' })),
+})
+
+export type ImportAssetsInput = Infer<typeof importAssetsBodySchema>
+
+/**
+ * One imported row, checked with the POST /assets rules
+ */
+export const importRowSchema = s.object({
+  externalKey: s.optional(
+    s.string({
+      trim: true,
+      minLength: 1,
+      maxLength: ASSET_LIMITS.externalKeyMaxLength,
+      description: 'Rows with a key update the asset with the same key, if any',
+    })
+  ),
+  name: createAssetBodySchema.properties.name,
+  description: createAssetBodySchema.properties.description,
+  category: createAssetBodySchema.properties.category,
+})
+
+export type ImportRow = Infer<typeof importRowSchema>
+
+export const IMPORT_ACTIONS = ['create', 'update', 'unchanged', 'error'] as const
+
+export const importResultSchema = s.object({
+  dryRun: s.boolean(),
+  total: s.integer(),
+  created: s.integer(),
+  updated: s.integer(),
+  unchanged: s.integer(),
+  failed: s.integer(),
+  rows: s.array(
+    s.object({
+      line: s.integer({ description: 'Line of the row in the content' }),
+      externalKey: s.nullable(s.string()),
+      action: s.enumeration(IMPORT_ACTIONS),
+      id: s.nullable(s.string({ description: 'Asset ID; null for failed rows and dry-run creates' })),
+      errors: s.optional(s.array(s.object({ field: s.string(), message: s.string() }))),
+    })
+  ),
+})
@@ -0,0 +1,61 @@
+import { AssetCategory } from '../types'
+import { s, type Infer, type ObjectSchema, type Schema } from './schema'
+
+const CATEGORIES = Object.values(AssetCategory)
+
+/**
+ * Object with one property per asset category
+ */
+function perCategory<S extends Schema>(schema: S, options: Pick<ObjectSchema, 'additionalProperties'> = {}) {
+  const properties = Object.fromEntries(CATEGORIES.map((category) => [category, schema])) as Record<AssetCategory, S>
+  return s.object(properties, options)
+}
+
+const limitSchema = s.integer({ minimum: 0, description: '0 means no limit' })
+const overrideSchema = s.nullable(s.integer({ minimum: 0, description: 'null uses the default limit' }))
+
+/**
+ * Path parameters of /admin/limits/{ownerId}
+ */
+export const ownerParamsSchema = s.object({
+  ownerId: s.string({ minLength: 1, description: 'Cognito user ID of the asset owner' }),
+})
+
+/**
+ * PUT /admin/limits/{ownerId} body
+ * Omitted fields keep their current override; null resets a limit to the default.
+ * Unknown categories are rejected so a typo does not silently leave the default in place.
+ */
+export const updateOwnerLimitsBodySchema = s.object(
+  {
+    requestsPerMinute: s.optional(overrideSchema),
+    maxAssets: s.optional(overrideSchema),
+    maxBytesPerCategory: s.optional(perCategory(s.optional(overrideSchema), { additionalProperties: false })),
+  },
+  { minProperties: 1, message: 'At least one limit must be provided' }
+)
+
+/**
+ * Limits, overrides and usage of an owner
+ * `limits` are in effect; `overrides` are the values set by administrators (null: default)
+ */
+export const usageSummarySchema = s.object({
+  ownerId: s.string(),
+  limits: s.object({
+    requestsPerMinute: limitSchema,
+    maxAssets: limitSchema,
+    maxBytesPerCategory: perCategory(limitSchema),
+  }),
+  overrides: s.object({
+    requestsPerMinute: overrideSchema,
+    maxAssets: overrideSchema,
+    maxBytesPerCategory: perCategory(overrideSchema),
+  }),
+  usage: s.object({
+    assets: s.integer({ description: 'Assets outside the trash' }),
+    bytesByCategory: perCategory(s.integer({ description: 'Total file size of assets outside the trash' })),
+    requestsThisMinute: s.integer(),
+  }),
+})
+
+export type UpdateOwnerLimitsInput = Infer<typeof updateOwnerLimitsBodySchema>
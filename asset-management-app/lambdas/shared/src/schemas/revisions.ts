@@ -0,0 +1,55 @@
+import { RevisionAction } from '../types'
+import { REVISION_FIELDS } from '../utils/revisions'
+import { s } from './schema'
+import { limitSchema, offsetSchema } from './assets'
+
+/**
+ * Path parameters of /assets/{id}/revisions/{revision} routes
+ */
+export const revisionParamsSchema = s.object({
+  id: s.string({ minLength: 1, description: 'Asset ID' }),
+  revision: s.integer({ minimum: 1, description: 'Revision number' }),
+})
+
+/**
+ * GET /assets/{id}/revisions query parameters
+ */
+export const listRevisionsQuerySchema = s.object({
+  limit: s.optional(limitSchema),
+  offset: s.optional(offsetSchema),
+})
+
+const revisionValueSchema = s.nullable(s.string())
+
+/**
+ * Asset revision as returned by the API
+ */
+export const revisionSchema = s.object({
+  id: s.string(),
+  assetId: s.string(),
+  revision: s.integer(),
+  action: s.enumeration(Object.values(RevisionAction)),
+  actorId: s.string({ description: 'Cognito user ID of the caller that made the change' }),
+  changes: s.array(
+    s.object({
+      field: s.enumeration(REVISION_FIELDS),
+      from: revisionValueSchema,
+      to: revisionValueSchema,
+    }),
+    { description: 'Changed fields; empty for deleted and restored' }
+  ),
+  revertedTo: s.nullable(s.integer({ description: 'Revision whose values were restored (reverted only)' })),
+  createdAt: s.string({ format: 'date-time' }),
+})
+
+export const revisionListSchema = s.object({
+  revisions: s.array(revisionSchema),
+  pagination: s.object({
+    total: s.integer(),
+    limit: s.integer(),
+    offset: s.integer(),
+    currentPage: s.integer(),
+    totalPages: s.integer(),
+    hasMore: s.boolean(),
+  }),
+})
@@ -0,0 +1,110 @@
+import fs from 'fs'
+import { describe, expect, it } from 'vitest'
+import { s, validate, parse, toJsonSchema } from './schema'
+import { ASSET_LIMITS, createAssetBodySchema, listAssetsQuerySchema, updateAssetBodySchema } from './assets'
+import { ValidationError } from '../utils/validation'
+import { buildOpenApiDocument } from '../http/openapi'
+import { GENERATED_CLIENT_PATH, generateClient } from '../http/clientGenerator'
+import { API_INFO, apiRoutes } from '../routes'
+
+/**
+ * Request schemas, the OpenAPI document and the generated frontend client
+ */
+
+describe('validate', () => {
+  it('trims and normalizes a valid create body', () => {
+    const result = validate(createAssetBodySchema, {
+      name: '  Logo  ',
+      description: '   ',
+      category: 'Image',
+      extra: 'dropped',
+    })
+
+    expect(result.errors).toEqual([])
+    expect(result.value).toEqual({ name: 'Logo', description: null, category: 'image' })
+  })
+
+  it('reports every invalid field at once', () => {
+    const result = validate(createAssetBodySchema, {
+      name: '',
+      description: 'x'.repeat(ASSET_LIMITS.descriptionMaxLength + 1),
+      category: 'music',
+      imageKey: 'assets/other/key.png',
+    })
+
+    expect(result.errors.map((error) => error.field).sort()).toEqual(['category', 'description', 'imageKey', 'name'])
+  })
+
+  it('requires a field on update and rejects ownerId', () => {
+    const empty = validate(updateAssetBodySchema, {})
+    const owner = validate(updateAssetBodySchema, { ownerId: 'someone-else' })
+
+    expect(empty.errors[0]?.message).toBe('At least one field must be provided for update')
+    expect(owner.errors).toContainEqual(
+      expect.objectContaining({ field: 'ownerId', message: 'Owner ID cannot be changed' })
+    )
+  })
+
+  it('coerces query strings to numbers and booleans', () => {
+    const query = { limit: '20', count: 'false', sort: 'name:desc' }
+    const valid = validate(listAssetsQuerySchema, query, { location: 'query' })
+    const invalid = validate(listAssetsQuerySchema, { limit: 'ten', offset: '-1', sort: 'size' }, { location: 'query' })
+
+    expect(valid.errors).toEqual([])
+    expect(valid.value).toMatchObject({ limit: 20, count: false })
+    expect(invalid.errors).toHaveLength(3)
+  })
+})
+
+describe('parse', () => {
+  it('throws a ValidationError with nested field paths', () => {
+    const schema = s.object({ files: s.array(s.object({ key: s.string() }), { maxItems: 2 }) })
+
+    let error: unknown
+    try {
+      parse(schema, { files: [{ key: 'a' }, { key: 5 }] })
+    } catch (caught) {
+      error = caught
+    }
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error).toMatchObject({ field: 'files[1].key', errors: [expect.anything()] })
+  })
+})
+
+describe('toJsonSchema', () => {
+  it('describes the create body', () => {
+    const json = toJsonSchema(createAssetBodySchema) as any
+
+    expect(json.required).toEqual(['name', 'category'])
+    expect(json.properties.description).toMatchObject({
+      maxLength: ASSET_LIMITS.descriptionMaxLength,
+      type: ['string', 'null'],
+    })
+  })
+})
+
+describe('OpenAPI document', () => {
+  it('has one operation per API route', () => {
+    const document = buildOpenApiDocument(apiRoutes, { title: 'Asset Management API', version: 'test' }) as any
+    const operations = Object.values(document.paths).flatMap((path: any) => Object.values(path)) as any[]
+
+    expect(operations).toHaveLength(apiRoutes.length)
+    expect(new Set(operations.map((op) => op.operationId)).size).toBe(apiRoutes.length)
+  })
+
+  it('documents quota and rate limit responses', () => {
+    const document = buildOpenApiDocument(apiRoutes, API_INFO) as any
+
+    expect(Object.keys(document.paths['/assets'].post.responses)).toEqual(expect.arrayContaining(['413', '429']))
+    expect(document.paths['/assets'].get.responses).not.toHaveProperty('413')
+    expect(document.paths['/admin/limits/{ownerId}'].put.responses).not.toHaveProperty('429')
+    expect(document.components.responses.TooManyRequests.headers).toHaveProperty('Retry-After')
+  })
+
+  it('matches the committed frontend client (npm run generate:client)', () => {
+    const expected = generateClient(buildOpenApiDocument(apiRoutes, API_INFO))
+    const current = fs.existsSync(GENERATED_CLIENT_PATH) ? fs.readFileSync(GENERATED_CLIENT_PATH, 'utf8') : ''
+
+    expect(current === expected).toBe(true)
+  })
+})
@@ -0,0 +1,416 @@
+import { ValidationError, type FieldError } from '../utils/validation'
+
+/**
+ * Declarative schemas
+ *
+ * A schema describes a value once and is used three ways:
+ * - validate(): runtime validation that collects every field error instead of stopping at the first
+ * - Infer<typeof schema>: the TypeScript type of a valid value
+ * - toJsonSchema(): the JSON Schema used in the OpenAPI document
+ *
+ * Schemas are plain objects built with the `s` helpers, e.g.
+ *   const body = s.object({ name: s.string({ minLength: 1, maxLength: 255 }), tags: s.optional(s.array(s.string())) })
+ */
+
+export interface BaseSchema<T> {
+  // Phantom field carrying the inferred type; never set at runtime
+  readonly __type?: (value: T) => T
+  description?: string
+  example?: unknown
+  // Replaces the generated message when the value has the wrong type or is not allowed
+  message?: string
+  optional?: boolean
+  nullable?: boolean
+}
+
+export interface StringSchema<T extends string = string> extends BaseSchema<T> {
+  type: 'string'
+  minLength?: number
+  maxLength?: number
+  pattern?: RegExp
+  enum?: readonly T[]
+  format?: 'uuid' | 'date-time' | 'uri'
+  // Trim before validating; an empty nullable string becomes null
+  trim?: boolean
+  // Lower-case before validating (e.g. "Image" -> "image")
+  lowercase?: boolean
+}
+
+export interface NumberSchema extends BaseSchema<number> {
+  type: 'number' | 'integer'
+  minimum?: number
+  maximum?: number
+}
+
+export interface BooleanSchema extends BaseSchema<boolean> {
+  type: 'boolean'
+}
+
+export interface NullSchema extends BaseSchema<null> {
+  type: 'null'
+}
+
+// A field that must not be sent (e.g. ownerId on update); left out of the OpenAPI document
+export interface ForbiddenSchema extends BaseSchema<undefined> {
+  type: 'forbidden'
+}
+
+export interface ArraySchema<T> extends BaseSchema<T[]> {
+  type: 'array'
+  items: Schema<T>
+  minItems?: number
+  maxItems?: number
+}
+
+export type Shape = Record<string, Schema>
+
+export interface ObjectSchema<S extends Shape = Shape> extends BaseSchema<InferShape<S>> {
+  type: 'object'
+  properties: S
+  // Unknown properties are dropped from the parsed value (default) or rejected
+  additionalProperties?: boolean
+  minProperties?: number
+}
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'forbidden' | 'array' | 'object'
+
+export interface Schema<T = any> extends BaseSchema<T> {
+  type: SchemaType
+}
+
+/**
+ * TypeScript type of values accepted by a schema
+ */
+export type Infer<S> = S extends { readonly __type?: (value: infer T) => infer T } ? T : never
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends Infer<S[K]> ? K : never
+}[keyof S]
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>
+
+/**
+ * Where a value comes from
+ * Path, query and header values are strings, so numbers and booleans are parsed from them
+ */
+export type ValueLocation = 'body' | 'query' | 'path' | 'header'
+
+export interface ValidateOptions {
+  location?: ValueLocation
+  // Reject properties the schema does not declare (used to check responses against the spec)
+  strict?: boolean
+}
+
+function string(options: Omit<StringSchema, 'type'> = {}): StringSchema {
+  return { type: 'string', ...options }
+}
+
+function enumeration<const T extends string>(
+  values: readonly T[],
+  options: Omit<StringSchema<T>, 'type' | 'enum'> = {}
+): StringSchema<T> {
+  return { type: 'string', enum: values, ...options }
+}
+
+function integer(options: Omit<NumberSchema, 'type'> = {}): NumberSchema {
+  return { type: 'integer', ...options }
+}
+
+function number(options: Omit<NumberSchema, 'type'> = {}): NumberSchema {
+  return { type: 'number', ...options }
+}
+
+function boolean(options: Omit<BooleanSchema, 'type'> = {}): BooleanSchema {
+  return { type: 'boolean', ...options }
+}
+
+function nullValue(options: Omit<NullSchema, 'type'> = {}): NullSchema {
+  return { type: 'null', ...options }
+}
+
+function forbidden(message: string): ForbiddenSchema {
+  return { type: 'forbidden', message, optional: true }
+}
+
+function array<T>(items: Schema<T>, options: Omit<ArraySchema<T>, 'type' | 'items'> = {}): ArraySchema<T> {
+  return { type: 'array', items, ...options }
+}
+
+function object<S extends Shape>(properties: S, options: Omit<ObjectSchema<S>, 'type' | 'properties'> = {}): ObjectSchema<S> {
+  return { type: 'object', properties, ...options }
+}
+
+function optional<S extends Schema>(schema: S): Omit<S, '__type'> & BaseSchema<Infer<S> | undefined> {
+  return { ...schema, optional: true }
+}
+
+function nullable<S extends Schema>(schema: S): Omit<S, '__type'> & BaseSchema<Infer<S> | null> {
+  return { ...schema, nullable: true }
+}
+
+/**
+ * Schema builders
+ */
+export const s = {
+  string,
+  enumeration,
+  integer,
+  number,
+  boolean,
+  null: nullValue,
+  forbidden,
+  array,
+  object,
+  optional,
+  nullable,
+}
+
+/**
+ * Field name used in error messages ("name", "files[2].key")
+ */
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`
+  }
+  return path ? `${path}.${key}` : key
+}
+
+function label(path: string): string {
+  return path || 'value'
+}
+
+function validateValue(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  options: Required<ValidateOptions>,
+  errors: FieldError[]
+): unknown {
+  const { location } = options
+  const fail = (message: string) => {
+    errors.push({ field: path, message: schema.message ?? message })
+    return undefined
+  }
+
+  if (schema.type === 'forbidden') {
+    return value === undefined ? undefined : fail(`${label(path)} is not allowed`)
+  }
+
+  if (schema.type === 'string' && typeof value === 'string') {
+    const { trim, lowercase } = schema as StringSchema
+    if (trim) {
+      value = value.trim()
+    }
+    if (lowercase) {
+      value = (value as string).toLowerCase()
+    }
+    if (value === '' && trim && schema.nullable) {
+      return null
+    }
+  }
+
+  if (value === undefined) {
+    return schema.optional ? undefined : fail(`${label(path)} is required`)
+  }
+  if (value === null) {
+    return schema.nullable || schema.type === 'null' ? null : fail(`${label(path)} must not be null`)
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      const { minLength, maxLength, pattern, format } = schema as StringSchema
+      const allowed = (schema as StringSchema).enum
+      if (typeof value !== 'string') {
+        return fail(`${label(path)} must be a string`)
+      }
+      if (allowed && !allowed.includes(value)) {
+        return fail(`Invalid ${label(path)}. Must be one of: ${allowed.join(', ')}`)
+      }
+      if (minLength !== undefined && value.length < minLength) {
+        return fail(minLength === 1 ? `${label(path)} is required` : `${label(path)} must be at least ${minLength} characters`)
+      }
+      if (maxLength !== undefined && value.length > maxLength) {
+        return fail(`${label(path)} must not exceed ${maxLength} characters`)
+      }
+      if (pattern && !pattern.test(value)) {
+        return fail(`${label(path)} has an invalid format`)
+      }
+      if (format === 'uuid' && !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+        return fail(`${label(path)} must be a UUID`)
+      }
+      if (format === 'date-time' && (!/^\d{4}-\d{2}-\d{2}T/.test(value) || Number.isNaN(Date.parse(value)))) {
+        return fail(`${label(path)} must be an ISO 8601 date-time`)
+      }
+      return value
+    }
+
+    case 'number':
+    case 'integer': {
+      const { minimum, maximum } = schema as NumberSchema
+      const parsed = location !== 'body' && typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        return fail(`${label(path)} must be a number`)
+      }
+      if (schema.type === 'integer' && !Number.isInteger(parsed)) {
+        return fail(`${label(path)} must be an integer`)
+      }
+      if (minimum !== undefined && parsed < minimum) {
+        return fail(`${label(path)} must be at least ${minimum}`)
+      }
+      if (maximum !== undefined && parsed > maximum) {
+        return fail(`${label(path)} must not exceed ${maximum}`)
+      }
+      return parsed
+    }
+
+    case 'boolean': {
+      if (location !== 'body' && (value === 'true' || value === 'false')) {
+        return value === 'true'
+      }
+      return typeof value === 'boolean' ? value : fail(`${label(path)} must be true or false`)
+    }
+
+    case 'null':
+      return fail(`${label(path)} must be null`)
+
+    case 'array': {
+      const { items, minItems, maxItems } = schema as ArraySchema<unknown>
+      if (!Array.isArray(value)) {
+        return fail(`${label(path)} must be an array`)
+      }
+      if (minItems !== undefined && value.length < minItems) {
+        return fail(`${label(path)} must contain at least ${minItems} items`)
+      }
+      if (maxItems !== undefined && value.length > maxItems) {
+        return fail(`${label(path)} must not contain more than ${maxItems} items`)
+      }
+      return value.map((item, index) => validateValue(items, item, join(path, index), options, errors))
+    }
+
+    case 'object': {
+      const { properties, additionalProperties = true, minProperties } = schema as ObjectSchema
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return fail(`${label(path)} must be an object`)
+      }
+      const input = value as Record<string, unknown>
+      const provided = Object.keys(input).filter((key) => input[key] !== undefined)
+      if (minProperties !== undefined && provided.length < minProperties) {
+        return fail(`At least ${minProperties === 1 ? 'one field' : `${minProperties} fields`} must be provided`)
+      }
+
+      const result: Record<string, unknown> = {}
+      for (const [key, property] of Object.entries(properties)) {
+        const parsed = validateValue(property, input[key], join(path, key), options, errors)
+        if (parsed !== undefined) {
+          result[key] = parsed
+        }
+      }
+      if (!additionalProperties || options.strict) {
+        for (const key of provided.filter((key) => !(key in properties))) {
+          errors.push({ field: join(path, key), message: `${join(path, key)} is not allowed` })
+        }
+      }
+      return result
+    }
+
+    default:
+      return value
+  }
+}
+
+/**
+ * Validate a value, returning the parsed value (trimmed, defaults applied, numbers parsed
+ * from query strings, unknown properties dropped) and every field error
+ */
+export function validate<S extends Schema>(
+  schema: S,
+  value: unknown,
+  options: ValidateOptions = {}
+): { value: Infer<S>; errors: FieldError[] } {
+  const errors: FieldError[] = []
+  const parsed = validateValue(schema, value, '', { location: 'body', strict: false, ...options }, errors)
+  return { value: parsed as Infer<S>, errors }
+}
+
+/**
+ * Validate a value and throw a ValidationError listing every field error
+ */
+export function parse<S extends Schema>(schema: S, value: unknown, options: ValidateOptions = {}): Infer<S> {
+  const result = validate(schema, value, options)
+  if (result.errors.length > 0) {
+    throw ValidationError.fromFieldErrors(result.errors)
+  }
+  return result.value
+}
+
+/**
+ * JSON Schema (OpenAPI 3.1 dialect) for a schema
+ */
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const base: Record<string, unknown> = {}
+  if (schema.description) {
+    base.description = schema.description
+  }
+  if (schema.example !== undefined) {
+    base.example = schema.example
+  }
+  const withNull = (type: string) => (schema.nullable ? [type, 'null'] : type)
+
+  switch (schema.type) {
+    case 'string': {
+      const { minLength, maxLength, pattern, format, enum: allowed } = schema as StringSchema
+      return {
+        type: withNull('string'),
+        ...(allowed && { enum: schema.nullable ? [...allowed, null] : [...allowed] }),
+        ...(minLength !== undefined && { minLength }),
+        ...(maxLength !== undefined && { maxLength }),
+        ...(pattern && { pattern: pattern.source }),
+        ...(format && { format }),
+        ...base,
+      }
+    }
+    case 'number':
+    case 'integer': {
+      const { minimum, maximum } = schema as NumberSchema
+      return {
+        type: withNull(schema.type),
+        ...(minimum !== undefined && { minimum }),
+        ...(maximum !== undefined && { maximum }),
+        ...base,
+      }
+    }
+    case 'boolean':
+      return { type: withNull('boolean'), ...base }
+    case 'null':
+      return { type: 'null', ...base }
+    case 'array': {
+      const { items, minItems, maxItems } = schema as ArraySchema<unknown>
+      return {
+        type: withNull('array'),
+        items: toJsonSchema(items),
+        ...(minItems !== undefined && { minItems }),
+        ...(maxItems !== undefined && { maxItems }),
+        ...base,
+      }
+    }
+    case 'object': {
+      const { properties, additionalProperties = true, minProperties } = schema as ObjectSchema
+      const entries = Object.entries(properties).filter(([, property]) => property.type !== 'forbidden')
+      const required = entries.filter(([, property]) => !property.optional).map(([key]) => key)
+      return {
+        type: withNull('object'),
+        properties: Object.fromEntries(entries.map(([key, property]) => [key, toJsonSchema(property)])),
+        ...(required.length > 0 && { required }),
+        ...(!additionalProperties && { additionalProperties: false }),
+        ...(minProperties !== undefined && { minProperties }),
+        ...base,
+      }
+    }
+    default:
+      return base
+  }
+}
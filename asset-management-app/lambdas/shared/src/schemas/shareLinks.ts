@@ -0,0 +1,118 @@
+import { AssetCategory, ShareLinkStatus } from '../types'
+import { s, type Infer } from './schema'
+
+/**
+ * Share link limits
+ * `linksPerAsset` counts links that can still be opened; revoked and expired ones do not count.
+ */
+export const SHARE_LINK_LIMITS = {
+  linksPerAsset: 20,
+  passwordMinLength: 8,
+  passwordMaxLength: 128,
+} as const
+
+// Request header with the password of a protected link
+export const LINK_PASSWORD_HEADER = 'X-Link-Password'
+
+const timestampSchema = s.string({ format: 'date-time' })
+
+/**
+ * Path parameters of /assets/{id}/links/{linkId}
+ */
+export const shareLinkParamsSchema = s.object({
+  id: s.string({ minLength: 1, description: 'Asset ID' }),
+  linkId: s.string({ minLength: 1, description: 'Link ID' }),
+})
+
+/**
+ * Path parameters of /shared/{token}
+ */
+export const sharedTokenParamsSchema = s.object({
+  token: s.string({ minLength: 1, maxLength: 100, description: 'Token from the share link' }),
+})
+
+/**
+ * GET /shared/{token} headers
+ */
+export const sharedLinkHeadersSchema = s.object({
+  [LINK_PASSWORD_HEADER]: s.optional(s.string({ description: 'Password of a password-protected link' })),
+})
+
+/**
+ * POST /assets/{id}/links body
+ * Every field is optional: without expiresAt the link lasts SHARE_LINK_DEFAULT_TTL_HOURS.
+ */
+export const createShareLinkBodySchema = s.object({
+  expiresAt: s.optional(
+    s.string({ format: 'date-time', description: 'When the link stops working; at most SHARE_LINK_MAX_TTL_DAYS ahead' })
+  ),
+  maxDownloads: s.optional(
+    s.nullable(s.integer({ minimum: 1, description: 'Download URLs the link may issue; null for no limit' }))
+  ),
+  password: s.optional(
+    s.string({
+      minLength: SHARE_LINK_LIMITS.passwordMinLength,
+      maxLength: SHARE_LINK_LIMITS.passwordMaxLength,
+      description: `Required from visitors in the ${LINK_PASSWORD_HEADER} header`,
+    })
+  ),
+})
+
+/**
+ * Share link as returned to the owner (never includes the token)
+ */
+export const shareLinkSchema = s.object({
+  id: s.string(),
+  assetId: s.string(),
+  status: s.enumeration(Object.values(ShareLinkStatus)),
+  hasPassword: s.boolean(),
+  expiresAt: timestampSchema,
+  maxDownloads: s.nullable(s.integer()),
+  downloadCount: s.integer(),
+  accessCount: s.integer({ description: 'Successful opens of the link' }),
+  lastAccessedAt: s.nullable(timestampSchema),
+  revokedAt: s.nullable(timestampSchema),
+  createdBy: s.string(),
+  createdAt: timestampSchema,
+})
+
+/**
+ * POST /assets/{id}/links response: the link and its token, which cannot be retrieved later
+ */
+export const createdShareLinkSchema = s.object({
+  ...shareLinkSchema.properties,
+  token: s.string({ description: 'Secret part of the link; open it with GET /shared/{token}' }),
+})
+
+export const shareLinkListSchema = s.object({
+  links: s.array(shareLinkSchema),
+})
+
+/**
+ * GET /shared/{token} response: read-only asset metadata and a short-lived download URL
+ */
+export const sharedAssetSchema = s.object({
+  asset: s.object({
+    name: s.string(),
+    description: s.nullable(s.string()),
+    category: s.enumeration(Object.values(AssetCategory)),
+    updatedAt: timestampSchema,
+  }),
+  file: s.nullable(
+    s.object({
+      mimeType: s.string(),
+      size: s.integer(),
+      downloadUrl: s.string({ format: 'uri' }),
+      downloadUrlExpiresAt: timestampSchema,
+    })
+  ),
+  link: s.object({
+    expiresAt: timestampSchema,
+    downloadsRemaining: s.nullable(s.integer({ description: 'After this request; null for no limit' })),
+  }),
+})
+
+/**
+ * Request types generated from the schemas
+ */
+export type CreateShareLinkInput = Infer<typeof createShareLinkBodySchema>
@@ -0,0 +1,66 @@
+import { ShareGranteeType, ShareRole } from '../types'
+import { s, type Infer } from './schema'
+
+/**
+ * Share limits
+ */
+export const SHARE_LIMITS = {
+  granteeIdMaxLength: 255,
+  sharesPerAsset: 50,
+} as const
+
+export const shareRoleSchema = s.enumeration(Object.values(ShareRole), {
+  lowercase: true,
+  description: 'viewer: read the asset and download its files; editor: also update it',
+})
+
+export const granteeTypeSchema = s.enumeration(Object.values(ShareGranteeType), {
+  lowercase: true,
+  description: 'user: one Cognito user; group: every member of a Cognito group',
+})
+
+/**
+ * Path parameters of /assets/{id}/shares/{shareId}
+ */
+export const shareParamsSchema = s.object({
+  id: s.string({ minLength: 1, description: 'Asset ID' }),
+  shareId: s.string({ minLength: 1, description: 'Share ID' }),
+})
+
+/**
+ * POST /assets/{id}/shares body
+ * Sharing again with the same grantee changes the role
+ */
+export const createShareBodySchema = s.object({
+  granteeType: s.optional(granteeTypeSchema),
+  granteeId: s.string({
+    trim: true,
+    minLength: 1,
+    maxLength: SHARE_LIMITS.granteeIdMaxLength,
+    description: 'Cognito user ID (sub), or group name for granteeType group',
+  }),
+  role: shareRoleSchema,
+})
+
+/**
+ * Share as returned by the API
+ */
+export const shareSchema = s.object({
+  id: s.string(),
+  assetId: s.string(),
+  granteeType: s.enumeration(Object.values(ShareGranteeType)),
+  granteeId: s.string(),
+  role: s.enumeration(Object.values(ShareRole)),
+  createdBy: s.string({ description: 'Cognito user ID of the owner who shared the asset' }),
+  createdAt: s.string({ format: 'date-time' }),
+  updatedAt: s.string({ format: 'date-time' }),
+})
+
+export const shareListSchema = s.object({
+  shares: s.array(shareSchema),
+})
+
+/**
+ * Request types generated from the schemas
+ */
+export type CreateShareInput = Infer<typeof createShareBodySchema>
@@ -0,0 +1,74 @@
+import { s, type Infer } from './schema'
+
+/**
+ * Tag limits
+ * Names cannot contain ":" or "," and values cannot contain ",", so `tag=env:prod,team:web`
+ * filters are unambiguous
+ */
+export const TAG_LIMITS = {
+  nameMaxLength: 50,
+  valueMaxLength: 100,
+  tagsPerAsset: 50,
+  filterMaxTags: 5,
+} as const
+
+export const tagNameSchema = s.string({
+  trim: true,
+  minLength: 1,
+  maxLength: TAG_LIMITS.nameMaxLength,
+  pattern: /^[^:,]+$/,
+  message: `Tag name must be 1-${TAG_LIMITS.nameMaxLength} characters without ":" or ","`,
+  example: 'env',
+})
+
+export const tagValueSchema = s.nullable(
+  s.string({
+    trim: true,
+    maxLength: TAG_LIMITS.valueMaxLength,
+    pattern: /^[^,]*$/,
+    message: `Tag value must be at most ${TAG_LIMITS.valueMaxLength} characters without ","`,
+    example: 'prod',
+  })
+)
+
+/**
+ * Path parameters of /assets/{id}/tags/{tagId} routes
+ */
+export const assetTagParamsSchema = s.object({
+  id: s.string({ minLength: 1, description: 'Asset ID' }),
+  tagId: s.string({ minLength: 1, description: 'Tag ID' }),
+})
+
+/**
+ * POST /assets/{id}/tags body
+ * The owner's tag with this name and value is reused, or created
+ */
+export const addTagBodySchema = s.object({
+  name: tagNameSchema,
+  value: s.optional(tagValueSchema),
+})
+
+export type AddTagInput = Infer<typeof addTagBodySchema>
+
+/**
+ * Tag as returned by the API
+ */
+export const tagSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  value: s.nullable(s.string()),
+  createdAt: s.string({ format: 'date-time' }),
+})
+
+export const tagListSchema = s.object({
+  tags: s.array(tagSchema),
+})
+
+export const ownerTagListSchema = s.object({
+  tags: s.array(
+    s.object({
+      ...tagSchema.properties,
+      assetCount: s.integer({ description: 'Assets (not in the trash) with this tag' }),
+    })
+  ),
+})
@@ -0,0 +1,55 @@
+import mysql from 'mysql2/promise'
+import type { Sequelize } from 'sequelize'
+import { migrations } from '../migrations'
+import { createMigrator } from '../migrations/migrator'
+import type { TestDatabaseConfig } from './globalSetup'
+
+/**
+ * Test database helpers used by setupDatabase.ts
+ * Kept free of config/env.ts so they can run before the test file loads the models.
+ */
+
+// Migrator bookkeeping, kept between tests
+const MIGRATION_TABLES = ['SchemaMigrations', 'SchemaMigrationLock']
+
+/**
+ * Create a database on the test server unless it exists
+ */
+export async function createTestDatabase(config: TestDatabaseConfig, name: string): Promise<void> {
+  const connection = await mysql.createConnection({
+    host: config.host,
+    port: config.port,
+    user: config.user,
+    password: config.password,
+  })
+  try {
+    await connection.query(`CREATE DATABASE IF NOT EXISTS \`${name}\``)
+  } finally {
+    await connection.end()
+  }
+}
+
+/**
+ * Apply the migrations the test database is missing
+ */
+export async function migrateTestDatabase(sequelize: Sequelize): Promise<void> {
+  await createMigrator(sequelize, migrations).up({ log: () => {} })
+}
+
+/**
+ * Delete every row from the application tables
+ * Raw DELETEs on one connection with foreign key checks off, so the order does not matter and the
+ * append-only AuditEvent hooks do not apply.
+ */
+export async function clearTables(sequelize: Sequelize): Promise<void> {
+  const tables = ((await sequelize.getQueryInterface().showAllTables()) as string[]).filter(
+    (table) => !MIGRATION_TABLES.includes(table)
+  )
+  await sequelize.transaction(async (transaction) => {
+    await sequelize.query('SET FOREIGN_KEY_CHECKS = 0', { transaction })
+    for (const table of tables) {
+      await sequelize.query(`DELETE FROM \`${table}\``, { transaction })
+    }
+    await sequelize.query('SET FOREIGN_KEY_CHECKS = 1', { transaction })
+  })
+}
@@ -0,0 +1,105 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { buildAuthorizedEvent, type TestClaims } from './authEvents'
+import type { LambdaHandler } from '../http/router'
+
+/**
+ * API Gateway event factory and test client for handler tests
+ *
+ * createEventFactory fixes the caller (and any default headers or claims) once per test file, so
+ * each case only lists what differs: method, resource, path parameters, query and body.
+ * createTestClient sends those events to a Lambda handler and parses the response.
+ */
+
+export interface TestRequestOptions {
+  params?: Record<string, string>
+  query?: Record<string, string>
+  headers?: Record<string, string>
+  // Serialized as JSON; a string is sent as is (e.g. malformed JSON)
+  body?: unknown
+  // Caller for this request; null sends it without authorizer claims
+  as?: string | null
+  // Comma-separated Cognito groups of the caller
+  groups?: string
+  claims?: Partial<TestClaims>
+}
+
+export interface EventDefaults {
+  // Default caller; null builds events that did not go through the authorizer
+  sub: string | null
+  headers?: Record<string, string>
+  claims?: Partial<TestClaims>
+}
+
+export interface TestResponse {
+  statusCode: number
+  headers: Record<string, string>
+  // Parsed JSON, or the raw body for other content types
+  body: any
+  text: string
+}
+
+export type EventFactory = (
+  httpMethod: string,
+  resource: string,
+  options?: TestRequestOptions
+) => APIGatewayProxyEvent
+
+/**
+ * Create a builder for API Gateway proxy events sent by one caller
+ */
+export function createEventFactory(defaults: EventDefaults): EventFactory {
+  return (httpMethod, resource, options = {}) => {
+    const event = buildAuthorizedEvent(options.as === undefined ? defaults.sub : options.as, {
+      httpMethod,
+      resource,
+      pathParameters: options.params ?? null,
+      queryStringParameters: options.query ?? null,
+      headers: { ...defaults.headers, ...options.headers },
+      body: typeof options.body === 'string' ? undefined : options.body,
+      claims: {
+        ...defaults.claims,
+        ...options.claims,
+        ...(options.groups !== undefined && { 'cognito:groups': options.groups }),
+      },
+    })
+    return typeof options.body === 'string' ? { ...event, body: options.body } : event
+  }
+}
+
+/**
+ * Parse a handler result; application/json bodies are decoded
+ */
+export function parseResult(result: APIGatewayProxyResult): TestResponse {
+  const headers = Object.fromEntries(
+    Object.entries(result.headers ?? {}).map(([name, value]) => [name, String(value)])
+  )
+  const contentType = Object.entries(headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1] ?? ''
+  const isJson = result.body !== '' && contentType.split(';')[0].trim() === 'application/json'
+  return {
+    statusCode: result.statusCode,
+    headers,
+    body: isJson ? JSON.parse(result.body) : result.body,
+    text: result.body,
+  }
+}
+
+/**
+ * Create a client that calls a Lambda handler with events from createEventFactory
+ */
+export function createTestClient(handler: LambdaHandler, defaults: EventDefaults) {
+  const buildEvent = createEventFactory(defaults)
+  const request = async (httpMethod: string, resource: string, options?: TestRequestOptions) =>
+    parseResult(await handler(buildEvent(httpMethod, resource, options)))
+
+  return {
+    buildEvent,
+    request,
+    get: (resource: string, options?: TestRequestOptions) => request('GET', resource, options),
+    post: (resource: string, options?: TestRequestOptions) => request('POST', resource, options),
+    put: (resource: string, options?: TestRequestOptions) => request('PUT', resource, options),
+    patch: (resource: string, options?: TestRequestOptions) => request('PATCH', resource, options),
+    delete: (resource: string, options?: TestRequestOptions) => request('DELETE', resource, options),
+  }
+}
+
+export type TestClient = ReturnType<typeof createTestClient>
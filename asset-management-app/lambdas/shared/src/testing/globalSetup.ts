@@ -0,0 +1,80 @@
+import fs from 'fs'
+import http from 'http'
+import os from 'os'
+import path from 'path'
+import dotenv from 'dotenv'
+import type { AddressInfo } from 'net'
+import type { TestProject } from 'vitest/node'
+import { createLocalS3Listener } from '../local/s3Server'
+
+/**
+ * Global setup for the db test project, run once before any *.db.test.ts file
+ *
+ * Starts an in-memory MySQL 8.0 (mysql-memory-server, downloaded on the first run) and the
+ * filesystem S3 stand-in, and hands their addresses to the workers (see setupDatabase.ts).
+ * TEST_DATABASE=env uses the DB_* server from .env instead; each worker still gets its own
+ * database (<DB_NAME>_test_<worker>), so the user needs CREATE / DROP privileges.
+ */
+
+export interface TestDatabaseConfig {
+  host: string
+  port: number
+  user: string
+  password: string
+  // Prefix of the per-worker database names
+  name: string
+}
+
+export interface TestStorageConfig {
+  endpoint: string
+  bucket: string
+}
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    testDatabase: TestDatabaseConfig
+    testStorage: TestStorageConfig
+  }
+}
+
+const TEST_BUCKET = 'test-assets'
+
+export default async function setup(project: TestProject): Promise<() => Promise<void>> {
+  let stopDatabase = async () => {}
+
+  if (process.env.TEST_DATABASE === 'env') {
+    dotenv.config({ path: path.join(__dirname, '../../.env') })
+    project.provide('testDatabase', {
+      host: process.env.DB_HOST || 'localhost',
+      port: parseInt(process.env.DB_PORT || '3306'),
+      user: process.env.DB_USER || 'root',
+      password: process.env.DB_PASSWORD || '',
+      name: `${process.env.DB_NAME || 'asset_management'}_test`,
+    })
+  } else {
+    const { createDB } = await import('mysql-memory-server')
+    const database = await createDB({ version: '8.0.x', logLevel: 'ERROR' })
+    stopDatabase = () => database.stop()
+    project.provide('testDatabase', {
+      host: '127.0.0.1',
+      port: database.port,
+      user: database.username,
+      password: '',
+      name: 'asset_test',
+    })
+  }
+
+  const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-test-s3-'))
+  const s3Server = http.createServer(createLocalS3Listener({ rootDir: storageDir, bucket: TEST_BUCKET }))
+  await new Promise<void>((resolve) => s3Server.listen(0, '127.0.0.1', resolve))
+  project.provide('testStorage', {
+    endpoint: `http://127.0.0.1:${(s3Server.address() as AddressInfo).port}`,
+    bucket: TEST_BUCKET,
+  })
+
+  return async () => {
+    s3Server.close()
+    fs.rmSync(storageDir, { recursive: true, force: true })
+    await stopDatabase()
+  }
+}
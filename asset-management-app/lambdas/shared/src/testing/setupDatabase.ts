@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, beforeEach, inject } from 'vitest'
+import type { Sequelize } from 'sequelize'
+
+/**
+ * Setup file for the db test project, run before each *.db.test.ts file
+ *
+ * Points config/env.ts at this worker's test database and the S3 stand-in started by
+ * globalSetup.ts, migrates the database and empties every table before each test, so tests
+ * do not depend on each other or on leftovers from earlier runs.
+ */
+
+const database = inject('testDatabase')
+const storage = inject('testStorage')
+
+// Files in one worker run one at a time; workers run in parallel, each with its own database
+const databaseName = `${database.name}_${process.env.VITEST_POOL_ID ?? '1'}`
+
+// Set before the test file loads config/env.ts; .env does not override existing variables
+Object.assign(process.env, {
+  DB_HOST: database.host,
+  DB_PORT: String(database.port),
+  DB_NAME: databaseName,
+  DB_USER: database.user,
+  DB_PASSWORD: database.password,
+  DB_SECRET_NAME: '',
+  ASSET_BUCKET_NAME: storage.bucket,
+  S3_ENDPOINT: storage.endpoint,
+  S3_FORCE_PATH_STYLE: 'true',
+  AWS_ACCESS_KEY_ID: 'test',
+  AWS_SECRET_ACCESS_KEY: 'test',
+})
+
+let sequelize: Sequelize
+
+beforeAll(async () => {
+  const { createTestDatabase, migrateTestDatabase } = await import('./database')
+  await createTestDatabase(database, databaseName)
+  sequelize = (await import('../models')).sequelize
+  await migrateTestDatabase(sequelize)
+})
+
+beforeEach(async () => {
+  const { clearTables } = await import('./database')
+  await clearTables(sequelize)
+})
+
+afterAll(async () => {
+  await sequelize?.close()
+})
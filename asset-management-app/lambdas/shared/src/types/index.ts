@@ -12,27 +12,334 @@ export enum AssetCategory {
   OTHER = 'other',
 }
 
+// Asset status enum (lifecycle; trashing is separate, see deletedAt)
+export enum AssetStatus {
+  ACTIVE = 'active',
+  ARCHIVED = 'archived',
+  MAINTENANCE = 'maintenance',
+}
+
 // Asset attributes interface
 export interface AssetAttributes {
   id: string
   ownerId: string
+  externalKey: string | null
   name: string
   description: string | null
   category: AssetCategory
   imageKey: string | null
+  status: AssetStatus
+  statusNote: string | null
   createdAt: Date
   updatedAt: Date
+  deletedAt: Date | null
+  // Optimistic locking version, incremented on every update
+  version: number
 }
 
 // Asset creation attributes (fields that are optional during creation)
 export interface AssetCreationAttributes
-  extends Optional<AssetAttributes, 'id' | 'description' | 'imageKey' | 'createdAt' | 'updatedAt'> {}
+  extends Optional<
+    AssetAttributes,
+    | 'id'
+    | 'externalKey'
+    | 'description'
+    | 'imageKey'
+    | 'status'
+    | 'statusNote'
+    | 'createdAt'
+    | 'updatedAt'
+    | 'deletedAt'
+    | 'version'
+  > {}
 
 // Asset instance type (Sequelize Model instance)
 export interface AssetInstance
   extends Model<AssetAttributes, AssetCreationAttributes>,
     AssetAttributes {}
 
+// Asset file role enum
+export enum AssetFileRole {
+  PRIMARY = 'primary',
+  THUMBNAIL = 'thumbnail',
+  ATTACHMENT = 'attachment',
+}
+
+// Asset file attributes interface
+export interface AssetFileAttributes {
+  id: string
+  assetId: string
+  key: string
+  mimeType: string
+  size: number
+  checksum: string | null
+  role: AssetFileRole
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Asset file creation attributes
+export interface AssetFileCreationAttributes
+  extends Optional<AssetFileAttributes, 'id' | 'checksum' | 'role' | 'createdAt' | 'updatedAt'> {}
+
+// Asset file instance type (Sequelize Model instance)
+export interface AssetFileInstance
+  extends Model<AssetFileAttributes, AssetFileCreationAttributes>,
+    AssetFileAttributes {}
+
+// Tag attributes interface (tags are per owner; `value` is '' for tags without one)
+export interface TagAttributes {
+  id: string
+  ownerId: string
+  name: string
+  value: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Tag creation attributes
+export interface TagCreationAttributes extends Optional<TagAttributes, 'id' | 'value' | 'createdAt' | 'updatedAt'> {}
+
+// Tag instance type (Sequelize Model instance)
+export interface TagInstance extends Model<TagAttributes, TagCreationAttributes>, TagAttributes {}
+
+// Asset tag attributes interface (join table between assets and tags)
+export interface AssetTagAttributes {
+  assetId: string
+  tagId: string
+  createdBy: string
+  createdAt: Date
+}
+
+// Asset tag creation attributes
+export interface AssetTagCreationAttributes extends Optional<AssetTagAttributes, 'createdAt'> {}
+
+// Asset tag instance type (Sequelize Model instance)
+export interface AssetTagInstance extends Model<AssetTagAttributes, AssetTagCreationAttributes>, AssetTagAttributes {}
+
+// Asset revision action enum
+export enum RevisionAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+  REVERTED = 'reverted',
+}
+
+// Asset fields recorded in revisions
+export type RevisionField = 'name' | 'description' | 'category' | 'status' | 'statusNote' | 'imageKey' | 'externalKey'
+
+// Asset values after a revision
+export type AssetSnapshot = Pick<AssetAttributes, RevisionField>
+
+// One changed field of a revision
+export interface RevisionChange {
+  field: RevisionField
+  from: string | null
+  to: string | null
+}
+
+// Asset revision attributes interface
+export interface AssetRevisionAttributes {
+  id: string
+  assetId: string
+  revision: number
+  action: RevisionAction
+  actorId: string
+  changes: RevisionChange[]
+  snapshot: AssetSnapshot
+  // Revision whose values were restored (reverted only)
+  revertedTo: number | null
+  createdAt: Date
+}
+
+// Asset revision creation attributes
+export interface AssetRevisionCreationAttributes
+  extends Optional<AssetRevisionAttributes, 'id' | 'revertedTo' | 'createdAt'> {}
+
+// Asset revision instance type (Sequelize Model instance)
+export interface AssetRevisionInstance
+  extends Model<AssetRevisionAttributes, AssetRevisionCreationAttributes>,
+    AssetRevisionAttributes {}
+
+// Audit event actions
+// Revision actions plus reads and permanent deletion by the purge job
+export enum AuditAction {
+  CREATED = 'created',
+  VIEWED = 'viewed',
+  UPDATED = 'updated',
+  DELETED = 'deleted',
+  RESTORED = 'restored',
+  REVERTED = 'reverted',
+  PURGED = 'purged',
+}
+
+// Audit event attributes (append-only; see utils/audit.ts)
+export interface AuditEventAttributes {
+  id: string
+  // No foreign key: events outlive the asset
+  assetId: string
+  ownerId: string
+  // Cognito `sub` of the caller, or `system:<job>` for background jobs
+  actorId: string
+  action: AuditAction
+  // SHA-256 of the asset snapshot before / after the action; null when there is none
+  beforeHash: string | null
+  afterHash: string | null
+  sourceIp: string | null
+  userAgent: string | null
+  requestId: string | null
+  createdAt: Date
+}
+
+// Audit event creation attributes
+export interface AuditEventCreationAttributes
+  extends Optional<
+    AuditEventAttributes,
+    'id' | 'beforeHash' | 'afterHash' | 'sourceIp' | 'userAgent' | 'requestId' | 'createdAt'
+  > {}
+
+// Audit event instance type (Sequelize Model instance)
+export interface AuditEventInstance
+  extends Model<AuditEventAttributes, AuditEventCreationAttributes>,
+    AuditEventAttributes {}
+
+// Role granted by an asset share; owners have every permission of both
+export enum ShareRole {
+  VIEWER = 'viewer',
+  EDITOR = 'editor',
+}
+
+// Who an asset share is granted to: one Cognito user (sub) or every member of a Cognito group
+export enum ShareGranteeType {
+  USER = 'user',
+  GROUP = 'group',
+}
+
+// Which assets GET /assets lists: the caller's, those shared with them, or both
+export enum AssetScope {
+  OWNED = 'owned',
+  SHARED = 'shared',
+  ALL = 'all',
+}
+
+// Asset share attributes interface
+export interface AssetShareAttributes {
+  id: string
+  assetId: string
+  granteeType: ShareGranteeType
+  // Cognito user ID or group name
+  granteeId: string
+  role: ShareRole
+  // Cognito user ID of the owner who shared the asset
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Asset share creation attributes
+export interface AssetShareCreationAttributes
+  extends Optional<AssetShareAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+
+// Asset share instance type (Sequelize Model instance)
+export interface AssetShareInstance
+  extends Model<AssetShareAttributes, AssetShareCreationAttributes>,
+    AssetShareAttributes {}
+
+// Whether a public share link can still be opened (see utils/shareLinks.ts)
+export enum ShareLinkStatus {
+  ACTIVE = 'active',
+  EXPIRED = 'expired',
+  REVOKED = 'revoked',
+  // Every allowed download has been used
+  EXHAUSTED = 'exhausted',
+}
+
+// Public share link attributes interface
+export interface ShareLinkAttributes {
+  id: string
+  assetId: string
+  // SHA-256 of the link token; the token itself is only returned when the link is created
+  tokenHash: string
+  // scrypt hash of the optional password
+  passwordHash: string | null
+  expiresAt: Date
+  // null: no download limit
+  maxDownloads: number | null
+  downloadCount: number
+  // Successful opens, with or without a download
+  accessCount: number
+  // Incorrect passwords since the last successful open or lockout
+  failedPasswordAttempts: number
+  // Passwords are refused until this time
+  lockedUntil: Date | null
+  lastAccessedAt: Date | null
+  revokedAt: Date | null
+  // Cognito user ID of the owner who created the link
+  createdBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Share link creation attributes
+export interface ShareLinkCreationAttributes
+  extends Optional<
+    ShareLinkAttributes,
+    | 'id'
+    | 'passwordHash'
+    | 'maxDownloads'
+    | 'downloadCount'
+    | 'accessCount'
+    | 'failedPasswordAttempts'
+    | 'lockedUntil'
+    | 'lastAccessedAt'
+    | 'revokedAt'
+    | 'createdAt'
+    | 'updatedAt'
+  > {}
+
+// Share link instance type (Sequelize Model instance)
+export interface ShareLinkInstance
+  extends Model<ShareLinkAttributes, ShareLinkCreationAttributes>,
+    ShareLinkAttributes {}
+
+// Per-owner limit overrides set by administrators; null fields use the defaults from env
+export interface OwnerLimitAttributes {
+  ownerId: string
+  requestsPerMinute: number | null
+  maxAssets: number | null
+  // Total file bytes per asset category; categories left out use the default
+  maxBytesPerCategory: Partial<Record<AssetCategory, number>> | null
+  // Cognito user ID of the administrator who last changed the limits
+  updatedBy: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Owner limit creation attributes
+export interface OwnerLimitCreationAttributes
+  extends Optional<
+    OwnerLimitAttributes,
+    'requestsPerMinute' | 'maxAssets' | 'maxBytesPerCategory' | 'createdAt' | 'updatedAt'
+  > {}
+
+// Owner limit instance type (Sequelize Model instance)
+export interface OwnerLimitInstance
+  extends Model<OwnerLimitAttributes, OwnerLimitCreationAttributes>,
+    OwnerLimitAttributes {}
+
+// Requests counted for an owner in one fixed rate-limit window (see utils/quotas.ts)
+export interface RateLimitWindowAttributes {
+  ownerId: string
+  windowStart: Date
+  requestCount: number
+}
+
+// Rate limit window instance type (Sequelize Model instance)
+export interface RateLimitWindowInstance
+  extends Model<RateLimitWindowAttributes, RateLimitWindowAttributes>,
+    RateLimitWindowAttributes {}
+
 // Database configuration
 export interface DatabaseConfig {
   dialect: 'mysql'
@@ -71,15 +378,5 @@ export interface ApiResponse<T = any> {
   message?: string
 }
 
-// Lambda event types
-export interface AssetEvent {
-  ownerId: string
-  name: string
-  description?: string
-  category: AssetCategory
-  imageKey?: string
-}
-
-export interface AssetUpdateEvent extends Partial<AssetEvent> {
-  id: string
-}
\ No newline at end of file
+// Lambda event types, generated from the request schemas in ../schemas/assets
+export type { AssetEvent, AssetUpdateEvent } from '../schemas/assets'
\ No newline at end of file
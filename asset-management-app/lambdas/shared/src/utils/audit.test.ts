@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { hashSnapshot } from './audit'
+import { AssetCategory, AssetStatus } from '../types'
+
+describe('hashSnapshot', () => {
+  const snapshot = {
+    name: 'Logo',
+    description: null,
+    category: AssetCategory.IMAGE,
+    status: AssetStatus.ACTIVE,
+    statusNote: null,
+    imageKey: null,
+    externalKey: null,
+  }
+
+  it('returns a stable SHA-256 digest of the snapshot', () => {
+    const hash = hashSnapshot(snapshot)
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashSnapshot({ ...snapshot })).toBe(hash)
+    expect(hashSnapshot({ ...snapshot, name: 'Logo 2' })).not.toBe(hash)
+  })
+
+  it('returns null without a snapshot', () => {
+    expect(hashSnapshot(null)).toBeNull()
+  })
+})
@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { createHash } from 'crypto'
+import type { Transaction } from 'sequelize'
+import { AuditEvent } from '../models'
+import type { AssetSnapshot, AuditAction, AuditEventInstance } from '../types'
+
+/**
+ * Audit trail
+ *
+ * The API appends an AuditEvent for every asset action: writes through recordRevision (in the
+ * same transaction, so only committed changes are audited), reads of GET /assets/{id} and
+ * permanent deletion by the purge job. Events store hashes of the asset before and after the
+ * action instead of the values, plus where the request came from. Clients cannot write them.
+ */
+
+const USER_AGENT_MAX_LENGTH = 500
+
+/**
+ * Where the current request came from
+ * Set per request by withAuditSource; empty for scripts and jobs
+ */
+export interface AuditSource {
+  sourceIp: string | null
+  userAgent: string | null
+  requestId: string | null
+}
+
+const sourceStorage = new AsyncLocalStorage<AuditSource>()
+
+/**
+ * Run `fn` with `source` recorded on every audit event it writes
+ */
+export function runWithAuditSource<T>(source: AuditSource, fn: () => T): T {
+  return sourceStorage.run(source, fn)
+}
+
+/**
+ * SHA-256 (hex) of an asset snapshot; null when there is no snapshot
+ * snapshotAsset lists the fields in a fixed order, so equal values give equal hashes
+ */
+export function hashSnapshot(snapshot: AssetSnapshot | null): string | null {
+  return snapshot ? createHash('sha256').update(JSON.stringify(snapshot)).digest('hex') : null
+}
+
+export interface RecordAuditEventOptions {
+  action: AuditAction
+  // Cognito `sub` of the caller, `system:<job>`, or `link:<id>` for a public share link
+  actorId: string
+  before: AssetSnapshot | null
+  after: AssetSnapshot | null
+  transaction?: Transaction
+}
+
+/**
+ * Append an audit event for an action on `asset`
+ */
+export async function recordAuditEvent(
+  asset: { id: string; ownerId: string },
+  options: RecordAuditEventOptions
+): Promise<AuditEventInstance> {
+  const source = sourceStorage.getStore()
+
+  return AuditEvent.create(
+    {
+      assetId: asset.id,
+      ownerId: asset.ownerId,
+      actorId: options.actorId,
+      action: options.action,
+      beforeHash: hashSnapshot(options.before),
+      afterHash: hashSnapshot(options.after),
+      sourceIp: source?.sourceIp ?? null,
+      userAgent: source?.userAgent?.slice(0, USER_AGENT_MAX_LENGTH) ?? null,
+      requestId: source?.requestId ?? null,
+    },
+    { transaction: options.transaction }
+  )
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { escapeCsvFormula, formatCsvRow, parseCsv, unescapeCsvFormula } from './csv'
+import { ValidationError } from './validation'
+
+/**
+ * CSV reading and writing used by asset import / export
+ */
+
+describe('formatCsvRow', () => {
+  it('quotes values with commas, quotes and line breaks', () => {
+    const row = formatCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines', null, new Date('2026-01-02T03:04:05.000Z')])
+
+    expect(row).toBe('plain,"a,b","say ""hi""","two\nlines",,2026-01-02T03:04:05.000Z\r\n')
+  })
+
+  it('prefixes text that a spreadsheet would run as a formula with an apostrophe', () => {
+    const row = formatCsvRow(['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', '\tTab', '\rCR', 'a=b', -3])
+
+    expect(row).toBe(`"'=HYPERLINK(""http://x"")",'+1,'-2,'@SUM(A1),'\tTab,"'\rCR",a=b,-3\r\n`)
+  })
+})
+
+describe('parseCsv', () => {
+  it('reverses formatting and tracks the starting line of each record', () => {
+    const rows = [formatCsvRow(['Logo', 'two\nlines, "quoted"']), formatCsvRow(['Photo', ''])]
+    const text = 'name,description\r\n' + rows.join('\n')
+    const records = parseCsv(text)
+
+    expect(records.map((record) => record.line)).toEqual([1, 2, 5])
+    expect(records[1].values[1]).toBe('two\nlines, "quoted"')
+    expect(records[2].values).toEqual(['Photo', ''])
+  })
+
+  it('skips a byte order mark and keeps a last record without a newline', () => {
+    const records = parseCsv('\ufeffname,category\nLogo,image')
+
+    expect(records[0].values[0]).toBe('name')
+    expect(records[1].values).toEqual(['Logo', 'image'])
+  })
+
+  it('rejects an unterminated quote with its line', () => {
+    expect(() => parseCsv('name\n"Logo\n')).toThrow(ValidationError)
+    expect(() => parseCsv('name\n"Logo\n')).toThrow(expect.objectContaining({ field: 'content' }))
+    expect(() => parseCsv('name\n"Logo\n')).toThrow(/line 2/)
+  })
+})
+
+describe('formula escaping', () => {
+  it('round-trips, including text that already starts with an apostrophe', () => {
+    for (const text of ['=1+1', "'=1+1", "''-x", "'plain", 'plain', '']) {
+      expect(unescapeCsvFormula(escapeCsvFormula(text))).toBe(text)
+    }
+    expect(escapeCsvFormula("'plain")).toBe("'plain")
+    expect(escapeCsvFormula("'=1+1")).toBe("''=1+1")
+  })
+})
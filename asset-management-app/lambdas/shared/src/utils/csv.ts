@@ -0,0 +1,129 @@
+import { ValidationError } from './validation'
+
+/**
+ * Minimal RFC 4180 CSV reading and writing for asset import / export
+ *
+ * Fields containing a comma, quote or line break are quoted, with quotes doubled.
+ * Rows end with CRLF when written; LF and CRLF are both accepted when read.
+ * Text that a spreadsheet would run as a formula (starting with =, +, -, @, tab or CR) is written
+ * with a leading apostrophe; unescapeCsvFormula removes it again on import.
+ */
+
+export interface CsvRecord {
+  // 1-based line number the record starts on (records can span lines inside quotes)
+  line: number
+  values: string[]
+}
+
+// Formula trigger, possibly behind apostrophes added by an earlier escape
+const FORMULA_PREFIX = /^'*[=+\-@\t\r]/
+
+/**
+ * Prefix text that would start a spreadsheet formula with an apostrophe
+ * Text that already starts with apostrophes before a trigger gets one more, so unescaping is exact.
+ */
+export function escapeCsvFormula(text: string): string {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text
+}
+
+/**
+ * Reverse escapeCsvFormula on an imported cell
+ */
+export function unescapeCsvFormula(text: string): string {
+  return text.startsWith("'") && FORMULA_PREFIX.test(text) ? text.slice(1) : text
+}
+
+/**
+ * Format one value as a CSV field
+ * null and undefined become empty fields, dates are written as ISO 8601. Strings are escaped
+ * with escapeCsvFormula; numbers, booleans and dates are written as they are.
+ */
+export function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  const text =
+    value instanceof Date ? value.toISOString() : typeof value === 'string' ? escapeCsvFormula(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Format one CSV row, including its line terminator
+ */
+export function formatCsvRow(values: unknown[]): string {
+  return values.map(formatCsvField).join(',') + '\r\n'
+}
+
+/**
+ * Parse CSV text into records
+ * Blank lines are skipped. An unterminated quoted field is rejected with a ValidationError on `field`.
+ */
+export function parseCsv(text: string, field: string = 'content'): CsvRecord[] {
+  const records: CsvRecord[] = []
+  let values: string[] = []
+  let value = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+  let fieldStarted = false
+
+  const endRecord = () => {
+    values.push(value)
+    // A line holding nothing at all is blank, not a record with one empty field
+    if (values.length > 1 || values[0] !== '' || fieldStarted) {
+      records.push({ line: recordLine, values })
+    }
+    values = []
+    value = ''
+    fieldStarted = false
+  }
+
+  // Skip a UTF-8 byte order mark written by spreadsheet exports
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === '\n') {
+          line++
+        }
+        value += char
+      }
+      continue
+    }
+
+    if (char === '"' && value === '') {
+      quoted = true
+      fieldStarted = true
+    } else if (char === ',') {
+      values.push(value)
+      value = ''
+      fieldStarted = true
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      value += char
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError(`Unterminated quoted field starting on line ${recordLine}`, field)
+  }
+  if (value !== '' || values.length > 0 || fieldStarted) {
+    endRecord()
+  }
+
+  return records
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest'
+import { createLogger, isLevelEnabled, redact, runWithLogContext } from './logger'
+
+let stdout: MockInstance
+
+// Entries written since the test started, parsed
+const entries = () => stdout.mock.calls.map(([line]) => JSON.parse(String(line)))
+
+beforeEach(() => {
+  stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true)
+})
+
+afterEach(() => {
+  stdout.mockRestore()
+  vi.unstubAllEnvs()
+})
+
+describe('redact', () => {
+  it('redacts Authorization, password, secret and token keys', () => {
+    expect(
+      redact({
+        Authorization: 'Bearer abc',
+        DB_PASSWORD: 'hunter2',
+        SecretString: '{"password":"x"}',
+        idToken: 'eyJ...',
+        'x-api-key': 'key',
+        path: '/assets',
+      })
+    ).toEqual({
+      Authorization: '[REDACTED]',
+      DB_PASSWORD: '[REDACTED]',
+      SecretString: '[REDACTED]',
+      idToken: '[REDACTED]',
+      'x-api-key': '[REDACTED]',
+      path: '/assets',
+    })
+  })
+
+  it('redacts nested keys, including inside arrays', () => {
+    expect(
+      redact({ headers: { authorization: 'Bearer abc', accept: 'json' }, users: [{ name: 'a', password: 'p' }] })
+    ).toEqual({
+      headers: { authorization: '[REDACTED]', accept: 'json' },
+      users: [{ name: 'a', password: '[REDACTED]' }],
+    })
+  })
+
+  it('expands errors and marks circular references', () => {
+    const value: Record<string, unknown> = { error: new Error('boom') }
+    value.self = value
+
+    expect(redact(value)).toEqual({
+      error: { name: 'Error', message: 'boom', stack: expect.any(String) },
+      self: '[Circular]',
+    })
+  })
+})
+
+describe('logger', () => {
+  it('writes one JSON line with the context fields and redacted data', () => {
+    vi.stubEnv('LOG_LEVEL', 'info')
+
+    runWithLogContext({ requestId: 'req-1' }, () => {
+      createLogger({ component: 'test' }).info('Hello', { token: 'secret-token', count: 2 })
+    })
+
+    expect(entries()).toEqual([
+      {
+        timestamp: expect.any(String),
+        level: 'info',
+        message: 'Hello',
+        requestId: 'req-1',
+        component: 'test',
+        token: '[REDACTED]',
+        count: 2,
+      },
+    ])
+  })
+
+  it('suppresses levels below LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'warn')
+    const logger = createLogger()
+
+    logger.debug('debug')
+    logger.info('info')
+    logger.warn('warn')
+    logger.error('error')
+
+    expect(entries().map((entry) => entry.level)).toEqual(['warn', 'error'])
+    expect(isLevelEnabled('info')).toBe(false)
+  })
+
+  it('defaults to debug in development and info otherwise', () => {
+    vi.stubEnv('LOG_LEVEL', '')
+    vi.stubEnv('NODE_ENV', 'development')
+    expect(isLevelEnabled('debug')).toBe(true)
+
+    vi.stubEnv('NODE_ENV', 'production')
+    expect(isLevelEnabled('debug')).toBe(false)
+    expect(isLevelEnabled('info')).toBe(true)
+  })
+})
@@ -0,0 +1,153 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * Structured JSON logger
+ *
+ * Every entry is one JSON line on stdout with timestamp, level and message, the fields of the
+ * current request (awsRequestId, requestId, route, ownerId, ...) and any extra data. Request
+ * fields live in AsyncLocalStorage, so helpers such as dbHelper log them without being passed
+ * the request. Values under sensitive keys (Authorization, passwords, secrets, tokens) are redacted.
+ *
+ * LOG_LEVEL selects the minimum level: debug | info | warn | error
+ * (default: debug in development, info otherwise).
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFields = Record<string, unknown>
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// Matched against the end of a key: Authorization, DB_PASSWORD, SecretString, idToken, x-api-key, ...
+const SENSITIVE_KEY = /(authorization|cookie|password|passwd|secret|secretstring|secretaccesskey|tokens?|api[-_]?key|credentials?)$/i
+
+const REDACTED = '[REDACTED]'
+
+const MAX_DEPTH = 6
+
+const contextStorage = new AsyncLocalStorage<LogFields>()
+
+/**
+ * Minimum level from LOG_LEVEL
+ * Read on every call so tests and scripts can change it at runtime
+ */
+function minimumLevel(): LogLevel {
+  const level = (process.env.LOG_LEVEL || '').toLowerCase()
+  if (level in LEVELS) {
+    return level as LogLevel
+  }
+  return process.env.NODE_ENV === 'development' ? 'debug' : 'info'
+}
+
+/**
+ * Whether entries at `level` are written
+ */
+export function isLevelEnabled(level: LogLevel): boolean {
+  return LEVELS[level] >= LEVELS[minimumLevel()]
+}
+
+/**
+ * Copy a value for logging with sensitive keys redacted and errors expanded
+ */
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...((value as any).statusCode !== undefined && { statusCode: (value as any).statusCode }),
+      stack: value.stack,
+    }
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]'
+  }
+  if (seen.has(value)) {
+    return '[Circular]'
+  }
+  seen.add(value)
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1, seen))
+  }
+
+  const result: LogFields = {}
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redact(item, depth + 1, seen)
+  }
+  return result
+}
+
+/**
+ * Run `fn` with fields added to every entry logged while it runs (including async work it starts)
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn)
+}
+
+/**
+ * Add fields to the current context (e.g. ownerId once the caller is authenticated)
+ */
+export function appendLogContext(fields: LogFields): void {
+  const store = contextStorage.getStore()
+  if (store) {
+    Object.assign(store, fields)
+  }
+}
+
+/**
+ * Fields of the current context
+ */
+export function getLogContext(): LogFields {
+  return { ...contextStorage.getStore() }
+}
+
+function write(level: LogLevel, bindings: LogFields, message: string, data?: LogFields): void {
+  if (!isLevelEnabled(level)) {
+    return
+  }
+
+  const entry = redact({
+    timestamp: new Date().toISOString(),
+    level,
+    message,
+    ...contextStorage.getStore(),
+    ...bindings,
+    ...data,
+  })
+
+  // stdout instead of console.log: the Lambda runtime would prefix console output and break the JSON line
+  process.stdout.write(JSON.stringify(entry) + '\n')
+}
+
+export interface Logger {
+  debug(message: string, data?: LogFields): void
+  info(message: string, data?: LogFields): void
+  warn(message: string, data?: LogFields): void
+  error(message: string, data?: LogFields): void
+  // Logger that adds `fields` to every entry (e.g. { component: 'dbHelper' })
+  child(fields: LogFields): Logger
+}
+
+/**
+ * Create a logger with fixed fields
+ */
+export function createLogger(bindings: LogFields = {}): Logger {
+  return {
+    debug: (message, data) => write('debug', bindings, message, data),
+    info: (message, data) => write('info', bindings, message, data),
+    warn: (message, data) => write('warn', bindings, message, data),
+    error: (message, data) => write('error', bindings, message, data),
+    child: (fields) => createLogger({ ...bindings, ...fields }),
+  }
+}
+
+/**
+ * Shared root logger
+ */
+export const logger = createLogger()
@@ -0,0 +1,219 @@
+import { Op, type Model, type ModelStatic, type Order, type WhereOptions } from 'sequelize'
+import { ValidationError } from './validation'
+
+/**
+ * Cursor (keyset) pagination helpers
+ *
+ * A cursor encodes the sort value and id of the row at a page boundary, so the next
+ * page is "rows after (value, id)" in the sort order. Unlike offsets, this stays
+ * correct when rows are inserted or deleted while a client is paging.
+ */
+
+export const SORT_FIELDS = ['name', 'createdAt', 'updatedAt', 'category'] as const
+
+export type SortField = (typeof SORT_FIELDS)[number]
+export type SortDirection = 'asc' | 'desc'
+
+export interface Sort {
+  field: SortField
+  direction: SortDirection
+}
+
+export interface Cursor {
+  field: SortField
+  direction: SortDirection
+  value: string | Date
+  id: string
+  // Which way the cursor pages: 'next' continues after the row, 'prev' returns rows before it
+  towards: 'next' | 'prev'
+}
+
+const DATE_FIELDS: SortField[] = ['createdAt', 'updatedAt']
+
+export const DEFAULT_SORT: Sort = { field: 'createdAt', direction: 'desc' }
+
+/**
+ * Parse a `sort` query parameter of the form `field` or `field:asc|desc`
+ */
+export function parseSort(value: string | undefined): Sort {
+  if (!value) {
+    return DEFAULT_SORT
+  }
+
+  const [field, direction = 'asc'] = value.split(':')
+  if (!SORT_FIELDS.includes(field as SortField)) {
+    throw new ValidationError(`Invalid sort field. Must be one of: ${SORT_FIELDS.join(', ')}`, 'sort')
+  }
+  if (direction !== 'asc' && direction !== 'desc') {
+    throw new ValidationError('Invalid sort direction. Must be asc or desc', 'sort')
+  }
+
+  return { field: field as SortField, direction }
+}
+
+/**
+ * Parse a `limit` query parameter (default: 10, max: 100)
+ */
+export function parseLimit(value: string | undefined, defaultLimit: number = 10): number {
+  const limit = parseInt(value || String(defaultLimit))
+  if (!Number.isFinite(limit) || limit < 1) {
+    throw new ValidationError('Limit must be a positive number', 'limit')
+  }
+  return Math.min(limit, 100)
+}
+
+/**
+ * Encode an opaque cursor for the given row
+ */
+export function encodeCursor(
+  row: { id: string } & Record<string, any>,
+  sort: Sort,
+  towards: Cursor['towards']
+): string {
+  const value = row[sort.field]
+  const payload = {
+    f: sort.field,
+    d: sort.direction,
+    v: value instanceof Date ? value.toISOString() : value,
+    id: row.id,
+    t: towards,
+  }
+  return Buffer.from(JSON.stringify(payload)).toString('base64url')
+}
+
+/**
+ * Decode a cursor and check it was issued for the current sort
+ */
+export function decodeCursor(token: string, sort: Sort): Cursor {
+  let payload: any
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+  } catch (error) {
+    throw new ValidationError('Invalid cursor', 'cursor')
+  }
+
+  if (
+    !payload ||
+    typeof payload.id !== 'string' ||
+    typeof payload.v !== 'string' ||
+    (payload.t !== 'next' && payload.t !== 'prev')
+  ) {
+    throw new ValidationError('Invalid cursor', 'cursor')
+  }
+  if (payload.f !== sort.field || payload.d !== sort.direction) {
+    throw new ValidationError('Cursor does not match the requested sort', 'cursor')
+  }
+
+  const value = DATE_FIELDS.includes(sort.field) ? new Date(payload.v) : payload.v
+  if (value instanceof Date && isNaN(value.getTime())) {
+    throw new ValidationError('Invalid cursor', 'cursor')
+  }
+
+  return { field: sort.field, direction: sort.direction, value, id: payload.id, towards: payload.t }
+}
+
+/**
+ * Reverse a sort direction
+ */
+export function invertDirection(direction: SortDirection): SortDirection {
+  return direction === 'asc' ? 'desc' : 'asc'
+}
+
+/**
+ * Stable order: the sort field, then id as tie-breaker in the same direction
+ */
+export function buildOrder(field: SortField, direction: SortDirection): Order {
+  const dir = direction.toUpperCase()
+  return [
+    [field, dir],
+    ['id', dir],
+  ]
+}
+
+/**
+ * Where clause selecting rows strictly after the cursor row when scanning in `direction`
+ */
+export function buildKeysetWhere(cursor: Cursor, direction: SortDirection): WhereOptions {
+  const op = direction === 'asc' ? Op.gt : Op.lt
+  return {
+    [Op.or]: [
+      { [cursor.field]: { [op]: cursor.value } },
+      { [cursor.field]: cursor.value, id: { [op]: cursor.id } },
+    ],
+  }
+}
+
+export interface PageOptions {
+  where: WhereOptions
+  sort: Sort
+  limit: number
+  // Cursor mode when set, otherwise offset mode
+  cursor?: string
+  offset?: number
+  // Skip the COUNT query (total, currentPage and totalPages are null)
+  includeTotal?: boolean
+}
+
+export interface PaginationMeta {
+  total: number | null
+  limit: number
+  offset: number | null
+  currentPage: number | null
+  totalPages: number | null
+  hasMore: boolean
+  nextCursor: string | null
+  prevCursor: string | null
+}
+
+/**
+ * Fetch one page of rows in offset or cursor mode
+ *
+ * Fetches limit + 1 rows to know whether another page exists without counting.
+ * Both modes return next/prev cursors so offset clients can switch to cursors.
+ */
+export async function findPage<M extends Model & { id: string }>(
+  model: ModelStatic<M>,
+  options: PageOptions
+): Promise<{ rows: M[]; pagination: PaginationMeta }> {
+  const { where, sort, limit, includeTotal = true } = options
+  const cursor = options.cursor ? decodeCursor(options.cursor, sort) : null
+  const offset = cursor ? 0 : Math.max(options.offset || 0, 0)
+
+  // Paging backwards scans in the opposite direction, then restores the requested order
+  const backward = cursor?.towards === 'prev'
+  const direction = backward ? invertDirection(sort.direction) : sort.direction
+
+  const rows = await model.findAll({
+    where: cursor ? { [Op.and]: [where, buildKeysetWhere(cursor, direction)] } : where,
+    order: buildOrder(sort.field, direction),
+    limit: limit + 1,
+    offset,
+  })
+
+  const moreInScanDirection = rows.length > limit
+  const page = rows.slice(0, limit)
+  if (backward) {
+    page.reverse()
+  }
+
+  const first = page[0]
+  const last = page[page.length - 1]
+  const hasNext = backward ? !!cursor : moreInScanDirection
+  const hasPrev = backward ? moreInScanDirection : !!cursor || offset > 0
+
+  const total = includeTotal ? await model.count({ where }) : null
+
+  return {
+    rows: page,
+    pagination: {
+      total,
+      limit,
+      offset: cursor ? null : offset,
+      currentPage: cursor ? null : Math.floor(offset / limit) + 1,
+      totalPages: total === null || cursor ? null : Math.ceil(total / limit),
+      hasMore: hasNext && !!last,
+      nextCursor: hasNext && last ? encodeCursor(last.get({ plain: true }), sort, 'next') : null,
+      prevCursor: hasPrev && first ? encodeCursor(first.get({ plain: true }), sort, 'prev') : null,
+    },
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { AssetCategory } from '../types'
+import { rateLimitWindowStart, resolveLimits, toOverrides, type OwnerLimits } from './quotas'
+
+const defaults: OwnerLimits = {
+  requestsPerMinute: 120,
+  maxAssets: 1000,
+  maxBytesPerCategory: {
+    [AssetCategory.IMAGE]: 100,
+    [AssetCategory.DOCUMENT]: 100,
+    [AssetCategory.VIDEO]: 100,
+    [AssetCategory.OTHER]: 100,
+  },
+}
+
+describe('resolveLimits', () => {
+  it('uses the defaults without an OwnerLimits row', () => {
+    expect(resolveLimits(toOverrides(null), defaults)).toEqual(defaults)
+  })
+
+  it('applies overrides, including 0 (no limit), per field and category', () => {
+    const limits = resolveLimits(
+      { requestsPerMinute: 0, maxAssets: null, maxBytesPerCategory: { [AssetCategory.VIDEO]: 5000 } },
+      defaults
+    )
+
+    expect(limits.requestsPerMinute).toBe(0)
+    expect(limits.maxAssets).toBe(1000)
+    expect(limits.maxBytesPerCategory[AssetCategory.VIDEO]).toBe(5000)
+    expect(limits.maxBytesPerCategory[AssetCategory.IMAGE]).toBe(100)
+  })
+})
+
+describe('rateLimitWindowStart', () => {
+  it('rounds down to the start of the minute', () => {
+    expect(rateLimitWindowStart(new Date('2024-05-01T10:15:42.123Z'))).toEqual(new Date('2024-05-01T10:15:00.000Z'))
+    expect(rateLimitWindowStart(new Date('2024-05-01T10:15:00.000Z'))).toEqual(new Date('2024-05-01T10:15:00.000Z'))
+  })
+})
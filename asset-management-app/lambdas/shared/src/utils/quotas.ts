@@ -0,0 +1,258 @@
+import { Op, col, fn, type Transaction } from 'sequelize'
+import { env } from '../config/env'
+import { sequelize, Asset, AssetFile, OwnerLimit, RateLimitWindow } from '../models'
+import { AssetCategory, type AssetInstance, type OwnerLimitInstance } from '../types'
+import { payloadTooLarge } from '../http/errors'
+
+/**
+ * Per-owner rate limits and storage quotas
+ *
+ * Limits come from the owner's OwnerLimits row (set by administrators) and fall back to the env
+ * defaults; 0 means no limit. Requests are counted per owner in fixed one-minute windows stored in
+ * RateLimitWindows, so every Lambda instance sees the same count. Quotas only count assets outside
+ * the trash and the files of those assets; checks are not locked, so concurrent requests can
+ * overshoot a quota slightly.
+ */
+
+export const RATE_LIMIT_WINDOW_SECONDS = 60
+
+export type CategoryBytes = Record<AssetCategory, number>
+
+/**
+ * Limits that apply to an owner
+ */
+export interface OwnerLimits {
+  requestsPerMinute: number
+  maxAssets: number
+  maxBytesPerCategory: CategoryBytes
+}
+
+/**
+ * Stored overrides; null (or a missing category) uses the default
+ */
+export interface OwnerLimitOverrides {
+  requestsPerMinute: number | null
+  maxAssets: number | null
+  maxBytesPerCategory: Partial<CategoryBytes>
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  // Requests in the current window, including this one
+  count: number
+  remaining: number
+  // Seconds until the current window ends
+  retryAfterSeconds: number
+}
+
+const CATEGORIES = Object.values(AssetCategory)
+
+function categoryBytes(value: (category: AssetCategory) => number): CategoryBytes {
+  return Object.fromEntries(CATEGORIES.map((category) => [category, value(category)])) as CategoryBytes
+}
+
+/**
+ * Default limits from env
+ */
+export function defaultLimits(): OwnerLimits {
+  return {
+    requestsPerMinute: env.RATE_LIMIT_REQUESTS_PER_MINUTE,
+    maxAssets: env.QUOTA_MAX_ASSETS,
+    maxBytesPerCategory: categoryBytes(() => env.QUOTA_MAX_BYTES_PER_CATEGORY),
+  }
+}
+
+/**
+ * Overrides stored in an OwnerLimits row (none without a row)
+ */
+export function toOverrides(row: OwnerLimitInstance | null): OwnerLimitOverrides {
+  return {
+    requestsPerMinute: row?.requestsPerMinute ?? null,
+    maxAssets: row?.maxAssets ?? null,
+    maxBytesPerCategory: row?.maxBytesPerCategory ?? {},
+  }
+}
+
+/**
+ * Apply overrides on top of the defaults
+ */
+export function resolveLimits(overrides: OwnerLimitOverrides, defaults: OwnerLimits = defaultLimits()): OwnerLimits {
+  return {
+    requestsPerMinute: overrides.requestsPerMinute ?? defaults.requestsPerMinute,
+    maxAssets: overrides.maxAssets ?? defaults.maxAssets,
+    maxBytesPerCategory: categoryBytes(
+      (category) => overrides.maxBytesPerCategory[category] ?? defaults.maxBytesPerCategory[category]
+    ),
+  }
+}
+
+/**
+ * Limits that apply to an owner, with the overrides they come from
+ */
+export async function getOwnerLimits(
+  ownerId: string,
+  transaction?: Transaction
+): Promise<{ limits: OwnerLimits; overrides: OwnerLimitOverrides }> {
+  const overrides = toOverrides(await OwnerLimit.findByPk(ownerId, { transaction }))
+  return { limits: resolveLimits(overrides), overrides }
+}
+
+/**
+ * Start of the rate-limit window containing `now`
+ */
+export function rateLimitWindowStart(now: Date): Date {
+  const windowMs = RATE_LIMIT_WINDOW_SECONDS * 1000
+  return new Date(Math.floor(now.getTime() / windowMs) * windowMs)
+}
+
+/**
+ * Count a request against the owner's limit
+ * The counter is incremented with one upsert, so concurrent requests are all counted. The first
+ * request of a window deletes the owner's older windows.
+ */
+export async function consumeRequest(ownerId: string, limit: number, now: Date = new Date()): Promise<RateLimitResult> {
+  const windowStart = rateLimitWindowStart(now)
+  await sequelize.query(
+    'INSERT INTO `RateLimitWindows` (`ownerId`, `windowStart`, `requestCount`) VALUES (?, ?, 1) ' +
+      'ON DUPLICATE KEY UPDATE `requestCount` = `requestCount` + 1',
+    { replacements: [ownerId, windowStart] }
+  )
+  const window = await RateLimitWindow.findOne({ where: { ownerId, windowStart } })
+  const count = window?.requestCount ?? 1
+
+  if (count === 1) {
+    await RateLimitWindow.destroy({ where: { ownerId, windowStart: { [Op.lt]: windowStart } } })
+  }
+
+  const windowEnd = windowStart.getTime() + RATE_LIMIT_WINDOW_SECONDS * 1000
+  return {
+    allowed: limit === 0 || count <= limit,
+    limit,
+    count,
+    remaining: limit === 0 ? 0 : Math.max(0, limit - count),
+    retryAfterSeconds: Math.max(1, Math.ceil((windowEnd - now.getTime()) / 1000)),
+  }
+}
+
+/**
+ * Requests counted for the owner in the current window
+ */
+export async function countRequests(ownerId: string, now: Date = new Date()): Promise<number> {
+  const window = await RateLimitWindow.findOne({ where: { ownerId, windowStart: rateLimitWindowStart(now) } })
+  return window?.requestCount ?? 0
+}
+
+/**
+ * Number of the owner's assets outside the trash
+ */
+export async function countAssets(ownerId: string, transaction?: Transaction): Promise<number> {
+  return Asset.count({ where: { ownerId }, transaction })
+}
+
+/**
+ * Total size of the files of the owner's assets (outside the trash), by asset category
+ */
+export async function sumFileBytes(ownerId: string, transaction?: Transaction): Promise<CategoryBytes> {
+  const rows = (await AssetFile.findAll({
+    attributes: [
+      [col('asset.category'), 'category'],
+      [fn('SUM', col('AssetFile.size')), 'bytes'],
+    ],
+    include: [{ association: 'asset', attributes: [], where: { ownerId } }],
+    group: [col('asset.category')],
+    raw: true,
+    transaction,
+  })) as unknown as { category: AssetCategory; bytes: string | number }[]
+
+  const totals = new Map(rows.map((row) => [row.category, Number(row.bytes)]))
+  return categoryBytes((category) => totals.get(category) ?? 0)
+}
+
+/**
+ * Reject creating `adding` more assets when the owner would exceed maxAssets (413)
+ */
+export async function assertAssetQuota(ownerId: string, adding: number, transaction?: Transaction): Promise<void> {
+  const { limits } = await getOwnerLimits(ownerId, transaction)
+  if (limits.maxAssets === 0) {
+    return
+  }
+  const count = await countAssets(ownerId, transaction)
+  if (count + adding > limits.maxAssets) {
+    throw payloadTooLarge(
+      `Asset quota exceeded: ${count} of ${limits.maxAssets} assets in use` +
+        (adding > 1 ? `, ${adding} more requested` : '')
+    )
+  }
+}
+
+/**
+ * Reject storing `bytes` more for an asset of `category` when the owner would exceed the
+ * category's byte quota (413)
+ */
+export async function assertStorageQuota(
+  ownerId: string,
+  category: AssetCategory,
+  bytes: number,
+  transaction?: Transaction
+): Promise<void> {
+  const { limits } = await getOwnerLimits(ownerId, transaction)
+  const maxBytes = limits.maxBytesPerCategory[category]
+  if (maxBytes === 0) {
+    return
+  }
+  const used = (await sumFileBytes(ownerId, transaction))[category]
+  if (used + bytes > maxBytes) {
+    throw payloadTooLarge(
+      `Storage quota for ${category} assets exceeded: ${used} of ${maxBytes} bytes in use, ${bytes} more requested`
+    )
+  }
+}
+
+/**
+ * Reject moving an asset to `category` when its files would take the owner over that category's
+ * byte quota (413); the files count towards the category of their asset
+ */
+export async function assertCategoryChangeQuota(
+  asset: AssetInstance,
+  category: AssetCategory,
+  transaction?: Transaction
+): Promise<void> {
+  if (category === asset.category) {
+    return
+  }
+  const fileBytes = (await AssetFile.sum('size', { where: { assetId: asset.id }, transaction })) || 0
+  if (fileBytes > 0) {
+    await assertStorageQuota(asset.ownerId, category, fileBytes, transaction)
+  }
+}
+
+/**
+ * Limits and current usage of an owner, for GET /usage and the admin endpoints
+ */
+export async function getUsageSummary(ownerId: string, now: Date = new Date()) {
+  const [{ limits, overrides }, assets, bytesByCategory, requests] = await Promise.all([
+    getOwnerLimits(ownerId),
+    countAssets(ownerId),
+    sumFileBytes(ownerId),
+    countRequests(ownerId, now),
+  ])
+
+  return {
+    ownerId,
+    limits,
+    overrides: {
+      ...overrides,
+      maxBytesPerCategory: Object.fromEntries(
+        CATEGORIES.map((category) => [category, overrides.maxBytesPerCategory[category] ?? null])
+      ) as Record<AssetCategory, number | null>,
+    },
+    usage: {
+      assets,
+      bytesByCategory,
+      requestsThisMinute: requests,
+    },
+  }
+}
+
+export type UsageSummary = Awaited<ReturnType<typeof getUsageSummary>>
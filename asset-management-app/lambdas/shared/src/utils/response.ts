@@ -1,14 +1,19 @@
 import type { APIGatewayProxyResult } from 'aws-lambda'
+import { logger } from './logger'
+import type { FieldError } from './validation'
 
 /**
  * Common CORS headers for all responses
  */
-const CORS_HEADERS = {
+export const CORS_HEADERS = {
   'Content-Type': 'application/json',
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token',
+  'Access-Control-Allow-Headers':
+    'Content-Type, Authorization, X-Amz-Date, X-Api-Key, X-Amz-Security-Token, X-Request-Id, If-Match, X-Link-Password',
   'Access-Control-Allow-Credentials': 'true',
+  // Lets browser clients read the correlation id set by withLogging, asset ETags and rate-limit headers
+  'Access-Control-Expose-Headers': 'X-Request-Id, ETag, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining',
 }
 
 /**
@@ -16,11 +21,12 @@ const CORS_HEADERS = {
  */
 export function successResponse<T>(
   data: T,
-  statusCode: number = 200
+  statusCode: number = 200,
+  headers: Record<string, string> = {}
 ): APIGatewayProxyResult {
   return {
     statusCode,
-    headers: CORS_HEADERS,
+    headers: { ...CORS_HEADERS, ...headers },
     body: JSON.stringify({
       success: true,
       data,
@@ -28,6 +34,38 @@ export function successResponse<T>(
   }
 }
 
+/**
+ * Create a response with a plain JSON body (no success/data envelope)
+ * For documents consumed by tools, such as GET /openapi.json
+ */
+export function jsonResponse(
+  body: unknown,
+  statusCode: number = 200,
+  headers: Record<string, string> = {}
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { ...CORS_HEADERS, ...headers },
+    body: JSON.stringify(body),
+  }
+}
+
+/**
+ * Create a response with a non-JSON body (CSV, NDJSON)
+ */
+export function textResponse(
+  body: string,
+  contentType: string,
+  headers: Record<string, string> = {},
+  statusCode: number = 200
+): APIGatewayProxyResult {
+  return {
+    statusCode,
+    headers: { ...CORS_HEADERS, 'Content-Type': contentType, ...headers },
+    body,
+  }
+}
+
 /**
  * Create an error API response
  */
@@ -36,8 +74,8 @@ export function errorResponse(
   statusCode: number = 500,
   error?: any
 ): APIGatewayProxyResult {
-  console.error('Error response:', { message, statusCode, error })
-  
+  logger.debug('Error response', { message, statusCode, error })
+
   return {
     statusCode,
     headers: CORS_HEADERS,
@@ -53,7 +91,8 @@ export function errorResponse(
  */
 export function validationErrorResponse(
   message: string,
-  field?: string
+  field?: string,
+  errors?: FieldError[]
 ): APIGatewayProxyResult {
   return {
     statusCode: 400,
@@ -62,6 +101,19 @@ export function validationErrorResponse(
       success: false,
       error: message,
       field,
+      // Every invalid field; a single-field error is listed on its own
+      errors: errors ?? [{ field, message }],
     }),
   }
 }
+
+/**
+ * Create an empty 204 No Content response
+ */
+export function noContentResponse(): APIGatewayProxyResult {
+  return {
+    statusCode: 204,
+    headers: CORS_HEADERS,
+    body: '',
+  }
+}
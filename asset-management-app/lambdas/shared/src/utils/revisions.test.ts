@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { diffSnapshots } from './revisions'
+import { AssetCategory, AssetStatus } from '../types'
+
+describe('diffSnapshots', () => {
+  const before = {
+    name: 'Logo',
+    description: null,
+    category: AssetCategory.IMAGE,
+    status: AssetStatus.ACTIVE,
+    statusNote: null,
+    imageKey: null,
+    externalKey: 'sku-1',
+  }
+
+  it('lists the changed fields only', () => {
+    expect(diffSnapshots(before, { ...before, name: 'New logo', description: 'Blue' })).toEqual([
+      { field: 'name', from: 'Logo', to: 'New logo' },
+      { field: 'description', from: null, to: 'Blue' },
+    ])
+  })
+
+  it('lists every set field for a create', () => {
+    expect(diffSnapshots(null, before).map((change) => change.field)).toEqual([
+      'name',
+      'category',
+      'status',
+      'externalKey',
+    ])
+  })
+})
@@ -0,0 +1,137 @@
+import type { Transaction } from 'sequelize'
+import { AssetRevision } from '../models'
+import {
+  AuditAction,
+  RevisionAction,
+  type AssetAttributes,
+  type AssetInstance,
+  type AssetRevisionInstance,
+  type AssetSnapshot,
+  type RevisionChange,
+  type RevisionField,
+} from '../types'
+import { recordAuditEvent } from './audit'
+import { assertCategoryChangeQuota } from './quotas'
+
+/**
+ * Asset revision history
+ *
+ * Every asset write records a revision in the same transaction, so the history cannot miss a
+ * change that was committed. A revision stores the changed fields and a snapshot of the
+ * recorded fields afterwards, which POST /assets/{id}/revisions/{revision}/restore reapplies.
+ * Each revision also appends an audit event (utils/audit.ts).
+ */
+
+/**
+ * Asset fields recorded in revisions
+ */
+export const REVISION_FIELDS: readonly RevisionField[] = [
+  'name',
+  'description',
+  'category',
+  'status',
+  'statusNote',
+  'imageKey',
+  'externalKey',
+]
+
+/**
+ * Fields a restore writes back
+ * imageKey mirrors the primary file and externalKey is owned by imports, so neither is restored.
+ * Revisions recorded before status existed have no status in the snapshot, so it is kept as is.
+ */
+export const RESTORABLE_FIELDS = [
+  'name',
+  'description',
+  'category',
+  'status',
+  'statusNote',
+] as const satisfies readonly RevisionField[]
+
+const AUDIT_ACTIONS: Record<RevisionAction, AuditAction> = {
+  [RevisionAction.CREATED]: AuditAction.CREATED,
+  [RevisionAction.UPDATED]: AuditAction.UPDATED,
+  [RevisionAction.DELETED]: AuditAction.DELETED,
+  [RevisionAction.RESTORED]: AuditAction.RESTORED,
+  [RevisionAction.REVERTED]: AuditAction.REVERTED,
+}
+
+/**
+ * Current values of the recorded fields
+ */
+export function snapshotAsset(asset: AssetInstance): AssetSnapshot {
+  return Object.fromEntries(REVISION_FIELDS.map((field) => [field, asset[field]])) as AssetSnapshot
+}
+
+/**
+ * Fields that differ between two snapshots; every set field when there is no previous snapshot
+ */
+export function diffSnapshots(before: AssetSnapshot | null, after: AssetSnapshot): RevisionChange[] {
+  return REVISION_FIELDS.filter((field) => (before ? before[field] !== after[field] : after[field] !== null)).map(
+    (field) => ({ field, from: before?.[field] ?? null, to: after[field] })
+  )
+}
+
+export interface RecordRevisionOptions {
+  action: RevisionAction
+  // Cognito `sub` of the caller
+  actorId: string
+  // Snapshot taken before the change; null for created
+  before: AssetSnapshot | null
+  transaction: Transaction
+  revertedTo?: number
+}
+
+/**
+ * Record a revision and audit event for a change already applied to `asset` in `transaction`
+ *
+ * Updates that changed none of the recorded fields are skipped (returns null). The asset row
+ * was written first in the same transaction, so its lock orders concurrent revisions.
+ */
+export async function recordRevision(
+  asset: AssetInstance,
+  options: RecordRevisionOptions
+): Promise<AssetRevisionInstance | null> {
+  const { action, actorId, before, transaction } = options
+  const snapshot = snapshotAsset(asset)
+  const changes = action === RevisionAction.DELETED || action === RevisionAction.RESTORED ? [] : diffSnapshots(before, snapshot)
+
+  if (changes.length === 0 && (action === RevisionAction.UPDATED || action === RevisionAction.REVERTED)) {
+    return null
+  }
+
+  const latest: number | null = await AssetRevision.max('revision', { where: { assetId: asset.id }, transaction })
+
+  await recordAuditEvent(asset, { action: AUDIT_ACTIONS[action], actorId, before, after: snapshot, transaction })
+
+  return AssetRevision.create(
+    {
+      assetId: asset.id,
+      revision: (latest ?? 0) + 1,
+      action,
+      actorId,
+      changes,
+      snapshot,
+      revertedTo: options.revertedTo ?? null,
+    },
+    { transaction }
+  )
+}
+
+/**
+ * Update an asset and record the revision
+ * A new category is checked against the owner's storage quota first (413), since the asset's files
+ * then count towards it.
+ */
+export async function updateAssetWithRevision(
+  asset: AssetInstance,
+  values: Partial<AssetAttributes>,
+  options: Omit<RecordRevisionOptions, 'action' | 'before'> & { action?: RevisionAction }
+): Promise<AssetRevisionInstance | null> {
+  if (values.category !== undefined) {
+    await assertCategoryChangeQuota(asset, values.category, options.transaction)
+  }
+  const before = snapshotAsset(asset)
+  await asset.update(values, { transaction: options.transaction })
+  return recordRevision(asset, { ...options, action: options.action ?? RevisionAction.UPDATED, before })
+}
@@ -0,0 +1,204 @@
+import { Op, literal, type Model, type ModelStatic, type WhereOptions } from 'sequelize'
+import { ValidationError } from './validation'
+import type { PaginationMeta } from './pagination'
+
+/**
+ * Full-text search helpers
+ *
+ * Searches use the ft_name_description FULLTEXT index in boolean mode. User input is
+ * reduced to plain words, so MySQL boolean operators typed by a user are never interpreted.
+ * Every word is required and prefix-matched: "red cha" matches "Red chair".
+ */
+
+export const MAX_QUERY_LENGTH = 200
+export const MAX_SEARCH_TERMS = 10
+
+const SNIPPET_LENGTH = 160
+
+/**
+ * Parse a `q` query parameter into lower-cased, de-duplicated search terms
+ * Returns null when no search was requested
+ */
+export function parseSearchQuery(value: string | undefined): string[] | null {
+  if (value === undefined || value.trim() === '') {
+    return null
+  }
+  if (value.length > MAX_QUERY_LENGTH) {
+    throw new ValidationError(`Search query must be at most ${MAX_QUERY_LENGTH} characters`, 'q')
+  }
+
+  const words = value.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []
+  const terms = [...new Set(words)].slice(0, MAX_SEARCH_TERMS)
+  if (terms.length === 0) {
+    throw new ValidationError('Search query must contain at least one word', 'q')
+  }
+
+  return terms
+}
+
+/**
+ * Build a boolean-mode query requiring every term as a prefix
+ */
+export function toBooleanQuery(terms: string[]): string {
+  return terms.map((term) => `+${term}*`).join(' ')
+}
+
+/**
+ * MATCH ... AGAINST expression for the given terms
+ * Used both as a filter (non-zero when every term matches) and as the relevance score
+ */
+export function matchExpression(model: ModelStatic<any>, terms: string[]) {
+  const query = model.sequelize!.escape(toBooleanQuery(terms))
+  return literal(`MATCH(\`name\`, \`description\`) AGAINST (${query} IN BOOLEAN MODE)`)
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Regex matching words that start with one of the terms
+ */
+function termPattern(terms: string[]): RegExp {
+  const alternatives = terms.map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})[\\p{L}\\p{N}_]*`, 'giu')
+}
+
+/**
+ * HTML-escape text and wrap words matching a term in <mark>
+ */
+export function highlight(text: string, terms: string[]): string {
+  const pattern = termPattern(terms)
+  let result = ''
+  let last = 0
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0
+    result += escapeHtml(text.slice(last, index)) + `<mark>${escapeHtml(match[0])}</mark>`
+    last = index + match[0].length
+  }
+  return result + escapeHtml(text.slice(last))
+}
+
+/**
+ * Highlighted window of up to ~160 characters around the first match
+ * Falls back to the start of the text when only the name matched
+ */
+export function snippet(text: string, terms: string[], length: number = SNIPPET_LENGTH): string {
+  if (text.length <= length) {
+    return highlight(text, terms)
+  }
+
+  const first = termPattern(terms).exec(text)
+  let start = first ? Math.max(0, first.index - Math.floor(length / 4)) : 0
+  start = Math.min(start, text.length - length)
+
+  // Avoid cutting words at the window edges
+  if (start > 0) {
+    const space = text.indexOf(' ', start)
+    if (space !== -1 && space < start + 20) start = space + 1
+  }
+  let end = start + length
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end)
+    if (space > start) end = space
+  }
+
+  const prefix = start > 0 ? '…' : ''
+  const suffix = end < text.length ? '…' : ''
+  return prefix + highlight(text.slice(start, end), terms) + suffix
+}
+
+/**
+ * Highlighted name and description snippet for a search hit
+ */
+export function buildHighlights(
+  asset: { name: string; description: string | null },
+  terms: string[]
+): { name: string; description: string | null } {
+  return {
+    name: highlight(asset.name, terms),
+    description: asset.description ? snippet(asset.description, terms) : null,
+  }
+}
+
+/**
+ * Encode a relevance-mode cursor
+ * Relevance scores are not stable keys, so these cursors carry an offset
+ */
+function encodeSearchCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ r: 1, o: offset })).toString('base64url')
+}
+
+function decodeSearchCursor(token: string): number {
+  let payload: any
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+  } catch (error) {
+    throw new ValidationError('Invalid cursor', 'cursor')
+  }
+  if (!payload || payload.r !== 1 || !Number.isInteger(payload.o) || payload.o < 0) {
+    throw new ValidationError('Cursor does not match the requested sort', 'cursor')
+  }
+  return payload.o
+}
+
+export interface SearchPageOptions {
+  where: WhereOptions
+  terms: string[]
+  limit: number
+  cursor?: string
+  offset?: number
+  includeTotal?: boolean
+}
+
+/**
+ * Fetch one page of search hits ordered by relevance (best first, id as tie-breaker)
+ *
+ * Each row carries its score in the `relevance` attribute. Pagination metadata has the
+ * same shape as findPage, so clients page through search results the same way.
+ */
+export async function findSearchPage<M extends Model & { id: string }>(
+  model: ModelStatic<M>,
+  options: SearchPageOptions
+): Promise<{ rows: M[]; pagination: PaginationMeta }> {
+  const { terms, limit, includeTotal = true } = options
+  const offset = options.cursor ? decodeSearchCursor(options.cursor) : Math.max(options.offset || 0, 0)
+  const match = matchExpression(model, terms)
+  const where = { [Op.and]: [options.where, match] }
+
+  const rows = await model.findAll({
+    attributes: { include: [[match, 'relevance']] },
+    where,
+    order: [
+      [match, 'DESC'],
+      ['id', 'ASC'],
+    ],
+    limit: limit + 1,
+    offset,
+  })
+
+  const hasNext = rows.length > limit
+  const total = includeTotal ? await model.count({ where }) : null
+
+  return {
+    rows: rows.slice(0, limit),
+    pagination: {
+      total,
+      limit,
+      offset,
+      currentPage: Math.floor(offset / limit) + 1,
+      totalPages: total === null ? null : Math.ceil(total / limit),
+      hasMore: hasNext,
+      nextCursor: hasNext ? encodeSearchCursor(offset + limit) : null,
+      prevCursor: offset > 0 ? encodeSearchCursor(Math.max(offset - limit, 0)) : null,
+    },
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { ShareLinkStatus } from '../types'
+import {
+  downloadsRemaining,
+  generateLinkToken,
+  hashLinkPassword,
+  hashLinkToken,
+  linkStatus,
+  lockoutSecondsRemaining,
+  verifyLinkPassword,
+} from './shareLinks'
+
+const now = new Date('2024-05-01T10:00:00.000Z')
+const open = {
+  revokedAt: null,
+  expiresAt: new Date('2024-05-02T10:00:00.000Z'),
+  maxDownloads: 3,
+  downloadCount: 1,
+}
+
+describe('link tokens', () => {
+  it('generates distinct URL-safe tokens and stores only their hash', () => {
+    const token = generateLinkToken()
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    expect(generateLinkToken()).not.toBe(token)
+    expect(hashLinkToken(token)).toMatch(/^[0-9a-f]{64}$/)
+    expect(hashLinkToken(token)).toBe(hashLinkToken(token))
+  })
+})
+
+describe('link passwords', () => {
+  it('verifies the password it was hashed from', async () => {
+    const hash = await hashLinkPassword('correct horse')
+
+    expect(hash).not.toContain('correct horse')
+    expect(await verifyLinkPassword('correct horse', hash)).toBe(true)
+    expect(await verifyLinkPassword('wrong horse', hash)).toBe(false)
+  })
+
+  it('salts each hash', async () => {
+    expect(await hashLinkPassword('same password')).not.toBe(await hashLinkPassword('same password'))
+  })
+
+  it('rejects malformed hashes', async () => {
+    expect(await verifyLinkPassword('anything', 'plain-text')).toBe(false)
+  })
+})
+
+describe('linkStatus', () => {
+  it('is active until it expires, is revoked or runs out of downloads', () => {
+    expect(linkStatus(open, now)).toBe(ShareLinkStatus.ACTIVE)
+    expect(linkStatus({ ...open, expiresAt: now }, now)).toBe(ShareLinkStatus.EXPIRED)
+    expect(linkStatus({ ...open, revokedAt: now }, now)).toBe(ShareLinkStatus.REVOKED)
+    expect(linkStatus({ ...open, downloadCount: 3 }, now)).toBe(ShareLinkStatus.EXHAUSTED)
+    expect(linkStatus({ ...open, maxDownloads: null, downloadCount: 100 }, now)).toBe(ShareLinkStatus.ACTIVE)
+  })
+
+  it('reports revocation before expiry', () => {
+    expect(linkStatus({ ...open, revokedAt: now, expiresAt: now }, now)).toBe(ShareLinkStatus.REVOKED)
+  })
+})
+
+describe('downloadsRemaining', () => {
+  it('counts down to 0, or is null without a limit', () => {
+    expect(downloadsRemaining(open)).toBe(2)
+    expect(downloadsRemaining({ maxDownloads: 1, downloadCount: 2 })).toBe(0)
+    expect(downloadsRemaining({ maxDownloads: null, downloadCount: 2 })).toBeNull()
+  })
+})
+
+describe('lockoutSecondsRemaining', () => {
+  it('is 0 without a lock or once it has passed, else the seconds left rounded up', () => {
+    expect(lockoutSecondsRemaining({ lockedUntil: null }, now)).toBe(0)
+    expect(lockoutSecondsRemaining({ lockedUntil: new Date('2024-05-01T09:59:00.000Z') }, now)).toBe(0)
+    expect(lockoutSecondsRemaining({ lockedUntil: new Date('2024-05-01T10:00:30.500Z') }, now)).toBe(31)
+  })
+})
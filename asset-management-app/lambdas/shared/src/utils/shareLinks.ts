@@ -0,0 +1,159 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+import { Op, col, literal } from 'sequelize'
+import { env } from '../config/env'
+import { sequelize, ShareLink } from '../models'
+import { ShareLinkStatus, type ShareLinkAttributes, type ShareLinkInstance } from '../types'
+
+/**
+ * Public share links
+ *
+ * A link gives anyone with its token read-only access to one asset and short-lived download URLs
+ * for its primary file, without an account. Only the SHA-256 of the token is stored, so a leaked
+ * database does not expose working links; the token is returned once, when the link is created.
+ * Links expire, can be revoked by the owner, can limit the number of downloads and can require a
+ * password (stored as an scrypt hash). After SHARE_LINK_MAX_PASSWORD_ATTEMPTS incorrect passwords a
+ * link refuses passwords for SHARE_LINK_LOCKOUT_MINUTES, so they cannot be guessed quickly.
+ */
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const TOKEN_BYTES = 32
+const SALT_BYTES = 16
+const KEY_LENGTH = 32
+
+/**
+ * New random link token (URL-safe, 43 characters)
+ */
+export function generateLinkToken(): string {
+  return randomBytes(TOKEN_BYTES).toString('base64url')
+}
+
+/**
+ * Stored form of a link token
+ */
+export function hashLinkToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Hash a link password as `scrypt$<salt>$<key>` (base64)
+ */
+export async function hashLinkPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES)
+  const key = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`
+}
+
+/**
+ * Check a password against a hash from hashLinkPassword, in constant time
+ */
+export async function verifyLinkPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, key] = passwordHash.split('$')
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false
+  }
+  const expected = Buffer.from(key, 'base64')
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+/**
+ * Whether a link can still be opened at `now`
+ * Revocation wins over expiry, and expiry over used-up downloads.
+ */
+export function linkStatus(
+  link: Pick<ShareLinkAttributes, 'revokedAt' | 'expiresAt' | 'maxDownloads' | 'downloadCount'>,
+  now: Date = new Date()
+): ShareLinkStatus {
+  if (link.revokedAt) {
+    return ShareLinkStatus.REVOKED
+  }
+  if (link.expiresAt.getTime() <= now.getTime()) {
+    return ShareLinkStatus.EXPIRED
+  }
+  if (link.maxDownloads !== null && link.downloadCount >= link.maxDownloads) {
+    return ShareLinkStatus.EXHAUSTED
+  }
+  return ShareLinkStatus.ACTIVE
+}
+
+/**
+ * Downloads left on a link (null: no limit)
+ */
+export function downloadsRemaining(link: Pick<ShareLinkAttributes, 'maxDownloads' | 'downloadCount'>): number | null {
+  return link.maxDownloads === null ? null : Math.max(link.maxDownloads - link.downloadCount, 0)
+}
+
+/**
+ * Seconds until a locked link accepts passwords again (0: not locked)
+ */
+export function lockoutSecondsRemaining(
+  link: Pick<ShareLinkAttributes, 'lockedUntil'>,
+  now: Date = new Date()
+): number {
+  if (!link.lockedUntil || link.lockedUntil.getTime() <= now.getTime()) {
+    return 0
+  }
+  return Math.ceil((link.lockedUntil.getTime() - now.getTime()) / 1000)
+}
+
+/**
+ * Count an incorrect password; the attempt that reaches SHARE_LINK_MAX_PASSWORD_ATTEMPTS locks the
+ * link for SHARE_LINK_LOCKOUT_MINUTES and starts the count again
+ * One UPDATE, so concurrent guesses are all counted. Returns the seconds the link is locked for
+ * (0 when this attempt did not lock it).
+ */
+export async function recordFailedPassword(link: ShareLinkInstance, now: Date = new Date()): Promise<number> {
+  const lockedUntil = new Date(now.getTime() + env.SHARE_LINK_LOCKOUT_MINUTES * 60 * 1000)
+  // lockedUntil is assigned first, so both expressions read the count before this attempt
+  await sequelize.query(
+    'UPDATE `ShareLinks` SET ' +
+      '`lockedUntil` = IF(`failedPasswordAttempts` + 1 >= ?, ?, `lockedUntil`), ' +
+      '`failedPasswordAttempts` = IF(`failedPasswordAttempts` + 1 >= ?, 0, `failedPasswordAttempts` + 1) ' +
+      'WHERE `id` = ?',
+    {
+      replacements: [
+        env.SHARE_LINK_MAX_PASSWORD_ATTEMPTS,
+        lockedUntil,
+        env.SHARE_LINK_MAX_PASSWORD_ATTEMPTS,
+        link.id,
+      ],
+    }
+  )
+  await link.reload()
+  return lockoutSecondsRemaining(link, now)
+}
+
+/**
+ * Count an open of the link, and a download when `download` is set
+ * One conditional UPDATE, so concurrent downloads cannot go over maxDownloads. A successful open
+ * clears the count of incorrect passwords. Returns false when the link was revoked or ran out of
+ * downloads since it was read.
+ */
+export async function recordLinkAccess(
+  link: ShareLinkInstance,
+  download: boolean,
+  now: Date = new Date()
+): Promise<boolean> {
+  const [updated] = await ShareLink.update(
+    {
+      accessCount: literal('`accessCount` + 1'),
+      ...(download && { downloadCount: literal('`downloadCount` + 1') }),
+      failedPasswordAttempts: 0,
+      lastAccessedAt: now,
+    },
+    {
+      where: {
+        id: link.id,
+        revokedAt: null,
+        ...(download && { [Op.or]: [{ maxDownloads: null }, { downloadCount: { [Op.lt]: col('maxDownloads') } }] }),
+      },
+    }
+  )
+  if (updated === 0) {
+    return false
+  }
+  await link.reload()
+  return true
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { ShareRole } from '../types'
+import { hasAccess, highestAccess } from './shares'
+
+describe('hasAccess', () => {
+  it('orders owner above editor above viewer', () => {
+    expect(hasAccess('owner', ShareRole.EDITOR)).toBe(true)
+    expect(hasAccess(ShareRole.EDITOR, ShareRole.VIEWER)).toBe(true)
+    expect(hasAccess(ShareRole.EDITOR, ShareRole.EDITOR)).toBe(true)
+    expect(hasAccess(ShareRole.VIEWER, ShareRole.EDITOR)).toBe(false)
+    expect(hasAccess(ShareRole.EDITOR, 'owner')).toBe(false)
+  })
+
+  it('denies everything without access', () => {
+    expect(hasAccess(null, ShareRole.VIEWER)).toBe(false)
+  })
+})
+
+describe('highestAccess', () => {
+  it('picks the highest role of several shares', () => {
+    expect(highestAccess([ShareRole.VIEWER, ShareRole.EDITOR, ShareRole.VIEWER])).toBe(ShareRole.EDITOR)
+    expect(highestAccess([ShareRole.VIEWER])).toBe(ShareRole.VIEWER)
+  })
+
+  it('returns null without shares', () => {
+    expect(highestAccess([])).toBeNull()
+  })
+})
@@ -0,0 +1,125 @@
+import { Op, literal, type ModelStatic, type Transaction, type WhereOptions } from 'sequelize'
+import { AssetShare } from '../models'
+import { AssetScope, ShareGranteeType, ShareRole, type AssetInstance, type AssetShareAttributes } from '../types'
+import type { AuthContext } from '../http/auth'
+
+/**
+ * Asset access through ownership and shares
+ *
+ * The owner can do everything. A share grants a user (Cognito sub) or every member of a Cognito
+ * group `viewer` access (read the asset, its files, tags and revisions) or `editor` access (viewer,
+ * plus PATCH /assets/{id}). Trashing, restoring, files, tags and sharing stay with the owner.
+ * When several shares apply to a caller, the highest role wins.
+ */
+
+export type AssetAccess = ShareRole | 'owner'
+
+// Lowest first
+const ACCESS_ORDER: AssetAccess[] = [ShareRole.VIEWER, ShareRole.EDITOR, 'owner']
+
+/**
+ * Whether `access` includes everything `required` allows
+ */
+export function hasAccess(access: AssetAccess | null, required: AssetAccess): boolean {
+  return access !== null && ACCESS_ORDER.indexOf(access) >= ACCESS_ORDER.indexOf(required)
+}
+
+/**
+ * Highest of the given access levels (null for none)
+ */
+export function highestAccess(levels: AssetAccess[]): AssetAccess | null {
+  return levels.reduce<AssetAccess | null>((best, level) => (hasAccess(best, level) ? best : level), null)
+}
+
+/**
+ * AssetShares rows that grant something to the caller: their own, and their groups'
+ */
+export function granteeConditions(auth: AuthContext): WhereOptions<AssetShareAttributes> {
+  return {
+    [Op.or]: [
+      { granteeType: ShareGranteeType.USER, granteeId: auth.ownerId },
+      ...(auth.groups.length > 0 ? [{ granteeType: ShareGranteeType.GROUP, granteeId: auth.groups }] : []),
+    ],
+  }
+}
+
+/**
+ * The caller's access to an asset (null: none)
+ */
+export async function getAssetAccess(
+  asset: AssetInstance,
+  auth: AuthContext,
+  transaction?: Transaction
+): Promise<AssetAccess | null> {
+  if (asset.ownerId === auth.ownerId) {
+    return 'owner'
+  }
+  const shares = await AssetShare.findAll({
+    attributes: ['role'],
+    where: { assetId: asset.id, ...granteeConditions(auth) },
+    transaction,
+  })
+  return highestAccess(shares.map((share) => share.role))
+}
+
+/**
+ * The caller's access to each of a page of assets, by asset ID
+ * Assets without access are left out (they cannot be listed).
+ */
+export async function getAccessByAsset(assets: AssetInstance[], auth: AuthContext): Promise<Map<string, AssetAccess>> {
+  const access = new Map<string, AssetAccess>()
+  const shared: string[] = []
+  for (const asset of assets) {
+    if (asset.ownerId === auth.ownerId) {
+      access.set(asset.id, 'owner')
+    } else {
+      shared.push(asset.id)
+    }
+  }
+  if (shared.length === 0) {
+    return access
+  }
+
+  const shares = await AssetShare.findAll({
+    attributes: ['assetId', 'role'],
+    where: { assetId: shared, ...granteeConditions(auth) },
+  })
+  for (const share of shares) {
+    const current = access.get(share.assetId)
+    access.set(share.assetId, current && hasAccess(current, share.role) ? current : share.role)
+  }
+  return access
+}
+
+/**
+ * `id IN (...)` condition for the assets shared with the caller
+ * Values are escaped
+ */
+export function sharedWithExpression(model: ModelStatic<any>, auth: AuthContext) {
+  const escape = (value: string) => model.sequelize!.escape(value)
+  const grantees = [`(\`s\`.\`granteeType\` = 'user' AND \`s\`.\`granteeId\` = ${escape(auth.ownerId)})`]
+  if (auth.groups.length > 0) {
+    const groups = auth.groups.map(escape).join(', ')
+    grantees.push(`(\`s\`.\`granteeType\` = 'group' AND \`s\`.\`granteeId\` IN (${groups}))`)
+  }
+  return literal(
+    `\`${model.name}\`.\`id\` IN (SELECT \`s\`.\`assetId\` FROM \`AssetShares\` AS \`s\` ` +
+      `WHERE ${grantees.join(' OR ')})`
+  )
+}
+
+/**
+ * Condition for the assets in a GET /assets scope
+ */
+export function assetScopeFilter(model: ModelStatic<any>, auth: AuthContext, scope: AssetScope): WhereOptions {
+  const owned = { ownerId: auth.ownerId }
+  switch (scope) {
+    case AssetScope.OWNED:
+      return owned
+    case AssetScope.SHARED:
+      // A group share can include the owner, whose assets are not "shared with" them
+      return { [Op.and]: [sharedWithExpression(model, auth), { ownerId: { [Op.ne]: auth.ownerId } }] }
+    case AssetScope.ALL:
+      return { [Op.or]: [owned, sharedWithExpression(model, auth)] }
+  }
+}
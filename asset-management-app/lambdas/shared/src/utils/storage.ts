@@ -0,0 +1,107 @@
+import {
+  S3Client,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+} from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { env } from '../config/env'
+
+// Reuse the client across invocations (Lambda container reuse)
+let s3Client: S3Client | null = null
+
+/**
+ * Get the shared S3 client
+ * S3_ENDPOINT points it at a local S3 stand-in (MinIO, LocalStack) for development and tests
+ */
+export function getS3Client(): S3Client {
+  if (!s3Client) {
+    s3Client = new S3Client({
+      region: env.AWS_REGION,
+      ...(env.S3_ENDPOINT && {
+        endpoint: env.S3_ENDPOINT,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      }),
+    })
+  }
+  return s3Client
+}
+
+/**
+ * Name of the asset bucket
+ */
+function requireBucket(): string {
+  if (!env.ASSET_BUCKET_NAME) {
+    throw new Error('ASSET_BUCKET_NAME environment variable not set')
+  }
+  return env.ASSET_BUCKET_NAME
+}
+
+/**
+ * Delete objects from the asset bucket
+ * Sent in batches of 1000 keys (the DeleteObjects limit). Returns the keys that could not be deleted
+ */
+export async function deleteObjects(keys: string[]): Promise<string[]> {
+  const failed: string[] = []
+
+  for (let i = 0; i < keys.length; i += 1000) {
+    const response = await getS3Client().send(
+      new DeleteObjectsCommand({
+        Bucket: requireBucket(),
+        Delete: {
+          Objects: keys.slice(i, i + 1000).map((Key) => ({ Key })),
+          Quiet: true,
+        },
+      })
+    )
+    failed.push(...(response.Errors || []).map((error) => error.Key).filter((key): key is string => !!key))
+  }
+
+  return failed
+}
+
+/**
+ * Presigned PUT URL for uploading one object
+ * The client must send the same Content-Type header it was signed with
+ */
+export async function createUploadUrl(key: string, contentType: string, expiresIn: number): Promise<string> {
+  return getSignedUrl(
+    getS3Client(),
+    new PutObjectCommand({ Bucket: requireBucket(), Key: key, ContentType: contentType }),
+    { expiresIn }
+  )
+}
+
+/**
+ * Presigned GET URL for downloading one object
+ * `fileName` sets Content-Disposition so browsers save the object under that name
+ */
+export async function createDownloadUrl(key: string, expiresIn: number, fileName?: string): Promise<string> {
+  return getSignedUrl(
+    getS3Client(),
+    new GetObjectCommand({
+      Bucket: requireBucket(),
+      Key: key,
+      ...(fileName && {
+        ResponseContentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      }),
+    }),
+    { expiresIn }
+  )
+}
+
+/**
+ * Size and content type of an object, or null if it does not exist
+ */
+export async function headObject(key: string): Promise<{ size: number; contentType: string | null } | null> {
+  try {
+    const response = await getS3Client().send(new HeadObjectCommand({ Bucket: requireBucket(), Key: key }))
+    return { size: response.ContentLength ?? 0, contentType: response.ContentType ?? null }
+  } catch (error: any) {
+    if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+      return null
+    }
+    throw error
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest'
+import { parseTagFilter } from './tags'
+import { ValidationError } from './validation'
+
+describe('parseTagFilter', () => {
+  it('splits on the first ":"; a bare name matches any value', () => {
+    expect(parseTagFilter(' env:prod , team ,url:http://x ')).toEqual([
+      { name: 'env', value: 'prod' },
+      { name: 'team', value: null },
+      { name: 'url', value: 'http://x' },
+    ])
+  })
+
+  it('returns null for an empty filter', () => {
+    expect(parseTagFilter('')).toBeNull()
+  })
+
+  it('rejects a tag without a name', () => {
+    expect(() => parseTagFilter('env:prod,:orphan')).toThrow(ValidationError)
+    expect(() => parseTagFilter('env:prod,:orphan')).toThrow(expect.objectContaining({ field: 'tag' }))
+  })
+})
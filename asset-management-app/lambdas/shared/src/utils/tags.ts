@@ -0,0 +1,58 @@
+import { literal, type ModelStatic } from 'sequelize'
+import { TAG_LIMITS } from '../schemas/tags'
+import { ValidationError } from './validation'
+
+/**
+ * Tag filters for asset queries
+ *
+ * `tag=env:prod,team` matches assets that have every listed tag; a name without a value
+ * matches the tag with any value.
+ */
+
+export interface TagFilter {
+  name: string
+  // null matches any value
+  value: string | null
+}
+
+/**
+ * Parse a `tag` query parameter
+ * Returns null when no tag filter was requested
+ */
+export function parseTagFilter(value: string | undefined): TagFilter[] | null {
+  if (value === undefined || value.trim() === '') {
+    return null
+  }
+
+  const filters = value.split(',').map((item) => {
+    const separator = item.indexOf(':')
+    const name = (separator === -1 ? item : item.slice(0, separator)).trim()
+    const tagValue = separator === -1 ? null : item.slice(separator + 1).trim()
+    if (!name || name.length > TAG_LIMITS.nameMaxLength || (tagValue?.length ?? 0) > TAG_LIMITS.valueMaxLength) {
+      throw new ValidationError(`Invalid tag filter "${item.trim()}"; use name or name:value`, 'tag')
+    }
+    return { name, value: tagValue }
+  })
+
+  if (filters.length > TAG_LIMITS.filterMaxTags) {
+    throw new ValidationError(`At most ${TAG_LIMITS.filterMaxTags} tags can be filtered on`, 'tag')
+  }
+  return filters
+}
+
+/**
+ * One `id IN (...)` condition per tag, for the asset owner's tags
+ * Combine them with Op.and; values are escaped
+ */
+export function tagFilterExpressions(model: ModelStatic<any>, filters: TagFilter[]) {
+  const escape = (value: string) => model.sequelize!.escape(value)
+  return filters.map((filter) =>
+    literal(
+      `\`${model.name}\`.\`id\` IN (SELECT \`at\`.\`assetId\` FROM \`AssetTags\` AS \`at\` ` +
+        'INNER JOIN `Tags` AS `t` ON `t`.`id` = `at`.`tagId` ' +
+        `WHERE \`t\`.\`ownerId\` = \`${model.name}\`.\`ownerId\` AND \`t\`.\`name\` = ${escape(filter.name)}` +
+        (filter.value === null ? '' : ` AND \`t\`.\`value\` = ${escape(filter.value)}`) +
+        ')'
+    )
+  )
+}
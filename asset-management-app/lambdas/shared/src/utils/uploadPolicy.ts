@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto'
+import { AssetCategory, AssetFileRole } from '../types'
+import { ValidationError } from './validation'
+
+const MB = 1024 * 1024
+
+/**
+ * Allowed content types and maximum size for an asset category
+ * `contentTypes: null` accepts any content type
+ */
+export interface UploadPolicy {
+  contentTypes: Record<string, string> | null
+  maxSize: number
+}
+
+/**
+ * Upload rules per category (content type -> file extension used in the object key)
+ */
+export const UPLOAD_POLICIES: Record<AssetCategory, UploadPolicy> = {
+  [AssetCategory.IMAGE]: {
+    contentTypes: {
+      'image/jpeg': '.jpg',
+      'image/png': '.png',
+      'image/gif': '.gif',
+      'image/webp': '.webp',
+      'image/svg+xml': '.svg',
+    },
+    maxSize: 10 * MB,
+  },
+  [AssetCategory.DOCUMENT]: {
+    contentTypes: {
+      'application/pdf': '.pdf',
+      'text/plain': '.txt',
+      'text/csv': '.csv',
+      'application/msword': '.doc',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+      'application/vnd.ms-excel': '.xls',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+    },
+    maxSize: 25 * MB,
+  },
+  [AssetCategory.VIDEO]: {
+    contentTypes: {
+      'video/mp4': '.mp4',
+      'video/quicktime': '.mov',
+      'video/webm': '.webm',
+    },
+    maxSize: 500 * MB,
+  },
+  [AssetCategory.OTHER]: {
+    contentTypes: null,
+    maxSize: 50 * MB,
+  },
+}
+
+/**
+ * Category whose policy applies to a file with the given role
+ * Primary files follow the asset category, thumbnails are images and attachments may be any file
+ */
+export function policyCategory(category: AssetCategory, role: AssetFileRole): AssetCategory {
+  switch (role) {
+    case AssetFileRole.THUMBNAIL:
+      return AssetCategory.IMAGE
+    case AssetFileRole.ATTACHMENT:
+      return AssetCategory.OTHER
+    default:
+      return category
+  }
+}
+
+/**
+ * Check a declared or stored upload against the category policy
+ */
+export function validateUpload(category: AssetCategory, contentType: unknown, size: unknown): void {
+  const policy = UPLOAD_POLICIES[category]
+
+  if (typeof contentType !== 'string' || !/^[\w.+-]+\/[\w.+-]+$/.test(contentType)) {
+    throw new ValidationError('contentType must be a MIME type such as image/png', 'contentType')
+  }
+  if (policy.contentTypes && !(contentType in policy.contentTypes)) {
+    throw new ValidationError(
+      `Content type ${contentType} is not allowed for ${category} assets. ` +
+        `Allowed: ${Object.keys(policy.contentTypes).join(', ')}`,
+      'contentType'
+    )
+  }
+
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < 1) {
+    throw new ValidationError('size must be a positive number of bytes', 'size')
+  }
+  if (size > policy.maxSize) {
+    throw new ValidationError(
+      `File is too large for ${category} assets (max ${policy.maxSize / MB} MB)`,
+      'size'
+    )
+  }
+}
+
+/**
+ * Storage prefix owned by a user, matching 'assets/{entity_id}/*' in amplify/storage/resource.ts
+ */
+export function ownerPrefix(ownerId: string): string {
+  return `assets/${ownerId}/`
+}
+
+/**
+ * Prefix for one asset's uploads
+ */
+export function assetPrefix(ownerId: string, assetId: string): string {
+  return `${ownerPrefix(ownerId)}${assetId}/`
+}
+
+/**
+ * Generate a fresh object key for an upload
+ * Every upload gets a new key so a pending upload never overwrites the current object
+ */
+export function buildObjectKey(ownerId: string, assetId: string, category: AssetCategory, contentType: string): string {
+  const extension = UPLOAD_POLICIES[category].contentTypes?.[contentType] ?? ''
+  return `${assetPrefix(ownerId, assetId)}${randomUUID()}${extension}`
+}
@@ -0,0 +1,51 @@
+import path from 'path'
+import { defineConfig } from 'vitest/config'
+
+/**
+ * Test runner configuration for lambdas/shared and lambdas/functions
+ *
+ * unit: *.test.ts, no database or AWS access
+ * db:   *.db.test.ts, against a MySQL 8.0 test database and the local S3 stand-in
+ *       (see src/testing/globalSetup.ts); each test starts with empty tables
+ *
+ * Coverage is reported for lambdas/shared/src only.
+ */
+export default defineConfig({
+  // Tests live next to the code in both shared/src and functions/<name>
+  root: path.resolve(__dirname, '..'),
+  cacheDir: path.resolve(__dirname, 'node_modules/.vite'),
+  test: {
+    // Database and S3 stand-in startup on the first run can take a while
+    hookTimeout: 120_000,
+    env: {
+      LOG_LEVEL: 'error',
+    },
+    coverage: {
+      provider: 'v8',
+      include: ['shared/src/**/*.ts'],
+      exclude: ['shared/src/**/*.test.ts', 'shared/src/testing/**', 'shared/src/index.ts'],
+      reporter: ['text-summary', 'html', 'lcov'],
+      reportsDirectory: path.resolve(__dirname, 'coverage'),
+    },
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: 'unit',
+          include: ['shared/src/**/*.test.ts', 'functions/*/*.test.ts'],
+          exclude: ['**/*.db.test.ts', '**/node_modules/**'],
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: 'db',
+          include: ['shared/src/**/*.db.test.ts', 'functions/*/*.db.test.ts'],
+          exclude: ['**/node_modules/**'],
+          globalSetup: ['shared/src/testing/globalSetup.ts'],
+          setupFiles: ['shared/src/testing/setupDatabase.ts'],
+        },
+      },
+    ],
+  },
+})